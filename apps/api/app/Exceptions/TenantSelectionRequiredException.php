@@ -0,0 +1,30 @@
+<?php
+
+namespace App\Exceptions;
+
+use Exception;
+
+/**
+ * A new social login matches invitations from more than one company, so
+ * the app has to start again with the one to join.
+ */
+class TenantSelectionRequiredException extends Exception
+{
+    /**
+     * @param  array<int, array{id: string, name: string}>  $tenants
+     */
+    public function __construct(protected array $tenants)
+    {
+        parent::__construct('Choose a company to sign in to');
+    }
+
+    /**
+     * The companies to choose from.
+     *
+     * @return array<int, array{id: string, name: string}>
+     */
+    public function getTenants(): array
+    {
+        return $this->tenants;
+    }
+}
@@ -4,18 +4,25 @@
 
 use App\Http\Requests\AcceptInvitationRequest;
 use App\Http\Requests\LoginRequest;
+use App\Models\Company;
+use App\Models\Invitation;
 use App\Models\User;
+use App\Services\Security\PasswordPolicyService;
 use App\Services\TenantCreationService;
 use Exception;
+use Illuminate\Auth\Events\PasswordReset;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Hash;
+use Illuminate\Support\Facades\Password;
 use Illuminate\Support\Facades\RateLimiter;
+use Illuminate\Support\Str;
 
 class AuthController extends Controller
 {
     public function __construct(
-        private TenantCreationService $tenantCreationService
+        private TenantCreationService $tenantCreationService,
+        private PasswordPolicyService $passwordPolicy
     ) {}
 
     /**
@@ -52,6 +59,28 @@ public function acceptInvitation(AcceptInvitationRequest $request, string $token
         }
     }
 
+    /**
+     * Show who a pending invitation is for, so the app can fill in the
+     * acceptance form.
+     */
+    public function showInvitation(string $token): JsonResponse
+    {
+        $invitation = Invitation::where('token', $token)->first();
+
+        if (! $invitation || ! $invitation->isValid()) {
+            return response()->json([
+                'message' => 'Invitation not found or no longer valid',
+            ], 404);
+        }
+
+        return response()->json([
+            'email' => $invitation->email,
+            'role' => $invitation->role,
+            'company' => $invitation->company->name ?? null,
+            'expires_at' => $invitation->expires_at->toISOString(),
+        ]);
+    }
+
     /**
      * User login with Remember Me support.
      */
@@ -119,11 +148,174 @@ public function login(LoginRequest $request): JsonResponse
                 'email' => $user->email,
                 'role' => $user->role,
                 'tenant_id' => $user->tenant_id,
+                'must_change_password' => (bool) $user->must_change_password,
             ],
             'token' => $token->plainTextToken,
             'expires_at' => $tokenExpiration->toISOString(),
             'remember_me' => $rememberMe,
+            'company' => $user->company->name ?? null,
+        ]);
+    }
+
+    /**
+     * Confirm the authenticated user's password before a sensitive action,
+     * without issuing a token or recording a login.
+     */
+    public function confirmPassword(Request $request): JsonResponse
+    {
+        $request->validate([
+            'password' => 'required|string',
+        ]);
+
+        $user = $request->user();
+        $key = 'password-confirm:' . $user->id;
+
+        if (RateLimiter::tooManyAttempts($key, 5)) {
+            $seconds = RateLimiter::availableIn($key);
+
+            return response()->json([
+                'message' => 'Too many attempts. Please try again in ' . $seconds . ' seconds.',
+            ], 429);
+        }
+
+        if (! Hash::check($request->password, $user->password)) {
+            RateLimiter::hit($key, 60);
+
+            return response()->json([
+                'message' => 'Incorrect password',
+                'confirmed' => false,
+            ]);
+        }
+
+        RateLimiter::clear($key);
+
+        return response()->json([
+            'message' => 'Password confirmed',
+            'confirmed' => true,
+        ]);
+    }
+
+    /**
+     * Change the authenticated user's password, which also completes a
+     * change an admin required.
+     */
+    public function changePassword(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        $request->validate([
+            'current_password' => 'required|string|current_password:sanctum',
+            'password' => [
+                'required',
+                'confirmed',
+                'different:current_password',
+                ...$this->passwordPolicy->rules($user->company, $user),
+            ],
+        ]);
+
+        $user->forceFill([
+            'password' => Hash::make($request->password),
+            'must_change_password' => false,
+        ])->save();
+
+        activity('password_changed')
+            ->performedOn($user)
+            ->withProperties([
+                'ip_address' => $request->ip(),
+                'user_agent' => $request->userAgent(),
+            ])
+            ->log('User changed their password');
+
+        return response()->json([
+            'message' => 'Password changed successfully',
+        ]);
+    }
+
+    /**
+     * Email a password reset link. The response is the same whether or not
+     * the address has an account, so it can't be used to look accounts up.
+     */
+    public function sendPasswordResetLink(Request $request): JsonResponse
+    {
+        $request->validate([
+            'email' => 'required|email|max:255',
+        ]);
+
+        $status = Password::broker()->sendResetLink($request->only('email'));
+
+        if ($status === Password::RESET_THROTTLED) {
+            return response()->json([
+                'message' => trans($status),
+            ], 429);
+        }
+
+        return response()->json([
+            'message' => 'If an account exists for this email, a password reset link has been sent.',
+        ]);
+    }
+
+    /**
+     * Set a new password with the token from a reset link. Signs the user
+     * out everywhere, since the old password may have been compromised.
+     */
+    public function resetPassword(Request $request): JsonResponse
+    {
+        $request->validate([
+            'token' => 'required|string',
+            'email' => 'required|email',
+        ]);
+
+        $user = User::where('email', $request->email)->first();
+        // Only check reuse for a valid token, or the check would reveal old passwords
+        $resetting = $user && Password::broker()->tokenExists($user, $request->token) ? $user : null;
+
+        $request->validate([
+            'password' => ['required', 'confirmed', ...$this->passwordPolicy->rules($user?->company, $resetting)],
+        ]);
+
+        $status = Password::broker()->reset(
+            $request->only('email', 'password', 'password_confirmation', 'token'),
+            function (User $user, string $password) {
+                $user->forceFill([
+                    'password' => Hash::make($password),
+                    'must_change_password' => false,
+                ])->setRememberToken(Str::random(60));
+
+                $user->save();
+                $user->tokens()->delete();
+
+                event(new PasswordReset($user));
+            }
+        );
+
+        if ($status !== Password::PASSWORD_RESET) {
+            return response()->json([
+                'message' => trans($status),
+                'errors' => ['email' => [trans($status)]],
+            ], 422);
+        }
+
+        return response()->json([
+            'message' => trans($status),
+        ]);
+    }
+
+    /**
+     * The password policy of the company a new password is for: the signed-in
+     * user's, or else the one an invitation or reset token belongs to. Without
+     * any of these, the default policy.
+     */
+    public function passwordPolicy(Request $request): JsonResponse
+    {
+        $request->validate([
+            'invitation_token' => 'nullable|string',
+            'reset_token' => 'nullable|string',
+            'email' => 'required_with:reset_token|nullable|email',
         ]);
+
+        return response()->json(
+            $this->passwordPolicy->forCompany($this->passwordPolicyCompany($request))
+        );
     }
 
     /**
@@ -149,4 +341,32 @@ public function logout(Request $request): JsonResponse
             'message' => 'Logout successful',
         ]);
     }
+
+    /**
+     * The company whose password policy applies to the request, if any.
+     */
+    protected function passwordPolicyCompany(Request $request): ?Company
+    {
+        $signedIn = $request->user('sanctum');
+
+        if ($signedIn) {
+            return $signedIn->company;
+        }
+
+        if ($request->filled('invitation_token')) {
+            $invitation = Invitation::where('token', $request->invitation_token)->first();
+
+            return $invitation && ! $invitation->isExpired() ? $invitation->company : null;
+        }
+
+        if ($request->filled('reset_token')) {
+            $user = User::where('email', $request->email)->first();
+
+            return $user && Password::broker()->tokenExists($user, $request->reset_token)
+                ? $user->company
+                : null;
+        }
+
+        return null;
+    }
 }
@@ -2,13 +2,18 @@
 
 namespace App\Http\Controllers;
 
+use App\Events\InvitationAccepted;
+use App\Exceptions\TenantSelectionRequiredException;
+use App\Models\Invitation;
 use App\Models\SocialAccount;
 use App\Models\User;
 use App\Services\SocialLoginLogger;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Hash;
 use Illuminate\Support\Str;
+use Illuminate\Validation\Rule;
 use Laravel\Socialite\Facades\Socialite;
 use Laravel\Socialite\Two\InvalidStateException;
 
@@ -208,7 +213,7 @@ private function createSocialAccount(User $user, $socialUser, string $provider):
     /**
      * Build authorization URL manually for stateless mobile OAuth.
      */
-    private function buildAuthorizationUrl(string $provider, string $state): string
+    private function buildAuthorizationUrl(string $provider, string $state, ?string $redirectUri = null): string
     {
         $config = config("services.{$provider}");
 
@@ -234,7 +239,7 @@ private function buildAuthorizationUrl(string $provider, string $state): string
 
         $params = [
             'client_id' => $config['client_id'],
-            'redirect_uri' => $config['redirect'],
+            'redirect_uri' => $redirectUri ?? $config['redirect'],
             'scope' => $scopes[$provider],
             'response_type' => 'code',
             'state' => $state,
@@ -252,7 +257,7 @@ private function buildAuthorizationUrl(string $provider, string $state): string
     /**
      * Exchange authorization code for user data without using sessions.
      */
-    private function exchangeCodeForUser(string $provider, string $code)
+    private function exchangeCodeForUser(string $provider, string $code, ?string $redirectUri = null)
     {
         // Set up the request parameters needed by Socialite
         $originalRequest = request();
@@ -268,6 +273,11 @@ private function exchangeCodeForUser(string $provider, string $code)
             // Get user data from the provider using stateless approach
             $driver = Socialite::driver($provider);
 
+            // The code is only valid with the redirect URI it was issued for
+            if ($redirectUri) {
+                $driver->redirectUrl($redirectUri);
+            }
+
             // Use stateless method if available, otherwise fall back to regular method
             if (method_exists($driver, 'stateless')) {
                 $socialUser = $driver->stateless()->user();
@@ -323,12 +333,14 @@ private function findOrCreateUserForMobile($socialUser, string $provider, array
     }
 
     /**
-     * Create new user from social login data for mobile.
+     * Create new user from social login data for mobile. A pending
+     * invitation for the address sets the role and is accepted with it.
      */
     private function createUserFromSocialForMobile($socialUser, string $provider, array $contextData): User
     {
-        // Use tenant context from stored state data
-        $tenantId = $contextData['tenant_id'] ?? null;
+        // Use tenant context from stored state data, or the invitation
+        $invitation = $this->pendingInvitation($socialUser->getEmail(), $contextData['tenant_id'] ?? null);
+        $tenantId = $contextData['tenant_id'] ?? $invitation?->tenant_id;
 
         if (! $tenantId) {
             // TODO - For now, we'll require tenant context for social login
@@ -336,18 +348,28 @@ private function createUserFromSocialForMobile($socialUser, string $provider, ar
             throw new \Exception('Tenant context required for social login');
         }
 
-        // Create user (password is nullable for OAuth-only users)
-        $user = User::create([
-            'name' => $socialUser->getName() ?: $socialUser->getNickname() ?: 'Social User',
-            'email' => $socialUser->getEmail(),
-            'email_verified_at' => now(),
-            'password' => null, // OAuth-only user, no password needed
-            'tenant_id' => $tenantId,
-            'role' => 'operator', // Default role, can be changed by admin
-        ]);
+        $user = DB::transaction(function () use ($socialUser, $provider, $tenantId, $invitation) {
+            // Create user (password is nullable for OAuth-only users)
+            $user = User::create([
+                'name' => $socialUser->getName() ?: $socialUser->getNickname() ?: 'Social User',
+                'email' => $socialUser->getEmail(),
+                'email_verified_at' => now(),
+                'password' => null, // OAuth-only user, no password needed
+                'tenant_id' => $tenantId,
+                'role' => $invitation?->role ?? 'operator', // Default role, can be changed by admin
+            ]);
 
-        // Create associated social account
-        $this->createSocialAccount($user, $socialUser, $provider);
+            // Create associated social account
+            $this->createSocialAccount($user, $socialUser, $provider);
+
+            if ($invitation) {
+                $invitation->markAsAccepted();
+
+                InvitationAccepted::dispatch($invitation, $user, ['operation' => 'social_login']);
+            }
+
+            return $user;
+        });
 
         // Log account creation
         \Log::info("New user created via {$provider} mobile OAuth", [
@@ -355,6 +377,7 @@ private function createUserFromSocialForMobile($socialUser, string $provider, ar
             'email' => $user->email,
             'provider' => $provider,
             'tenant_id' => $tenantId,
+            'invitation_id' => $invitation?->id,
             'device_id' => $contextData['device_id'] ?? null,
             'app_version' => $contextData['app_version'] ?? null,
         ]);
@@ -362,6 +385,47 @@ private function createUserFromSocialForMobile($socialUser, string $provider, ar
         return $user;
     }
 
+    /**
+     * The pending invitation for a new social user, in the company the app
+     * named or, if it named none, whichever company invited them.
+     * Invitations from several companies leave the choice to the user.
+     */
+    private function pendingInvitation(string $email, ?string $tenantId): ?Invitation
+    {
+        $invitations = Invitation::pending()
+            ->where('email', $email)
+            ->when($tenantId, fn ($query) => $query->where('tenant_id', $tenantId))
+            ->with('company')
+            ->latest()
+            ->get()
+            ->unique('tenant_id');
+
+        if ($invitations->count() > 1) {
+            throw new TenantSelectionRequiredException(
+                $invitations->map(fn (Invitation $invitation) => [
+                    'id' => $invitation->tenant_id,
+                    'name' => $invitation->company->name,
+                ])->values()->all()
+            );
+        }
+
+        return $invitations->first();
+    }
+
+    /**
+     * Check a PKCE verifier against the S256 challenge the flow started with.
+     */
+    private function verifyCodeChallenge(?string $verifier, ?string $challenge): bool
+    {
+        if (! $verifier || ! $challenge) {
+            return false;
+        }
+
+        $expected = rtrim(strtr(base64_encode(hash('sha256', $verifier, true)), '+/', '-_'), '=');
+
+        return hash_equals($challenge, $expected);
+    }
+
     /**
      * Initialize mobile OAuth flow by returning authorization URL.
      */
@@ -370,6 +434,12 @@ public function mobileInitialize(Request $request, string $provider)
         try {
             $this->validateProvider($provider);
 
+            $request->validate([
+                'redirect_uri' => ['nullable', 'string', Rule::in(config('services.mobile_oauth.redirect_uris', []))],
+                'code_challenge' => ['required', 'string', 'regex:/^[A-Za-z0-9\-_]{43,128}$/'],
+                'code_challenge_method' => ['required', 'in:S256'],
+            ]);
+
             // Generate and store state for security
             $state = Str::random(40);
 
@@ -380,13 +450,15 @@ public function mobileInitialize(Request $request, string $provider)
                 'tenant_id' => $request->get('tenant_id'),
                 'device_id' => $request->get('device_id'),
                 'app_version' => $request->get('app_version'),
+                'redirect_uri' => $request->get('redirect_uri'),
+                'code_challenge' => $request->get('code_challenge'),
                 'created_at' => now(),
             ];
 
             cache()->put($cacheKey, $contextData, now()->addMinutes(15));
 
             // Build authorization URL manually for stateless mobile OAuth
-            $authUrl = $this->buildAuthorizationUrl($provider, $state);
+            $authUrl = $this->buildAuthorizationUrl($provider, $state, $contextData['redirect_uri']);
 
             return response()->json([
                 'success' => true,
@@ -440,8 +512,19 @@ public function mobileCallback(Request $request, string $provider)
                 throw new \Exception('Provider mismatch');
             }
 
+            // PKCE: only the app that started the flow holds the verifier
+            if (! $this->verifyCodeChallenge($request->get('code_verifier'), $contextData['code_challenge'] ?? null)) {
+                throw new \Exception('Invalid code verifier');
+            }
+
+            $redirectUri = $contextData['redirect_uri'] ?? null;
+
+            if ($request->get('redirect_uri') !== $redirectUri) {
+                throw new \Exception('Redirect URI mismatch');
+            }
+
             // Exchange authorization code for access token using stateless approach
-            $socialUser = $this->exchangeCodeForUser($provider, $request->get('code'));
+            $socialUser = $this->exchangeCodeForUser($provider, $request->get('code'), $redirectUri);
 
             if (! $socialUser->getEmail()) {
                 throw new \Exception('Email is required for account creation');
@@ -485,6 +568,12 @@ public function mobileCallback(Request $request, string $provider)
                     'provider' => $provider,
                 ],
             ]);
+        } catch (TenantSelectionRequiredException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+                'tenants' => $e->getTenants(),
+            ], 409);
         } catch (\Exception $e) {
             SocialLoginLogger::logFailedLogin($provider, $e->getMessage(), [
                 'request_data' => $request->all(),
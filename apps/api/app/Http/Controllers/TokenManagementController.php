@@ -108,6 +108,106 @@ public function refreshTokens(RefreshTokenRequest $request): JsonResponse
         }
     }
 
+    /**
+     * Issue the token the device keeps behind biometrics to sign in again.
+     */
+    public function generateBiometricToken(Request $request): JsonResponse
+    {
+        $request->validate([
+            'device_id' => 'required|string|min:10|max:255',
+        ]);
+
+        $user = auth()->user();
+        $deviceId = $request->input('device_id');
+
+        $token = $this->tokenManager->generateBiometricToken($user, $deviceId);
+
+        $this->securityLogger->logSecurityEvent('biometric_token_generated', [
+            'user_id' => $user->id,
+            'device_id' => $deviceId,
+        ]);
+
+        return response()->json([
+            'message' => 'Biometric token generated successfully',
+            'token' => $token,
+        ]);
+    }
+
+    /**
+     * Revoke the biometric token of the current user's device.
+     */
+    public function revokeBiometricToken(Request $request): JsonResponse
+    {
+        $request->validate([
+            'device_id' => 'required|string',
+        ]);
+
+        $user = auth()->user();
+        $deviceId = $request->input('device_id');
+
+        $revokedCount = $this->tokenManager->revokeBiometricTokens($user->id, $deviceId);
+
+        $this->securityLogger->logSecurityEvent('biometric_token_revoked', [
+            'user_id' => $user->id,
+            'device_id' => $deviceId,
+        ]);
+
+        return response()->json([
+            'message' => 'Biometric token revoked',
+            'revoked_count' => $revokedCount,
+        ]);
+    }
+
+    /**
+     * Sign a device in again with its biometric token.
+     */
+    public function biometricLogin(Request $request): JsonResponse
+    {
+        $request->validate([
+            'biometric_token' => 'required|string',
+            'device_id' => 'required|string|min:10|max:255',
+        ]);
+
+        $deviceId = $request->input('device_id');
+
+        try {
+            ['user' => $user, 'tokens' => $tokens] = $this->tokenManager->exchangeBiometricToken(
+                $request->input('biometric_token'),
+                $deviceId
+            );
+        } catch (InvalidArgumentException $e) {
+            $this->securityLogger->logSecurityEvent('biometric_login_failed', [
+                'device_id' => $deviceId,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'error' => 'Biometric sign-in failed',
+                'message' => $e->getMessage(),
+            ], 401);
+        }
+
+        $user->update(['last_login_at' => now()]);
+
+        $this->securityLogger->logSecurityEvent('biometric_login', [
+            'user_id' => $user->id,
+            'device_id' => $deviceId,
+        ]);
+
+        return response()->json([
+            'message' => 'Login successful',
+            'user' => [
+                'id' => $user->id,
+                'name' => $user->name,
+                'email' => $user->email,
+                'role' => $user->role,
+                'tenant_id' => $user->tenant_id,
+            ],
+            'tokens' => $tokens,
+            'company' => $user->company->name ?? null,
+        ]);
+    }
+
     /**
      * Get token information for the current user's device.
      */
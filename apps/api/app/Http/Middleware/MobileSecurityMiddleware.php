@@ -37,16 +37,21 @@ public function __construct(
     /**
      * Handle an incoming request.
      *
+     * Routes for signed-out devices, like token refresh, pass `guest` to
+     * skip the bearer token and device binding checks.
+     *
      * @param  Closure(Request):Response  $next
      */
-    public function handle(Request $request, Closure $next): Response
+    public function handle(Request $request, Closure $next, ?string $mode = null): Response
     {
+        $guest = $mode === 'guest';
+
         try {
             // Step 1: Validate API key
             $this->validateApiKey($request);
 
             // Step 2: Validate bearer token (handled by Sanctum)
-            if (! auth()->check()) {
+            if (! $guest && ! auth()->check()) {
                 $this->securityLogger->logSecurityEvent('auth_failure', [
                     'reason' => 'missing_or_invalid_token',
                     'ip' => $request->ip(),
@@ -57,7 +62,9 @@ public function handle(Request $request, Closure $next): Response
             }
 
             // Step 3: Verify device fingerprint and binding
-            $this->validateDeviceBinding($request);
+            if (! $guest) {
+                $this->validateDeviceBinding($request);
+            }
 
             // Step 4: Validate request signature (for sensitive operations)
             if ($this->requiresSignature($request)) {
@@ -91,6 +91,14 @@ public function securityEvents(): HasMany
         return $this->hasMany(SecurityEvent::class);
     }
 
+    /**
+     * Get the hashes of the passwords this user has set, for the reuse check.
+     */
+    public function passwordHistories(): HasMany
+    {
+        return $this->hasMany(PasswordHistory::class);
+    }
+
     /**
      * Get the social accounts for this user.
      */
@@ -4,14 +4,18 @@
 
 use App\Models\User;
 use App\Services\Caching\TenantCacheService;
+use App\Services\Security\PasswordPolicyService;
 
 class UserObserver
 {
     protected TenantCacheService $cacheService;
 
-    public function __construct(TenantCacheService $cacheService)
+    protected PasswordPolicyService $passwordPolicy;
+
+    public function __construct(TenantCacheService $cacheService, PasswordPolicyService $passwordPolicy)
     {
         $this->cacheService = $cacheService;
+        $this->passwordPolicy = $passwordPolicy;
     }
 
     /**
@@ -19,6 +23,8 @@ public function __construct(TenantCacheService $cacheService)
      */
     public function created(User $user): void
     {
+        $this->passwordPolicy->remember($user);
+
         if ($this->cacheService->isCachingEnabled() && $user->tenant_id) {
             // Invalidate company-related caches
             $this->cacheService->invalidateCompanyCache($user->tenant_id);
@@ -33,6 +39,10 @@ public function created(User $user): void
      */
     public function updated(User $user): void
     {
+        if ($user->wasChanged('password')) {
+            $this->passwordPolicy->remember($user);
+        }
+
         if ($this->cacheService->isCachingEnabled()) {
             // If tenant_id changed, invalidate both old and new tenant caches
             if ($user->isDirty('tenant_id')) {
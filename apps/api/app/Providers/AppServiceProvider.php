@@ -7,6 +7,8 @@
 use App\Services\Security\SecurityLogger;
 use App\Services\Security\TokenManager;
 use Illuminate\Support\ServiceProvider;
+use Laravel\Sanctum\PersonalAccessToken;
+use Laravel\Sanctum\Sanctum;
 
 class AppServiceProvider extends ServiceProvider
 {
@@ -30,6 +32,9 @@ public function register(): void
      */
     public function boot(): void
     {
-        //
+        // Biometric tokens are only exchanged for a session, never accepted as bearer tokens
+        Sanctum::authenticateAccessTokensUsing(function (PersonalAccessToken $token, bool $isValid) {
+            return $isValid && ! str_starts_with($token->name, TokenManager::BIOMETRIC_TOKEN_PREFIX);
+        });
     }
 }
@@ -0,0 +1,119 @@
+<?php
+
+namespace App\Services\Security;
+
+use App\Models\Company;
+use App\Models\User;
+use Closure;
+use Illuminate\Support\Facades\Hash;
+use Illuminate\Validation\Rules\Password;
+
+class PasswordPolicyService
+{
+    /**
+     * The keys a company may set in its `password_policy` tenant attribute.
+     */
+    protected array $keys = [
+        'min_length',
+        'require_uppercase',
+        'require_lowercase',
+        'require_numbers',
+        'require_symbols',
+        'uncompromised',
+        'history',
+    ];
+
+    /**
+     * The rules new passwords must meet, the company's own over the defaults.
+     */
+    public function forCompany(?Company $company): array
+    {
+        $overrides = (array) ($company?->password_policy ?? []);
+
+        $policy = array_merge(
+            config('auth.password_policy'),
+            array_intersect_key($overrides, array_flip($this->keys))
+        );
+
+        return [
+            'min_length' => (int) $policy['min_length'],
+            'require_uppercase' => (bool) $policy['require_uppercase'],
+            'require_lowercase' => (bool) $policy['require_lowercase'],
+            'require_numbers' => (bool) $policy['require_numbers'],
+            'require_symbols' => (bool) $policy['require_symbols'],
+            'uncompromised' => (bool) $policy['uncompromised'],
+            'history' => max(0, (int) $policy['history']),
+        ];
+    }
+
+    /**
+     * Validation rules enforcing the company's policy. Pass the user whose
+     * password is changing to reject the ones they used recently.
+     */
+    public function rules(?Company $company, ?User $user = null): array
+    {
+        $policy = $this->forCompany($company);
+        $rule = Password::min($policy['min_length']);
+
+        if ($policy['require_numbers']) {
+            $rule->numbers();
+        }
+
+        if ($policy['require_symbols']) {
+            $rule->symbols();
+        }
+
+        if ($policy['uncompromised']) {
+            $rule->uncompromised();
+        }
+
+        return array_values(array_filter([
+            $rule,
+            $policy['require_uppercase'] ? 'regex:/\p{Lu}/u' : null,
+            $policy['require_lowercase'] ? 'regex:/\p{Ll}/u' : null,
+            $user && $policy['history'] > 0 ? $this->notRecentlyUsed($user, $policy['history']) : null,
+        ]));
+    }
+
+    /**
+     * Keep a user's new password for the reuse check, dropping those too old
+     * for their company's policy to look at.
+     */
+    public function remember(User $user): void
+    {
+        if (! $user->password) {
+            return;
+        }
+
+        $user->passwordHistories()->create(['password' => $user->password]);
+
+        $keep = $user->passwordHistories()
+            ->latest('id')
+            ->take($this->forCompany($user->company)['history'])
+            ->pluck('id');
+
+        $user->passwordHistories()->whereNotIn('id', $keep)->delete();
+    }
+
+    /**
+     * Fails for the user's current password or any of the previous ones the
+     * policy remembers.
+     */
+    protected function notRecentlyUsed(User $user, int $history): Closure
+    {
+        return function (string $attribute, mixed $value, Closure $fail) use ($user, $history) {
+            $hashes = $user->passwordHistories()
+                ->latest('id')
+                ->take($history)
+                ->pluck('password')
+                ->prepend($user->password)
+                ->filter();
+
+            if ($hashes->contains(fn (string $hash) => Hash::check((string) $value, $hash))) {
+                $fail($history === 1
+                    ? 'The :attribute must be different from your last password.'
+                    : "The :attribute must be different from your last {$history} passwords.");
+            }
+        };
+    }
+}
@@ -12,6 +12,11 @@
 
 class TokenManager
 {
+    /**
+     * Name prefix of the tokens a device exchanges for a session after a biometric check.
+     */
+    public const BIOMETRIC_TOKEN_PREFIX = 'mobile_biometric_';
+
     /**
      * Generate mobile token pair for a user and device.
      */
@@ -98,6 +103,78 @@ public function rotateTokens(string $refreshToken): array
         return $newTokens;
     }
 
+    /**
+     * Generate the long-lived token a device keeps behind biometrics to sign in again.
+     * Replaces any biometric token the user already has on the device.
+     */
+    public function generateBiometricToken(User $user, string $deviceId): array
+    {
+        $lifetime = config('sanctum-mobile.mobile_tokens.biometric.lifetime', 2592000); // 30 days
+
+        $this->revokeBiometricTokens($user->id, $deviceId);
+
+        $token = $user->createToken(
+            name: self::BIOMETRIC_TOKEN_PREFIX . $deviceId,
+            abilities: config('sanctum-mobile.mobile_tokens.biometric.abilities', ['biometric-login']),
+            expiresAt: now()->addSeconds($lifetime)
+        );
+
+        return [
+            'biometric_token' => $token->plainTextToken,
+            'expires_in' => $lifetime,
+            'expires_at' => now()->addSeconds($lifetime)->toISOString(),
+        ];
+    }
+
+    /**
+     * Exchange a biometric token for a new token pair on the device it was issued to.
+     *
+     * @return array{user: User, tokens: array}
+     */
+    public function exchangeBiometricToken(string $biometricToken, string $deviceId): array
+    {
+        $tokenModel = PersonalAccessToken::findToken($biometricToken);
+
+        if (! $tokenModel || $tokenModel->name !== self::BIOMETRIC_TOKEN_PREFIX . $deviceId) {
+            throw new InvalidArgumentException('Invalid biometric token');
+        }
+
+        if ($tokenModel->expires_at && $tokenModel->expires_at->isPast()) {
+            throw new InvalidArgumentException('Biometric token expired');
+        }
+
+        $user = $tokenModel->tokenable;
+
+        // The device gets a fresh pair, as on a password login
+        $this->revokeDeviceTokens($user->id, $deviceId);
+        $tokens = $this->generateMobileTokens($user, $deviceId);
+
+        Log::info('Biometric token exchanged', [
+            'user_id' => $user->id,
+            'device_id' => $deviceId,
+        ]);
+
+        return [
+            'user' => $user,
+            'tokens' => $tokens,
+        ];
+    }
+
+    /**
+     * Revoke a user's biometric tokens, on one device or all of them.
+     */
+    public function revokeBiometricTokens(int $userId, ?string $deviceId = null): int
+    {
+        $name = $deviceId !== null
+            ? self::BIOMETRIC_TOKEN_PREFIX . $deviceId
+            : self::BIOMETRIC_TOKEN_PREFIX . '%';
+
+        return PersonalAccessToken::where('tokenable_type', User::class)
+            ->where('tokenable_id', $userId)
+            ->where('name', $deviceId !== null ? '=' : 'like', $name)
+            ->delete();
+    }
+
     /**
      * Check if a token needs rotation based on threshold.
      */
@@ -176,7 +253,9 @@ public function revokeDeviceTokens(int $userId, string $deviceId): int
     }
 
     /**
-     * Revoke all tokens for a user.
+     * Revoke all tokens for a user: device token pairs, biometric tokens and
+     * plain login or OAuth tokens alike.
+     * Returns the number of device token pairs revoked.
      */
     public function revokeAllUserTokens(int $userId): int
     {
@@ -190,9 +269,16 @@ public function revokeAllUserTokens(int $userId): int
             $revokedCount++;
         }
 
+        // Signed out everywhere, including devices without a token pair, and
+        // no device can sign back in with biometrics either
+        $otherTokenCount = PersonalAccessToken::where('tokenable_type', User::class)
+            ->where('tokenable_id', $userId)
+            ->delete();
+
         Log::info('All user tokens revoked', [
             'user_id' => $userId,
             'revoked_count' => $revokedCount,
+            'other_token_count' => $otherTokenCount,
         ]);
 
         return $revokedCount;
@@ -112,6 +112,28 @@
 
     'password_timeout' => env('AUTH_PASSWORD_TIMEOUT', 10800),
 
+    /*
+    |--------------------------------------------------------------------------
+    | Password Policy
+    |--------------------------------------------------------------------------
+    |
+    | The default rules for new passwords. A company can override any of them
+    | in its "password_policy" tenant attribute. The mobile app reads the
+    | resulting policy from /api/auth/password-policy.
+    |
+    */
+
+    'password_policy' => [
+        'min_length' => env('PASSWORD_MIN_LENGTH', 8),
+        'require_uppercase' => true,
+        'require_lowercase' => true,
+        'require_numbers' => true,
+        'require_symbols' => true,
+        'uncompromised' => false,
+        // How many previous passwords can't be reused, counting the current one
+        'history' => env('PASSWORD_HISTORY', 5),
+    ],
+
     /*
     |--------------------------------------------------------------------------
     | Remember Me Configuration
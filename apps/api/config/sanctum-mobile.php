@@ -21,6 +21,10 @@
             'lifetime' => env('MOBILE_REFRESH_TOKEN_LIFETIME', 86400), // 24 hours
             'abilities' => ['refresh'],
         ],
+        'biometric' => [
+            'lifetime' => env('MOBILE_BIOMETRIC_TOKEN_LIFETIME', 2592000), // 30 days
+            'abilities' => ['biometric-login'],
+        ],
         'longterm' => [
             'lifetime' => env('MOBILE_LONGTERM_TOKEN_LIFETIME', 2592000), // 30 days
             'abilities' => ['limited'],
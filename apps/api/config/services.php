@@ -53,4 +53,9 @@
         'redirect' => env('INSTAGRAM_REDIRECT_URI'),
     ],
 
+    // App URLs mobile social login may send the provider back to, comma separated
+    'mobile_oauth' => [
+        'redirect_uris' => array_filter(explode(',', env('MOBILE_OAUTH_REDIRECT_URIS', 'checkrightApp://oauth/callback'))),
+    ],
+
 ];
@@ -20,12 +20,28 @@
 */
 
 // Public authentication routes
+Route::get('/invitations/{token}', [AuthController::class, 'showInvitation'])
+    ->name('invitations.show')
+    ->middleware('throttle:30,1');
+
 Route::post('/invitations/{token}/accept', [AuthController::class, 'acceptInvitation'])
     ->name('invitations.accept');
 
 Route::post('/auth/login', [AuthController::class, 'login'])
     ->name('auth.login');
 
+Route::post('/auth/password/email', [AuthController::class, 'sendPasswordResetLink'])
+    ->name('auth.password.email')
+    ->middleware('throttle:5,1');
+
+Route::post('/auth/password/reset', [AuthController::class, 'resetPassword'])
+    ->name('auth.password.reset')
+    ->middleware('throttle:5,1');
+
+Route::get('/auth/password-policy', [AuthController::class, 'passwordPolicy'])
+    ->name('auth.password-policy')
+    ->middleware('throttle:30,1');
+
 // Mobile OAuth routes (public, no authentication required for initialization)
 Route::prefix('mobile/oauth')->name('mobile.oauth.')->group(function () {
     Route::post('/{provider}/initialize', [SocialAuthController::class, 'mobileInitialize'])
@@ -42,6 +58,20 @@
 
     Route::post('/auth/logout', [AuthController::class, 'logout'])
         ->name('auth.logout');
+
+    Route::post('/auth/password/confirm', [AuthController::class, 'confirmPassword'])
+        ->name('auth.password.confirm');
+
+    Route::put('/user/password', [AuthController::class, 'changePassword'])
+        ->name('user.password.update');
+});
+
+// Mobile token routes for signed-out devices (API key checked, no bearer token)
+Route::prefix('mobile/tokens')->name('mobile.tokens.')->middleware([\App\Http\Middleware\MobileSecurityMiddleware::class . ':guest', 'throttle:30,1'])->group(function () {
+    Route::post('/refresh', [TokenManagementController::class, 'refreshTokens'])
+        ->name('refresh');
+    Route::post('/biometric/login', [TokenManagementController::class, 'biometricLogin'])
+        ->name('biometric-login');
 });
 
 // Mobile API routes with enhanced security
@@ -96,9 +126,10 @@
     Route::prefix('tokens')->name('mobile.tokens.')->group(function () {
         Route::post('/generate', [TokenManagementController::class, 'generateTokens'])
             ->name('generate');
-        Route::post('/refresh', [TokenManagementController::class, 'refreshTokens'])
-            ->name('refresh')
-            ->withoutMiddleware('auth:sanctum'); // Refresh doesn't require active auth
+        Route::post('/biometric', [TokenManagementController::class, 'generateBiometricToken'])
+            ->name('biometric');
+        Route::delete('/biometric', [TokenManagementController::class, 'revokeBiometricToken'])
+            ->name('revoke-biometric');
         Route::get('/info', [TokenManagementController::class, 'getTokenInfo'])
             ->name('info');
         Route::delete('/device', [TokenManagementController::class, 'revokeDeviceTokens'])
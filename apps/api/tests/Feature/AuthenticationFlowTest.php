@@ -3,7 +3,10 @@
 use App\Models\Company;
 use App\Models\Invitation;
 use App\Models\User;
+use App\Notifications\ResetPasswordNotification;
 use Illuminate\Support\Facades\Hash;
+use Illuminate\Support\Facades\Notification;
+use Illuminate\Support\Facades\Password;
 use Illuminate\Support\Facades\RateLimiter;
 
 describe('Authentication Flow', function () {
@@ -105,6 +108,39 @@
             $response->assertStatus(422)
                 ->assertJsonValidationErrors(['password']);
         });
+
+        it('shows who a pending invitation is for', function () {
+            $company = Company::factory()->create();
+
+            Invitation::factory()->create([
+                'tenant_id' => $company->id,
+                'email' => 'invited@example.com',
+                'role' => 'operator',
+                'token' => 'pending-token',
+                'expires_at' => now()->addDays(7),
+            ]);
+
+            $this->getJson('/api/invitations/pending-token')
+                ->assertStatus(200)
+                ->assertJson([
+                    'email' => 'invited@example.com',
+                    'role' => 'operator',
+                    'company' => $company->name,
+                ]);
+        });
+
+        it('does not show expired invitations', function () {
+            $company = Company::factory()->create();
+
+            Invitation::factory()->create([
+                'tenant_id' => $company->id,
+                'token' => 'expired-token',
+                'expires_at' => now()->subDay(),
+            ]);
+
+            $this->getJson('/api/invitations/expired-token')
+                ->assertStatus(404);
+        });
     });
 
     describe('User Login', function () {
@@ -131,7 +167,8 @@
                     'token',
                     'expires_at',
                     'remember_me',
-                ]);
+                ])
+                ->assertJsonPath('company', $company->name);
 
             // Verify last_login_at was updated
             $user->refresh();
@@ -242,6 +279,306 @@
         });
     });
 
+    describe('Password Confirmation', function () {
+        beforeEach(function () {
+            $company = Company::factory()->create();
+
+            $this->user = User::factory()->create([
+                'tenant_id' => $company->id,
+                'password' => Hash::make('SecurePassword123!'),
+            ]);
+            $this->token = $this->user->createToken('test-token');
+            RateLimiter::clear('password-confirm:' . $this->user->id);
+        });
+
+        it('confirms the correct password without issuing a token', function () {
+            $response = $this->withHeaders([
+                'Authorization' => 'Bearer ' . $this->token->plainTextToken,
+            ])->postJson('/api/auth/password/confirm', [
+                'password' => 'SecurePassword123!',
+            ]);
+
+            $response->assertStatus(200)
+                ->assertJson(['confirmed' => true]);
+
+            expect($this->user->tokens()->count())->toBe(1);
+            expect($this->user->fresh()->last_login_at)->toBeNull();
+        });
+
+        it('rejects an incorrect password', function () {
+            $response = $this->withHeaders([
+                'Authorization' => 'Bearer ' . $this->token->plainTextToken,
+            ])->postJson('/api/auth/password/confirm', [
+                'password' => 'WrongPassword',
+            ]);
+
+            $response->assertStatus(200)
+                ->assertJson(['confirmed' => false]);
+        });
+
+        it('limits repeated attempts', function () {
+            $headers = ['Authorization' => 'Bearer ' . $this->token->plainTextToken];
+
+            for ($i = 0; $i < 5; $i++) {
+                $this->withHeaders($headers)->postJson('/api/auth/password/confirm', [
+                    'password' => 'WrongPassword',
+                ]);
+            }
+
+            $this->withHeaders($headers)->postJson('/api/auth/password/confirm', [
+                'password' => 'SecurePassword123!',
+            ])->assertStatus(429);
+        });
+
+        it('requires authentication', function () {
+            $this->postJson('/api/auth/password/confirm', [
+                'password' => 'SecurePassword123!',
+            ])->assertStatus(401);
+        });
+    });
+
+    describe('Password Change', function () {
+        beforeEach(function () {
+            $company = Company::factory()->create();
+
+            $this->user = User::factory()->create([
+                'tenant_id' => $company->id,
+                'password' => Hash::make('Temporary123!'),
+                'must_change_password' => true,
+            ]);
+            $this->headers = [
+                'Authorization' => 'Bearer ' . $this->user->createToken('test-token')->plainTextToken,
+            ];
+        });
+
+        it('changes the password and clears a required change', function () {
+            $response = $this->withHeaders($this->headers)->putJson('/api/user/password', [
+                'current_password' => 'Temporary123!',
+                'password' => 'NewPassword123!',
+                'password_confirmation' => 'NewPassword123!',
+            ]);
+
+            $response->assertStatus(200);
+
+            $user = $this->user->fresh();
+            expect(Hash::check('NewPassword123!', $user->password))->toBeTrue();
+            expect($user->must_change_password)->toBeFalse();
+        });
+
+        it('rejects a wrong current password', function () {
+            $response = $this->withHeaders($this->headers)->putJson('/api/user/password', [
+                'current_password' => 'WrongPassword',
+                'password' => 'NewPassword123!',
+                'password_confirmation' => 'NewPassword123!',
+            ]);
+
+            $response->assertStatus(422)
+                ->assertJsonValidationErrors(['current_password']);
+            expect($this->user->fresh()->must_change_password)->toBeTrue();
+        });
+
+        it('tells the app a change is required when signing in', function () {
+            RateLimiter::clear('login:127.0.0.1:' . $this->user->email);
+
+            $response = $this->postJson('/api/auth/login', [
+                'email' => $this->user->email,
+                'password' => 'Temporary123!',
+            ]);
+
+            $response->assertStatus(200)
+                ->assertJsonPath('user.must_change_password', true);
+        });
+    });
+
+    describe('Password Reset', function () {
+        beforeEach(function () {
+            $company = Company::factory()->create();
+
+            $this->user = User::factory()->create([
+                'tenant_id' => $company->id,
+                'email' => 'reset@example.com',
+                'password' => Hash::make('OldPassword123!'),
+            ]);
+        });
+
+        it('emails a reset link', function () {
+            Notification::fake();
+
+            $this->postJson('/api/auth/password/email', [
+                'email' => 'reset@example.com',
+            ])->assertStatus(200);
+
+            Notification::assertSentTo($this->user, ResetPasswordNotification::class);
+        });
+
+        it('does not reveal whether an account exists', function () {
+            Notification::fake();
+
+            $this->postJson('/api/auth/password/email', [
+                'email' => 'nobody@example.com',
+            ])->assertStatus(200);
+
+            Notification::assertNothingSent();
+        });
+
+        it('sets the new password and signs out other sessions', function () {
+            $this->user->createToken('test-token');
+            $token = Password::broker()->createToken($this->user);
+
+            $response = $this->postJson('/api/auth/password/reset', [
+                'token' => $token,
+                'email' => 'reset@example.com',
+                'password' => 'NewPassword123!',
+                'password_confirmation' => 'NewPassword123!',
+            ]);
+
+            $response->assertStatus(200);
+            expect(Hash::check('NewPassword123!', $this->user->fresh()->password))->toBeTrue();
+            expect($this->user->tokens()->count())->toBe(0);
+        });
+
+        it('rejects an invalid token', function () {
+            $response = $this->postJson('/api/auth/password/reset', [
+                'token' => 'invalid-token',
+                'email' => 'reset@example.com',
+                'password' => 'NewPassword123!',
+                'password_confirmation' => 'NewPassword123!',
+            ]);
+
+            $response->assertStatus(422)
+                ->assertJsonValidationErrors(['email']);
+            expect(Hash::check('OldPassword123!', $this->user->fresh()->password))->toBeTrue();
+        });
+    });
+
+    describe('Password Policy', function () {
+        beforeEach(function () {
+            $this->company = Company::factory()->create([
+                'password_policy' => ['min_length' => 12, 'require_symbols' => false],
+            ]);
+        });
+
+        it('returns the default policy without a token', function () {
+            $this->getJson('/api/auth/password-policy')
+                ->assertStatus(200)
+                ->assertJson([
+                    'min_length' => 8,
+                    'require_symbols' => true,
+                ]);
+        });
+
+        it("returns the invited company's policy", function () {
+            $invitation = Invitation::factory()->create([
+                'tenant_id' => $this->company->id,
+                'email' => 'invited@example.com',
+                'expires_at' => now()->addDays(7),
+            ]);
+
+            $this->getJson('/api/auth/password-policy?invitation_token=' . $invitation->token)
+                ->assertStatus(200)
+                ->assertJson([
+                    'min_length' => 12,
+                    'require_symbols' => false,
+                    'require_numbers' => true,
+                ]);
+        });
+
+        it("returns the company's policy for a reset token", function () {
+            $user = User::factory()->create(['tenant_id' => $this->company->id]);
+            $token = Password::broker()->createToken($user);
+
+            $this->getJson('/api/auth/password-policy?' . http_build_query([
+                'reset_token' => $token,
+                'email' => $user->email,
+            ]))
+                ->assertStatus(200)
+                ->assertJson(['min_length' => 12]);
+        });
+
+        it('ignores a reset token that does not match', function () {
+            $user = User::factory()->create(['tenant_id' => $this->company->id]);
+
+            $this->getJson('/api/auth/password-policy?' . http_build_query([
+                'reset_token' => 'invalid-token',
+                'email' => $user->email,
+            ]))
+                ->assertStatus(200)
+                ->assertJson(['min_length' => 8]);
+        });
+
+        it("returns the signed-in user's company policy", function () {
+            $user = User::factory()->create(['tenant_id' => $this->company->id]);
+            $token = $user->createToken('test-token')->plainTextToken;
+
+            $this->withHeaders(['Authorization' => 'Bearer ' . $token])
+                ->getJson('/api/auth/password-policy')
+                ->assertStatus(200)
+                ->assertJson(['min_length' => 12]);
+        });
+
+        it("enforces the company's policy on a password change", function () {
+            $user = User::factory()->create([
+                'tenant_id' => $this->company->id,
+                'password' => Hash::make('Temporary123!'),
+            ]);
+            $token = $user->createToken('test-token')->plainTextToken;
+
+            $this->withHeaders(['Authorization' => 'Bearer ' . $token])
+                ->putJson('/api/user/password', [
+                    'current_password' => 'Temporary123!',
+                    'password' => 'Short1Aa',
+                    'password_confirmation' => 'Short1Aa',
+                ])
+                ->assertStatus(422)
+                ->assertJsonValidationErrors(['password']);
+        });
+
+        it('rejects a recently used password on a change', function () {
+            $user = User::factory()->create([
+                'tenant_id' => $this->company->id,
+                'password' => Hash::make('FirstPassword1'),
+            ]);
+            $headers = ['Authorization' => 'Bearer ' . $user->createToken('test-token')->plainTextToken];
+
+            $this->withHeaders($headers)->putJson('/api/user/password', [
+                'current_password' => 'FirstPassword1',
+                'password' => 'SecondPassword1',
+                'password_confirmation' => 'SecondPassword1',
+            ])->assertStatus(200);
+
+            $this->withHeaders($headers)->putJson('/api/user/password', [
+                'current_password' => 'SecondPassword1',
+                'password' => 'FirstPassword1',
+                'password_confirmation' => 'FirstPassword1',
+            ])
+                ->assertStatus(422)
+                ->assertJsonValidationErrors(['password']);
+            expect($user->passwordHistories()->count())->toBe(2);
+        });
+
+        it('rejects the current password on a reset', function () {
+            $user = User::factory()->create([
+                'tenant_id' => $this->company->id,
+                'password' => Hash::make('FirstPassword1'),
+            ]);
+
+            $this->postJson('/api/auth/password/reset', [
+                'token' => Password::broker()->createToken($user),
+                'email' => $user->email,
+                'password' => 'FirstPassword1',
+                'password_confirmation' => 'FirstPassword1',
+            ])
+                ->assertStatus(422)
+                ->assertJsonValidationErrors(['password']);
+        });
+
+        it('reports how many previous passwords are checked', function () {
+            $this->getJson('/api/auth/password-policy')
+                ->assertStatus(200)
+                ->assertJson(['history' => 5]);
+        });
+    });
+
     describe('Protected Routes', function () {
         it('can access user profile with valid token', function () {
             $company = Company::factory()->create();
@@ -14,6 +14,8 @@
         'tenant_id' => 'test-tenant',
         'device_id' => 'test-device',
         'app_version' => '1.0.0',
+        'code_challenge' => 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+        'code_challenge_method' => 'S256',
     ]);
 
     $response->assertOk();
@@ -53,3 +55,144 @@
         'message' => 'OAuth authentication failed',
     ]);
 });
+
+// RFC 7636 appendix B example pair
+const PKCE_VERIFIER = 'dBjftJeZ4CVP-mJ92ZUzTdTl1Ryo-Jb2WWBz4sVevDHe7oA';
+const PKCE_CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+function mockGoogleUser(string $email): void
+{
+    $socialUser = (new \Laravel\Socialite\Two\User)->setRaw([])->map([
+        'id' => 'google-1',
+        'name' => 'Jane Doe',
+        'email' => $email,
+    ]);
+
+    $driver = \Mockery::mock(\Laravel\Socialite\Two\GoogleProvider::class);
+    $driver->shouldReceive('redirectUrl')->andReturnSelf();
+    $driver->shouldReceive('stateless')->andReturnSelf();
+    $driver->shouldReceive('user')->andReturn($socialUser);
+
+    \Laravel\Socialite\Facades\Socialite::shouldReceive('driver')->with('google')->andReturn($driver);
+}
+
+function startMobileOAuth(array $context = []): string
+{
+    $state = 'test-state-' . \Illuminate\Support\Str::random(8);
+    cache()->put("mobile_oauth_state_{$state}", array_merge([
+        'provider' => 'google',
+        'tenant_id' => null,
+        'device_id' => 'test-device',
+        'app_version' => '1.0.0',
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+        'code_challenge' => PKCE_CHALLENGE,
+        'created_at' => now(),
+    ], $context), now()->addMinutes(15));
+
+    return $state;
+}
+
+it('sends the provider back to the app redirect URI', function () {
+    config(['services.google.client_id' => 'test-client-id']);
+    config(['services.google.redirect' => 'http://localhost/auth/google/callback']);
+
+    $response = $this->postJson('/api/mobile/oauth/google/initialize', [
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+        'code_challenge' => PKCE_CHALLENGE,
+        'code_challenge_method' => 'S256',
+    ]);
+
+    $response->assertOk();
+    expect($response->json('data.authorization_url'))
+        ->toContain('redirect_uri=' . urlencode('checkrightApp://oauth/callback'));
+});
+
+it('rejects redirect URIs that are not the app', function () {
+    config(['services.google.client_id' => 'test-client-id']);
+    config(['services.google.redirect' => 'http://localhost/auth/google/callback']);
+
+    $this->postJson('/api/mobile/oauth/google/initialize', [
+        'redirect_uri' => 'https://attacker.example/callback',
+        'code_challenge' => PKCE_CHALLENGE,
+        'code_challenge_method' => 'S256',
+    ])->assertStatus(400);
+});
+
+it('requires a PKCE challenge to start mobile OAuth', function () {
+    config(['services.google.client_id' => 'test-client-id']);
+    config(['services.google.redirect' => 'http://localhost/auth/google/callback']);
+
+    $this->postJson('/api/mobile/oauth/google/initialize', [
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+    ])->assertStatus(400);
+});
+
+it('rejects a callback without the matching code verifier', function () {
+    $state = startMobileOAuth();
+
+    $this->postJson('/api/mobile/oauth/google/callback', [
+        'code' => 'test-code',
+        'state' => $state,
+        'code_verifier' => 'not-the-verifier-not-the-verifier-not-the-ver',
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+    ])->assertStatus(400)->assertJson(['error' => 'Invalid code verifier']);
+
+    // The state is spent either way
+    expect(cache()->has("mobile_oauth_state_{$state}"))->toBeFalse();
+});
+
+it('signs in with the matching code verifier and redirect URI', function () {
+    $user = \App\Models\User::factory()->create(['email' => 'jane@example.com']);
+    mockGoogleUser('jane@example.com');
+
+    $this->postJson('/api/mobile/oauth/google/callback', [
+        'code' => 'test-code',
+        'state' => startMobileOAuth(),
+        'code_verifier' => PKCE_VERIFIER,
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+    ])->assertOk()->assertJsonPath('data.user.id', $user->id);
+});
+
+it('asks which company to join when invited by several', function () {
+    $companies = \App\Models\Company::factory()->count(2)->create();
+    foreach ($companies as $company) {
+        \App\Models\Invitation::factory()->pending()->create([
+            'tenant_id' => $company->id,
+            'email' => 'new@example.com',
+        ]);
+    }
+    mockGoogleUser('new@example.com');
+
+    $response = $this->postJson('/api/mobile/oauth/google/callback', [
+        'code' => 'test-code',
+        'state' => startMobileOAuth(),
+        'code_verifier' => PKCE_VERIFIER,
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+    ]);
+
+    $response->assertStatus(409);
+    expect(collect($response->json('tenants'))->pluck('id')->sort()->values()->all())
+        ->toBe($companies->pluck('id')->sort()->values()->all());
+});
+
+it('joins with the role of the invitation and accepts it', function () {
+    $company = \App\Models\Company::factory()->create();
+    $invitation = \App\Models\Invitation::factory()->pending()->manager()->create([
+        'tenant_id' => $company->id,
+        'email' => 'new@example.com',
+    ]);
+    mockGoogleUser('new@example.com');
+
+    $response = $this->postJson('/api/mobile/oauth/google/callback', [
+        'code' => 'test-code',
+        'state' => startMobileOAuth(),
+        'code_verifier' => PKCE_VERIFIER,
+        'redirect_uri' => 'checkrightApp://oauth/callback',
+    ]);
+
+    $response->assertOk();
+    $user = \App\Models\User::where('email', 'new@example.com')->firstOrFail();
+    expect($user->tenant_id)->toBe($company->id)
+        ->and($user->role)->toBe('manager')
+        ->and($invitation->fresh()->isAccepted())->toBeTrue();
+});
@@ -18,6 +18,8 @@
         'tenant_id' => 'test-tenant',
         'device_id' => 'test-device',
         'app_version' => '1.0.0',
+        'code_challenge' => 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+        'code_challenge_method' => 'S256',
     ]);
 
     // Debug the specific error
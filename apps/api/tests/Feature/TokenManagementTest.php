@@ -7,6 +7,7 @@
 use App\Services\Security\TokenManager;
 use Carbon\Carbon;
 use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\PersonalAccessToken;
 use Tests\TestCase;
 
 class TokenManagementTest extends TestCase
@@ -144,6 +145,17 @@ public function test_can_revoke_all_user_tokens(): void
         $this->assertEquals(0, MobileTokenRegistry::where('user_id', $this->user->id)->count());
     }
 
+    public function test_revoking_all_tokens_revokes_plain_login_tokens(): void
+    {
+        $loginToken = $this->user->createToken('mobile-app')->plainTextToken;
+        $otherUserToken = User::factory()->create()->createToken('mobile-app')->plainTextToken;
+
+        $this->tokenManager->revokeAllUserTokens($this->user->id);
+
+        $this->assertNull(PersonalAccessToken::findToken($loginToken));
+        $this->assertNotNull(PersonalAccessToken::findToken($otherUserToken));
+    }
+
     public function test_can_get_token_info(): void
     {
         $deviceId = 'test-device-info';
@@ -273,6 +285,159 @@ public function test_revoke_all_tokens_endpoint(): void
             ]);
     }
 
+    public function test_refresh_endpoint_rotates_tokens_after_the_access_token_expires(): void
+    {
+        $deviceId = 'test-device-refresh';
+        $tokens = $this->tokenManager->generateMobileTokens($this->user, $deviceId);
+
+        Carbon::setTestNow(now()->addMinutes(20));
+
+        $response = $this->withHeaders([
+            'X-API-Key' => $this->apiKey,
+            'Authorization' => 'Bearer ' . $tokens['access_token'],
+        ])->postJson('/api/mobile/tokens/refresh', [
+            'refresh_token' => $tokens['refresh_token'],
+            'device_id' => $deviceId,
+        ]);
+
+        $response->assertStatus(200)
+            ->assertJsonStructure([
+                'tokens' => ['access_token', 'refresh_token', 'expires_at'],
+            ]);
+        $this->assertNotEquals($tokens['refresh_token'], $response->json('tokens.refresh_token'));
+        $this->assertNull(PersonalAccessToken::findToken($tokens['refresh_token']));
+
+        Carbon::setTestNow();
+    }
+
+    public function test_refresh_endpoint_requires_the_api_key(): void
+    {
+        $tokens = $this->tokenManager->generateMobileTokens($this->user, 'test-device-refresh');
+
+        $response = $this->postJson('/api/mobile/tokens/refresh', [
+            'refresh_token' => $tokens['refresh_token'],
+        ]);
+
+        $response->assertStatus(401);
+    }
+
+    public function test_biometric_token_signs_the_device_in_again(): void
+    {
+        $deviceId = 'test-device-biometric';
+
+        $response = $this->actingAs($this->user, 'sanctum')
+            ->withHeaders(['X-API-Key' => $this->apiKey])
+            ->postJson('/api/mobile/tokens/biometric', [
+                'device_id' => $deviceId,
+            ]);
+
+        $response->assertStatus(200)
+            ->assertJsonStructure([
+                'message',
+                'token' => ['biometric_token', 'expires_in', 'expires_at'],
+            ]);
+
+        $this->app['auth']->forgetGuards();
+
+        $login = $this->withHeaders(['X-API-Key' => $this->apiKey])
+            ->postJson('/api/mobile/tokens/biometric/login', [
+                'biometric_token' => $response->json('token.biometric_token'),
+                'device_id' => $deviceId,
+            ]);
+
+        $login->assertStatus(200)
+            ->assertJsonPath('user.id', $this->user->id)
+            ->assertJsonStructure([
+                'tokens' => ['access_token', 'refresh_token', 'expires_at'],
+            ]);
+        $this->assertDatabaseHas('mobile_token_registries', [
+            'user_id' => $this->user->id,
+            'device_id' => $deviceId,
+        ]);
+    }
+
+    public function test_biometric_token_only_works_on_its_device(): void
+    {
+        $token = $this->tokenManager->generateBiometricToken($this->user, 'test-device-biometric');
+
+        $response = $this->withHeaders(['X-API-Key' => $this->apiKey])
+            ->postJson('/api/mobile/tokens/biometric/login', [
+                'biometric_token' => $token['biometric_token'],
+                'device_id' => 'test-device-elsewhere',
+            ]);
+
+        $response->assertStatus(401);
+    }
+
+    public function test_biometric_login_requires_the_api_key(): void
+    {
+        $deviceId = 'test-device-biometric';
+        $token = $this->tokenManager->generateBiometricToken($this->user, $deviceId);
+
+        $response = $this->postJson('/api/mobile/tokens/biometric/login', [
+            'biometric_token' => $token['biometric_token'],
+            'device_id' => $deviceId,
+        ]);
+
+        $response->assertStatus(401)
+            ->assertJson(['error' => 'Invalid API key']);
+    }
+
+    public function test_biometric_token_is_not_a_bearer_token(): void
+    {
+        $token = $this->tokenManager->generateBiometricToken($this->user, 'test-device-biometric');
+
+        $response = $this->withHeaders([
+            'X-API-Key' => $this->apiKey,
+            'Authorization' => 'Bearer ' . $token['biometric_token'],
+        ])->getJson('/api/user');
+
+        $response->assertStatus(401);
+    }
+
+    public function test_expired_biometric_token_is_rejected(): void
+    {
+        $deviceId = 'test-device-biometric';
+        $token = $this->tokenManager->generateBiometricToken($this->user, $deviceId);
+
+        Carbon::setTestNow(now()->addDays(31));
+
+        $response = $this->withHeaders(['X-API-Key' => $this->apiKey])
+            ->postJson('/api/mobile/tokens/biometric/login', [
+                'biometric_token' => $token['biometric_token'],
+                'device_id' => $deviceId,
+            ]);
+
+        $response->assertStatus(401);
+
+        Carbon::setTestNow();
+    }
+
+    public function test_revoking_the_biometric_token_stops_biometric_sign_in(): void
+    {
+        $deviceId = 'test-device-biometric';
+        $token = $this->tokenManager->generateBiometricToken($this->user, $deviceId);
+
+        $this->actingAs($this->user, 'sanctum')
+            ->withHeaders(['X-API-Key' => $this->apiKey])
+            ->deleteJson('/api/mobile/tokens/biometric', [
+                'device_id' => $deviceId,
+            ])
+            ->assertStatus(200)
+            ->assertJson(['revoked_count' => 1]);
+
+        $this->assertNull(PersonalAccessToken::findToken($token['biometric_token']));
+    }
+
+    public function test_revoking_all_tokens_revokes_biometric_tokens(): void
+    {
+        $token = $this->tokenManager->generateBiometricToken($this->user, 'test-device-biometric');
+
+        $this->tokenManager->revokeAllUserTokens($this->user->id);
+
+        $this->assertNull(PersonalAccessToken::findToken($token['biometric_token']));
+    }
+
     public function test_should_rotate_endpoint(): void
     {
         $token = $this->user->createToken('test-token', ['*'], now()->addMinutes(15));
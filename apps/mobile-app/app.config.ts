@@ -19,6 +19,47 @@ const appIconBadgeConfig: AppIconBadgeConfig = {
   ],
 };
 
+const cameraConfig = {
+  cameraPermission:
+    'Allow $(PRODUCT_NAME) to use the camera to scan asset QR codes.',
+};
+
+const locationConfig = {
+  locationWhenInUsePermission:
+    'Allow $(PRODUCT_NAME) to record where inspections are carried out.',
+};
+
+const imagePickerConfig = {
+  photosPermission:
+    'Allow $(PRODUCT_NAME) to attach photos from your library to inspections.',
+};
+
+// Web links the app opens instead of the browser, as universal links on
+// iOS and verified app links on Android. Each domain also has to serve
+// apple-app-site-association and assetlinks.json for this app.
+const linkDomains = ['checkright.app', '*.checkright.app'];
+
+const linkPathPrefixes = [
+  '/invitations/',
+  '/accept-invitation/',
+  '/password/reset/',
+  '/inspections/',
+  '/assets/',
+];
+
+const appLinksIntentFilter = {
+  action: 'VIEW',
+  autoVerify: true,
+  data: linkDomains.flatMap((host) =>
+    linkPathPrefixes.map((pathPrefix) => ({
+      scheme: 'https',
+      host,
+      pathPrefix,
+    }))
+  ),
+  category: ['BROWSABLE', 'DEFAULT'],
+};
+
 export default ({ config }: ConfigContext): ExpoConfig => ({
   ...config,
   name: Env.NAME,
@@ -41,6 +82,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     infoPlist: {
       ITSAppUsesNonExemptEncryption: false,
     },
+    associatedDomains: linkDomains.map((domain) => `applinks:${domain}`),
   },
   experiments: {
     typedRoutes: true,
@@ -51,6 +93,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
       backgroundColor: '#2E3C4B',
     },
     package: Env.PACKAGE,
+    intentFilters: [appLinksIntentFilter],
   },
   web: {
     favicon: './assets/favicon.png',
@@ -75,6 +118,9 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     'expo-router',
     ['app-icon-badge', appIconBadgeConfig],
     ['react-native-edge-to-edge'],
+    ['expo-camera', cameraConfig],
+    ['expo-location', locationConfig],
+    ['expo-image-picker', imagePickerConfig],
   ],
   extra: {
     ...ClientEnv,
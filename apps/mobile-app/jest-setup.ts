@@ -39,6 +39,7 @@ jest.mock('expo-secure-store', () => ({
   setItemAsync: jest.fn().mockResolvedValue(undefined),
   getItemAsync: jest.fn().mockResolvedValue(null),
   deleteItemAsync: jest.fn().mockResolvedValue(undefined),
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
   SecureStoreAccessibility: {
     WHEN_UNLOCKED: 'WHEN_UNLOCKED',
     WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
@@ -61,6 +62,7 @@ jest.mock('expo-local-authentication', () => ({
 // Mock expo-crypto
 jest.mock('expo-crypto', () => ({
   digestStringAsync: jest.fn().mockResolvedValue('mocked-hash-string'),
+  digest: jest.fn().mockResolvedValue(new ArrayBuffer(32)),
   getRandomBytesAsync: jest.fn().mockResolvedValue(new Uint8Array(32)),
   CryptoDigestAlgorithm: {
     SHA256: 'SHA256',
@@ -105,6 +107,13 @@ jest.mock('expo-constants', () => ({
   },
 }));
 
+// Mock expo-device (values unknown, as on a simulator without device info)
+jest.mock('expo-device', () => ({
+  modelName: null,
+  osVersion: null,
+  deviceName: null,
+}));
+
 // Mock expo-localization
 jest.mock('expo-localization', () => ({
   locale: 'en-US',
@@ -162,6 +171,10 @@ jest.mock('react-native', () => {
     Alert: {
       alert: jest.fn(),
     },
+    AppState: {
+      currentState: 'active',
+      addEventListener: jest.fn(() => ({ remove: jest.fn() })),
+    },
     StyleSheet: {
       create: jest.fn((styles) => styles),
     },
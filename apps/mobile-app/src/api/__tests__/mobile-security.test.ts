@@ -1,10 +1,12 @@
-import * as Crypto from 'expo-crypto';
+import { AxiosHeaders } from 'axios';
 
+import { deviceFingerprintService } from '@/lib/device-fingerprint';
 import type { SecureTokens } from '@/lib/secure-storage';
 import { secureStorage, secureTokenStorage } from '@/lib/secure-storage';
 
 import { client } from '../common/client';
 import type {
+  BiometricLoginResponse,
   DeviceInfo,
   DeviceRegistrationResponse,
   TokenGenerationResponse,
@@ -13,24 +15,35 @@ import type {
 import { mobileSecurityAPI } from '../mobile-security';
 
 // Mock dependencies
+jest.mock('@/lib/device-fingerprint', () => ({
+  deviceFingerprintService: { generateFingerprint: jest.fn() },
+}));
 jest.mock('@/lib/secure-storage');
-jest.mock('../common/client');
-jest.mock('expo-crypto');
+jest.mock('../common/client', () => {
+  const interceptors = () => ({ use: jest.fn(() => 1), eject: jest.fn() });
+  return {
+    client: {
+      post: jest.fn(),
+      get: jest.fn(),
+      delete: jest.fn(),
+      interceptors: { request: interceptors(), response: interceptors() },
+    },
+  };
+});
 
 const mockSecureStorage = secureStorage as jest.Mocked<typeof secureStorage>;
 const mockSecureTokenStorage = secureTokenStorage as jest.Mocked<
   typeof secureTokenStorage
 >;
 const mockClient = client as jest.Mocked<typeof client>;
-const mockCrypto = Crypto as jest.Mocked<typeof Crypto>;
+const mockGenerateFingerprint =
+  deviceFingerprintService.generateFingerprint as jest.Mock;
 
 describe('MobileSecurityAPI', () => {
   const mockDeviceId = 'device_test123';
   const mockDeviceSecret = 'secret_test456';
   const mockAccessToken = 'access_token_123';
   const mockRefreshToken = 'refresh_token_456';
-  const mockSignature = 'mocked_signature_hash';
-  const mockNonce = '1234567890abcdef';
 
   const mockTokens: SecureTokens = {
     accessToken: mockAccessToken,
@@ -51,12 +64,18 @@ describe('MobileSecurityAPI', () => {
     mockSecureTokenStorage.getTokens.mockResolvedValue(mockTokens);
     mockSecureTokenStorage.setTokens.mockResolvedValue(undefined);
     mockSecureTokenStorage.removeTokens.mockResolvedValue(undefined);
-
-    // Mock crypto functions
-    mockCrypto.digestStringAsync.mockResolvedValue(mockSignature);
-    mockCrypto.getRandomBytesAsync.mockResolvedValue(
-      new Uint8Array([0x12, 0x34, 0x56, 0x78, 0x90, 0xab, 0xcd, 0xef])
-    );
+    mockGenerateFingerprint.mockResolvedValue({
+      deviceId: mockDeviceId,
+      platform: 'android',
+      platformVersion: '14',
+      deviceModel: 'Pixel 8',
+      deviceName: 'Site tablet',
+      screenDimensions: { width: 411.4, height: 914.3, scale: 2.6 },
+      locale: 'en-NZ',
+      timezone: 'Pacific/Auckland',
+      appVersion: '1.4.0',
+      fingerprint: 'fingerprint',
+    });
 
     // Mock client responses
     mockClient.post.mockResolvedValue({ data: {} });
@@ -83,22 +102,14 @@ describe('MobileSecurityAPI', () => {
         {
           device_id: mockDeviceId,
           device_info: {
-            platform: 'ios',
-            os_version: '17.0',
-            app_version: '1.0.0',
-            device_model: 'iPhone',
-            device_name: 'User Device',
+            platform: 'android',
+            model: 'Pixel 8',
+            version: '14',
+            app_version: '1.4.0',
+            screen_resolution: '411x914',
+            timezone: 'Pacific/Auckland',
+            device_name: 'Site tablet',
           },
-        },
-        {
-          headers: expect.objectContaining({
-            'Content-Type': 'application/json',
-            Accept: 'application/json',
-            'X-API-Key': expect.any(String),
-            'X-Timestamp': expect.any(String),
-            'X-Nonce': expect.any(String),
-            'X-Device-Id': mockDeviceId,
-          }),
         }
       );
 
@@ -106,6 +117,10 @@ describe('MobileSecurityAPI', () => {
         'device_secret',
         mockDeviceSecret
       );
+      expect(mockSecureStorage.setItem).toHaveBeenCalledWith(
+        'device_registration',
+        { version: '14', app_version: '1.4.0' }
+      );
     });
 
     it('should handle device registration failure', async () => {
@@ -131,6 +146,54 @@ describe('MobileSecurityAPI', () => {
     });
   });
 
+  describe('Registration Sync', () => {
+    beforeEach(() => {
+      mockClient.post.mockResolvedValue({
+        data: { device_secret: mockDeviceSecret },
+      });
+    });
+
+    it('should not re-register when nothing has changed', async () => {
+      mockSecureStorage.getItem.mockResolvedValue({
+        version: '14',
+        app_version: '1.4.0',
+      });
+
+      await expect(mobileSecurityAPI.syncDeviceRegistration()).resolves.toBe(
+        false
+      );
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should re-register after an app update', async () => {
+      mockSecureStorage.getItem.mockResolvedValue({
+        version: '14',
+        app_version: '1.3.2',
+      });
+
+      await expect(mobileSecurityAPI.syncDeviceRegistration()).resolves.toBe(
+        true
+      );
+      expect(mockClient.post).toHaveBeenCalledWith(
+        '/api/mobile/devices/register',
+        expect.objectContaining({
+          device_info: expect.objectContaining({ app_version: '1.4.0' }),
+        })
+      );
+    });
+
+    it('should re-register after an OS update', async () => {
+      mockSecureStorage.getItem.mockResolvedValue({
+        version: '13',
+        app_version: '1.4.0',
+      });
+
+      await expect(mobileSecurityAPI.syncDeviceRegistration()).resolves.toBe(
+        true
+      );
+    });
+  });
+
   describe('Token Generation', () => {
     it('should successfully generate tokens', async () => {
       const mockResponse: TokenGenerationResponse = {
@@ -153,13 +216,7 @@ describe('MobileSecurityAPI', () => {
       expect(result).toEqual(mockTokens);
       expect(mockClient.post).toHaveBeenCalledWith(
         '/api/mobile/tokens/generate',
-        { device_id: mockDeviceId },
-        {
-          headers: expect.objectContaining({
-            'X-Device-Id': mockDeviceId,
-            'X-Signature': mockSignature,
-          }),
-        }
+        { device_id: mockDeviceId }
       );
 
       expect(mockSecureTokenStorage.setTokens).toHaveBeenCalledWith(mockTokens);
@@ -201,19 +258,11 @@ describe('MobileSecurityAPI', () => {
 
       expect(result.accessToken).toBe('new_access_token');
       expect(result.refreshToken).toBe('new_refresh_token');
-      expect(mockClient.post).toHaveBeenCalledWith(
-        '/api/mobile/tokens/refresh',
-        {
-          refresh_token: mockRefreshToken,
-          device_id: mockDeviceId,
-          current_access_token: mockAccessToken,
-        },
-        {
-          headers: expect.objectContaining({
-            'X-Signature': mockSignature,
-          }),
-        }
-      );
+      expect(mockClient.post).toHaveBeenCalledWith('mobile/tokens/refresh', {
+        refresh_token: mockRefreshToken,
+        device_id: mockDeviceId,
+        current_access_token: mockAccessToken,
+      });
 
       expect(mockSecureTokenStorage.setTokens).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -246,6 +295,37 @@ describe('MobileSecurityAPI', () => {
     });
   });
 
+  describe('Biometric Sign-in', () => {
+    it('exchanges the biometric token under the API base URL', async () => {
+      const mockResponse: BiometricLoginResponse = {
+        message: 'Login successful',
+        tokens: {
+          access_token: 'biometric_access_token',
+          refresh_token: 'biometric_refresh_token',
+          access_expires_in: 900,
+          refresh_expires_in: 604800,
+          token_type: 'Bearer',
+          expires_at: '2024-12-31T23:59:59Z',
+          refresh_expires_at: '2025-01-07T23:59:59Z',
+        },
+        company: 'Acme',
+      };
+
+      mockClient.post.mockResolvedValue({ data: mockResponse });
+
+      const result = await mobileSecurityAPI.loginWithBiometricToken('bio');
+
+      expect(mockClient.post).toHaveBeenCalledWith(
+        'mobile/tokens/biometric/login',
+        { biometric_token: 'bio', device_id: mockDeviceId }
+      );
+      expect(result.company).toBe('Acme');
+      expect(mockSecureTokenStorage.setTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ accessToken: 'biometric_access_token' })
+      );
+    });
+  });
+
   describe('Token Validation', () => {
     it('should successfully validate token', async () => {
       const mockResponse: TokenValidationResponse = {
@@ -268,7 +348,6 @@ describe('MobileSecurityAPI', () => {
         {
           headers: expect.objectContaining({
             Authorization: `Bearer ${mockAccessToken}`,
-            'X-Signature': mockSignature,
           }),
         }
       );
@@ -373,9 +452,6 @@ describe('MobileSecurityAPI', () => {
       expect(mockClient.delete).toHaveBeenCalledWith(
         '/api/mobile/tokens/device',
         {
-          headers: expect.objectContaining({
-            'X-Signature': mockSignature,
-          }),
           data: { device_id: mockDeviceId },
         }
       );
@@ -396,6 +472,28 @@ describe('MobileSecurityAPI', () => {
         'Failed to revoke tokens'
       );
     });
+
+    it('should revoke the tokens of every device', async () => {
+      mockClient.delete.mockResolvedValue({
+        data: { message: 'Revoked all 3 token pairs', revoked_count: 3 },
+      });
+
+      await expect(mobileSecurityAPI.revokeAllTokens()).resolves.toBe(3);
+
+      expect(mockClient.delete).toHaveBeenCalledWith('mobile/tokens/all');
+      expect(mockSecureTokenStorage.removeTokens).toHaveBeenCalled();
+    });
+
+    it('should keep local tokens when revoking every device fails', async () => {
+      mockClient.delete.mockRejectedValue({
+        response: { data: { message: 'Failed to revoke user tokens' } },
+      });
+
+      await expect(mobileSecurityAPI.revokeAllTokens()).rejects.toThrow(
+        'Failed to revoke user tokens'
+      );
+      expect(mockSecureTokenStorage.removeTokens).not.toHaveBeenCalled();
+    });
   });
 
   describe('Device Management', () => {
@@ -433,107 +531,40 @@ describe('MobileSecurityAPI', () => {
   });
 
   describe('Request Signing', () => {
-    it('should generate correct signature for requests', async () => {
-      // Access private method through instance for testing
-      const api = mobileSecurityAPI as any;
-      api.deviceSecret = mockDeviceSecret;
-
-      const options = {
-        method: 'POST',
-        url: '/api/test',
-        timestamp: 1640995200, // Fixed timestamp for testing
-        nonce: 'test-nonce',
-        body: '{"test":"data"}',
-      };
-
-      const signature = await api.generateSignature(options);
-
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledWith(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        `POST|/api/test|1640995200|test-nonce|{"test":"data"}|${mockDeviceSecret}`,
-        { encoding: Crypto.CryptoEncoding.HEX }
-      );
-      expect(signature).toBe(mockSignature);
-    });
-
-    it('should handle signature generation without body', async () => {
-      const api = mobileSecurityAPI as any;
-      api.deviceSecret = mockDeviceSecret;
-
-      const options = {
-        method: 'GET',
-        url: '/api/test',
-        timestamp: 1640995200,
-        nonce: 'test-nonce',
-      };
-
-      await api.generateSignature(options);
-
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledWith(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        `GET|/api/test|1640995200|test-nonce|${mockDeviceSecret}`,
-        { encoding: Crypto.CryptoEncoding.HEX }
-      );
-    });
-
-    it('should throw error when device secret not available', async () => {
-      const api = mobileSecurityAPI as any;
-      api.deviceSecret = null;
-
-      const options = {
-        method: 'POST',
-        url: '/api/test',
-        timestamp: 1640995200,
-        nonce: 'test-nonce',
-      };
-
-      await expect(api.generateSignature(options)).rejects.toThrow(
-        'Device secret not available. Please register device first.'
-      );
-    });
-  });
-
-  describe('Secure Headers Creation', () => {
-    it('should create secure headers with all required fields', async () => {
+    it('signs requests made through the client', async () => {
       const api = mobileSecurityAPI as any;
       api.deviceId = mockDeviceId;
       api.deviceSecret = mockDeviceSecret;
 
-      const headers = await api.createSecureHeaders('POST', '/api/test', {
-        data: 'test',
+      mobileSecurityAPI.setupRequestSigning();
+      const [signRequest] = (mockClient.interceptors.request.use as jest.Mock)
+        .mock.calls[0];
+
+      const config = await signRequest({
+        baseURL: 'https://api.test/api',
+        url: 'mobile/invitations',
+        method: 'post',
+        data: { email: 'new@example.com' },
+        headers: new AxiosHeaders(),
       });
 
-      expect(headers).toEqual(
+      expect(config.headers.toJSON()).toEqual(
         expect.objectContaining({
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
           'X-API-Key': expect.any(String),
           'X-Timestamp': expect.any(String),
           'X-Nonce': expect.any(String),
           'X-Device-Id': mockDeviceId,
-          'X-Signature': mockSignature,
+          'X-Signature': expect.any(String),
         })
       );
     });
 
-    it('should create headers without signature when no device secret', async () => {
-      const api = mobileSecurityAPI as any;
-      api.deviceId = mockDeviceId;
-      api.deviceSecret = null;
-
-      const headers = await api.createSecureHeaders('GET', '/api/test');
+    it('removes its interceptors on cleanup', () => {
+      const cleanup = mobileSecurityAPI.setupRequestSigning();
+      cleanup();
 
-      expect(headers).toEqual(
-        expect.objectContaining({
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          'X-API-Key': expect.any(String),
-          'X-Timestamp': expect.any(String),
-          'X-Nonce': expect.any(String),
-          'X-Device-Id': mockDeviceId,
-        })
-      );
-      expect(headers['X-Signature']).toBeUndefined();
+      expect(mockClient.interceptors.request.eject).toHaveBeenCalled();
+      expect(mockClient.interceptors.response.eject).toHaveBeenCalled();
     });
   });
 
@@ -590,24 +621,6 @@ describe('MobileSecurityAPI', () => {
         'Token generation failed'
       );
     });
-
-    it('should handle crypto operation failures', async () => {
-      mockCrypto.digestStringAsync.mockRejectedValue(
-        new Error('Crypto failed')
-      );
-
-      const api = mobileSecurityAPI as any;
-      api.deviceSecret = mockDeviceSecret;
-
-      await expect(
-        api.generateSignature({
-          method: 'POST',
-          url: '/api/test',
-          timestamp: 1640995200,
-          nonce: 'test-nonce',
-        })
-      ).rejects.toThrow();
-    });
   });
 
   describe('Environment Configuration', () => {
@@ -0,0 +1,178 @@
+import type { InternalAxiosRequestConfig } from 'axios';
+import { AxiosHeaders } from 'axios';
+import { createHmac } from 'crypto';
+
+import {
+  canonicalUrl,
+  serverNow,
+  signRequest,
+  syncServerClock,
+} from '../common/request-signing';
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  getRandomBytesAsync: jest.fn(async () => new Uint8Array(16).fill(0xab)),
+  digest: jest.fn(async (_algorithm: string, data: Uint8Array) => {
+    const hash = jest
+      .requireActual('crypto')
+      .createHash('sha256')
+      .update(data)
+      .digest();
+    return hash.buffer.slice(
+      hash.byteOffset,
+      hash.byteOffset + hash.byteLength
+    );
+  }),
+}));
+
+const credentials = {
+  apiKey: 'api-key',
+  deviceId: 'device_abc',
+  deviceSecret: 'device-secret',
+};
+
+const nonce = 'ab'.repeat(16);
+
+function request(
+  overrides: Partial<InternalAxiosRequestConfig>
+): InternalAxiosRequestConfig {
+  return {
+    baseURL: 'https://api.test/api',
+    method: 'get',
+    headers: new AxiosHeaders(),
+    ...overrides,
+  };
+}
+
+// What the API's RequestSignatureValidator computes
+const expectedSignature = (
+  parts: string[],
+  secret = credentials.deviceSecret
+) => createHmac('sha256', secret).update(parts.join('\n')).digest('base64');
+
+afterEach(() => {
+  syncServerClock(new Date().toUTCString());
+  jest.useRealTimers();
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  syncServerClock('Thu, 01 Jan 2026 00:00:00 GMT');
+});
+
+describe('signRequest', () => {
+  it('signs the method, full URL, JSON body, timestamp and nonce', async () => {
+    const config = request({
+      method: 'post',
+      url: 'mobile/invitations',
+      data: { email: 'new@example.com', role: 'operator' },
+    });
+
+    await signRequest(config, credentials);
+
+    const body = '{"email":"new@example.com","role":"operator"}';
+    const timestamp = String(Date.now());
+
+    expect(config.data).toBe(body);
+    expect(config.headers.toJSON()).toMatchObject({
+      'X-API-Key': 'api-key',
+      'X-Device-Id': 'device_abc',
+      'X-Timestamp': timestamp,
+      'X-Nonce': nonce,
+      'X-Signature': expectedSignature([
+        'POST',
+        'https://api.test/api/mobile/invitations',
+        body,
+        timestamp,
+        nonce,
+      ]),
+    });
+  });
+
+  it('signs the query string the way the server normalizes it', async () => {
+    const config = request({
+      url: 'mobile/users/',
+      params: { search: "o'brien smith", page: 2, roles: ['admin', 'owner'] },
+    });
+
+    await signRequest(config, credentials);
+
+    expect(config.params).toBeUndefined();
+    expect(config.headers.get('X-Signature')).toBe(
+      expectedSignature([
+        'GET',
+        'https://api.test/api/mobile/users?page=2&roles%5B0%5D=admin&roles%5B1%5D=owner&search=o%27brien%20smith',
+        '',
+        String(Date.now()),
+        nonce,
+      ])
+    );
+  });
+
+  it('handles secrets longer than the HMAC block size', async () => {
+    const deviceSecret = 's'.repeat(100);
+    const config = request({ url: 'mobile/inspections' });
+
+    await signRequest(config, { ...credentials, deviceSecret });
+
+    expect(config.headers.get('X-Signature')).toBe(
+      expectedSignature(
+        [
+          'GET',
+          'https://api.test/api/mobile/inspections',
+          '',
+          String(Date.now()),
+          nonce,
+        ],
+        deviceSecret
+      )
+    );
+  });
+});
+
+describe('signRequest headers', () => {
+  it('sends unsigned device headers before the device is registered', async () => {
+    const config = request({ url: 'mobile/auth/login' });
+
+    await signRequest(config, { ...credentials, deviceSecret: null });
+
+    expect(config.headers.get('X-Device-Id')).toBe('device_abc');
+    expect(config.headers.has('X-Signature')).toBe(false);
+  });
+
+  it('timestamps requests in server time', async () => {
+    syncServerClock('Thu, 01 Jan 2026 00:10:00 GMT');
+    const config = request({ url: 'mobile/inspections' });
+
+    await signRequest(config, credentials);
+
+    expect(config.headers.get('X-Timestamp')).toBe(
+      String(Date.parse('2026-01-01T00:10:00Z'))
+    );
+  });
+});
+
+describe('syncServerClock', () => {
+  it('ignores responses without a usable Date header', () => {
+    syncServerClock('Thu, 01 Jan 2026 00:05:00 GMT');
+
+    syncServerClock(undefined);
+    syncServerClock('not a date');
+
+    expect(serverNow()).toBe(Date.parse('2026-01-01T00:05:00Z'));
+  });
+});
+
+describe('canonicalUrl', () => {
+  it('drops trailing slashes and fragments', () => {
+    expect(canonicalUrl('https://api.test/api/mobile/assets/#top')).toBe(
+      'https://api.test/api/mobile/assets'
+    );
+  });
+
+  it('sorts parameters and lets the last duplicate win', () => {
+    expect(canonicalUrl('https://api.test/x?b=2&a=1&b=3&c=a+b')).toBe(
+      'https://api.test/x?a=1&b=3&c=a%20b'
+    );
+  });
+});
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './use-asset';
+export * from './use-asset-by-code';
+export * from './use-assets';
+export * from './use-assigned-assets';
+export * from './use-search-assets';
@@ -0,0 +1,21 @@
+export type AssetType = 'vehicle' | 'building' | 'tool' | 'equipment' | 'other';
+
+export type Asset = {
+  id: string;
+  name: string;
+  type: AssetType;
+  identifier: string | null;
+  qr_code: string | null;
+  location: string | null;
+  description: string | null;
+  checklist_template_id: string | null;
+  assigned_user_ids: string[];
+  last_inspected_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AssetFilters = {
+  type?: AssetType;
+  search?: string;
+};
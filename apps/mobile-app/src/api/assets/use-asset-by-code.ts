@@ -0,0 +1,19 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { Asset } from './types';
+
+type Variables = { code: string };
+type Response = Asset;
+
+// Resolves the value encoded in an asset's QR label
+export const fetchAssetByCode = (variables: Variables): Promise<Response> =>
+  client
+    .get('mobile/assets/lookup', { params: { code: variables.code } })
+    .then((response) => response.data.data);
+
+export const useAssetByCode = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['asset', 'code'],
+  fetcher: fetchAssetByCode,
+});
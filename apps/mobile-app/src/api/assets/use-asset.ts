@@ -0,0 +1,17 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { Asset } from './types';
+
+type Variables = { id: string };
+type Response = Asset;
+
+export const useAsset = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['asset'],
+  fetcher: (variables) => {
+    return client
+      .get(`mobile/assets/${variables.id}`)
+      .then((response) => response.data.data);
+  },
+});
@@ -0,0 +1,17 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { Asset, AssetFilters } from './types';
+
+type Variables = AssetFilters;
+type Response = Asset[];
+
+export const useAssets = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['assets'],
+  fetcher: (variables) => {
+    return client
+      .get('mobile/assets', { params: variables })
+      .then((response) => response.data.data);
+  },
+});
@@ -0,0 +1,17 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { Asset, AssetFilters } from './types';
+
+type Variables = Pick<AssetFilters, 'type'>;
+type Response = Asset[];
+
+export const useAssignedAssets = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['assets', 'assigned'],
+  fetcher: (variables) => {
+    return client
+      .get('mobile/assets/assigned', { params: variables })
+      .then((response) => response.data.data);
+  },
+});
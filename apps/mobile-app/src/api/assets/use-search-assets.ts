@@ -0,0 +1,20 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { Asset, AssetFilters } from './types';
+
+type Variables = Required<Pick<AssetFilters, 'search'>> &
+  Pick<AssetFilters, 'type'>;
+type Response = Asset[];
+
+export const useSearchAssets = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['assets', 'search'],
+  fetcher: (variables) => {
+    return client
+      .get('mobile/assets/search', {
+        params: { q: variables.search, type: variables.type },
+      })
+      .then((response) => response.data.data);
+  },
+});
@@ -0,0 +1,28 @@
+export type ChecklistQuestionType = 'pass_fail' | 'text' | 'photo';
+
+export type ChecklistQuestion = {
+  id: string;
+  type: ChecklistQuestionType;
+  label: string;
+  help_text: string | null;
+  required: boolean;
+  // pass_fail only: a failed item must carry an explanation
+  require_notes_on_fail?: boolean;
+  // photo only
+  min_photos?: number;
+  max_photos?: number;
+};
+
+export type ChecklistPage = {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: ChecklistQuestion[];
+};
+
+export type ChecklistTemplate = {
+  id: string;
+  name: string;
+  version: number;
+  pages: ChecklistPage[];
+};
@@ -0,0 +1,21 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { ChecklistTemplate } from './types';
+
+type Variables = { id: string };
+type Response = ChecklistTemplate;
+
+export const useChecklistTemplate = createQuery<
+  Response,
+  Variables,
+  AxiosError
+>({
+  queryKey: ['checklist-template'],
+  fetcher: (variables) => {
+    return client
+      .get(`mobile/checklist-templates/${variables.id}`)
+      .then((response) => response.data.data);
+  },
+});
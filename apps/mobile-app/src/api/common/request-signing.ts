@@ -0,0 +1,233 @@
+import type { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import * as Crypto from 'expo-crypto';
+
+/**
+ * HMAC request signing, matching the API's `RequestSignatureValidator`:
+ * the signature is base64(HMAC-SHA256(secret, method, full URL, raw body,
+ * timestamp in ms and nonce joined by newlines)).
+ */
+
+export interface SigningCredentials {
+  apiKey: string;
+  deviceId: string | null;
+  deviceSecret: string | null;
+}
+
+const HMAC_BLOCK_SIZE = 64;
+
+// Server time minus device time, from the last response's `Date` header
+let clockOffset = 0;
+
+/**
+ * Track how far the device clock is from the server's, so signed
+ * timestamps stay inside the server's tolerance on a skewed device
+ */
+export function syncServerClock(date: unknown): void {
+  const serverTime = typeof date === 'string' ? Date.parse(date) : NaN;
+
+  if (!Number.isNaN(serverTime)) {
+    clockOffset = serverTime - Date.now();
+  }
+}
+
+export const serverNow = () => Date.now() + clockOffset;
+
+/**
+ * Add the API key, device and signature headers to an outgoing request.
+ * The body is serialized here so the bytes signed are the bytes sent.
+ */
+export async function signRequest(
+  config: InternalAxiosRequestConfig,
+  credentials: SigningCredentials
+): Promise<void> {
+  const headers = config.headers as AxiosHeaders;
+  const timestamp = String(serverNow());
+  const nonce = toHex(await Crypto.getRandomBytesAsync(16));
+
+  headers.set('X-API-Key', credentials.apiKey);
+  headers.set('X-Timestamp', timestamp);
+  headers.set('X-Nonce', nonce);
+
+  if (!credentials.deviceId) {
+    return;
+  }
+  headers.set('X-Device-Id', credentials.deviceId);
+
+  const body = serializeBody(config);
+
+  // Multipart bodies are only encoded by the network layer, so there is
+  // nothing to sign them with; none of the signed endpoints take uploads
+  if (!credentials.deviceSecret || body === null) {
+    return;
+  }
+
+  const payload = [
+    (config.method ?? 'get').toUpperCase(),
+    canonicalUrl(buildUri(config)),
+    body,
+    timestamp,
+    nonce,
+  ].join('\n');
+
+  headers.set(
+    'X-Signature',
+    toBase64(await hmacSha256(credentials.deviceSecret, payload))
+  );
+}
+
+/**
+ * The URL as Laravel's `Request::fullUrl()` sees it: no trailing slash,
+ * and query parameters sorted and RFC 3986 encoded
+ */
+export function canonicalUrl(url: string): string {
+  const [base, query = ''] = url.split('#')[0].split('?');
+  const path = base.replace(/\/+$/, '');
+  const normalized = normalizeQuery(query);
+
+  return normalized ? `${path}?${normalized}` : path;
+}
+
+function buildUri(config: InternalAxiosRequestConfig): string {
+  inlineParams(config);
+  const url = config.url ?? '';
+
+  if (/^([a-z][a-z\d+\-.]*:)?\/\//i.test(url) || !config.baseURL) {
+    return url;
+  }
+  return `${config.baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+// Move `params` into the URL ourselves, so the query signed is the query sent
+function inlineParams(config: InternalAxiosRequestConfig) {
+  const params = Object.entries(
+    (config.params ?? {}) as Record<string, unknown>
+  ).flatMap(([key, value]) => {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    return Array.isArray(value)
+      ? value.map(
+          (item) =>
+            `${encodeRfc3986(`${key}[]`)}=${encodeRfc3986(String(item))}`
+        )
+      : [`${encodeRfc3986(key)}=${encodeRfc3986(String(value))}`];
+  });
+
+  config.params = undefined;
+
+  if (params.length) {
+    const url = config.url ?? '';
+    config.url = `${url}${url.includes('?') ? '&' : '?'}${params.join('&')}`;
+  }
+}
+
+// Mirrors PHP's parse_str, ksort and http_build_query(..., RFC3986)
+function normalizeQuery(query: string): string {
+  const params = new Map<string, Map<string, string>>();
+  const listIndexes = new Map<string, number>();
+
+  query
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [rawKey, rawValue = ''] = pair.split('=');
+      let key = decodeQueryComponent(rawKey);
+      const value = decodeQueryComponent(rawValue);
+      const name = key.split('[')[0];
+
+      if (key.endsWith('[]')) {
+        const index = listIndexes.get(key) ?? 0;
+        listIndexes.set(key, index + 1);
+        key = `${key.slice(0, -2)}[${index}]`;
+      }
+
+      const entries = params.get(name) ?? new Map<string, string>();
+      entries.set(key, value);
+      params.set(name, entries);
+    });
+
+  return [...params.keys()]
+    .sort()
+    .flatMap((name) =>
+      [...params.get(name)!].map(
+        ([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`
+      )
+    )
+    .join('&');
+}
+
+function serializeBody(config: InternalAxiosRequestConfig): string | null {
+  const { data } = config;
+
+  if (data === undefined || data === null) {
+    return '';
+  }
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (typeof FormData !== 'undefined' && data instanceof FormData) {
+    return null;
+  }
+
+  const json = JSON.stringify(data);
+  config.data = json;
+  (config.headers as AxiosHeaders).setContentType('application/json');
+
+  return json;
+}
+
+const decodeQueryComponent = (value: string) =>
+  decodeURIComponent(value.replace(/\+/g, ' '));
+
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)));
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(
+    await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data)
+  );
+}
+
+const concat = (first: Uint8Array, second: Uint8Array) => {
+  const bytes = new Uint8Array(first.length + second.length);
+  bytes.set(first);
+  bytes.set(second, first.length);
+  return bytes;
+};
+
+// expo-crypto only offers plain digests, so HMAC is built on top (RFC 2104)
+async function hmacSha256(secret: string, message: string) {
+  const encoder = new TextEncoder();
+  let key = encoder.encode(secret);
+
+  if (key.length > HMAC_BLOCK_SIZE) {
+    key = await sha256(key);
+  }
+
+  const block = new Uint8Array(HMAC_BLOCK_SIZE);
+  block.set(key);
+
+  const inner = await sha256(
+    concat(
+      block.map((byte) => byte ^ 0x36),
+      encoder.encode(message)
+    )
+  );
+  return sha256(
+    concat(
+      block.map((byte) => byte ^ 0x5c),
+      inner
+    )
+  );
+}
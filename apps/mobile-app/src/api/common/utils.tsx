@@ -3,7 +3,7 @@ import type {
   GetPreviousPageParamFunction,
 } from '@tanstack/react-query';
 
-import type { PaginateQuery } from '../types';
+import type { PaginateQuery, Paginator } from '../types';
 
 type KeyParams = {
   [key: string]: any;
@@ -49,3 +49,11 @@ export const getNextPageParam: GetPreviousPageParamFunction<
   unknown,
   PaginateQuery<unknown>
 > = (page) => getUrlParameters(page.next)?.offset ?? null;
+
+// same as normalizePages, for Laravel paginator responses
+export function normalizePaginatorPages<T>(pages?: Paginator<T>[]): T[] {
+  return pages ? pages.flatMap((page) => page.data) : [];
+}
+
+export const getNextPaginatorPage = (page: Paginator<unknown>) =>
+  page.current_page < page.last_page ? page.current_page + 1 : undefined;
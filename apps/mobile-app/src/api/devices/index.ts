@@ -0,0 +1,4 @@
+export * from './types';
+export * from './use-device-actions';
+export * from './use-device-security-status';
+export * from './use-devices';
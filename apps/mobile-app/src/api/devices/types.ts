@@ -0,0 +1,37 @@
+export type RegisteredDevice = {
+  id: number;
+  device_id: string;
+  // Platform, model and OS version, e.g. "android Pixel 8 v14"
+  device_info_string: string;
+  is_trusted: boolean;
+  is_trust_expired: boolean;
+  registered_at: string;
+  trusted_at: string | null;
+  trusted_until: string | null;
+  last_used_at: string | null;
+};
+
+export type RegisteredDevices = {
+  devices: RegisteredDevice[];
+  total: number;
+  max_devices: number;
+};
+
+export type SecurityRecommendation = {
+  type: 'trust' | 'renew_trust' | 'inactive' | 'device_info';
+  message: string;
+  priority: 'high' | 'medium' | 'low';
+};
+
+// For the device making the request
+export type DeviceSecurityStatus = {
+  device_id: string;
+  is_registered: boolean;
+  is_trusted: boolean;
+  is_trust_expired: boolean;
+  trust_expires_at: string | null;
+  last_used_at: string | null;
+  // 0 to 1
+  security_score: number;
+  recommendations: SecurityRecommendation[];
+};
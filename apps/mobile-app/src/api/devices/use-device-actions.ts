@@ -0,0 +1,48 @@
+import type { AxiosError } from 'axios';
+import { createMutation } from 'react-query-kit';
+
+import { client } from '../common';
+
+type Variables = { deviceId: string };
+
+type TrustVariables = Variables & {
+  // How the user confirmed the action, recorded by the server
+  verificationMethod?: 'biometric' | 'password';
+};
+
+// Trust lasts for the server's configured duration, 30 days by default
+export const useTrustDevice = createMutation<
+  { message: string; trusted_until: string },
+  TrustVariables,
+  AxiosError
+>({
+  mutationFn: ({ deviceId, verificationMethod }) =>
+    client
+      .post(`mobile/devices/${deviceId}/trust`, {
+        verification_method: verificationMethod,
+      })
+      .then((response) => response.data),
+});
+
+export const useRevokeDeviceTrust = createMutation<
+  { message: string },
+  Variables,
+  AxiosError
+>({
+  mutationFn: ({ deviceId }) =>
+    client
+      .delete(`mobile/devices/${deviceId}/trust`)
+      .then((response) => response.data),
+});
+
+// The device has to register again before it can be trusted or get new tokens
+export const useRemoveDevice = createMutation<
+  { message: string },
+  Variables,
+  AxiosError
+>({
+  mutationFn: ({ deviceId }) =>
+    client
+      .delete(`mobile/devices/${deviceId}`)
+      .then((response) => response.data),
+});
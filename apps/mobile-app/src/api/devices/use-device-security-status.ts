@@ -0,0 +1,19 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { DeviceSecurityStatus } from './types';
+
+// The server identifies this device by the X-Device-Id request header
+export const useDeviceSecurityStatus = createQuery<
+  DeviceSecurityStatus,
+  void,
+  AxiosError
+>({
+  queryKey: ['device-security-status'],
+  fetcher: () => {
+    return client
+      .get('mobile/devices/security-status')
+      .then((response) => response.data);
+  },
+});
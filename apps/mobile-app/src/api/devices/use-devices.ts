@@ -0,0 +1,13 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { RegisteredDevices } from './types';
+
+// Most recently used first
+export const useDevices = createQuery<RegisteredDevices, void, AxiosError>({
+  queryKey: ['devices'],
+  fetcher: () => {
+    return client.get('mobile/devices').then((response) => response.data);
+  },
+});
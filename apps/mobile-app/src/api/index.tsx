@@ -1,3 +1,9 @@
+export * from './assets';
+export * from './checklists';
 export * from './common';
+export * from './devices';
+export * from './inspections';
+export * from './invitations';
 export * from './posts';
 export * from './types';
+export * from './users';
@@ -0,0 +1,5 @@
+export * from './photo-uploads';
+export * from './types';
+export * from './use-inspection';
+export * from './use-inspections';
+export * from './use-submit-inspection';
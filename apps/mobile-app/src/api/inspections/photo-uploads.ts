@@ -0,0 +1,37 @@
+import { client } from '../common';
+import type {
+  CreatePhotoUploadInput,
+  PhotoUploadChunk,
+  PhotoUploadSession,
+} from './types';
+
+/**
+ * Resumable photo upload endpoints. A session is opened per photo, chunks
+ * are appended at the server's `received_bytes` offset and the upload is
+ * finalised once every byte has arrived.
+ */
+
+export const createPhotoUpload = (
+  variables: CreatePhotoUploadInput
+): Promise<PhotoUploadSession> =>
+  client
+    .post('mobile/inspections/photos/uploads', variables)
+    .then((response) => response.data.data);
+
+export const getPhotoUpload = (uploadId: string): Promise<PhotoUploadSession> =>
+  client
+    .get(`mobile/inspections/photos/uploads/${uploadId}`)
+    .then((response) => response.data.data);
+
+export const uploadPhotoChunk = (
+  uploadId: string,
+  chunk: PhotoUploadChunk
+): Promise<PhotoUploadSession> =>
+  client
+    .put(`mobile/inspections/photos/uploads/${uploadId}`, chunk)
+    .then((response) => response.data.data);
+
+export const completePhotoUpload = (uploadId: string): Promise<void> =>
+  client
+    .post(`mobile/inspections/photos/uploads/${uploadId}/complete`)
+    .then(() => undefined);
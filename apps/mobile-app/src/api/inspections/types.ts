@@ -0,0 +1,107 @@
+export type InspectionAnswerValue = string | number | boolean | null;
+
+export type InspectionAnswerInput = {
+  question_id: string;
+  value: InspectionAnswerValue;
+  notes?: string;
+  // Client-generated ids of photos uploaded separately via photo uploads
+  photo_ids?: string[];
+};
+
+export type LocationUnavailableReason =
+  | 'permission_denied'
+  | 'services_disabled'
+  | 'timeout'
+  | 'error';
+
+export type InspectionLocation =
+  | {
+      status: 'captured';
+      latitude: number;
+      longitude: number;
+      // Radius in metres as reported by the OS, null when unknown
+      accuracy: number | null;
+      captured_at: string;
+    }
+  | {
+      status: 'unavailable';
+      reason: LocationUnavailableReason;
+      captured_at: string;
+    };
+
+export type InspectionSubmissionMetadata = {
+  started_at: string;
+  completed_at: string;
+  start_location: InspectionLocation;
+  end_location: InspectionLocation;
+  device_hash: string;
+};
+
+export type InspectionSubmission = {
+  client_submission_id: string;
+  asset_id: string;
+  checklist_template_id: string;
+  answers: InspectionAnswerInput[];
+  metadata: InspectionSubmissionMetadata;
+};
+
+export type InspectionOutcome = 'passed' | 'failed';
+
+export type Inspection = {
+  id: string;
+  client_submission_id: string;
+  asset_id: string;
+  asset_name: string;
+  checklist_template_id: string;
+  status: InspectionOutcome;
+  submitted_at: string;
+};
+
+export type InspectionPhotoRecord = {
+  id: string;
+  url: string;
+  captured_at: string;
+};
+
+export type InspectionAnswerRecord = {
+  question_id: string;
+  question_label: string;
+  question_type: 'pass_fail' | 'text' | 'photo';
+  value: InspectionAnswerValue;
+  notes: string | null;
+  photos: InspectionPhotoRecord[];
+};
+
+export type InspectionDetail = Inspection & {
+  checklist_template_name: string;
+  answers: InspectionAnswerRecord[];
+  metadata: InspectionSubmissionMetadata;
+};
+
+export type InspectionHistoryFilters = {
+  asset_id?: string;
+  status?: InspectionOutcome;
+  // ISO dates, inclusive
+  submitted_from?: string;
+  submitted_to?: string;
+};
+
+export type PhotoUploadSession = {
+  upload_id: string;
+  chunk_size: number;
+  received_bytes: number;
+};
+
+export type CreatePhotoUploadInput = {
+  client_photo_id: string;
+  client_submission_id: string;
+  file_size: number;
+  mime_type: string;
+  captured_at: string;
+};
+
+export type PhotoUploadChunk = {
+  offset: number;
+  // Base64-encoded slice of the file
+  data: string;
+};
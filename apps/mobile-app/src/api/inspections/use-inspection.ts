@@ -0,0 +1,17 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { InspectionDetail } from './types';
+
+type Variables = { id: string };
+type Response = InspectionDetail;
+
+export const useInspection = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['inspection'],
+  fetcher: (variables) => {
+    return client
+      .get(`mobile/inspections/${variables.id}`)
+      .then((response) => response.data.data);
+  },
+});
@@ -0,0 +1,28 @@
+import type { AxiosError } from 'axios';
+import { createInfiniteQuery } from 'react-query-kit';
+
+import { client, DEFAULT_LIMIT, getNextPageParam } from '../common';
+import type { PaginateQuery } from '../types';
+import type { Inspection, InspectionHistoryFilters } from './types';
+
+type Variables = InspectionHistoryFilters;
+type Response = PaginateQuery<Inspection>;
+
+// Page params are offsets parsed from the `next` link, hence `unknown`
+export const useInspections = createInfiniteQuery<
+  Response,
+  Variables,
+  AxiosError,
+  unknown
+>({
+  queryKey: ['inspections'],
+  fetcher: (variables, { pageParam }) => {
+    return client
+      .get('mobile/inspections', {
+        params: { ...variables, limit: DEFAULT_LIMIT, offset: pageParam },
+      })
+      .then((response) => response.data);
+  },
+  getNextPageParam,
+  initialPageParam: 0,
+});
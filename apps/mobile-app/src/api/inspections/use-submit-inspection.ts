@@ -0,0 +1,21 @@
+import type { AxiosError } from 'axios';
+import { createMutation } from 'react-query-kit';
+
+import { client } from '../common';
+import type { Inspection, InspectionSubmission } from './types';
+
+type Variables = InspectionSubmission;
+type Response = Inspection;
+
+export const submitInspection = (variables: Variables): Promise<Response> =>
+  client
+    .post('mobile/inspections', variables)
+    .then((response) => response.data);
+
+export const useSubmitInspection = createMutation<
+  Response,
+  Variables,
+  AxiosError
+>({
+  mutationFn: submitInspection,
+});
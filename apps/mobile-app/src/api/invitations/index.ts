@@ -0,0 +1,3 @@
+export * from './types';
+export * from './use-invitation-actions';
+export * from './use-pending-invitations';
@@ -0,0 +1,19 @@
+import type { UserRole } from '../users/types';
+
+export type Invitation = {
+  id: number;
+  email: string;
+  role: UserRole;
+  token: string;
+  expires_at: string;
+  accepted_at: string | null;
+  invited_by: string;
+  inviter?: { id: string; name: string; email: string } | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CreateInvitationInput = {
+  email: string;
+  role: UserRole;
+};
@@ -0,0 +1,38 @@
+import type { AxiosError } from 'axios';
+import { createMutation } from 'react-query-kit';
+
+import { client } from '../common';
+import type { CreateInvitationInput, Invitation } from './types';
+
+// 409 when a pending invitation already exists for the email
+export const useCreateInvitation = createMutation<
+  Invitation,
+  CreateInvitationInput,
+  AxiosError
+>({
+  mutationFn: (variables) =>
+    client
+      .post('mobile/invitations', variables)
+      .then((response) => response.data.data),
+});
+
+// Extends the expiry and re-sends the email; 410 once no longer valid
+export const useResendInvitation = createMutation<
+  Invitation,
+  { id: number },
+  AxiosError
+>({
+  mutationFn: ({ id }) =>
+    client
+      .post(`mobile/invitations/${id}/resend`)
+      .then((response) => response.data.data),
+});
+
+export const useCancelInvitation = createMutation<
+  { message: string },
+  { id: number },
+  AxiosError
+>({
+  mutationFn: ({ id }) =>
+    client.delete(`mobile/invitations/${id}`).then((response) => response.data),
+});
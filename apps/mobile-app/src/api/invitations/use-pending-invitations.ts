@@ -0,0 +1,27 @@
+import type { AxiosError } from 'axios';
+import { createInfiniteQuery } from 'react-query-kit';
+
+import { client, getNextPaginatorPage } from '../common';
+import type { Paginator } from '../types';
+import type { Invitation } from './types';
+
+type Variables = { role?: Invitation['role'] };
+type Response = Paginator<Invitation>;
+
+export const usePendingInvitations = createInfiniteQuery<
+  Response,
+  Variables,
+  AxiosError,
+  number | undefined
+>({
+  queryKey: ['pending-invitations'],
+  fetcher: (variables, { pageParam }) => {
+    return client
+      .get('mobile/invitations/pending', {
+        params: { ...variables, page: pageParam },
+      })
+      .then((response) => response.data);
+  },
+  getNextPageParam: getNextPaginatorPage,
+  initialPageParam: 1,
+});
@@ -1,9 +1,9 @@
-import * as Crypto from 'expo-crypto';
-
+import { deviceFingerprintService } from '@/lib/device-fingerprint';
 import type { SecureTokens } from '@/lib/secure-storage';
 import { secureStorage, secureTokenStorage } from '@/lib/secure-storage';
 
 import { client } from './common/client';
+import { signRequest, syncServerClock } from './common/request-signing';
 
 /**
  * Mobile Security API Client
@@ -14,13 +14,24 @@ export interface DeviceRegistrationRequest {
   device_id: string;
   device_info: {
     platform: string;
-    os_version: string;
+    model: string;
+    // OS version
+    version: string;
     app_version: string;
-    device_model: string;
+    screen_resolution: string;
+    timezone: string;
     device_name?: string;
   };
 }
 
+// What the device was running when it last registered
+type RegisteredVersions = Pick<
+  DeviceRegistrationRequest['device_info'],
+  'version' | 'app_version'
+>;
+
+const REGISTRATION_KEY = 'device_registration';
+
 export interface DeviceRegistrationResponse {
   message: string;
   device_id: string;
@@ -45,6 +56,24 @@ export interface TokenGenerationResponse {
   };
 }
 
+export interface BiometricTokenResponse {
+  message: string;
+  token: {
+    biometric_token: string;
+    expires_in: number;
+    expires_at: string;
+  };
+}
+
+export interface BiometricLoginRequest {
+  biometric_token: string;
+  device_id: string;
+}
+
+export interface BiometricLoginResponse extends TokenGenerationResponse {
+  company: string | null;
+}
+
 export interface RefreshTokenRequest {
   refresh_token: string;
   device_id: string;
@@ -70,14 +99,34 @@ export interface DeviceInfo {
   created_at: string;
 }
 
+/**
+ * Thrown by `refreshTokens` and `loginWithBiometricToken`. `rejected`
+ * means the server refused the token, as opposed to the request failing
+ * to get through.
+ */
+export class TokenRefreshError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'TokenRefreshError';
+  }
+
+  get rejected(): boolean {
+    return this.status !== undefined && this.status >= 400 && this.status < 500;
+  }
+}
+
 class MobileSecurityAPI {
   private readonly API_KEY =
     process.env.EXPO_PUBLIC_MOBILE_API_KEY || 'test-mobile-api-key-12345';
   private deviceId: string | null = null;
   private deviceSecret: string | null = null;
+  private initialization: Promise<void>;
 
   constructor() {
-    this.initializeDevice();
+    this.initialization = this.initializeDevice();
   }
 
   /**
@@ -98,85 +147,52 @@ class MobileSecurityAPI {
   private async getDeviceInfo(): Promise<
     DeviceRegistrationRequest['device_info']
   > {
-    // Note: In a real app, you'd use react-native-device-info
-    // For now, we'll use placeholder values
+    const fingerprint = await deviceFingerprintService.generateFingerprint();
+    const { width, height } = fingerprint.screenDimensions;
+
     return {
-      platform: 'ios', // or 'android'
-      os_version: '17.0',
-      app_version: '1.0.0',
-      device_model: 'iPhone',
-      device_name: 'User Device',
+      platform: fingerprint.platform,
+      model: fingerprint.deviceModel,
+      version: fingerprint.platformVersion,
+      app_version: fingerprint.appVersion,
+      screen_resolution: `${Math.round(width)}x${Math.round(height)}`,
+      timezone: fingerprint.timezone,
+      device_name: fingerprint.deviceName,
     };
   }
 
   /**
-   * Generate request signature for API security
+   * Sign every request made through `client` with the device secret, and
+   * keep the signing clock in line with the server's
    */
-  private async generateSignature(options: {
-    method: string;
-    url: string;
-    timestamp: number;
-    nonce: string;
-    body?: string;
-  }): Promise<string> {
-    const { method, url, timestamp, nonce, body } = options;
-    if (!this.deviceSecret) {
-      throw new Error(
-        'Device secret not available. Please register device first.'
-      );
-    }
-
-    const payload = `${method}|${url}|${timestamp}|${nonce}${body ? `|${body}` : ''}`;
-    const signature = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      `${payload}|${this.deviceSecret}`,
-      { encoding: Crypto.CryptoEncoding.HEX }
+  setupRequestSigning(): () => void {
+    const requestInterceptor = client.interceptors.request.use(
+      async (config) => {
+        await this.initialization;
+        await signRequest(config, {
+          apiKey: this.API_KEY,
+          deviceId: this.deviceId,
+          deviceSecret: this.deviceSecret,
+        });
+        return config;
+      }
     );
 
-    return signature;
-  }
-
-  /**
-   * Create authenticated request headers
-   */
-  private async createSecureHeaders(
-    method: string,
-    url: string,
-    body?: any
-  ): Promise<Record<string, string>> {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const nonce = await Crypto.getRandomBytesAsync(16).then((bytes) =>
-      Array.from(bytes)
-        .map((b) => b.toString(16).padStart(2, '0'))
-        .join('')
+    const responseInterceptor = client.interceptors.response.use(
+      (response) => {
+        syncServerClock(response.headers?.date);
+        return response;
+      },
+      (error) => {
+        syncServerClock(error.response?.headers?.date);
+        return Promise.reject(error);
+      }
     );
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-      'X-API-Key': this.API_KEY,
-      'X-Timestamp': timestamp.toString(),
-      'X-Nonce': nonce,
+    return () => {
+      client.interceptors.request.eject(requestInterceptor);
+      client.interceptors.response.eject(responseInterceptor);
     };
-
-    if (this.deviceId) {
-      headers['X-Device-Id'] = this.deviceId;
-    }
-
-    // Add signature if we have device secret
-    if (this.deviceSecret) {
-      const bodyString = body ? JSON.stringify(body) : undefined;
-      const signature = await this.generateSignature({
-        method,
-        url,
-        timestamp,
-        nonce,
-        body: bodyString,
-      });
-      headers['X-Signature'] = signature;
-    }
-
-    return headers;
   }
 
   /**
@@ -194,16 +210,9 @@ class MobileSecurityAPI {
         device_info: deviceInfo,
       };
 
-      const headers = await this.createSecureHeaders(
-        'POST',
-        '/api/mobile/devices/register',
-        requestData
-      );
-
       const response = await client.post<DeviceRegistrationResponse>(
         '/api/mobile/devices/register',
-        requestData,
-        { headers }
+        requestData
       );
 
       // Store device secret securely
@@ -215,6 +224,11 @@ class MobileSecurityAPI {
         );
       }
 
+      await secureStorage.setItem<RegisteredVersions>(REGISTRATION_KEY, {
+        version: deviceInfo.version,
+        app_version: deviceInfo.app_version,
+      });
+
       return response.data;
     } catch (error: any) {
       console.error('MobileSecurityAPI: Device registration failed', error);
@@ -224,6 +238,26 @@ class MobileSecurityAPI {
     }
   }
 
+  /**
+   * Register again if the app or OS has been updated since the last
+   * registration. Resolves true if the device was re-registered.
+   */
+  async syncDeviceRegistration(): Promise<boolean> {
+    const registered =
+      await secureStorage.getItem<RegisteredVersions>(REGISTRATION_KEY);
+    const { version, app_version } = await this.getDeviceInfo();
+
+    if (
+      registered?.version === version &&
+      registered?.app_version === app_version
+    ) {
+      return false;
+    }
+
+    await this.registerDevice();
+    return true;
+  }
+
   /**
    * Generate new token pair
    */
@@ -237,16 +271,9 @@ class MobileSecurityAPI {
         device_id: this.deviceId!,
       };
 
-      const headers = await this.createSecureHeaders(
-        'POST',
-        '/api/mobile/tokens/generate',
-        requestData
-      );
-
       const response = await client.post<TokenGenerationResponse>(
         '/api/mobile/tokens/generate',
-        requestData,
-        { headers }
+        requestData
       );
 
       const tokens: SecureTokens = {
@@ -277,7 +304,8 @@ class MobileSecurityAPI {
     try {
       const currentTokens = await secureTokenStorage.getTokens();
       if (!currentTokens) {
-        throw new Error('No tokens available for refresh');
+        // Nothing to refresh with, which is as final as a rejection
+        throw new TokenRefreshError('No tokens available for refresh', 401);
       }
 
       const requestData: RefreshTokenRequest = {
@@ -286,16 +314,9 @@ class MobileSecurityAPI {
         current_access_token: currentTokens.accessToken,
       };
 
-      const headers = await this.createSecureHeaders(
-        'POST',
-        '/api/mobile/tokens/refresh',
-        requestData
-      );
-
       const response = await client.post<TokenGenerationResponse>(
-        '/api/mobile/tokens/refresh',
-        requestData,
-        { headers }
+        'mobile/tokens/refresh',
+        requestData
       );
 
       const tokens: SecureTokens = {
@@ -314,10 +335,103 @@ class MobileSecurityAPI {
     } catch (error: any) {
       console.error('MobileSecurityAPI: Token refresh failed', error);
       // If it's a validation error, re-throw as-is
-      if (error.message === 'No tokens available for refresh') {
+      if (error instanceof TokenRefreshError) {
         throw error;
       }
-      throw new Error(error.response?.data?.message || 'Token refresh failed');
+      throw new TokenRefreshError(
+        error.response?.data?.message || 'Token refresh failed',
+        error.response?.status
+      );
+    }
+  }
+
+  /**
+   * Issue the long-lived token biometric sign-in keeps for this device.
+   * Replaces any the device already has.
+   */
+  async issueBiometricToken(): Promise<string> {
+    try {
+      if (!this.deviceId) {
+        await this.initializeDevice();
+      }
+
+      const response = await client.post<BiometricTokenResponse>(
+        'mobile/tokens/biometric',
+        { device_id: this.deviceId }
+      );
+
+      return response.data.token.biometric_token;
+    } catch (error: any) {
+      console.error(
+        'MobileSecurityAPI: Biometric token issuance failed',
+        error
+      );
+      throw new Error(
+        error.response?.data?.message || 'Failed to turn on biometric sign-in'
+      );
+    }
+  }
+
+  /**
+   * Revoke this device's biometric sign-in token
+   */
+  async revokeBiometricToken(): Promise<void> {
+    try {
+      if (!this.deviceId) {
+        await this.initializeDevice();
+      }
+
+      await client.delete('mobile/tokens/biometric', {
+        data: { device_id: this.deviceId },
+      });
+    } catch (error: any) {
+      console.error('MobileSecurityAPI: Revoke biometric token failed', error);
+      throw new Error(
+        error.response?.data?.message || 'Failed to revoke biometric sign-in'
+      );
+    }
+  }
+
+  /**
+   * Exchange the biometric sign-in token for a new token pair
+   * @returns The stored tokens and the name of the user's company
+   */
+  async loginWithBiometricToken(
+    biometricToken: string
+  ): Promise<{ tokens: SecureTokens; company: string | null }> {
+    try {
+      if (!this.deviceId) {
+        await this.initializeDevice();
+      }
+
+      const requestData: BiometricLoginRequest = {
+        biometric_token: biometricToken,
+        device_id: this.deviceId!,
+      };
+
+      const response = await client.post<BiometricLoginResponse>(
+        'mobile/tokens/biometric/login',
+        requestData
+      );
+
+      const tokens: SecureTokens = {
+        accessToken: response.data.tokens.access_token,
+        refreshToken: response.data.tokens.refresh_token,
+        expiresAt: response.data.tokens.expires_at,
+        refreshExpiresAt: response.data.tokens.refresh_expires_at,
+        deviceId: this.deviceId!,
+        tokenType: response.data.tokens.token_type,
+      };
+
+      await secureTokenStorage.setTokens(tokens);
+
+      return { tokens, company: response.data.company };
+    } catch (error: any) {
+      console.error('MobileSecurityAPI: Biometric sign-in failed', error);
+      throw new TokenRefreshError(
+        error.response?.data?.message || 'Biometric sign-in failed',
+        error.response?.status
+      );
     }
   }
 
@@ -331,11 +445,7 @@ class MobileSecurityAPI {
         throw new Error('No tokens available for validation');
       }
 
-      const headers = await this.createSecureHeaders(
-        'GET',
-        '/api/mobile/tokens/validate'
-      );
-      headers['Authorization'] = `Bearer ${tokens.accessToken}`;
+      const headers = { Authorization: `Bearer ${tokens.accessToken}` };
 
       const response = await client.get<TokenValidationResponse>(
         '/api/mobile/tokens/validate',
@@ -369,11 +479,7 @@ class MobileSecurityAPI {
         throw new Error('No tokens available');
       }
 
-      const headers = await this.createSecureHeaders(
-        'GET',
-        '/api/mobile/tokens/should-rotate'
-      );
-      headers['Authorization'] = `Bearer ${tokens.accessToken}`;
+      const headers = { Authorization: `Bearer ${tokens.accessToken}` };
 
       const response = await client.get('/api/mobile/tokens/should-rotate', {
         headers,
@@ -406,11 +512,7 @@ class MobileSecurityAPI {
         throw new Error('No tokens available');
       }
 
-      const headers = await this.createSecureHeaders(
-        'GET',
-        `/api/mobile/tokens/info?device_id=${this.deviceId}`
-      );
-      headers['Authorization'] = `Bearer ${tokens.accessToken}`;
+      const headers = { Authorization: `Bearer ${tokens.accessToken}` };
 
       const response = await client.get(
         `/api/mobile/tokens/info?device_id=${this.deviceId}`,
@@ -431,7 +533,7 @@ class MobileSecurityAPI {
   }
 
   /**
-   * Revoke all tokens for the current device
+   * Revoke the tokens issued to this device; other devices stay signed in
    */
   async revokeDeviceTokens(): Promise<void> {
     try {
@@ -439,16 +541,7 @@ class MobileSecurityAPI {
         await this.initializeDevice();
       }
 
-      const headers = await this.createSecureHeaders(
-        'DELETE',
-        '/api/mobile/tokens/device',
-        {
-          device_id: this.deviceId,
-        }
-      );
-
       await client.delete('/api/mobile/tokens/device', {
-        headers,
         data: { device_id: this.deviceId },
       });
 
@@ -462,6 +555,26 @@ class MobileSecurityAPI {
     }
   }
 
+  /**
+   * Revoke the tokens issued to every device on the account, this one
+   * included. Resolves to how many token pairs were revoked.
+   */
+  async revokeAllTokens(): Promise<number> {
+    try {
+      const response = await client.delete<{ revoked_count: number }>(
+        'mobile/tokens/all'
+      );
+
+      await secureTokenStorage.removeTokens();
+      return response.data.revoked_count;
+    } catch (error: any) {
+      console.error('MobileSecurityAPI: Revoke all tokens failed', error);
+      throw new Error(
+        error.response?.data?.message || 'Failed to revoke all tokens'
+      );
+    }
+  }
+
   /**
    * Get device information
    */
@@ -472,11 +585,7 @@ class MobileSecurityAPI {
         throw new Error('No tokens available');
       }
 
-      const headers = await this.createSecureHeaders(
-        'GET',
-        '/api/mobile/devices'
-      );
-      headers['Authorization'] = `Bearer ${tokens.accessToken}`;
+      const headers = { Authorization: `Bearer ${tokens.accessToken}` };
 
       const response = await client.get<{ devices: DeviceInfo[] }>(
         '/api/mobile/devices',
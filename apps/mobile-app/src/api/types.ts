@@ -4,3 +4,14 @@ export type PaginateQuery<T> = {
   next: string | null;
   previous: string | null;
 };
+
+// Laravel's length-aware paginator, as returned by `->paginate()`
+export type Paginator<T> = {
+  data: T[];
+  current_page: number;
+  last_page: number;
+  per_page: number;
+  total: number;
+  next_page_url: string | null;
+  prev_page_url: string | null;
+};
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './use-team-member';
+export * from './use-team-member-actions';
+export * from './use-team-members';
+export * from './use-update-team-member';
@@ -0,0 +1,29 @@
+import type { User } from '@/features/auth/types';
+
+export type UserRole = User['role'];
+
+export type TeamMember = User & {
+  // Set when the account has been deactivated (soft deleted)
+  deleted_at: string | null;
+};
+
+export type TeamMemberStatus = 'active' | 'deactivated';
+
+export type TeamMemberFilters = {
+  search?: string;
+  role?: UserRole;
+  status?: TeamMemberStatus;
+};
+
+export type UpdateTeamMemberInput = {
+  name?: string;
+  email?: string;
+  role?: UserRole;
+  must_change_password?: boolean;
+};
+
+export type BulkDeactivateResponse = {
+  message: string;
+  deactivated_count: number;
+  errors: string[];
+};
@@ -0,0 +1,50 @@
+import type { AxiosError } from 'axios';
+import { createMutation } from 'react-query-kit';
+
+import { client } from '../common';
+import type { BulkDeactivateResponse, TeamMember } from './types';
+
+type MessageResponse = { message: string };
+
+// Soft delete; the account can be restored later
+export const useDeactivateTeamMember = createMutation<
+  MessageResponse,
+  { id: string },
+  AxiosError
+>({
+  mutationFn: ({ id }) =>
+    client.delete(`mobile/users/${id}`).then((response) => response.data),
+});
+
+export const useRestoreTeamMember = createMutation<
+  TeamMember,
+  { id: string },
+  AxiosError
+>({
+  mutationFn: ({ id }) =>
+    client
+      .post(`mobile/users/${id}/restore`)
+      .then((response) => response.data.data),
+});
+
+export const useForcePasswordReset = createMutation<
+  MessageResponse,
+  { id: string },
+  AxiosError
+>({
+  mutationFn: ({ id }) =>
+    client
+      .post(`mobile/users/${id}/force-password-reset`)
+      .then((response) => response.data),
+});
+
+export const useBulkDeactivateTeamMembers = createMutation<
+  BulkDeactivateResponse,
+  { user_ids: string[] },
+  AxiosError
+>({
+  mutationFn: (variables) =>
+    client
+      .post('mobile/users/bulk-deactivate', variables)
+      .then((response) => response.data),
+});
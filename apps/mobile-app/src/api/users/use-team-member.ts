@@ -0,0 +1,17 @@
+import type { AxiosError } from 'axios';
+import { createQuery } from 'react-query-kit';
+
+import { client } from '../common';
+import type { TeamMember } from './types';
+
+type Variables = { id: string };
+type Response = TeamMember;
+
+export const useTeamMember = createQuery<Response, Variables, AxiosError>({
+  queryKey: ['team-member'],
+  fetcher: (variables) => {
+    return client
+      .get(`mobile/users/${variables.id}`)
+      .then((response) => response.data.data);
+  },
+});
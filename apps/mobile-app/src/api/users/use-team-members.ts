@@ -0,0 +1,25 @@
+import type { AxiosError } from 'axios';
+import { createInfiniteQuery } from 'react-query-kit';
+
+import { client, getNextPaginatorPage } from '../common';
+import type { Paginator } from '../types';
+import type { TeamMember, TeamMemberFilters } from './types';
+
+type Variables = TeamMemberFilters;
+type Response = Paginator<TeamMember>;
+
+export const useTeamMembers = createInfiniteQuery<
+  Response,
+  Variables,
+  AxiosError,
+  number | undefined
+>({
+  queryKey: ['team-members'],
+  fetcher: (variables, { pageParam }) => {
+    return client
+      .get('mobile/users', { params: { ...variables, page: pageParam } })
+      .then((response) => response.data);
+  },
+  getNextPageParam: getNextPaginatorPage,
+  initialPageParam: 1,
+});
@@ -0,0 +1,19 @@
+import type { AxiosError } from 'axios';
+import { createMutation } from 'react-query-kit';
+
+import { client } from '../common';
+import type { TeamMember, UpdateTeamMemberInput } from './types';
+
+type Variables = { id: string } & UpdateTeamMemberInput;
+type Response = TeamMember;
+
+export const useUpdateTeamMember = createMutation<
+  Response,
+  Variables,
+  AxiosError
+>({
+  mutationFn: ({ id, ...data }) =>
+    client
+      .put(`mobile/users/${id}`, data)
+      .then((response) => response.data.data),
+});
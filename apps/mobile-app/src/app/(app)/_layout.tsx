@@ -4,16 +4,15 @@ import React, { useCallback, useEffect } from 'react';
 import { Pressable, Text } from '@/components/ui';
 import {
   Feed as FeedIcon,
+  Home as HomeIcon,
   Settings as SettingsIcon,
   Style as StyleIcon,
 } from '@/components/ui/icons';
 import { useAuth } from '@/features/auth/hooks/useAuth';
+import { canManageTeam } from '@/features/team/utils/team-permissions';
 import { useIsFirstTime } from '@/lib';
 
-export default function TabLayout() {
-  const { isAuthenticated, isLoading } = useAuth();
-  const [isFirstTime] = useIsFirstTime();
-
+function useHideSplash(isLoading: boolean) {
   const hideSplash = useCallback(async () => {
     await SplashScreen.hideAsync();
   }, []);
@@ -25,6 +24,12 @@ export default function TabLayout() {
       }, 1000);
     }
   }, [hideSplash, isLoading]);
+}
+
+export default function TabLayout() {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const [isFirstTime] = useIsFirstTime();
+  useHideSplash(isLoading);
 
   if (isFirstTime) {
     return <Redirect href="/onboarding" />;
@@ -38,10 +43,31 @@ export default function TabLayout() {
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Feed',
+          title: 'Assets',
+          tabBarIcon: ({ color }) => <HomeIcon color={color} />,
+          headerRight: () => <ScanAssetLink />,
+          tabBarButtonTestID: 'assets-tab',
+        }}
+      />
+
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: 'History',
           tabBarIcon: ({ color }) => <FeedIcon color={color} />,
-          headerRight: () => <CreateNewPostLink />,
-          tabBarButtonTestID: 'feed-tab',
+          tabBarButtonTestID: 'history-tab',
+        }}
+      />
+
+      <Tabs.Screen
+        name="team"
+        options={{
+          title: 'Team',
+          // Operators have no access to user management
+          href: canManageTeam(user) ? undefined : null,
+          headerRight: () => <InvitationsLink />,
+          tabBarIcon: ({ color }) => <StyleIcon color={color} />,
+          tabBarButtonTestID: 'team-tab',
         }}
       />
 
@@ -67,11 +93,21 @@ export default function TabLayout() {
   );
 }
 
-const CreateNewPostLink = () => {
+const ScanAssetLink = () => {
+  return (
+    <Link href="/assets/scan" asChild>
+      <Pressable testID="scan-asset-link">
+        <Text className="px-3 text-primary-300">Scan</Text>
+      </Pressable>
+    </Link>
+  );
+};
+
+const InvitationsLink = () => {
   return (
-    <Link href="/feed/add-post" asChild>
-      <Pressable>
-        <Text className="px-3 text-primary-300">Create</Text>
+    <Link href="/team/invitations" asChild>
+      <Pressable testID="invitations-link">
+        <Text className="px-3 text-primary-300">Invitations</Text>
       </Pressable>
     </Link>
   );
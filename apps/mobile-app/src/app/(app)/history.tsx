@@ -0,0 +1,86 @@
+import * as React from 'react';
+
+import { useAssignedAssets } from '@/api';
+import {
+  ActivityIndicator,
+  EmptyList,
+  FocusAwareStatusBar,
+  List,
+  Text,
+  View,
+} from '@/components/ui';
+import type { HistoryFilterState, HistoryRow } from '@/features/inspections';
+import {
+  getSubmissionOutcome,
+  HistoryFilters,
+  HistoryListItem,
+  useInspectionHistory,
+} from '@/features/inspections';
+
+export default function History() {
+  const [filters, setFilters] = React.useState<HistoryFilterState>({
+    range: '30d',
+  });
+  const history = useInspectionHistory(filters);
+  const { data: assets } = useAssignedAssets({ variables: {} });
+
+  const assetOptions = React.useMemo(
+    () =>
+      (assets ?? []).map((asset) => ({ label: asset.name, value: asset.id })),
+    [assets]
+  );
+  const assetNames = React.useMemo(
+    () => new Map(assetOptions.map((option) => [option.value, option.label])),
+    [assetOptions]
+  );
+
+  const renderItem = React.useCallback(
+    ({ item: row }: { item: HistoryRow }) =>
+      row.kind === 'queued' ? (
+        <HistoryListItem
+          href={`/history/queued/${row.item.id}`}
+          title={assetNames.get(row.item.submission.asset_id) ?? 'Inspection'}
+          date={row.item.createdAt}
+          outcome={getSubmissionOutcome(row.item.submission.answers)}
+          queueStatus={row.item.status}
+        />
+      ) : (
+        <HistoryListItem
+          href={`/history/${row.item.id}`}
+          title={row.item.asset_name}
+          date={row.item.submitted_at}
+          outcome={row.item.status}
+        />
+      ),
+    [assetNames]
+  );
+
+  return (
+    <View className="flex-1">
+      <FocusAwareStatusBar />
+      <HistoryFilters
+        filters={filters}
+        onChange={setFilters}
+        assetOptions={assetOptions}
+      />
+      {history.isError ? (
+        <Text className="p-3 text-center">Error loading history</Text>
+      ) : null}
+      <List
+        data={history.rows}
+        renderItem={renderItem}
+        keyExtractor={(row) => `${row.kind}-${row.item.id}`}
+        getItemType={(row) => row.kind}
+        estimatedItemSize={90}
+        onEndReached={history.loadMore}
+        onEndReachedThreshold={0.5}
+        onRefresh={history.refetch}
+        refreshing={history.isRefetching}
+        ListEmptyComponent={<EmptyList isLoading={history.isPending} />}
+        ListFooterComponent={
+          history.isFetchingNextPage ? <ActivityIndicator /> : null
+        }
+      />
+    </View>
+  );
+}
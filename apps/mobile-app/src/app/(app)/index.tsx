@@ -1,35 +1,74 @@
 import { FlashList } from '@shopify/flash-list';
 import React from 'react';
 
-import type { Post } from '@/api';
-import { usePosts } from '@/api';
-import { Card } from '@/components/card';
-import { EmptyList, FocusAwareStatusBar, Text, View } from '@/components/ui';
+import type { Asset, AssetType } from '@/api';
+import { useAssignedAssets, useSearchAssets } from '@/api';
+import {
+  EmptyList,
+  FocusAwareStatusBar,
+  Input,
+  Text,
+  View,
+} from '@/components/ui';
+import {
+  AssetListItem,
+  AssetTypeFilter,
+  filterAssets,
+  useDebouncedValue,
+} from '@/features/assets';
 
-export default function Feed() {
-  const { data, isPending, isError } = usePosts();
+export default function Assets() {
+  const [query, setQuery] = React.useState('');
+  const [type, setType] = React.useState<AssetType | undefined>();
+  const search = useDebouncedValue(query.trim());
+  const isSearching = search.length > 0;
+
+  // Assigned assets are the default view; searching widens to the whole
+  // tenant so inspectors can pick up unassigned work.
+  const assigned = useAssignedAssets({
+    variables: { type },
+    enabled: !isSearching,
+  });
+  const searched = useSearchAssets({
+    variables: { search, type },
+    enabled: isSearching,
+  });
+  const { data, isPending, isError } = isSearching ? searched : assigned;
+
+  const assets = React.useMemo(
+    () => filterAssets(data ?? [], { type }),
+    [data, type]
+  );
   const renderItem = React.useCallback(
-    ({ item }: { item: Post }) => <Card {...item} />,
+    ({ item }: { item: Asset }) => <AssetListItem asset={item} />,
     []
   );
 
-  if (isError) {
-    return (
-      <View>
-        <Text> Error Loading data </Text>
-      </View>
-    );
-  }
   return (
-    <View className="flex-1 ">
+    <View className="flex-1">
       <FocusAwareStatusBar />
-      <FlashList
-        data={data}
-        renderItem={renderItem}
-        keyExtractor={(_, index) => `item-${index}`}
-        ListEmptyComponent={<EmptyList isLoading={isPending} />}
-        estimatedItemSize={300}
-      />
+      <View className="px-3 pt-3">
+        <Input
+          placeholder="Search by name, ID or location"
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="asset-search-input"
+        />
+      </View>
+      <AssetTypeFilter value={type} onChange={setType} />
+      {isError ? (
+        <Text className="p-3 text-center">Error loading assets</Text>
+      ) : (
+        <FlashList
+          data={assets}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={<EmptyList isLoading={isPending} />}
+          estimatedItemSize={110}
+        />
+      )}
     </View>
   );
 }
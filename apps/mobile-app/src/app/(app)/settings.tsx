@@ -1,4 +1,5 @@
 import { Env } from '@env';
+import { useRouter } from 'expo-router';
 import { useColorScheme } from 'nativewind';
 
 import { Item } from '@/components/settings/item';
@@ -13,10 +14,11 @@ import {
   View,
 } from '@/components/ui';
 import { Github, Rate, Share, Support, Website } from '@/components/ui/icons';
-import { translate, useAuth } from '@/lib';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import { translate } from '@/lib';
 
 export default function Settings() {
-  const signOut = useAuth.use.signOut();
+  const { logout } = useAuth();
   const { colorScheme } = useColorScheme();
   const iconColor =
     colorScheme === 'dark' ? colors.neutral[400] : colors.neutral[500];
@@ -34,6 +36,8 @@ export default function Settings() {
             <ThemeItem />
           </ItemsContainer>
 
+          <SecurityItems />
+
           <ItemsContainer title="settings.about">
             <Item text="settings.app_name" value={Env.NAME} />
             <Item text="settings.version" value={Env.VERSION} />
@@ -74,7 +78,7 @@ export default function Settings() {
 
           <View className="my-8">
             <ItemsContainer>
-              <Item text="settings.logout" onPress={signOut} />
+              <Item text="settings.logout" onPress={logout} />
             </ItemsContainer>
           </View>
         </View>
@@ -82,3 +86,20 @@ export default function Settings() {
     </>
   );
 }
+
+const SecurityItems = () => {
+  const router = useRouter();
+
+  return (
+    <ItemsContainer title="settings.security">
+      <Item
+        text="settings.security"
+        onPress={() => router.push('/settings/security')}
+      />
+      <Item
+        text="settings.devices"
+        onPress={() => router.push('/settings/devices')}
+      />
+    </ItemsContainer>
+  );
+};
@@ -0,0 +1,176 @@
+import { useRouter } from 'expo-router';
+import * as React from 'react';
+
+import type { TeamMember, TeamMemberStatus } from '@/api';
+import { normalizePaginatorPages, useTeamMembers } from '@/api';
+import {
+  ActivityIndicator,
+  Button,
+  EmptyList,
+  FocusAwareStatusBar,
+  Input,
+  List,
+  Select,
+  Text,
+  View,
+} from '@/components/ui';
+import { useDebouncedValue } from '@/features/assets';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import {
+  canDeactivateMember,
+  TeamAccessGuard,
+  TeamMemberItem,
+  useMemberSelection,
+  useTeamMemberActions,
+} from '@/features/team';
+
+function useTeamList(query: string, status: TeamMemberStatus | 'all') {
+  const search = useDebouncedValue(query.trim());
+  const members = useTeamMembers({
+    variables: {
+      ...(search ? { search } : {}),
+      ...(status !== 'all' ? { status } : {}),
+    },
+  });
+
+  return { members, data: normalizePaginatorPages(members.data?.pages) };
+}
+
+const STATUS_OPTIONS = [
+  { label: 'Active', value: 'active' },
+  { label: 'Deactivated', value: 'deactivated' },
+  { label: 'Everyone', value: 'all' },
+];
+
+export default function TeamScreen() {
+  return (
+    <TeamAccessGuard>
+      <Team />
+    </TeamAccessGuard>
+  );
+}
+
+function Team() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [query, setQuery] = React.useState('');
+  const [status, setStatus] = React.useState<TeamMemberStatus | 'all'>(
+    'active'
+  );
+  const selection = useMemberSelection();
+  const { deactivateMembers, isPending: isDeactivating } =
+    useTeamMemberActions();
+  const { members, data } = useTeamList(query, status);
+
+  const renderItem = ({ item }: { item: TeamMember }) => (
+    <TeamMemberItem
+      member={item}
+      selectable={!!user && !item.deleted_at && canDeactivateMember(user, item)}
+      selected={selection.isSelected(item.id)}
+      onPress={(member) =>
+        selection.isSelecting
+          ? selection.toggle(member.id)
+          : router.push(`/team/${member.id}`)
+      }
+      onToggleSelect={(member) => selection.toggle(member.id)}
+    />
+  );
+
+  const handleBulkDeactivate = async () => {
+    const result = await deactivateMembers(selection.selectedIds);
+    if (result) selection.clear();
+  };
+
+  return (
+    <View className="flex-1">
+      <FocusAwareStatusBar />
+      <TeamFilters
+        query={query}
+        status={status}
+        onQueryChange={setQuery}
+        onStatusChange={setStatus}
+      />
+      {selection.isSelecting ? (
+        <SelectionBar
+          count={selection.count}
+          loading={isDeactivating}
+          onCancel={selection.clear}
+          onDeactivate={handleBulkDeactivate}
+        />
+      ) : null}
+      <List
+        data={data}
+        extraData={selection.selectedIds}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id.toString()}
+        estimatedItemSize={76}
+        onEndReached={() =>
+          members.hasNextPage &&
+          !members.isFetchingNextPage &&
+          members.fetchNextPage()
+        }
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={<EmptyList isLoading={members.isPending} />}
+        ListFooterComponent={
+          members.isFetchingNextPage ? <ActivityIndicator /> : null
+        }
+      />
+    </View>
+  );
+}
+
+type TeamFiltersProps = {
+  query: string;
+  status: TeamMemberStatus | 'all';
+  onQueryChange: (query: string) => void;
+  onStatusChange: (status: TeamMemberStatus | 'all') => void;
+};
+
+const TeamFilters = ({
+  query,
+  status,
+  onQueryChange,
+  onStatusChange,
+}: TeamFiltersProps) => (
+  <View className="px-3 pt-3">
+    <Input
+      placeholder="Search by name or email"
+      value={query}
+      onChangeText={onQueryChange}
+      autoCapitalize="none"
+      testID="team-search-input"
+    />
+    <Select
+      value={status}
+      options={STATUS_OPTIONS}
+      onSelect={(value) => onStatusChange(value as TeamMemberStatus | 'all')}
+      testID="team-status-filter"
+    />
+  </View>
+);
+
+type SelectionBarProps = {
+  count: number;
+  loading: boolean;
+  onCancel: () => void;
+  onDeactivate: () => void;
+};
+
+const SelectionBar = ({
+  count,
+  loading,
+  onCancel,
+  onDeactivate,
+}: SelectionBarProps) => (
+  <View className="flex-row items-center gap-2 px-3">
+    <Text className="flex-1">{count} selected</Text>
+    <Button label="Cancel" variant="ghost" onPress={onCancel} />
+    <Button
+      label="Deactivate"
+      variant="destructive"
+      loading={loading}
+      onPress={onDeactivate}
+      testID="bulk-deactivate-button"
+    />
+  </View>
+);
@@ -31,6 +31,20 @@ export default function AuthLayout() {
           presentation: 'card',
         }}
       />
+      <Stack.Screen
+        name="forgot-password"
+        options={{
+          title: 'Forgot Password',
+          presentation: 'card',
+        }}
+      />
+      <Stack.Screen
+        name="reset-password"
+        options={{
+          title: 'Reset Password',
+          presentation: 'card',
+        }}
+      />
     </Stack>
   );
 }
@@ -1,6 +1,6 @@
 import { zodResolver } from '@hookform/resolvers/zod';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useRef, useState } from 'react';
+import React from 'react';
 import { useForm } from 'react-hook-form';
 import { Alert, ScrollView, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -9,36 +9,38 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { FocusAwareStatusBar } from '@/components/ui/focus-aware-status-bar';
 import { ControlledInput } from '@/components/ui/input';
-import { ProgressBar, type ProgressBarRef } from '@/components/ui/progress-bar';
 import { Text } from '@/components/ui/text';
+import { PasswordStrength } from '@/features/auth/components/password-strength';
 import { useAuth } from '@/features/auth/hooks/useAuth';
-import { PasswordValidator } from '@/features/auth/utils/passwordValidation';
-
-const invitationSchema = z
-  .object({
-    name: z.string().min(2, 'Name must be at least 2 characters'),
-    password: z.string().min(8, 'Password must be at least 8 characters'),
-    password_confirmation: z.string(),
-  })
-  .refine((data) => data.password === data.password_confirmation, {
-    message: "Passwords don't match",
-    path: ['password_confirmation'],
-  });
-
-type InvitationFormData = z.infer<typeof invitationSchema>;
+import {
+  useInvitation,
+  usePasswordPolicy,
+} from '@/features/auth/services/queries';
+import type { PasswordPolicy } from '@/features/auth/types';
+import { createPasswordSchema } from '@/features/auth/utils/passwordValidation';
+
+const createInvitationSchema = (policy: PasswordPolicy) =>
+  z
+    .object({
+      name: z.string().min(2, 'Name must be at least 2 characters'),
+      password: createPasswordSchema(policy),
+      password_confirmation: z.string(),
+    })
+    .refine((data) => data.password === data.password_confirmation, {
+      message: "Passwords don't match",
+      path: ['password_confirmation'],
+    });
+
+type InvitationFormData = z.infer<ReturnType<typeof createInvitationSchema>>;
 
 export default function AcceptInvitationScreen() {
   const { token } = useLocalSearchParams<{ token: string }>();
-  const [passwordStrength, setPasswordStrength] = useState({
-    progress: 0,
-    label: 'Very Weak',
-    color: 'rgb(239, 68, 68)',
-  });
-  const progressBarRef = useRef<ProgressBarRef>(null);
   const { acceptInvitation, isLoading, error, clearError } = useAuth();
+  const policy = usePasswordPolicy({ invitation_token: token });
+  const { data: invitation } = useInvitation(token);
 
   const form = useForm<InvitationFormData>({
-    resolver: zodResolver(invitationSchema),
+    resolver: zodResolver(createInvitationSchema(policy)),
     defaultValues: {
       name: '',
       password: '',
@@ -48,22 +50,6 @@ export default function AcceptInvitationScreen() {
 
   const watchPassword = form.watch('password');
 
-  // Update password strength indicator
-  useEffect(() => {
-    if (watchPassword) {
-      const strength = PasswordValidator.getStrengthIndicator(watchPassword);
-      setPasswordStrength(strength);
-      progressBarRef.current?.setProgress(strength.progress);
-    } else {
-      setPasswordStrength({
-        progress: 0,
-        label: 'Very Weak',
-        color: 'rgb(239, 68, 68)',
-      });
-      progressBarRef.current?.setProgress(0);
-    }
-  }, [watchPassword]);
-
   const onSubmit = async (data: InvitationFormData) => {
     if (!token) {
       Alert.alert(
@@ -172,40 +158,15 @@ export default function AcceptInvitationScreen() {
                 testID="invitation-password-input"
               />
 
-              {/* Password Strength Indicator */}
-              {watchPassword && (
-                <View className="mt-2">
-                  <View className="mb-1 flex-row items-center justify-between">
-                    <Text className="text-sm text-neutral-600 dark:text-neutral-400">
-                      Password Strength
-                    </Text>
-                    <Text
-                      className="text-sm font-medium"
-                      style={{ color: passwordStrength.color }}
-                    >
-                      {passwordStrength.label}
-                    </Text>
-                  </View>
-                  <ProgressBar ref={progressBarRef} className="h-2" />
-                </View>
-              )}
-
-              {/* Password Requirements */}
-              <View className="mt-3">
-                <Text className="mb-2 text-sm text-neutral-600 dark:text-neutral-400">
-                  Password must include:
-                </Text>
-                {PasswordValidator.getRequirements().map(
-                  (requirement, index) => (
-                    <Text
-                      key={index}
-                      className="ml-2 text-xs text-neutral-500 dark:text-neutral-500"
-                    >
-                      • {requirement}
-                    </Text>
-                  )
-                )}
-              </View>
+              <PasswordStrength
+                password={watchPassword}
+                policy={policy}
+                userInputs={[
+                  form.watch('name'),
+                  invitation?.email,
+                  invitation?.company,
+                ]}
+              />
             </View>
 
             <ControlledInput
@@ -0,0 +1,151 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Alert, ScrollView, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { z } from 'zod';
+
+import { Button } from '@/components/ui/button';
+import { FocusAwareStatusBar } from '@/components/ui/focus-aware-status-bar';
+import { ControlledInput } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { useRequestPasswordReset } from '@/features/auth/services/queries';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+function ResetLinkSent({
+  email,
+  onResend,
+}: {
+  email: string;
+  onResend: () => void;
+}) {
+  return (
+    <View className="flex-1 items-center justify-center px-6">
+      <Text className="mb-4 text-center text-2xl font-bold text-black dark:text-white">
+        Check Your Email
+      </Text>
+      <Text className="mb-6 text-center text-base text-neutral-600 dark:text-neutral-400">
+        We sent a password reset link to {email}. Open it to choose a new
+        password. The link expires in 60 minutes.
+      </Text>
+      <Button
+        label="Back to Sign In"
+        onPress={() => router.replace('/(auth)/login')}
+        className="w-full"
+        testID="forgot-password-back-button"
+      />
+      <Button
+        label="Send Again"
+        variant="ghost"
+        onPress={onResend}
+        testID="forgot-password-resend-button"
+      />
+    </View>
+  );
+}
+
+function ForgotPasswordForm({
+  email,
+  onSent,
+}: {
+  email?: string;
+  onSent: (email: string) => void;
+}) {
+  const requestReset = useRequestPasswordReset();
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: email ?? '' },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await requestReset.mutateAsync(data.email);
+      onSent(data.email);
+    } catch (error: any) {
+      Alert.alert(
+        'Reset Failed',
+        error.response?.data?.message ||
+          'Could not send the reset link. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  return (
+    <>
+      <ControlledInput
+        control={form.control}
+        name="email"
+        label="Email"
+        placeholder="Enter your email"
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        textContentType="emailAddress"
+        testID="forgot-password-email-input"
+      />
+
+      <Button
+        label="Send Reset Link"
+        onPress={form.handleSubmit(onSubmit)}
+        loading={requestReset.isPending}
+        disabled={requestReset.isPending}
+        className="mt-6"
+        testID="forgot-password-submit-button"
+      />
+    </>
+  );
+}
+
+export default function ForgotPasswordScreen() {
+  const params = useLocalSearchParams<{ email?: string }>();
+  const [email, setEmail] = useState(params.email);
+  const [isSent, setIsSent] = useState(false);
+
+  const onSent = (sentTo: string) => {
+    setEmail(sentTo);
+    setIsSent(true);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-black">
+      <FocusAwareStatusBar />
+      {isSent && email ? (
+        <ResetLinkSent email={email} onResend={() => setIsSent(false)} />
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ flexGrow: 1 }}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View className="flex-1 justify-center px-6">
+            <View className="mb-8">
+              <Text className="mb-2 text-center text-3xl font-bold text-black dark:text-white">
+                Forgot Password
+              </Text>
+              <Text className="text-center text-base text-neutral-600 dark:text-neutral-400">
+                Enter your email and we will send you a link to reset your
+                password
+              </Text>
+            </View>
+
+            <ForgotPasswordForm email={email} onSent={onSent} />
+            <Button
+              label="Back to Sign In"
+              variant="ghost"
+              onPress={() => router.back()}
+              testID="forgot-password-cancel-button"
+            />
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -12,6 +12,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { FocusAwareStatusBar } from '@/components/ui/focus-aware-status-bar';
 import { ControlledInput } from '@/components/ui/input';
 import { Text } from '@/components/ui/text';
+import { useBiometricLogin } from '@/features/auth/hooks/use-biometric-login';
+import { useBiometricReenrollment } from '@/features/auth/hooks/use-biometric-reenrollment';
 import { useAuth } from '@/features/auth/hooks/useAuth';
 
 const loginSchema = z.object({
@@ -24,6 +26,8 @@ type LoginFormData = z.infer<typeof loginSchema>;
 export default function LoginScreen() {
   const [rememberMe, setRememberMe] = useState(false);
   const { login, isLoading, error, clearError } = useAuth();
+  const biometricLogin = useBiometricLogin();
+  const reenrollment = useBiometricReenrollment();
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -37,6 +41,9 @@ export default function LoginScreen() {
     try {
       clearError();
       await login(data.email, data.password, rememberMe);
+      if (!(await reenrollment.offer())) {
+        await biometricLogin.offerBiometricLogin();
+      }
 
       // Navigation will be handled by auth state change
       router.replace('/(app)');
@@ -49,16 +56,21 @@ export default function LoginScreen() {
     }
   };
 
-  const handleSocialLoginSuccess = (authData: any) => {
+  const handleBiometricLogin = async () => {
     try {
-      // Handle successful social login
-      console.log('Social login successful:', authData);
-      router.replace('/(app)');
-    } catch (error) {
-      console.error('Social login success handler error:', error);
+      clearError();
+      if (await biometricLogin.signIn()) {
+        router.replace('/(app)');
+      }
+    } catch (error: any) {
+      Alert.alert('Login Failed', error.message, [{ text: 'OK' }]);
     }
   };
 
+  const handleSocialLoginSuccess = () => {
+    router.replace('/(app)');
+  };
+
   const handleSocialLoginError = (error: string) => {
     Alert.alert('Social Login Failed', error, [{ text: 'OK' }]);
   };
@@ -130,13 +142,12 @@ export default function LoginScreen() {
                 variant="ghost"
                 size="sm"
                 label="Forgot Password?"
-                onPress={() => {
-                  // TODO: Implement forgot password flow
-                  Alert.alert(
-                    'Coming Soon',
-                    'Forgot password feature will be available soon.'
-                  );
-                }}
+                onPress={() =>
+                  router.push({
+                    pathname: '/(auth)/forgot-password',
+                    params: { email: form.getValues('email') },
+                  })
+                }
                 testID="login-forgot-password-button"
               />
             </View>
@@ -150,6 +161,16 @@ export default function LoginScreen() {
               className="mt-6"
               testID="login-submit-button"
             />
+
+            {biometricLogin.method && (
+              <Button
+                variant="outline"
+                label={`Sign in with ${biometricLogin.method}`}
+                onPress={handleBiometricLogin}
+                disabled={isLoading}
+                testID="login-biometric-button"
+              />
+            )}
           </View>
 
           {/* Social Login */}
@@ -0,0 +1,202 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { router, useLocalSearchParams } from 'expo-router';
+import React from 'react';
+import { useForm, type UseFormReturn } from 'react-hook-form';
+import { Alert, ScrollView, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { z } from 'zod';
+
+import { Button } from '@/components/ui/button';
+import { FocusAwareStatusBar } from '@/components/ui/focus-aware-status-bar';
+import { ControlledInput } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { PasswordStrength } from '@/features/auth/components/password-strength';
+import {
+  usePasswordPolicy,
+  useResetPassword,
+} from '@/features/auth/services/queries';
+import type { PasswordPolicy } from '@/features/auth/types';
+import { createPasswordSchema } from '@/features/auth/utils/passwordValidation';
+
+const createResetPasswordSchema = (policy: PasswordPolicy) =>
+  z
+    .object({
+      email: z.string().email('Please enter a valid email address'),
+      password: createPasswordSchema(policy),
+      password_confirmation: z.string(),
+    })
+    .refine((data) => data.password === data.password_confirmation, {
+      message: "Passwords don't match",
+      path: ['password_confirmation'],
+    });
+
+type ResetPasswordFormData = z.infer<
+  ReturnType<typeof createResetPasswordSchema>
+>;
+
+// The server rejects expired or used tokens against the email field
+const getResetErrorMessage = (error: any): string =>
+  error.response?.data?.errors?.email?.[0] ||
+  error.response?.data?.message ||
+  'Could not reset your password. Please try again.';
+
+function InvalidResetLink() {
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-black">
+      <FocusAwareStatusBar />
+      <View className="flex-1 items-center justify-center px-6">
+        <Text className="mb-4 text-center text-xl font-bold text-red-600">
+          Invalid Reset Link
+        </Text>
+        <Text className="mb-6 text-center text-base text-neutral-600 dark:text-neutral-400">
+          This password reset link is invalid or has expired. Please request a
+          new one.
+        </Text>
+        <Button
+          label="Request a New Link"
+          onPress={() => router.replace('/(auth)/forgot-password')}
+          variant="outline"
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+function ResetPasswordFields({
+  form,
+  policy,
+}: {
+  form: UseFormReturn<ResetPasswordFormData>;
+  policy: PasswordPolicy;
+}) {
+  return (
+    <>
+      <ControlledInput
+        control={form.control}
+        name="email"
+        label="Email"
+        placeholder="Enter your email"
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        textContentType="emailAddress"
+        testID="reset-password-email-input"
+      />
+
+      <View>
+        <ControlledInput
+          control={form.control}
+          name="password"
+          label="New Password"
+          placeholder="Create a strong password"
+          secureTextEntry
+          autoComplete="new-password"
+          textContentType="newPassword"
+          testID="reset-password-password-input"
+        />
+        <PasswordStrength
+          password={form.watch('password')}
+          policy={policy}
+          userInputs={[form.watch('email')]}
+        />
+      </View>
+
+      <ControlledInput
+        control={form.control}
+        name="password_confirmation"
+        label="Confirm Password"
+        placeholder="Confirm your new password"
+        secureTextEntry
+        autoComplete="new-password"
+        textContentType="newPassword"
+        testID="reset-password-password-confirmation-input"
+      />
+    </>
+  );
+}
+
+function useResetPasswordForm(token?: string, email?: string) {
+  const resetPassword = useResetPassword();
+  const policy = usePasswordPolicy({ reset_token: token, email });
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(createResetPasswordSchema(policy)),
+    defaultValues: {
+      email: email ?? '',
+      password: '',
+      password_confirmation: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await resetPassword.mutateAsync({ token: token!, ...data });
+      Alert.alert(
+        'Password Reset',
+        'Your password has been changed. Sign in with your new password.',
+        [{ text: 'Sign In', onPress: () => router.replace('/(auth)/login') }]
+      );
+    } catch (error: any) {
+      Alert.alert('Reset Failed', getResetErrorMessage(error), [
+        { text: 'OK' },
+      ]);
+    }
+  };
+
+  return {
+    form,
+    policy,
+    submit: form.handleSubmit(onSubmit),
+    isSubmitting: resetPassword.isPending,
+  };
+}
+
+export default function ResetPasswordScreen() {
+  const { token, email } = useLocalSearchParams<{
+    token?: string;
+    email?: string;
+  }>();
+  const { form, policy, submit, isSubmitting } = useResetPasswordForm(
+    token,
+    email
+  );
+
+  if (!token) {
+    return <InvalidResetLink />;
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-black">
+      <FocusAwareStatusBar />
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ flexGrow: 1 }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="flex-1 justify-center px-6">
+          <View className="mb-8">
+            <Text className="mb-2 text-center text-3xl font-bold text-black dark:text-white">
+              Choose a New Password
+            </Text>
+            <Text className="text-center text-base text-neutral-600 dark:text-neutral-400">
+              Enter the email the reset link was sent to and your new password
+            </Text>
+          </View>
+
+          <View className="space-y-4">
+            <ResetPasswordFields form={form} policy={policy} />
+
+            <Button
+              label="Reset Password"
+              onPress={submit}
+              loading={isSubmitting}
+              disabled={isSubmitting}
+              className="mt-6"
+              testID="reset-password-submit-button"
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,20 @@
+import { DeepLinkingService } from '@/features/auth/utils/deepLinking';
+
+/**
+ * Links `DeepLinkingService` opens itself, such as universal links to
+ * `https://checkright.app/invitations/...`, are kept from expo-router,
+ * which would otherwise try them as file routes and show the not-found
+ * screen. A launch link starts the app at its usual first screen.
+ */
+export function redirectSystemPath({
+  path,
+  initial,
+}: {
+  path: string;
+  initial: boolean;
+}) {
+  if (!DeepLinkingService.opensScreenFor(path)) {
+    return path;
+  }
+  return initial ? '/' : '';
+}
@@ -12,8 +12,14 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { KeyboardProvider } from 'react-native-keyboard-controller';
 
 import { APIProvider } from '@/api';
+import { AppLock } from '@/features/app-lock';
+import { BiometricReenrollment } from '@/features/auth/components/biometric-reenrollment';
 import { DeepLinkingProvider } from '@/features/auth/components/DeepLinkingProvider';
-import { useAuthStore } from '@/features/auth/stores/authStore';
+import { usePasswordChangeGuard } from '@/features/auth/hooks/use-password-change-guard';
+import { sessionService } from '@/features/auth/services/session';
+import { DeepLinkingService } from '@/features/auth/utils/deepLinking';
+import { SubmissionSyncProvider } from '@/features/inspections/components/submission-sync-provider';
+import { inspectionDeepLinks } from '@/features/inspections/utils/deep-links';
 import { loadSelectedTheme } from '@/lib';
 import { useThemeConfig } from '@/lib/use-theme-config';
 
@@ -23,8 +29,9 @@ export const unstable_settings = {
   initialRouteName: '(app)',
 };
 
-// Initialize auth hydration
-useAuthStore.getState().hydrate();
+// Restore the stored session, if any
+sessionService.hydrate();
+DeepLinkingService.register(...inspectionDeepLinks);
 loadSelectedTheme();
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -35,13 +42,18 @@ SplashScreen.setOptions({
 });
 
 export default function RootLayout() {
+  usePasswordChangeGuard();
+
   return (
     <Providers>
       <Stack>
         <Stack.Screen name="(app)" options={{ headerShown: false }} />
         <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="change-password"
+          options={{ headerShown: false, gestureEnabled: false }}
+        />
         <Stack.Screen name="onboarding" options={{ headerShown: false }} />
-        <Stack.Screen name="login" options={{ headerShown: false }} />
       </Stack>
     </Providers>
   );
@@ -58,10 +70,14 @@ function Providers({ children }: { children: React.ReactNode }) {
         <ThemeProvider value={theme}>
           <APIProvider>
             <DeepLinkingProvider>
-              <BottomSheetModalProvider>
-                {children}
-                <FlashMessage position="top" />
-              </BottomSheetModalProvider>
+              <SubmissionSyncProvider>
+                <BottomSheetModalProvider>
+                  {children}
+                  <AppLock />
+                  <BiometricReenrollment />
+                  <FlashMessage position="top" />
+                </BottomSheetModalProvider>
+              </SubmissionSyncProvider>
             </DeepLinkingProvider>
           </APIProvider>
         </ThemeProvider>
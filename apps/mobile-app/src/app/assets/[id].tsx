@@ -0,0 +1,71 @@
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import * as React from 'react';
+
+import { useAsset } from '@/api';
+import {
+  ActivityIndicator,
+  Button,
+  FocusAwareStatusBar,
+  Text,
+  View,
+} from '@/components/ui';
+import { ASSET_TYPE_LABELS, formatLastInspected } from '@/features/assets';
+import { useInspectionDrafts } from '@/features/inspections';
+
+export default function AssetDetail() {
+  const local = useLocalSearchParams<{ id: string }>();
+
+  const { data, isPending, isError } = useAsset({
+    variables: { id: local.id },
+  });
+  const hasDraft = Boolean(useInspectionDrafts.use.drafts()[local.id]);
+
+  if (isPending) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Asset', headerBackTitle: 'Assets' }} />
+        <FocusAwareStatusBar />
+        <ActivityIndicator />
+      </View>
+    );
+  }
+  if (isError) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Asset', headerBackTitle: 'Assets' }} />
+        <FocusAwareStatusBar />
+        <Text className="text-center">Error loading asset</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 p-3">
+      <Stack.Screen options={{ title: data.name, headerBackTitle: 'Assets' }} />
+      <FocusAwareStatusBar />
+      <Text className="text-xl font-semibold">{data.name}</Text>
+      <Text className="text-neutral-600">{ASSET_TYPE_LABELS[data.type]}</Text>
+      {data.identifier ? <Text>ID: {data.identifier}</Text> : null}
+      {data.location ? <Text>Location: {data.location}</Text> : null}
+      {data.description ? (
+        <Text className="mt-2">{data.description}</Text>
+      ) : null}
+      <Text className="mt-2 text-sm text-neutral-500">
+        {formatLastInspected(data.last_inspected_at)}
+      </Text>
+      {data.checklist_template_id ? (
+        <Link href={`/inspections/${data.id}`} asChild>
+          <Button
+            className="mt-6"
+            label={hasDraft ? 'Resume inspection' : 'Start inspection'}
+            testID="start-inspection-button"
+          />
+        </Link>
+      ) : (
+        <Text className="mt-6 text-neutral-500">
+          No checklist is assigned to this asset
+        </Text>
+      )}
+    </View>
+  );
+}
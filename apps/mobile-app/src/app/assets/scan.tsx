@@ -0,0 +1,96 @@
+import type { BarcodeScanningResult } from 'expo-camera';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Stack, useRouter } from 'expo-router';
+import * as React from 'react';
+import { Alert } from 'react-native';
+
+import { fetchAssetByCode } from '@/api';
+import {
+  ActivityIndicator,
+  Button,
+  FocusAwareStatusBar,
+  Text,
+  View,
+} from '@/components/ui';
+import { parseAssetQrCode } from '@/features/assets';
+
+export default function ScanAsset() {
+  const router = useRouter();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [isResolving, setIsResolving] = React.useState(false);
+  // The camera reports a code several times a second, so pause on alerts
+  const [isPaused, setIsPaused] = React.useState(false);
+
+  const handleScan = React.useCallback(
+    async ({ data }: BarcodeScanningResult) => {
+      if (isResolving || isPaused) {
+        return;
+      }
+
+      const code = parseAssetQrCode(data);
+      if (!code) {
+        setIsPaused(true);
+        Alert.alert(
+          'Unrecognised code',
+          'This QR code is not an asset label.',
+          [{ text: 'OK', onPress: () => setIsPaused(false) }]
+        );
+        return;
+      }
+
+      setIsResolving(true);
+      try {
+        const asset = await fetchAssetByCode({ code });
+        router.replace(`/assets/${asset.id}`);
+      } catch (error: any) {
+        Alert.alert(
+          'Asset not found',
+          error.response?.data?.message ||
+            'No asset matches this code. Try searching instead.',
+          [{ text: 'OK', onPress: () => setIsResolving(false) }]
+        );
+      }
+    },
+    [isResolving, isPaused, router]
+  );
+
+  if (!permission) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return <PermissionRequest onRequest={requestPermission} />;
+  }
+
+  return (
+    <View className="flex-1">
+      <Stack.Screen options={{ title: 'Scan asset' }} />
+      <FocusAwareStatusBar />
+      <CameraView
+        style={{ flex: 1 }}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={isResolving || isPaused ? undefined : handleScan}
+      />
+      {isResolving ? (
+        <View className="absolute inset-x-0 bottom-10 items-center">
+          <ActivityIndicator />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const PermissionRequest = ({ onRequest }: { onRequest: () => void }) => (
+  <View className="flex-1 justify-center p-6">
+    <Stack.Screen options={{ title: 'Scan asset' }} />
+    <Text className="mb-4 text-center">
+      Camera access is needed to scan asset QR codes.
+    </Text>
+    <Button label="Allow camera" onPress={onRequest} />
+  </View>
+);
@@ -0,0 +1,187 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { useForm, type UseFormReturn } from 'react-hook-form';
+import { Alert, BackHandler, ScrollView, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { z } from 'zod';
+
+import { Button } from '@/components/ui/button';
+import { FocusAwareStatusBar } from '@/components/ui/focus-aware-status-bar';
+import { ControlledInput } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { PasswordStrength } from '@/features/auth/components/password-strength';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import {
+  authQueryKeys,
+  usePasswordPolicy,
+} from '@/features/auth/services/queries';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import type { PasswordPolicy } from '@/features/auth/types';
+import { createPasswordSchema } from '@/features/auth/utils/passwordValidation';
+
+const createChangePasswordSchema = (policy: PasswordPolicy) =>
+  z
+    .object({
+      current_password: z.string().min(1, 'Current password is required'),
+      password: createPasswordSchema(policy),
+      password_confirmation: z.string(),
+    })
+    .refine((data) => data.password !== data.current_password, {
+      message: 'Choose a password different from your current one',
+      path: ['password'],
+    })
+    .refine((data) => data.password === data.password_confirmation, {
+      message: "Passwords don't match",
+      path: ['password_confirmation'],
+    });
+
+type ChangePasswordFormData = z.infer<
+  ReturnType<typeof createChangePasswordSchema>
+>;
+
+function ChangePasswordFields({
+  form,
+  policy,
+}: {
+  form: UseFormReturn<ChangePasswordFormData>;
+  policy: PasswordPolicy;
+}) {
+  const user = useAuthStore((state) => state.user);
+  const company = useAuthStore((state) => state.company);
+
+  return (
+    <>
+      <ControlledInput
+        control={form.control}
+        name="current_password"
+        label="Current Password"
+        placeholder="Enter your current password"
+        secureTextEntry
+        autoComplete="current-password"
+        textContentType="password"
+        testID="change-password-current-input"
+      />
+
+      <View>
+        <ControlledInput
+          control={form.control}
+          name="password"
+          label="New Password"
+          placeholder="Create a strong password"
+          secureTextEntry
+          autoComplete="new-password"
+          textContentType="newPassword"
+          testID="change-password-password-input"
+        />
+        <PasswordStrength
+          password={form.watch('password')}
+          policy={policy}
+          userInputs={[user?.name, user?.email, company]}
+        />
+      </View>
+
+      <ControlledInput
+        control={form.control}
+        name="password_confirmation"
+        label="Confirm Password"
+        placeholder="Confirm your new password"
+        secureTextEntry
+        autoComplete="new-password"
+        textContentType="newPassword"
+        testID="change-password-password-confirmation-input"
+      />
+    </>
+  );
+}
+
+function useChangePasswordForm() {
+  const { changePassword } = useAuth();
+  const queryClient = useQueryClient();
+  const [isSaving, setIsSaving] = useState(false);
+  const policy = usePasswordPolicy();
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(createChangePasswordSchema(policy)),
+    defaultValues: {
+      current_password: '',
+      password: '',
+      password_confirmation: '',
+    },
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setIsSaving(true);
+    try {
+      await changePassword(data);
+      queryClient.invalidateQueries({ queryKey: authQueryKeys.user });
+    } catch (error: any) {
+      Alert.alert('Password Not Changed', error.message, [{ text: 'OK' }]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { form, policy, submit: form.handleSubmit(onSubmit), isSaving };
+}
+
+/**
+ * Shown in place of the app while the user must change their password;
+ * `usePasswordChangeGuard` moves on once it is changed
+ */
+export default function ChangePasswordScreen() {
+  const { logout } = useAuth();
+  const { form, policy, submit, isSaving } = useChangePasswordForm();
+
+  // There is nowhere to go back to until the password is changed
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener(
+      'hardwareBackPress',
+      () => true
+    );
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-black">
+      <FocusAwareStatusBar />
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ flexGrow: 1 }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="flex-1 justify-center px-6">
+          <View className="mb-8">
+            <Text className="mb-2 text-center text-3xl font-bold text-black dark:text-white">
+              Change Your Password
+            </Text>
+            <Text className="text-center text-base text-neutral-600 dark:text-neutral-400">
+              Your administrator requires you to choose a new password before
+              continuing
+            </Text>
+          </View>
+
+          <View className="space-y-4">
+            <ChangePasswordFields form={form} policy={policy} />
+
+            <Button
+              label="Change Password"
+              onPress={submit}
+              loading={isSaving}
+              disabled={isSaving}
+              className="mt-6"
+              testID="change-password-submit-button"
+            />
+            <Button
+              label="Sign Out"
+              variant="ghost"
+              onPress={logout}
+              disabled={isSaving}
+              testID="change-password-sign-out-button"
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
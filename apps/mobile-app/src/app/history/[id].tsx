@@ -0,0 +1,72 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import * as React from 'react';
+
+import { useInspection } from '@/api';
+import {
+  ActivityIndicator,
+  FocusAwareStatusBar,
+  ScrollView,
+  Text,
+  View,
+} from '@/components/ui';
+import { AnswerDetail, MetadataSummary } from '@/features/inspections';
+
+export default function InspectionDetail() {
+  const local = useLocalSearchParams<{ id: string }>();
+  const { data, isPending, isError } = useInspection({
+    variables: { id: local.id },
+  });
+
+  if (isPending) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen
+          options={{ title: 'Inspection', headerBackTitle: 'History' }}
+        />
+        <FocusAwareStatusBar />
+        <ActivityIndicator />
+      </View>
+    );
+  }
+  if (isError) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen
+          options={{ title: 'Inspection', headerBackTitle: 'History' }}
+        />
+        <FocusAwareStatusBar />
+        <Text className="text-center">Error loading inspection</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView className="flex-1 p-3">
+      <Stack.Screen
+        options={{ title: data.asset_name, headerBackTitle: 'History' }}
+      />
+      <FocusAwareStatusBar />
+      <Text className="text-xl font-semibold">
+        {data.checklist_template_name}
+      </Text>
+      <Text
+        className={
+          data.status === 'failed' ? 'text-danger-600' : 'text-success-600'
+        }
+      >
+        {data.status === 'failed' ? 'Failed' : 'Passed'}
+      </Text>
+      <MetadataSummary metadata={data.metadata} />
+      {data.answers.map((answer) => (
+        <AnswerDetail
+          key={answer.question_id}
+          label={answer.question_label}
+          type={answer.question_type}
+          value={answer.value}
+          notes={answer.notes}
+          photoUris={answer.photos.map((photo) => photo.url)}
+        />
+      ))}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,99 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import * as React from 'react';
+
+import type { ChecklistTemplate, InspectionAnswerInput } from '@/api';
+import { useChecklistTemplate } from '@/api';
+import { FocusAwareStatusBar, ScrollView, Text, View } from '@/components/ui';
+import {
+  AnswerDetail,
+  getSubmissionOutcome,
+  inferQuestionType,
+  MetadataSummary,
+  useInspectionPhotos,
+  useSubmissionQueue,
+} from '@/features/inspections';
+
+export default function QueuedInspectionDetail() {
+  const local = useLocalSearchParams<{ id: string }>();
+  const item = useSubmissionQueue.use
+    .items()
+    .find((queued) => queued.id === local.id);
+  // Labels come from the template; fall back to ids when it isn't cached
+  const { data: template } = useChecklistTemplate({
+    variables: { id: item?.submission.checklist_template_id ?? '' },
+    enabled: Boolean(item),
+  });
+
+  if (!item) {
+    // Delivered while the screen was open, or discarded
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Inspection' }} />
+        <Text className="text-center">
+          This inspection has been submitted. Find it in your history.
+        </Text>
+      </View>
+    );
+  }
+
+  const outcome = getSubmissionOutcome(item.submission.answers);
+
+  return (
+    <ScrollView className="flex-1 p-3">
+      <Stack.Screen
+        options={{ title: 'Inspection', headerBackTitle: 'History' }}
+      />
+      <FocusAwareStatusBar />
+      <Text className="text-xl font-semibold">
+        {template?.name ?? 'Inspection'}
+      </Text>
+      <Text
+        className={
+          outcome === 'failed' ? 'text-danger-600' : 'text-success-600'
+        }
+      >
+        {outcome === 'failed' ? 'Failed' : 'Passed'} · not yet synced
+      </Text>
+      {item.lastError ? (
+        <Text className="mt-1 text-sm text-danger-600">{item.lastError}</Text>
+      ) : null}
+      <MetadataSummary metadata={item.submission.metadata} />
+      <QueuedAnswers answers={item.submission.answers} template={template} />
+    </ScrollView>
+  );
+}
+
+type QueuedAnswersProps = {
+  answers: InspectionAnswerInput[];
+  template?: ChecklistTemplate;
+};
+
+function QueuedAnswers({ answers, template }: QueuedAnswersProps) {
+  const photos = useInspectionPhotos.use.photos();
+  const questions = new Map(
+    template?.pages
+      .flatMap((page) => page.questions)
+      .map((question) => [question.id, question])
+  );
+
+  return (
+    <>
+      {answers.map((answer) => {
+        const question = questions.get(answer.question_id);
+        return (
+          <AnswerDetail
+            key={answer.question_id}
+            label={question?.label ?? answer.question_id}
+            type={question?.type ?? inferQuestionType(answer)}
+            value={answer.value}
+            notes={answer.notes}
+            // Uploaded photos no longer have a local copy
+            photoUris={(answer.photo_ids ?? [])
+              .map((id) => photos[id]?.uri)
+              .filter((uri): uri is string => Boolean(uri))}
+          />
+        );
+      })}
+    </>
+  );
+}
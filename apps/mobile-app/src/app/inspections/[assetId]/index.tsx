@@ -0,0 +1,114 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import * as React from 'react';
+
+import type { ChecklistTemplate } from '@/api';
+import {
+  ActivityIndicator,
+  Button,
+  FocusAwareStatusBar,
+  ScrollView,
+  Text,
+  View,
+} from '@/components/ui';
+import { ProgressBar, type ProgressBarRef } from '@/components/ui/progress-bar';
+import {
+  QuestionField,
+  useAssetChecklist,
+  useInspectionRunner,
+} from '@/features/inspections';
+
+export default function InspectionRunner() {
+  const { assetId } = useLocalSearchParams<{ assetId: string }>();
+  const { template, isUnavailable } = useAssetChecklist(assetId);
+
+  if (isUnavailable) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Inspection' }} />
+        <Text className="text-center">
+          No checklist is available for this asset
+        </Text>
+      </View>
+    );
+  }
+  if (!template) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Inspection' }} />
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return <RunnerPages assetId={assetId} template={template} />;
+}
+
+type RunnerPagesProps = {
+  assetId: string;
+  template: ChecklistTemplate;
+};
+
+function RunnerPages({ assetId, template }: RunnerPagesProps) {
+  const runner = useInspectionRunner(assetId, template);
+  const router = useRouter();
+  const progressBarRef = React.useRef<ProgressBarRef>(null);
+
+  React.useEffect(() => {
+    progressBarRef.current?.setProgress(runner.progress);
+  }, [runner.progress]);
+
+  if (!runner.page || !runner.draft) {
+    return <ActivityIndicator />;
+  }
+
+  const handleNext = () => {
+    if (runner.next() === 'complete') {
+      router.push(`/inspections/${assetId}/review`);
+    }
+  };
+
+  return (
+    <View className="flex-1">
+      <Stack.Screen options={{ title: template.name }} />
+      <FocusAwareStatusBar />
+      <ProgressBar ref={progressBarRef} className="h-1" />
+      <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+        <Text className="text-sm text-neutral-500">
+          Page {runner.pageIndex + 1} of {runner.pageCount}
+        </Text>
+        <Text className="mb-1 text-xl font-bold">{runner.page.title}</Text>
+        {runner.page.description ? (
+          <Text className="mb-4 text-neutral-600">
+            {runner.page.description}
+          </Text>
+        ) : null}
+        {runner.page.questions.map((question) => (
+          <QuestionField
+            key={question.id}
+            draftId={runner.draft.id}
+            question={question}
+            answer={runner.answers[question.id]}
+            error={runner.errors[question.id]}
+            onChange={runner.setAnswer}
+          />
+        ))}
+      </ScrollView>
+      <View className="flex-row gap-3 p-4">
+        {!runner.isFirstPage ? (
+          <Button
+            className="flex-1"
+            label="Back"
+            variant="outline"
+            onPress={runner.back}
+          />
+        ) : null}
+        <Button
+          className="flex-1"
+          label={runner.isLastPage ? 'Review' : 'Next'}
+          onPress={handleNext}
+          testID="inspection-next-button"
+        />
+      </View>
+    </View>
+  );
+}
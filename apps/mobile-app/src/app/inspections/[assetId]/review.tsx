@@ -0,0 +1,159 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import * as React from 'react';
+import { Alert } from 'react-native';
+
+import type { ChecklistTemplate } from '@/api';
+import {
+  ActivityIndicator,
+  Button,
+  FocusAwareStatusBar,
+  List,
+  Text,
+  View,
+} from '@/components/ui';
+import type { ReviewRow } from '@/features/inspections';
+import {
+  buildReviewRows,
+  findFirstInvalidPage,
+  ReviewItem,
+  useAssetChecklist,
+  useCompleteInspection,
+  useInspectionDrafts,
+} from '@/features/inspections';
+
+export default function InspectionReview() {
+  const { assetId } = useLocalSearchParams<{ assetId: string }>();
+  const { template } = useAssetChecklist(assetId);
+  const draft = useInspectionDrafts.use.drafts()[assetId];
+
+  if (!template || !draft) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Review' }} />
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return <ReviewList assetId={assetId} template={template} />;
+}
+
+type ReviewListProps = {
+  assetId: string;
+  template: ChecklistTemplate;
+};
+
+function ReviewList({ assetId, template }: ReviewListProps) {
+  const router = useRouter();
+  const draft = useInspectionDrafts.use.drafts()[assetId];
+  const complete = useCompleteInspection(template);
+  const answers = draft?.answers;
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const rows = React.useMemo(
+    () => buildReviewRows(template, answers ?? {}),
+    [template, answers]
+  );
+  const failedCount = rows.filter(
+    (row) => row.kind === 'item' && row.state === 'failed'
+  ).length;
+
+  const editPage = useEditPage(assetId);
+
+  const handleSubmit = async () => {
+    if (!draft || isSubmitting) return;
+
+    const invalidPage = findFirstInvalidPage(template, draft.answers);
+    if (invalidPage >= 0) {
+      Alert.alert('Incomplete inspection', 'Some items still need attention.', [
+        { text: 'Fix now', onPress: () => editPage(invalidPage) },
+      ]);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await complete(draft);
+    } finally {
+      setIsSubmitting(false);
+    }
+    Alert.alert(
+      'Inspection saved',
+      'It will be submitted as soon as you are online.'
+    );
+    router.dismissAll();
+  };
+
+  const renderItem = React.useCallback(
+    ({ item }: { item: ReviewRow }) =>
+      item.kind === 'page' ? (
+        <Text className="mx-3 mb-1 mt-4 text-lg font-bold">{item.title}</Text>
+      ) : (
+        <ReviewItem row={item} onPress={editPage} />
+      ),
+    [editPage]
+  );
+
+  return (
+    <View className="flex-1">
+      <Stack.Screen options={{ title: 'Review' }} />
+      <FocusAwareStatusBar />
+      <List
+        data={rows}
+        renderItem={renderItem}
+        keyExtractor={(row) => row.key}
+        getItemType={(row) => row.kind}
+        estimatedItemSize={80}
+      />
+      <ReviewFooter
+        failedCount={failedCount}
+        loading={isSubmitting}
+        onSubmit={handleSubmit}
+      />
+    </View>
+  );
+}
+
+type ReviewFooterProps = {
+  failedCount: number;
+  loading: boolean;
+  onSubmit: () => void;
+};
+
+const ReviewFooter = ({
+  failedCount,
+  loading,
+  onSubmit,
+}: ReviewFooterProps) => (
+  <View className="p-4">
+    {failedCount > 0 ? (
+      <Text className="mb-2 text-center text-danger-600">
+        {failedCount} item{failedCount === 1 ? '' : 's'} failed
+      </Text>
+    ) : null}
+    <Button
+      label="Submit inspection"
+      loading={loading}
+      onPress={onSubmit}
+      testID="submit-inspection-button"
+    />
+  </View>
+);
+
+// The runner reads its page from the draft, so going back lands on it
+function useEditPage(assetId: string) {
+  const router = useRouter();
+  const setPageIndex = useInspectionDrafts.use.setPageIndex();
+
+  return React.useCallback(
+    (pageIndex: number) => {
+      setPageIndex(assetId, pageIndex);
+      if (router.canGoBack()) {
+        router.back();
+      } else {
+        router.replace(`/inspections/${assetId}`);
+      }
+    },
+    [assetId, router, setPageIndex]
+  );
+}
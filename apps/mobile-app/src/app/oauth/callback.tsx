@@ -0,0 +1,29 @@
+import { Redirect, router } from 'expo-router';
+import * as React from 'react';
+
+import { ActivityIndicator, View } from '@/components/ui';
+
+/**
+ * Where a social login provider's redirect lands when it reaches the app
+ * as a deep link. `DeepLinkingService` has already handed the code to the
+ * sign-in in progress, so this only steps back to the screen it came from.
+ */
+export default function OAuthCallback() {
+  const canGoBack = router.canGoBack();
+
+  React.useEffect(() => {
+    if (canGoBack) {
+      router.back();
+    }
+  }, [canGoBack]);
+
+  if (!canGoBack) {
+    return <Redirect href="/login" />;
+  }
+
+  return (
+    <View className="flex-1 items-center justify-center">
+      <ActivityIndicator />
+    </View>
+  );
+}
@@ -0,0 +1,74 @@
+import { Stack } from 'expo-router';
+import * as React from 'react';
+
+import type { RegisteredDevice } from '@/api';
+import { useDevices, useDeviceSecurityStatus } from '@/api';
+import {
+  EmptyList,
+  FocusAwareStatusBar,
+  List,
+  Text,
+  View,
+} from '@/components/ui';
+import { PasswordConfirmationModal } from '@/features/auth/components/password-confirmation-modal';
+import {
+  DeviceItem,
+  SecurityStatusCard,
+  useDeviceActions,
+} from '@/features/devices';
+import { useNow } from '@/lib';
+
+export default function Devices() {
+  const now = useNow();
+  const devices = useDevices();
+  const status = useDeviceSecurityStatus();
+  const actions = useDeviceActions();
+  const currentDeviceId = status.data?.device_id;
+
+  const refresh = () => {
+    devices.refetch();
+    status.refetch();
+  };
+
+  const renderItem = ({ item }: { item: RegisteredDevice }) => (
+    <DeviceItem
+      device={item}
+      now={now}
+      isCurrent={item.device_id === currentDeviceId}
+      disabled={actions.isPending}
+      onTrust={actions.trustDevice}
+      onUntrust={actions.untrustDevice}
+      onRemove={actions.removeDevice}
+    />
+  );
+
+  return (
+    <View className="flex-1">
+      <Stack.Screen
+        options={{ title: 'Devices', headerBackTitle: 'Settings' }}
+      />
+      <FocusAwareStatusBar />
+      <List
+        data={devices.data?.devices ?? []}
+        extraData={[now, currentDeviceId, actions.isPending]}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.device_id}
+        estimatedItemSize={120}
+        onRefresh={refresh}
+        refreshing={devices.isRefetching || status.isRefetching}
+        ListHeaderComponent={
+          <>
+            {status.data ? <SecurityStatusCard status={status.data} /> : null}
+            {devices.data ? (
+              <Text className="mx-3 mt-3 text-xs uppercase text-neutral-500">
+                {devices.data.total} of {devices.data.max_devices} devices
+              </Text>
+            ) : null}
+          </>
+        }
+        ListEmptyComponent={<EmptyList isLoading={devices.isPending} />}
+      />
+      <PasswordConfirmationModal {...actions.passwordModal} />
+    </View>
+  );
+}
@@ -0,0 +1,17 @@
+import { Stack } from 'expo-router';
+import * as React from 'react';
+
+import { SecuritySettings } from '@/components/SecuritySettings';
+import { FocusAwareStatusBar } from '@/components/ui';
+
+export default function Security() {
+  return (
+    <>
+      <Stack.Screen
+        options={{ title: 'Security', headerBackTitle: 'Settings' }}
+      />
+      <FocusAwareStatusBar />
+      <SecuritySettings />
+    </>
+  );
+}
@@ -0,0 +1,84 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import * as React from 'react';
+import { showMessage } from 'react-native-flash-message';
+
+import { useTeamMember } from '@/api';
+import {
+  ActivityIndicator,
+  FocusAwareStatusBar,
+  ScrollView,
+  Text,
+  View,
+} from '@/components/ui';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import {
+  canEditMember,
+  canViewMember,
+  getAssignableRoles,
+  MemberActions,
+  MemberEditForm,
+  ROLE_LABELS,
+  TeamAccessGuard,
+} from '@/features/team';
+
+export default function TeamMemberDetailScreen() {
+  return (
+    <TeamAccessGuard>
+      <TeamMemberDetail />
+    </TeamAccessGuard>
+  );
+}
+
+function TeamMemberDetail() {
+  const local = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { data, isPending, isError } = useTeamMember({
+    variables: { id: local.id },
+  });
+
+  if (isPending) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Team member' }} />
+        <ActivityIndicator />
+      </View>
+    );
+  }
+  if (isError || !user || !canViewMember(user, data)) {
+    return (
+      <View className="flex-1 justify-center p-3">
+        <Stack.Screen options={{ title: 'Team member' }} />
+        <Text className="text-center">This user could not be loaded</Text>
+      </View>
+    );
+  }
+
+  // Only admins change roles, and never their own
+  const assignableRoles =
+    user.role === 'admin' && user.id !== data.id
+      ? getAssignableRoles(user)
+      : [];
+
+  return (
+    <ScrollView className="flex-1 p-4">
+      <Stack.Screen options={{ title: data.name, headerBackTitle: 'Team' }} />
+      <FocusAwareStatusBar />
+      <Text className="mb-4 text-neutral-500">
+        {ROLE_LABELS[data.role]}
+        {data.deleted_at ? ' · Deactivated' : ''}
+      </Text>
+      {canEditMember(user, data) ? (
+        <MemberEditForm
+          member={data}
+          assignableRoles={assignableRoles}
+          onSaved={() =>
+            showMessage({ message: 'Changes saved', type: 'success' })
+          }
+        />
+      ) : (
+        <Text>{data.email}</Text>
+      )}
+      <MemberActions actor={user} member={data} />
+    </ScrollView>
+  );
+}
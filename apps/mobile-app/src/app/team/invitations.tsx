@@ -0,0 +1,86 @@
+import { Link, Stack } from 'expo-router';
+import * as React from 'react';
+
+import type { Invitation } from '@/api';
+import { normalizePaginatorPages, usePendingInvitations } from '@/api';
+import {
+  ActivityIndicator,
+  EmptyList,
+  FocusAwareStatusBar,
+  List,
+  Pressable,
+  Text,
+  View,
+} from '@/components/ui';
+import {
+  InvitationItem,
+  TeamAccessGuard,
+  useInvitationActions,
+} from '@/features/team';
+import { useNow } from '@/lib';
+
+export default function PendingInvitationsScreen() {
+  return (
+    <TeamAccessGuard>
+      <PendingInvitations />
+    </TeamAccessGuard>
+  );
+}
+
+function PendingInvitations() {
+  const now = useNow();
+  const invitations = usePendingInvitations();
+  const data = normalizePaginatorPages(invitations.data?.pages);
+  const actions = useInvitationActions();
+
+  const renderItem = ({ item }: { item: Invitation }) => (
+    <InvitationItem
+      invitation={item}
+      now={now}
+      disabled={actions.isPending}
+      onShare={actions.shareInvitation}
+      onResend={actions.resendInvitation}
+      onCancel={actions.cancelInvitation}
+    />
+  );
+
+  return (
+    <View className="flex-1">
+      <Stack.Screen
+        options={{
+          title: 'Pending invitations',
+          headerBackTitle: 'Team',
+          headerRight: () => <InviteLink />,
+        }}
+      />
+      <FocusAwareStatusBar />
+      <List
+        data={data}
+        extraData={now}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id.toString()}
+        estimatedItemSize={120}
+        onRefresh={invitations.refetch}
+        refreshing={invitations.isRefetching}
+        onEndReached={() =>
+          invitations.hasNextPage &&
+          !invitations.isFetchingNextPage &&
+          invitations.fetchNextPage()
+        }
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={<EmptyList isLoading={invitations.isPending} />}
+        ListFooterComponent={
+          invitations.isFetchingNextPage ? <ActivityIndicator /> : null
+        }
+      />
+    </View>
+  );
+}
+
+const InviteLink = () => (
+  <Link href="/team/invite" asChild>
+    <Pressable testID="invite-member-link">
+      <Text className="px-3 text-primary-300">Invite</Text>
+    </Pressable>
+  </Link>
+);
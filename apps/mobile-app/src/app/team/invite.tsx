@@ -0,0 +1,128 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { Stack, useRouter } from 'expo-router';
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { Alert } from 'react-native';
+import { z } from 'zod';
+
+import type { Invitation } from '@/api';
+import { useCreateInvitation, usePendingInvitations } from '@/api';
+import {
+  Button,
+  ControlledInput,
+  ControlledSelect,
+  FocusAwareStatusBar,
+  ScrollView,
+  Text,
+} from '@/components/ui';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import {
+  getAssignableRoles,
+  ROLE_LABELS,
+  shareInvitation,
+  TeamAccessGuard,
+} from '@/features/team';
+
+const inviteSchema = z.object({
+  email: z.string().email('Please enter a valid email address').max(255),
+  role: z.enum(['admin', 'manager', 'operator']),
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+function useSendInvitation() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { mutateAsync, isPending } = useCreateInvitation();
+
+  const onSent = (invitation: Invitation) =>
+    Alert.alert(
+      'Invitation sent',
+      `${invitation.email} will receive an email with a link to join. You can also share the link directly.`,
+      [
+        { text: 'Done', onPress: () => router.back() },
+        {
+          text: 'Share link',
+          onPress: async () => {
+            await shareInvitation(invitation);
+            router.back();
+          },
+        },
+      ]
+    );
+
+  const send = async (data: InviteFormData) => {
+    try {
+      const invitation = await mutateAsync(data);
+      queryClient.invalidateQueries({
+        queryKey: usePendingInvitations.getKey(),
+      });
+      onSent(invitation);
+    } catch (error: any) {
+      Alert.alert(
+        'Invitation not sent',
+        error.response?.data?.message || 'Please try again.'
+      );
+    }
+  };
+
+  return { send, isPending };
+}
+
+export default function InviteMemberScreen() {
+  return (
+    <TeamAccessGuard>
+      <InviteMember />
+    </TeamAccessGuard>
+  );
+}
+
+function InviteMember() {
+  const { user } = useAuth();
+  const roles = getAssignableRoles(user);
+  const { send, isPending } = useSendInvitation();
+  const { control, handleSubmit } = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '', role: 'operator' },
+  });
+
+  return (
+    <ScrollView className="flex-1 p-4">
+      <Stack.Screen
+        options={{ title: 'Invite member', headerBackTitle: 'Team' }}
+      />
+      <FocusAwareStatusBar />
+      {roles.length === 0 ? (
+        <Text className="text-center">You cannot invite new members</Text>
+      ) : (
+        <>
+          <ControlledInput
+            control={control}
+            name="email"
+            label="Email"
+            autoCapitalize="none"
+            keyboardType="email-address"
+            testID="invite-email-input"
+          />
+          <ControlledSelect
+            control={control}
+            name="role"
+            label="Role"
+            options={roles.map((role) => ({
+              label: ROLE_LABELS[role],
+              value: role,
+            }))}
+            testID="invite-role-select"
+          />
+          <Button
+            label="Send invitation"
+            loading={isPending}
+            onPress={handleSubmit(send)}
+            testID="send-invitation-button"
+          />
+        </>
+      )}
+    </ScrollView>
+  );
+}
@@ -3,15 +3,18 @@ import { Alert, View } from 'react-native';
 
 import { Button } from '@/components/ui/button';
 import { Text } from '@/components/ui/text';
-import { useSecureAuth } from '@/lib/auth/secure-auth';
+import { sessionService } from '@/features/auth/services/session';
 import { biometricAuth } from '@/lib/biometric-auth';
 
 interface BiometricSetupProps {
+  // Set when an enrollment change turned biometric sign-in off
+  reason?: 'enrollment-changed';
   onComplete?: (enabled: boolean) => void;
   showSkip?: boolean;
 }
 
 export const BiometricSetup: React.FC<BiometricSetupProps> = ({
+  reason,
   onComplete,
   showSkip = true,
 }) => {
@@ -20,9 +23,6 @@ export const BiometricSetup: React.FC<BiometricSetupProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [isChecking, setIsChecking] = useState(true);
 
-  const enableBiometric = useSecureAuth.use.enableBiometric();
-  const disableBiometric = useSecureAuth.use.disableBiometric();
-
   useEffect(() => {
     checkBiometricAvailability();
   }, []);
@@ -47,7 +47,7 @@ export const BiometricSetup: React.FC<BiometricSetupProps> = ({
     try {
       setIsLoading(true);
 
-      await enableBiometric();
+      await sessionService.enableBiometricLogin();
 
       Alert.alert(
         'Success',
@@ -98,9 +98,11 @@ export const BiometricSetup: React.FC<BiometricSetupProps> = ({
         </Text>
 
         {showSkip && (
-          <Button onPress={handleSkip} className="w-full">
-            Continue without Biometric
-          </Button>
+          <Button
+            onPress={handleSkip}
+            className="w-full"
+            label="Continue without Biometric"
+          />
         )}
       </View>
     );
@@ -109,22 +111,24 @@ export const BiometricSetup: React.FC<BiometricSetupProps> = ({
   return (
     <View className="flex-1 items-center justify-center p-6">
       <Text className="mb-4 text-center text-2xl font-bold">
-        Enable {biometricType}
+        {reason === 'enrollment-changed'
+          ? `Turn ${biometricType} Back On`
+          : `Enable ${biometricType}`}
       </Text>
 
       <Text className="mb-8 text-center text-gray-600">
-        Secure your account with {biometricType.toLowerCase()} for quick and
-        secure access to your data.
+        {reason === 'enrollment-changed'
+          ? `A face or fingerprint was added or removed on this device, so ${biometricType} sign-in was turned off to keep your account safe. Turn it back on to use the ones enrolled now.`
+          : `Secure your account with ${biometricType.toLowerCase()} for quick and secure access to your data.`}
       </Text>
 
       <View className="w-full space-y-4">
         <Button
           onPress={handleEnableBiometric}
-          disabled={isLoading}
+          loading={isLoading}
           className="w-full"
-        >
-          {isLoading ? 'Setting up...' : `Enable ${biometricType}`}
-        </Button>
+          label={`Enable ${biometricType}`}
+        />
 
         {showSkip && (
           <Button
@@ -132,9 +136,8 @@ export const BiometricSetup: React.FC<BiometricSetupProps> = ({
             onPress={handleSkip}
             disabled={isLoading}
             className="w-full"
-          >
-            Skip for Now
-          </Button>
+            label="Skip for Now"
+          />
         )}
       </View>
 
@@ -1,35 +1,34 @@
+import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Alert, ScrollView, Switch, View } from 'react-native';
 
 import { mobileSecurityAPI } from '@/api/mobile-security';
 import { Button } from '@/components/ui/button';
 import { Text } from '@/components/ui/text';
-import { useSecureAuth } from '@/lib/auth/secure-auth';
+import { AppLockTimeoutSelect } from '@/features/app-lock';
+import { PasswordConfirmationModal } from '@/features/auth/components/password-confirmation-modal';
+import { useBiometricSetting } from '@/features/auth/hooks/use-biometric-setting';
+import { useIdentityConfirmation } from '@/features/auth/hooks/use-identity-confirmation';
+import { useSignOut } from '@/features/auth/hooks/use-sign-out';
+import { sessionService } from '@/features/auth/services/session';
+import { useAuthStore } from '@/features/auth/stores/authStore';
 import { biometricAuth } from '@/lib/biometric-auth';
 import { deviceFingerprintService } from '@/lib/device-fingerprint';
 import { secureStorage } from '@/lib/secure-storage';
 
-interface DeviceInfo {
-  device_id: string;
-  device_info: any;
-  is_trusted: boolean;
-  trust_expires_at: string | null;
-  last_used_at: string;
-  created_at: string;
-}
-
 export const SecuritySettings: React.FC = () => {
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [biometricType, setBiometricType] = useState('');
-  const [devices, setDevices] = useState<DeviceInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [deviceFingerprint, setDeviceFingerprint] = useState<string>('');
 
-  const biometricEnabled = useSecureAuth.use.biometricEnabled();
-  const enableBiometric = useSecureAuth.use.enableBiometric();
-  const disableBiometric = useSecureAuth.use.disableBiometric();
-  const tokens = useSecureAuth.use.tokens();
-  const signOut = useSecureAuth.use.signOut();
+  const biometricEnabled = useAuthStore((state) => state.biometricEnabled);
+  // Token management only applies to device-bound sessions
+  const tokens = useAuthStore((state) => state.deviceBound);
+  const router = useRouter();
+  const { confirmIdentity, passwordModal } = useIdentityConfirmation();
+  const { signOutThisDevice, signOutEverywhere } = useSignOut(confirmIdentity);
+  const biometricSetting = useBiometricSetting();
 
   useEffect(() => {
     initializeSecuritySettings();
@@ -45,9 +44,6 @@ export const SecuritySettings: React.FC = () => {
       setBiometricAvailable(available);
       setBiometricType(description);
 
-      // Load device information
-      await loadDevices();
-
       // Get device fingerprint
       const fingerprint = await deviceFingerprintService.getDeviceHash();
       setDeviceFingerprint(fingerprint);
@@ -58,62 +54,6 @@ export const SecuritySettings: React.FC = () => {
     }
   };
 
-  const loadDevices = async () => {
-    try {
-      const deviceList = await mobileSecurityAPI.getDevices();
-      setDevices(deviceList);
-    } catch (error) {
-      console.error('Failed to load devices:', error);
-    }
-  };
-
-  const handleToggleBiometric = async (enabled: boolean) => {
-    try {
-      setIsLoading(true);
-
-      if (enabled) {
-        await enableBiometric();
-        Alert.alert('Success', 'Biometric authentication has been enabled.');
-      } else {
-        await disableBiometric();
-        Alert.alert('Success', 'Biometric authentication has been disabled.');
-      }
-    } catch (error: any) {
-      Alert.alert(
-        'Error',
-        error.message || 'Failed to update biometric settings.'
-      );
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const handleRevokeAllTokens = async () => {
-    Alert.alert(
-      'Revoke All Tokens',
-      'This will sign you out from all devices. You will need to sign in again.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Revoke',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              setIsLoading(true);
-              await mobileSecurityAPI.revokeDeviceTokens();
-              await signOut();
-              Alert.alert('Success', 'All tokens have been revoked.');
-            } catch (error: any) {
-              Alert.alert('Error', error.message || 'Failed to revoke tokens.');
-            } finally {
-              setIsLoading(false);
-            }
-          },
-        },
-      ]
-    );
-  };
-
   const handleClearSecureStorage = async () => {
     Alert.alert(
       'Clear Secure Storage',
@@ -127,7 +67,7 @@ export const SecuritySettings: React.FC = () => {
             try {
               setIsLoading(true);
               await secureStorage.clearAll();
-              await signOut();
+              await sessionService.endSession();
               Alert.alert('Success', 'Secure storage has been cleared.');
             } catch (error: any) {
               Alert.alert('Error', error.message || 'Failed to clear storage.');
@@ -159,10 +99,6 @@ export const SecuritySettings: React.FC = () => {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString();
-  };
-
   return (
     <ScrollView className="flex-1 bg-gray-50">
       <View className="space-y-6 p-4">
@@ -183,21 +119,28 @@ export const SecuritySettings: React.FC = () => {
             {biometricAvailable && (
               <Switch
                 value={biometricEnabled}
-                onValueChange={handleToggleBiometric}
-                disabled={isLoading}
+                onValueChange={biometricSetting.setEnabled}
+                disabled={isLoading || biometricSetting.isUpdating}
               />
             )}
           </View>
 
           {biometricAvailable ? (
             <Text className="text-sm text-gray-600">
-              Use {biometricType.toLowerCase()} for secure and convenient access
+              Sign in and unlock the app with {biometricType.toLowerCase()}
+              instead of your password
             </Text>
           ) : (
             <Text className="text-sm text-gray-500">
               Biometric authentication is not available on this device
             </Text>
           )}
+
+          {biometricEnabled && (
+            <View className="mt-4">
+              <AppLockTimeoutSelect disabled={isLoading} />
+            </View>
+          )}
         </View>
 
         {/* Device Information */}
@@ -236,66 +179,44 @@ export const SecuritySettings: React.FC = () => {
             >
               View Token Information
             </Button>
-
-            <Button
-              variant="outline"
-              onPress={handleRevokeAllTokens}
-              disabled={isLoading || !tokens}
-              className="w-full"
-            >
-              Revoke All Tokens
-            </Button>
           </View>
         </View>
 
         {/* Registered Devices */}
-        {devices.length > 0 && (
-          <View className="rounded-lg bg-white p-4">
-            <Text className="mb-3 text-lg font-semibold">
-              Registered Devices
-            </Text>
+        <View className="rounded-lg bg-white p-4">
+          <Text className="mb-3 text-lg font-semibold">Devices</Text>
+
+          <Button
+            variant="outline"
+            onPress={() => router.push('/settings/devices')}
+            className="w-full"
+            label="Manage Devices"
+          />
+        </View>
 
-            {devices.map((device, index) => (
-              <View
-                key={device.device_id}
-                className="border-b border-gray-200 py-3 last:border-b-0"
-              >
-                <View className="flex-row items-start justify-between">
-                  <View className="flex-1">
-                    <Text className="font-medium">
-                      {device.device_info.device_name || 'Unknown Device'}
-                    </Text>
-                    <Text className="text-sm text-gray-600">
-                      {device.device_info.platform} •{' '}
-                      {device.device_info.device_model}
-                    </Text>
-                    <Text className="text-xs text-gray-500">
-                      Last used: {formatDate(device.last_used_at)}
-                    </Text>
-                  </View>
+        {/* Sign Out */}
+        <View className="rounded-lg bg-white p-4">
+          <Text className="mb-3 text-lg font-semibold">Sign Out</Text>
 
-                  <View className="items-end">
-                    <View
-                      className={`rounded px-2 py-1 ${
-                        device.is_trusted ? 'bg-green-100' : 'bg-orange-100'
-                      }`}
-                    >
-                      <Text
-                        className={`text-xs font-medium ${
-                          device.is_trusted
-                            ? 'text-green-800'
-                            : 'text-orange-800'
-                        }`}
-                      >
-                        {device.is_trusted ? 'Trusted' : 'Untrusted'}
-                      </Text>
-                    </View>
-                  </View>
-                </View>
-              </View>
-            ))}
+          <View className="space-y-3">
+            <Button
+              variant="outline"
+              onPress={signOutThisDevice}
+              disabled={isLoading}
+              className="w-full"
+              label="Sign Out of This Device"
+            />
+
+            <Button
+              variant="outline"
+              onPress={signOutEverywhere}
+              disabled={isLoading}
+              className="w-full border-red-300"
+              textClassName="text-red-600"
+              label="Sign Out of All Devices"
+            />
           </View>
-        )}
+        </View>
 
         {/* Advanced Settings */}
         <View className="rounded-lg bg-white p-4">
@@ -343,6 +264,8 @@ export const SecuritySettings: React.FC = () => {
           </View>
         </View>
       </View>
+      <PasswordConfirmationModal {...passwordModal} />
+      <PasswordConfirmationModal {...biometricSetting.passwordModal} />
     </ScrollView>
   );
 };
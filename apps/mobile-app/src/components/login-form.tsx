@@ -19,14 +19,16 @@ const schema = z.object({
     .string({
       required_error: 'Password is required',
     })
-    .min(6, 'Password must be at least 6 characters'),
+    // Existing passwords predate the current policy, so only new ones are
+    // checked against it
+    .min(1, 'Password is required'),
 });
 
 export type FormType = z.infer<typeof schema>;
 
 export type LoginFormProps = {
   onSubmit?: SubmitHandler<FormType>;
-  onSocialLoginSuccess?: (authData: any) => void;
+  onSocialLoginSuccess?: () => void;
   onSocialLoginError?: (error: string) => void;
 };
 
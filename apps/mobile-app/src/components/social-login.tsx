@@ -1,12 +1,11 @@
 import React from 'react';
-import { Alert, Linking } from 'react-native';
 
-import { Button, Text, View } from '@/components/ui';
-import { AuthApi } from '@/features/auth/services/api';
+import { Button, Options, Text, View } from '@/components/ui';
+import { useSocialLogin } from '@/features/auth/hooks/use-social-login';
 import type { SocialProvider } from '@/features/auth/types';
 
 interface SocialLoginProps {
-  onSocialLoginSuccess: (authData: any) => void;
+  onSocialLoginSuccess: () => void;
   onSocialLoginError: (error: string) => void;
 }
 
@@ -35,88 +34,11 @@ export const SocialLogin = ({
   onSocialLoginSuccess,
   onSocialLoginError,
 }: SocialLoginProps) => {
-  const handleSocialLogin = async (provider: SocialProvider) => {
-    try {
-      // Step 1: Initialize OAuth flow
-      const initResponse = await AuthApi.initializeOAuth(provider.id, {
-        deviceId: 'mobile-device', // Should be actual device ID
-        appVersion: '1.0.0', // Should come from app config
-      });
-
-      if (!initResponse.success) {
-        throw new Error('Failed to initialize OAuth flow');
-      }
-
-      const { authorization_url, state } = initResponse.data;
-
-      // Step 2: Open browser for OAuth authorization
-      const supported = await Linking.canOpenURL(authorization_url);
-      if (!supported) {
-        throw new Error('Cannot open OAuth URL');
-      }
-
-      await Linking.openURL(authorization_url);
-
-      // Note: In a real implementation, you would need to handle the callback
-      // This would typically involve deep linking or a custom URL scheme
-      // For now, this is a basic structure showing the OAuth initialization
-
-      Alert.alert(
-        'OAuth Started',
-        `Please complete authentication in your browser. State: ${state}`,
-        [
-          {
-            text: 'I completed authentication',
-            onPress: () => {
-              // In a real app, this would be handled by deep linking callback
-              Alert.prompt(
-                'Enter Authorization Code',
-                'Please enter the authorization code from the redirect URL:',
-                [
-                  {
-                    text: 'Cancel',
-                    style: 'cancel',
-                  },
-                  {
-                    text: 'Submit',
-                    onPress: async (code) => {
-                      if (code) {
-                        try {
-                          const authResponse = await AuthApi.completeOAuth(
-                            provider.id,
-                            {
-                              code,
-                              state,
-                            }
-                          );
-                          onSocialLoginSuccess(authResponse);
-                        } catch (error) {
-                          onSocialLoginError(
-                            error instanceof Error
-                              ? error.message
-                              : 'OAuth completion failed'
-                          );
-                        }
-                      }
-                    },
-                  },
-                ],
-                'plain-text'
-              );
-            },
-          },
-          {
-            text: 'Cancel',
-            style: 'cancel',
-          },
-        ]
-      );
-    } catch (error) {
-      onSocialLoginError(
-        error instanceof Error ? error.message : 'Social login failed'
-      );
-    }
-  };
+  const { activeProvider, tenantChoice, tenantModal, signIn, selectTenant } =
+    useSocialLogin({
+      onSuccess: onSocialLoginSuccess,
+      onError: onSocialLoginError,
+    });
 
   return (
     <View className="mt-6">
@@ -132,12 +54,24 @@ export const SocialLogin = ({
             key={provider.id}
             label={`${provider.icon} Continue with ${provider.name}`}
             variant="outline"
-            onPress={() => handleSocialLogin(provider)}
+            loading={activeProvider?.id === provider.id}
+            disabled={!!activeProvider}
+            onPress={() => signIn(provider)}
             className="w-full rounded-lg border border-gray-300 p-4"
             style={{ borderColor: provider.color }}
           />
         ))}
       </View>
+
+      <Options
+        ref={tenantModal.ref}
+        options={(tenantChoice?.tenants ?? []).map((tenant) => ({
+          label: tenant.name,
+          value: tenant.id,
+        }))}
+        onSelect={selectTenant}
+        testID="social-login-tenants"
+      />
     </View>
   );
 };
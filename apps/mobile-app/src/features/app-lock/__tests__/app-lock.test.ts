@@ -0,0 +1,155 @@
+import { sessionService } from '@/features/auth/services/session';
+import {
+  DEFAULT_APP_LOCK_TIMEOUT,
+  selectAppLockTimeout,
+  useAuthStore,
+} from '@/features/auth/stores/authStore';
+
+import { appLockService } from '../services/app-lock';
+import { useAppLockStore } from '../stores/app-lock-store';
+import { isIdleTooLong } from '../utils/lock-policy';
+
+jest.mock('@/features/auth/services/session', () => ({
+  sessionService: { confirmPassword: jest.fn(), confirmBiometrics: jest.fn() },
+}));
+
+const MINUTE = 60 * 1000;
+
+const user = (id: string) => ({
+  id,
+  name: 'Test User',
+  email: `${id}@example.com`,
+  role: 'operator' as const,
+  tenant_id: 'tenant1',
+});
+
+const signIn = (biometricEnabled = true) =>
+  useAuthStore.setState({
+    user: user('1'),
+    isAuthenticated: true,
+    biometricEnabled,
+    appLockTimeouts: { '1': 5 * MINUTE },
+  });
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  useAppLockStore.setState({
+    locked: false,
+    obscured: false,
+    backgroundedAt: null,
+  });
+  signIn();
+});
+
+afterEach(() => jest.useRealTimers());
+
+describe('isIdleTooLong', () => {
+  it('is only true once the timeout has passed', () => {
+    expect(isIdleTooLong(0, 5 * MINUTE, 5 * MINUTE - 1)).toBe(false);
+    expect(isIdleTooLong(0, 5 * MINUTE, 5 * MINUTE)).toBe(true);
+  });
+
+  it('is never true without a time in the background', () => {
+    expect(isIdleTooLong(null, 0)).toBe(false);
+  });
+});
+
+describe('selectAppLockTimeout', () => {
+  it("keeps each user's timeout across sign-outs", () => {
+    useAuthStore.getState().setAppLockTimeout(MINUTE);
+    useAuthStore.getState().clearAuth();
+    expect(selectAppLockTimeout(useAuthStore.getState())).toBe(
+      DEFAULT_APP_LOCK_TIMEOUT
+    );
+
+    useAuthStore.setState({ user: user('2') });
+    expect(selectAppLockTimeout(useAuthStore.getState())).toBe(
+      DEFAULT_APP_LOCK_TIMEOUT
+    );
+
+    useAuthStore.setState({ user: user('1') });
+    expect(selectAppLockTimeout(useAuthStore.getState())).toBe(MINUTE);
+  });
+});
+
+describe('appLockService.handleAppStateChange', () => {
+  it('locks on return after the timeout', () => {
+    appLockService.handleAppStateChange('background');
+    jest.advanceTimersByTime(5 * MINUTE);
+    appLockService.handleAppStateChange('active');
+
+    expect(useAppLockStore.getState()).toMatchObject({
+      locked: true,
+      obscured: false,
+      backgroundedAt: null,
+    });
+  });
+
+  it('stays unlocked on a quick return', () => {
+    appLockService.handleAppStateChange('background');
+    jest.advanceTimersByTime(MINUTE);
+    appLockService.handleAppStateChange('active');
+
+    expect(useAppLockStore.getState().locked).toBe(false);
+  });
+
+  it('hides content without counting idle time while inactive', () => {
+    appLockService.handleAppStateChange('inactive');
+
+    expect(useAppLockStore.getState()).toMatchObject({
+      obscured: true,
+      backgroundedAt: null,
+    });
+
+    jest.advanceTimersByTime(10 * MINUTE);
+    appLockService.handleAppStateChange('active');
+
+    expect(useAppLockStore.getState().locked).toBe(false);
+  });
+
+  it('never locks without biometric sign-in', () => {
+    signIn(false);
+
+    appLockService.handleAppStateChange('background');
+    jest.advanceTimersByTime(10 * MINUTE);
+    appLockService.handleAppStateChange('active');
+
+    expect(useAppLockStore.getState().locked).toBe(false);
+  });
+});
+
+describe('appLockService lifecycle', () => {
+  it('starts locked and unlocks on sign-out', () => {
+    const stop = appLockService.start();
+
+    expect(useAppLockStore.getState().locked).toBe(true);
+
+    useAuthStore.getState().clearAuth();
+    expect(useAppLockStore.getState().locked).toBe(false);
+
+    stop();
+  });
+
+  it('stays locked when biometrics are dropped while signed in', () => {
+    const stop = appLockService.start();
+
+    useAuthStore.setState({ biometricEnabled: false });
+    expect(useAppLockStore.getState().locked).toBe(true);
+
+    stop();
+  });
+
+  it('unlocks only on a successful biometric check', async () => {
+    useAppLockStore.setState({ locked: true });
+    jest
+      .mocked(sessionService.confirmBiometrics)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+
+    await expect(appLockService.unlockWithBiometrics()).resolves.toBe(false);
+    expect(useAppLockStore.getState().locked).toBe(true);
+
+    await expect(appLockService.unlockWithBiometrics()).resolves.toBe(true);
+    expect(useAppLockStore.getState().locked).toBe(false);
+  });
+});
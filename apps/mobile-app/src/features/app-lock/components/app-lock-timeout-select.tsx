@@ -0,0 +1,28 @@
+import React from 'react';
+
+import { Select } from '@/components/ui';
+import {
+  selectAppLockTimeout,
+  useAuthStore,
+} from '@/features/auth/stores/authStore';
+
+import { APP_LOCK_TIMEOUT_OPTIONS } from '../utils/lock-policy';
+
+/**
+ * How long the app may stay in the background before it locks
+ */
+export function AppLockTimeoutSelect({ disabled }: { disabled?: boolean }) {
+  const timeout = useAuthStore(selectAppLockTimeout);
+  const setAppLockTimeout = useAuthStore((state) => state.setAppLockTimeout);
+
+  return (
+    <Select
+      label="Require unlock"
+      value={timeout}
+      options={APP_LOCK_TIMEOUT_OPTIONS}
+      onSelect={(value) => setAppLockTimeout(Number(value))}
+      disabled={disabled}
+      testID="app-lock-timeout"
+    />
+  );
+}
@@ -0,0 +1,127 @@
+import { BlurView } from 'expo-blur';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, AppState, StyleSheet } from 'react-native';
+
+import { Button, Text, useModal, View } from '@/components/ui';
+import { PasswordConfirmationModal } from '@/features/auth/components/password-confirmation-modal';
+import { useBiometricReenrollment } from '@/features/auth/hooks/use-biometric-reenrollment';
+import { sessionService } from '@/features/auth/services/session';
+import { useAuthStore } from '@/features/auth/stores/authStore';
+import { BiometricEnrollmentChangedError } from '@/lib/biometric-auth';
+
+import { appLockService } from '../services/app-lock';
+import { useAppLockStore } from '../stores/app-lock-store';
+
+/**
+ * Covers the app while it is locked, and blurs it while it is out of
+ * focus. Mount once at the root, above the navigator.
+ */
+export function AppLock() {
+  const locked = useAppLockStore((state) => state.locked);
+  const obscured = useAppLockStore((state) => state.obscured);
+
+  useEffect(() => appLockService.start(), []);
+
+  return (
+    <>
+      {locked && <LockScreen />}
+      {obscured && (
+        <BlurView
+          intensity={60}
+          tint="default"
+          style={StyleSheet.absoluteFill}
+          testID="app-privacy-overlay"
+        />
+      )}
+    </>
+  );
+}
+
+// Unlocking from the lock screen: biometrics, with the password to fall back on
+function useUnlock() {
+  const passwordModal = useModal();
+  const reenrollment = useBiometricReenrollment();
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const { present } = passwordModal;
+
+  const unlock = useCallback(async () => {
+    setIsUnlocking(true);
+    try {
+      await appLockService.unlockWithBiometrics();
+    } catch (error: any) {
+      // Biometrics changed or couldn't be read, so only the password will do
+      Alert.alert(
+        error instanceof BiometricEnrollmentChangedError
+          ? 'Biometrics Changed'
+          : 'Biometric Unlock Failed',
+        error.message
+      );
+      present();
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [present]);
+
+  const unlockWithPassword = async (password: string) => {
+    const unlocked = await appLockService.unlockWithPassword(password);
+    if (unlocked) {
+      await reenrollment.offer();
+    }
+    return unlocked;
+  };
+
+  // Prompt straight away rather than waiting for a tap
+  useEffect(() => {
+    if (AppState.currentState === 'active') {
+      unlock();
+    }
+  }, [unlock]);
+
+  return { passwordModal, isUnlocking, unlock, unlockWithPassword };
+}
+
+function LockScreen() {
+  const name = useAuthStore((state) => state.user?.name);
+  const { passwordModal, isUnlocking, unlock, unlockWithPassword } =
+    useUnlock();
+
+  return (
+    <View
+      className="absolute inset-0 items-center justify-center bg-white px-8 dark:bg-neutral-900"
+      testID="app-lock-screen"
+    >
+      <Text className="mb-2 text-2xl font-bold">CheckRight is locked</Text>
+      {name && (
+        <Text className="mb-8 text-neutral-500">Signed in as {name}</Text>
+      )}
+
+      <Button
+        label="Unlock"
+        loading={isUnlocking}
+        onPress={unlock}
+        className="w-full"
+        testID="app-lock-unlock"
+      />
+      <Button
+        label="Use password"
+        variant="outline"
+        onPress={passwordModal.present}
+        className="w-full"
+        testID="app-lock-password"
+      />
+      <Button
+        label="Sign out"
+        variant="ghost"
+        onPress={() => sessionService.logout()}
+        testID="app-lock-sign-out"
+      />
+
+      <PasswordConfirmationModal
+        ref={passwordModal.ref}
+        operation="unlock CheckRight"
+        onSubmit={unlockWithPassword}
+        onDismiss={() => {}}
+      />
+    </View>
+  );
+}
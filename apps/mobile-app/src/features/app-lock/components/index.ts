@@ -0,0 +1,2 @@
+export * from './app-lock';
+export * from './app-lock-timeout-select';
@@ -0,0 +1,5 @@
+// App lock feature exports
+export * from './components';
+export * from './services';
+export * from './stores';
+export * from './utils';
@@ -0,0 +1,122 @@
+import type { AppStateStatus } from 'react-native';
+import { AppState, Platform } from 'react-native';
+
+import { sessionService } from '@/features/auth/services/session';
+import {
+  selectAppLockTimeout,
+  useAuthStore,
+} from '@/features/auth/stores/authStore';
+
+import { useAppLockStore } from '../stores/app-lock-store';
+import { isIdleTooLong } from '../utils/lock-policy';
+
+// The lock comes with biometric sign-in; users without it are never locked
+const isLockEnabled = () => {
+  const { isAuthenticated, biometricEnabled } = useAuthStore.getState();
+  return isAuthenticated && biometricEnabled;
+};
+
+/**
+ * Locks the app behind biometrics when it comes back from the background
+ * after the user's idle timeout, and hides its content whenever it is out
+ * of focus so the app switcher snapshot shows nothing.
+ */
+class AppLockService {
+  /**
+   * Start watching the app state. Called once the app is mounted.
+   * @returns Cleanup function to remove listeners
+   */
+  start(): () => void {
+    // A cold start counts as coming back after any timeout
+    if (useAuthStore.getState().biometricEnabled) {
+      useAppLockStore.getState().lock();
+    }
+
+    const subscriptions = [
+      AppState.addEventListener('change', (state) =>
+        this.handleAppStateChange(state)
+      ),
+    ];
+
+    // Android takes its recents snapshot on losing focus, before `change`
+    if (Platform.OS === 'android') {
+      subscriptions.push(
+        AppState.addEventListener('blur', () =>
+          useAppLockStore.getState().setObscured(true)
+        ),
+        AppState.addEventListener('focus', () =>
+          useAppLockStore.getState().setObscured(false)
+        )
+      );
+    }
+
+    // Nothing left to guard once signed out, or the session didn't restore
+    const unsubscribe = useAuthStore.subscribe((state) => {
+      if (
+        useAppLockStore.getState().locked &&
+        !state.isAuthenticated &&
+        !state.isLoading
+      ) {
+        useAppLockStore.getState().unlock();
+      }
+    });
+
+    return () => {
+      subscriptions.forEach((subscription) => subscription.remove());
+      unsubscribe();
+    };
+  }
+
+  handleAppStateChange(state: AppStateStatus) {
+    const store = useAppLockStore.getState();
+
+    if (state !== 'active') {
+      store.setObscured(true);
+      // `inactive` is also the app switcher or a system prompt, which
+      // don't count towards the idle time
+      if (state === 'background' && store.backgroundedAt === null) {
+        store.setBackgroundedAt(Date.now());
+      }
+      return;
+    }
+
+    const appLockTimeout = selectAppLockTimeout(useAuthStore.getState());
+    store.setObscured(false);
+    store.setBackgroundedAt(null);
+
+    if (
+      isLockEnabled() &&
+      isIdleTooLong(store.backgroundedAt, appLockTimeout)
+    ) {
+      store.lock();
+    }
+  }
+
+  /**
+   * Unlock with the biometrics biometric sign-in was set up with. Throws
+   * if they changed since, leaving the password to unlock with.
+   */
+  async unlockWithBiometrics(): Promise<boolean> {
+    const confirmed =
+      await sessionService.confirmBiometrics('Unlock CheckRight');
+
+    if (confirmed) {
+      useAppLockStore.getState().unlock();
+    }
+    return confirmed;
+  }
+
+  /**
+   * Unlock with the account password, e.g. when biometrics keep failing
+   */
+  async unlockWithPassword(password: string): Promise<boolean> {
+    const confirmed = await sessionService.confirmPassword(password);
+
+    if (confirmed) {
+      useAppLockStore.getState().unlock();
+    }
+    return confirmed;
+  }
+}
+
+export const appLockService = new AppLockService();
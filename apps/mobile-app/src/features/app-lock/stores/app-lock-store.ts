@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+
+/**
+ * Lock state for the current run of the app. Kept in memory only, so a
+ * cold start always begins locked (see `appLockService.start`).
+ */
+export interface AppLockState {
+  locked: boolean;
+  // Content is hidden while the app is out of focus, e.g. in the app switcher
+  obscured: boolean;
+  backgroundedAt: number | null;
+
+  lock: () => void;
+  unlock: () => void;
+  setObscured: (obscured: boolean) => void;
+  setBackgroundedAt: (backgroundedAt: number | null) => void;
+}
+
+export const useAppLockStore = create<AppLockState>()((set) => ({
+  locked: false,
+  obscured: false,
+  backgroundedAt: null,
+
+  lock: () => set({ locked: true }),
+  unlock: () => set({ locked: false, backgroundedAt: null }),
+  setObscured: (obscured) => set({ obscured }),
+  setBackgroundedAt: (backgroundedAt) => set({ backgroundedAt }),
+}));
@@ -0,0 +1 @@
+export * from './app-lock-store';
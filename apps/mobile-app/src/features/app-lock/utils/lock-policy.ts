@@ -0,0 +1,20 @@
+const MINUTE = 60 * 1000;
+
+export const APP_LOCK_TIMEOUT_OPTIONS = [
+  { label: 'Immediately', value: 0 },
+  { label: 'After 1 minute', value: MINUTE },
+  { label: 'After 5 minutes', value: 5 * MINUTE },
+  { label: 'After 15 minutes', value: 15 * MINUTE },
+  { label: 'After 1 hour', value: 60 * MINUTE },
+];
+
+/**
+ * Whether the app has been away long enough to lock on return
+ */
+export function isIdleTooLong(
+  backgroundedAt: number | null,
+  timeout: number,
+  now: number = Date.now()
+): boolean {
+  return backgroundedAt !== null && now - backgroundedAt >= timeout;
+}
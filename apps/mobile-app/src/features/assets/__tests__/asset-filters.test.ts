@@ -0,0 +1,98 @@
+import type { Asset } from '@/api/assets';
+
+import {
+  filterAssets,
+  matchesAssetQuery,
+  parseAssetQrCode,
+  sortByRecentlyInspected,
+} from '../utils/asset-filters';
+
+const makeAsset = (overrides: Partial<Asset>): Asset => ({
+  id: 'asset-1',
+  name: 'Asset',
+  type: 'vehicle',
+  identifier: null,
+  qr_code: null,
+  location: null,
+  description: null,
+  checklist_template_id: null,
+  assigned_user_ids: [],
+  last_inspected_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('matchesAssetQuery', () => {
+  const asset = makeAsset({
+    name: 'Forklift 3',
+    identifier: 'FL-003',
+    location: 'Warehouse B',
+  });
+
+  it('should match name, identifier and location case-insensitively', () => {
+    expect(matchesAssetQuery(asset, 'forklift')).toBe(true);
+    expect(matchesAssetQuery(asset, 'fl-003')).toBe(true);
+    expect(matchesAssetQuery(asset, 'warehouse')).toBe(true);
+  });
+
+  it('should treat an empty query as a match', () => {
+    expect(matchesAssetQuery(asset, '  ')).toBe(true);
+  });
+
+  it('should not match unrelated text', () => {
+    expect(matchesAssetQuery(asset, 'crane')).toBe(false);
+  });
+});
+
+describe('sortByRecentlyInspected', () => {
+  it('should order by last inspection with never-inspected assets last', () => {
+    const sorted = sortByRecentlyInspected([
+      makeAsset({ id: 'never', name: 'A' }),
+      makeAsset({ id: 'old', last_inspected_at: '2024-01-01T00:00:00Z' }),
+      makeAsset({ id: 'new', last_inspected_at: '2024-06-01T00:00:00Z' }),
+    ]);
+
+    expect(sorted.map((asset) => asset.id)).toEqual(['new', 'old', 'never']);
+  });
+
+  it('should fall back to name order', () => {
+    const sorted = sortByRecentlyInspected([
+      makeAsset({ id: 'b', name: 'Beta' }),
+      makeAsset({ id: 'a', name: 'Alpha' }),
+    ]);
+
+    expect(sorted.map((asset) => asset.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('filterAssets', () => {
+  it('should filter by type and query', () => {
+    const assets = [
+      makeAsset({ id: 'van', name: 'Van', type: 'vehicle' }),
+      makeAsset({ id: 'drill', name: 'Drill', type: 'tool' }),
+      makeAsset({ id: 'truck', name: 'Truck', type: 'vehicle' }),
+    ];
+
+    const result = filterAssets(assets, { type: 'vehicle', query: 'tru' });
+
+    expect(result.map((asset) => asset.id)).toEqual(['truck']);
+  });
+});
+
+describe('parseAssetQrCode', () => {
+  it('should accept a raw asset code', () => {
+    expect(parseAssetQrCode('AST-00123')).toBe('AST-00123');
+  });
+
+  it('should extract the code from an asset URL', () => {
+    expect(
+      parseAssetQrCode('https://checkright.app/assets/AST-00123?x=1')
+    ).toBe('AST-00123');
+  });
+
+  it('should reject unrelated payloads', () => {
+    expect(parseAssetQrCode('')).toBeNull();
+    expect(parseAssetQrCode('WIFI:S:network;T:WPA;;')).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { Link } from 'expo-router';
+import React from 'react';
+
+import type { Asset } from '@/api/assets';
+import { Pressable, Text, View } from '@/components/ui';
+
+import { ASSET_TYPE_LABELS, formatLastInspected } from '../utils';
+
+type Props = {
+  asset: Asset;
+};
+
+export const AssetListItem = ({ asset }: Props) => {
+  return (
+    <Link href={`/assets/${asset.id}`} asChild>
+      <Pressable testID={`asset-item-${asset.id}`}>
+        <View className="mx-3 my-1.5 rounded-xl border border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-neutral-900">
+          <View className="flex-row items-center justify-between">
+            <Text className="flex-1 text-lg font-semibold" numberOfLines={1}>
+              {asset.name}
+            </Text>
+            <Text className="ml-2 text-xs uppercase text-neutral-500">
+              {ASSET_TYPE_LABELS[asset.type]}
+            </Text>
+          </View>
+          {asset.identifier ? (
+            <Text className="text-sm text-neutral-600">{asset.identifier}</Text>
+          ) : null}
+          {asset.location ? (
+            <Text className="text-sm text-neutral-600">{asset.location}</Text>
+          ) : null}
+          <Text className="mt-1 text-xs text-neutral-500">
+            {formatLastInspected(asset.last_inspected_at)}
+          </Text>
+        </View>
+      </Pressable>
+    </Link>
+  );
+};
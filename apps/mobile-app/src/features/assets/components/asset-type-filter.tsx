@@ -0,0 +1,53 @@
+import React from 'react';
+import { ScrollView } from 'react-native';
+
+import type { AssetType } from '@/api/assets';
+import { Pressable, Text } from '@/components/ui';
+
+import { ASSET_TYPE_LABELS, ASSET_TYPES } from '../utils';
+
+type Props = {
+  value?: AssetType;
+  onChange: (type?: AssetType) => void;
+};
+
+const Chip = ({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) => (
+  <Pressable
+    onPress={onPress}
+    className={`mr-2 rounded-full border px-3 py-1.5 ${
+      selected
+        ? 'border-primary-600 bg-primary-600'
+        : 'border-neutral-300 bg-white dark:border-neutral-700 dark:bg-neutral-900'
+    }`}
+  >
+    <Text className={`text-sm ${selected ? 'text-white' : ''}`}>{label}</Text>
+  </Pressable>
+);
+
+export const AssetTypeFilter = ({ value, onChange }: Props) => {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      className="px-3 py-2"
+    >
+      <Chip label="All" selected={!value} onPress={() => onChange(undefined)} />
+      {ASSET_TYPES.map((type) => (
+        <Chip
+          key={type}
+          label={ASSET_TYPE_LABELS[type]}
+          selected={value === type}
+          onPress={() => onChange(type)}
+        />
+      ))}
+    </ScrollView>
+  );
+};
@@ -0,0 +1,2 @@
+export * from './asset-list-item';
+export * from './asset-type-filter';
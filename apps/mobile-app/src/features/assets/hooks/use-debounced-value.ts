@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Delays propagating a value until it has stopped changing, so search
+ * queries aren't fired on every keystroke.
+ */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,4 @@
+// Assets feature exports
+export * from './components';
+export * from './hooks';
+export * from './utils';
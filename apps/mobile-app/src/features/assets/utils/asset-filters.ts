@@ -0,0 +1,82 @@
+import type { Asset, AssetType } from '@/api/assets';
+
+export const ASSET_TYPES: AssetType[] = [
+  'vehicle',
+  'building',
+  'tool',
+  'equipment',
+  'other',
+];
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  vehicle: 'Vehicles',
+  building: 'Buildings',
+  tool: 'Tools',
+  equipment: 'Equipment',
+  other: 'Other',
+};
+
+/**
+ * Case-insensitive match against the fields an inspector is likely to type
+ */
+export function matchesAssetQuery(asset: Asset, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+
+  return [asset.name, asset.identifier, asset.location]
+    .filter((value): value is string => Boolean(value))
+    .some((value) => value.toLowerCase().includes(needle));
+}
+
+/**
+ * Most recently inspected first; never-inspected assets last, then by name
+ */
+export function sortByRecentlyInspected(assets: Asset[]): Asset[] {
+  return [...assets].sort((a, b) => {
+    const aTime = a.last_inspected_at ? Date.parse(a.last_inspected_at) : 0;
+    const bTime = b.last_inspected_at ? Date.parse(b.last_inspected_at) : 0;
+
+    if (aTime !== bTime) {
+      return bTime - aTime;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+export function filterAssets(
+  assets: Asset[],
+  filters: { type?: AssetType; query?: string }
+): Asset[] {
+  const filtered = assets.filter(
+    (asset) =>
+      (!filters.type || asset.type === filters.type) &&
+      matchesAssetQuery(asset, filters.query ?? '')
+  );
+  return sortByRecentlyInspected(filtered);
+}
+
+/**
+ * Pulls the lookup code out of a scanned QR payload. Labels may encode
+ * either the raw code or a URL ending in `/assets/<code>`.
+ */
+export function parseAssetQrCode(payload: string): string | null {
+  const value = payload.trim();
+  if (!value) {
+    return null;
+  }
+
+  const match = value.match(/\/assets\/([^/?#]+)/);
+  if (match) {
+    return decodeURIComponent(match[1]);
+  }
+  return /^[\w-]+$/.test(value) ? value : null;
+}
+
+export function formatLastInspected(value: string | null): string {
+  if (!value) {
+    return 'Never inspected';
+  }
+  return `Last inspected ${new Date(value).toLocaleDateString()}`;
+}
@@ -0,0 +1 @@
+export * from './asset-filters';
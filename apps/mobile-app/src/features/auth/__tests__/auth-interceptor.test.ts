@@ -0,0 +1,153 @@
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+import { client } from '@/api/common/client';
+
+import { AuthApi } from '../services/api';
+
+jest.mock('@/api/common/client', () => ({
+  client: jest.requireActual('axios').create({ baseURL: 'https://api.test' }),
+}));
+
+type Responder = (config: InternalAxiosRequestConfig) => number;
+
+// Answers with the status the responder picks, recording every request
+function fakeServer(respond: Responder) {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    requests.push(config);
+    const status = respond(config);
+    const response = {
+      data: {},
+      status,
+      statusText: String(status),
+      headers: {},
+      config,
+    };
+
+    if (status >= 400) {
+      throw Object.assign(new Error(`Request failed with ${status}`), {
+        config,
+        response,
+        isAxiosError: true,
+      });
+    }
+    return response;
+  };
+
+  client.defaults.adapter = adapter;
+  return requests;
+}
+
+const authorizedWith =
+  (accepted: string): Responder =>
+  (config) =>
+    config.headers.Authorization === `Bearer ${accepted}` ? 200 : 401;
+
+let token: string | null;
+let hasSession: boolean;
+let refreshSession: jest.Mock<Promise<boolean>, []>;
+let cleanup: () => void;
+
+beforeEach(() => {
+  token = 'expired';
+  hasSession = true;
+  refreshSession = jest.fn(async () => {
+    token = 'fresh';
+    return true;
+  });
+  cleanup = AuthApi.setupAuthInterceptor({
+    getToken: () => token,
+    hasSession: () => hasSession,
+    refreshSession,
+  });
+});
+
+afterEach(() => cleanup());
+
+describe('AuthApi.setupAuthInterceptor: refresh and replay', () => {
+  it('refreshes once for concurrent 401s and replays each request', async () => {
+    const requests = fakeServer(authorizedWith('fresh'));
+
+    const responses = await Promise.all([
+      client.get('mobile/inspections'),
+      client.get('mobile/assets'),
+      client.get('mobile/users'),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200,
+    ]);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(requests).toHaveLength(6);
+  });
+
+  it('holds back new requests until the refresh is done', async () => {
+    let finishRefresh: (refreshed: boolean) => void = () => {};
+    refreshSession.mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          finishRefresh = (refreshed) => {
+            token = 'fresh';
+            resolve(refreshed);
+          };
+        })
+    );
+    const requests = fakeServer(authorizedWith('fresh'));
+
+    const first = client.get('mobile/inspections');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const second = client.get('mobile/assets');
+    finishRefresh(true);
+
+    await Promise.all([first, second]);
+
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(
+      requests
+        .filter((request) => request.url === 'mobile/assets')
+        .map((request) => request.headers.Authorization)
+    ).toEqual(['Bearer fresh']);
+  });
+});
+
+describe('AuthApi.setupAuthInterceptor: failures', () => {
+  it('rejects without replaying when the refresh fails', async () => {
+    refreshSession.mockResolvedValue(false);
+    const requests = fakeServer(() => 401);
+
+    await expect(client.get('mobile/inspections')).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('replays only once if the new token is rejected too', async () => {
+    const requests = fakeServer(() => 401);
+
+    await expect(client.get('mobile/inspections')).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('passes 401s through without a session', async () => {
+    hasSession = false;
+    fakeServer(() => 401);
+
+    await expect(client.post('mobile/auth/login')).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(refreshSession).not.toHaveBeenCalled();
+  });
+
+  it('never retries the refresh request itself', async () => {
+    const requests = fakeServer(() => 401);
+
+    await expect(client.post('mobile/tokens/refresh')).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(refreshSession).not.toHaveBeenCalled();
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -1,3 +1,11 @@
+import { router } from 'expo-router';
+import { Alert } from 'react-native';
+import { z } from 'zod';
+
+import { inspectionDeepLinks } from '@/features/inspections/utils/deep-links';
+import { defineDeepLink } from '@/lib/deep-links';
+
+import { useAuthStore } from '../stores/authStore';
 import { DeepLinkingService } from '../utils/deepLinking';
 
 describe('DeepLinkingService', () => {
@@ -19,6 +27,15 @@ describe('DeepLinkingService', () => {
       expect(token).toBeNull();
     });
 
+    it('should extract token from the URL in invitation emails', () => {
+      const url =
+        'https://acme.checkright.app/accept-invitation/abcd1234567890abcdef1234567890abcdef1234567890abcdef1234567890ab';
+
+      expect(DeepLinkingService.parseInvitationToken(url)).toBe(
+        'abcd1234567890abcdef1234567890abcdef1234567890abcdef1234567890ab'
+      );
+    });
+
     it('should return null for URL with short token', () => {
       const url = 'https://checkright.app/invitations/shorttoken/accept';
       const token = DeepLinkingService.parseInvitationToken(url);
@@ -65,3 +82,213 @@ describe('DeepLinkingService', () => {
     });
   });
 });
+
+describe('DeepLinkingService OAuth callbacks', () => {
+  afterEach(() => DeepLinkingService.setOAuthCallbackHandler(null));
+
+  it('reads the code and state from the redirect', () => {
+    expect(
+      DeepLinkingService.parseOAuthCallback(
+        'checkright://oauth/callback?code=4%2F0Ab&state=xyz'
+      )
+    ).toEqual({
+      code: '4/0Ab',
+      state: 'xyz',
+      error: undefined,
+      errorDescription: undefined,
+    });
+  });
+
+  it('reads provider errors, including from the fragment', () => {
+    expect(
+      DeepLinkingService.parseOAuthCallback(
+        'exp://192.168.1.2:8081/--/oauth/callback#error=access_denied&error_description=User+cancelled'
+      )
+    ).toMatchObject({
+      error: 'access_denied',
+      errorDescription: 'User cancelled',
+    });
+  });
+
+  it('ignores other URLs', () => {
+    expect(
+      DeepLinkingService.parseOAuthCallback(
+        'https://checkright.app/oauth/callbacks?code=1'
+      )
+    ).toBeNull();
+  });
+
+  it('hands incoming redirects to the sign-in in progress', () => {
+    const handler = jest.fn();
+    DeepLinkingService.setOAuthCallbackHandler(handler);
+
+    expect(
+      DeepLinkingService.handleIncomingUrl(
+        'checkright://oauth/callback?code=abc&state=xyz'
+      )
+    ).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'abc', state: 'xyz' })
+    );
+  });
+});
+
+describe('DeepLinkingService password reset links', () => {
+  const token = 'ab'.repeat(32);
+
+  beforeEach(() => useAuthStore.setState({ isHydrated: true }));
+
+  it('reads the token and email from the reset link', () => {
+    expect(
+      DeepLinkingService.parsePasswordResetLink(
+        `https://acme.checkright.app/password/reset/${token}?email=jane%2Bops%40example.com`
+      )
+    ).toEqual({ token, email: 'jane+ops@example.com' });
+  });
+
+  it('ignores other URLs', () => {
+    expect(
+      DeepLinkingService.parsePasswordResetLink(
+        'https://checkright.app/password/reset/abc123'
+      )
+    ).toBeNull();
+    expect(
+      DeepLinkingService.parsePasswordResetLink(
+        `https://checkright.app/invitations/${token}/accept`
+      )
+    ).toBeNull();
+  });
+
+  it('opens the reset screen for incoming reset links', () => {
+    expect(
+      DeepLinkingService.handleIncomingUrl(
+        `checkright://password/reset/${token}?email=jane%40example.com`
+      )
+    ).toBe(true);
+    expect(router.push).toHaveBeenCalledWith({
+      pathname: '/(auth)/reset-password',
+      params: { token, email: 'jane@example.com' },
+    });
+  });
+});
+
+describe('DeepLinkingService routing', () => {
+  const token = 'cd'.repeat(32);
+  const invitationUrl = `https://checkright.app/invitations/${token}/accept`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAuthStore.setState({ isHydrated: true, isAuthenticated: false });
+  });
+
+  it.each([
+    ['universal links', invitationUrl],
+    [
+      'invitation emails',
+      `https://acme.checkright.app/accept-invitation/${token}`,
+    ],
+  ])('opens invitations from %s', (_source, url) => {
+    expect(DeepLinkingService.handleIncomingUrl(url)).toBe(true);
+    expect(router.push).toHaveBeenCalledWith(
+      `/(auth)/accept-invitation?token=${token}`
+    );
+  });
+
+  it('asks to sign out before opening an invitation over a session', () => {
+    useAuthStore.setState({ isAuthenticated: true });
+
+    expect(DeepLinkingService.handleIncomingUrl(invitationUrl)).toBe(true);
+    expect(router.push).not.toHaveBeenCalled();
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Already signed in',
+      expect.stringContaining('Sign out')
+    );
+  });
+
+  it('holds links until the stored session is restored', () => {
+    useAuthStore.setState({ isHydrated: false });
+    const cleanup = DeepLinkingService.setupDeepLinkListeners();
+
+    expect(DeepLinkingService.handleIncomingUrl(invitationUrl)).toBe(true);
+    expect(router.push).not.toHaveBeenCalled();
+
+    useAuthStore.setState({ isHydrated: true });
+    cleanup();
+
+    expect(router.push).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves OAuth callbacks and unknown links to expo-router', () => {
+    expect(DeepLinkingService.opensScreenFor(invitationUrl)).toBe(true);
+    expect(
+      DeepLinkingService.opensScreenFor('checkright://oauth/callback?code=1')
+    ).toBe(false);
+    expect(
+      DeepLinkingService.opensScreenFor('https://checkright.app/pricing')
+    ).toBe(false);
+  });
+});
+
+describe('DeepLinkingService registered links', () => {
+  let unregister: () => void;
+
+  beforeAll(() => {
+    unregister = DeepLinkingService.register(...inspectionDeepLinks);
+  });
+  afterAll(() => unregister());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAuthStore.setState({ isHydrated: true, isAuthenticated: false });
+  });
+
+  it.each([
+    'https://acme.checkright.app/inspections/asset-42',
+    'checkrightApp://assets/asset-42/inspect',
+  ])('starts inspections from %s for signed-in users', (url) => {
+    useAuthStore.setState({ isAuthenticated: true });
+
+    DeepLinkingService.handleIncomingUrl(url);
+
+    expect(router.push).toHaveBeenCalledWith({
+      pathname: '/inspections/[assetId]',
+      params: { assetId: 'asset-42' },
+    });
+  });
+
+  it('opens links registered by features, with validated params', () => {
+    const remove = DeepLinkingService.register(
+      defineDeepLink({
+        path: '/team/:id',
+        params: z.object({ id: z.coerce.number().int() }),
+        route: ({ id }) => `/team/${id}`,
+      })
+    );
+
+    expect(
+      DeepLinkingService.handleIncomingUrl('https://checkright.app/team/x')
+    ).toBe(false);
+    expect(
+      DeepLinkingService.handleIncomingUrl('https://checkright.app/team/7')
+    ).toBe(true);
+    expect(router.push).toHaveBeenCalledWith('/team/7');
+
+    remove();
+    expect(
+      DeepLinkingService.handleIncomingUrl('https://checkright.app/team/7')
+    ).toBe(false);
+  });
+
+  it('holds signed-in links until the user signs in', () => {
+    const cleanup = DeepLinkingService.setupDeepLinkListeners();
+
+    DeepLinkingService.handleIncomingUrl('checkright://inspections/asset-42');
+    useAuthStore.setState({ isLoading: true });
+    expect(router.push).not.toHaveBeenCalled();
+
+    useAuthStore.setState({ isAuthenticated: true });
+    cleanup();
+
+    expect(router.push).toHaveBeenCalledTimes(1);
+  });
+});
@@ -9,7 +9,6 @@ import { secureTokenStorage } from '@/lib/secure-storage';
 
 import { useAuth } from '../hooks/useAuth';
 import { AuthApi } from '../services/api';
-import { useAuthStore } from '../stores/authStore';
 import { PasswordValidator } from '../utils/passwordValidation';
 
 // Mock dependencies
@@ -29,9 +28,6 @@ jest.mock('react-native', () => ({
 }));
 
 const mockAuthApi = AuthApi as jest.Mocked<typeof AuthApi>;
-const mockUseAuthStore = useAuthStore as jest.MockedFunction<
-  typeof useAuthStore
->;
 const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
 const mockPasswordValidator = PasswordValidator as jest.Mocked<
   typeof PasswordValidator
@@ -77,34 +73,32 @@ describe('Invitation Token Login Flow', () => {
     password_confirmation: 'SecurePassword123!',
   };
 
-  const mockAuthStore = {
+  const mockUseAuthHook = {
     acceptInvitation: jest.fn(),
     login: jest.fn(),
+    loginWithBiometrics: jest.fn(),
+    loginWithOAuth: jest.fn(),
     logout: jest.fn(),
     clearError: jest.fn(),
-    refreshToken: jest.fn(),
-    hydrate: jest.fn(),
+    refreshSession: jest.fn(),
+    changePassword: jest.fn(),
+    enableBiometricLogin: jest.fn(),
+    disableBiometricLogin: jest.fn(),
     user: null,
     token: null,
     isAuthenticated: false,
     isLoading: false,
     rememberMe: false,
     tokenExpiresAt: null,
+    biometricEnabled: false,
     error: null,
-    checkTokenExpiration: jest.fn().mockReturnValue(false),
-  };
-
-  const mockUseAuthHook = {
-    ...mockAuthStore,
-    acceptInvitation: jest.fn(),
     isTokenExpiring: false,
   };
 
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Setup auth store mock
-    mockUseAuthStore.mockReturnValue(mockAuthStore);
+    // Setup auth hook mock
     mockUseAuth.mockReturnValue(mockUseAuthHook);
 
     // Setup password validator mocks
@@ -112,6 +106,9 @@ describe('Invitation Token Login Flow', () => {
       progress: 0.8,
       label: 'Strong',
       color: 'rgb(34, 197, 94)',
+      crackTime: 'centuries',
+      warning: null,
+      suggestions: [],
     });
     mockPasswordValidator.getRequirements.mockReturnValue([
       'At least 8 characters',
@@ -374,7 +371,7 @@ describe('Invitation Token Login Flow', () => {
     });
   });
 
-  describe('Auth Store Integration', () => {
+  describe('Session Integration', () => {
     it('should call AuthApi.acceptInvitation with correct parameters', async () => {
       const mockStore = {
         setLoading: jest.fn(),
@@ -385,9 +382,9 @@ describe('Invitation Token Login Flow', () => {
         clearError: jest.fn(),
       };
 
-      // Mock the auth store state
-      mockUseAuthStore.mockReturnValue({
-        ...mockAuthStore,
+      // Mock the session actions
+      mockUseAuth.mockReturnValue({
+        ...mockUseAuthHook,
         acceptInvitation: async (token: string, data: any) => {
           mockStore.setLoading(true);
           mockStore.clearError();
@@ -406,7 +403,7 @@ describe('Invitation Token Login Flow', () => {
         },
       });
 
-      const store = mockUseAuthStore();
+      const store = mockUseAuth();
       await store.acceptInvitation(mockInvitationToken, mockFormData);
 
       expect(mockAuthApi.acceptInvitation).toHaveBeenCalledWith(
@@ -435,8 +432,8 @@ describe('Invitation Token Login Flow', () => {
         clearError: jest.fn(),
       };
 
-      mockUseAuthStore.mockReturnValue({
-        ...mockAuthStore,
+      mockUseAuth.mockReturnValue({
+        ...mockUseAuthHook,
         acceptInvitation: async (token: string, data: any) => {
           mockStore.setLoading(true);
           mockStore.clearError();
@@ -456,7 +453,7 @@ describe('Invitation Token Login Flow', () => {
         },
       });
 
-      const store = mockUseAuthStore();
+      const store = mockUseAuth();
 
       await expect(
         store.acceptInvitation(mockInvitationToken, mockFormData)
@@ -471,8 +468,8 @@ describe('Invitation Token Login Flow', () => {
         setItem: jest.fn(),
       };
 
-      mockUseAuthStore.mockReturnValue({
-        ...mockAuthStore,
+      mockUseAuth.mockReturnValue({
+        ...mockUseAuthHook,
         acceptInvitation: async (token: string, data: any) => {
           const response = await mockAuthApi.acceptInvitation(token, data);
 
@@ -486,7 +483,7 @@ describe('Invitation Token Login Flow', () => {
         },
       });
 
-      const store = mockUseAuthStore();
+      const store = mockUseAuth();
       await store.acceptInvitation(mockInvitationToken, mockFormData);
 
       expect(mockSecureStorage.setItem).toHaveBeenCalledWith(
@@ -0,0 +1,131 @@
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+
+import { AuthApi } from '../services/api';
+import { OAuthCancelledError, oauthService } from '../services/oauth';
+import { sessionService } from '../services/session';
+import { DeepLinkingService } from '../utils/deepLinking';
+
+jest.mock('expo-web-browser', () => ({
+  openAuthSessionAsync: jest.fn(),
+}));
+
+jest.mock('@/lib/secure-storage', () => ({
+  secureStorage: { generateDeviceId: jest.fn(async () => 'device_abc') },
+}));
+
+jest.mock('../utils/pkce', () => ({
+  createPkcePair: jest.fn(async () => ({
+    codeVerifier: 'verifier',
+    codeChallenge: 'challenge',
+  })),
+}));
+
+jest.mock('../services/api', () => ({
+  AuthApi: { initializeOAuth: jest.fn() },
+}));
+
+jest.mock('../services/session', () => ({
+  sessionService: { loginWithOAuth: jest.fn() },
+}));
+
+const REDIRECT_URI = 'checkright://oauth/callback';
+
+const mockOpenAuthSession = WebBrowser.openAuthSessionAsync as jest.Mock;
+const mockInitializeOAuth = AuthApi.initializeOAuth as jest.Mock;
+const mockLoginWithOAuth = sessionService.loginWithOAuth as jest.Mock;
+
+const redirectTo = (query: string) =>
+  mockOpenAuthSession.mockResolvedValue({
+    type: 'success',
+    url: `${REDIRECT_URI}?${query}`,
+  });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (Linking.createURL as jest.Mock).mockReturnValue(REDIRECT_URI);
+  mockInitializeOAuth.mockResolvedValue({
+    success: true,
+    data: {
+      authorization_url: 'https://accounts.google.com/o/oauth2/v2/auth',
+      state: 'state-1',
+      provider: 'google',
+    },
+  });
+});
+
+describe('oauthService.signIn', () => {
+  it('starts the flow with the device ID, redirect URI and PKCE challenge', async () => {
+    redirectTo('code=auth-code&state=state-1');
+
+    await oauthService.signIn('google', 'tenant-1');
+
+    expect(mockInitializeOAuth).toHaveBeenCalledWith(
+      'google',
+      expect.objectContaining({
+        tenantId: 'tenant-1',
+        deviceId: 'device_abc',
+        redirectUri: REDIRECT_URI,
+        codeChallenge: 'challenge',
+      })
+    );
+    expect(mockOpenAuthSession).toHaveBeenCalledWith(
+      'https://accounts.google.com/o/oauth2/v2/auth',
+      REDIRECT_URI
+    );
+  });
+
+  it('exchanges the code with the PKCE verifier', async () => {
+    redirectTo('code=auth-code&state=state-1');
+
+    await oauthService.signIn('google');
+
+    expect(mockLoginWithOAuth).toHaveBeenCalledWith('google', {
+      code: 'auth-code',
+      state: 'state-1',
+      code_verifier: 'verifier',
+      redirect_uri: REDIRECT_URI,
+    });
+  });
+
+  it('rejects a redirect carrying another state', async () => {
+    redirectTo('code=auth-code&state=forged');
+
+    await expect(oauthService.signIn('google')).rejects.toThrow(
+      'could not be verified'
+    );
+    expect(mockLoginWithOAuth).not.toHaveBeenCalled();
+  });
+
+  it('surfaces provider errors', async () => {
+    redirectTo('error=server_error&error_description=Try+later');
+
+    await expect(oauthService.signIn('google')).rejects.toThrow('Try later');
+  });
+});
+
+describe('oauthService redirects', () => {
+  it('treats a closed browser as a cancelled sign-in', async () => {
+    mockOpenAuthSession.mockResolvedValue({ type: 'cancel' });
+
+    await expect(oauthService.signIn('google')).rejects.toBeInstanceOf(
+      OAuthCancelledError
+    );
+  });
+
+  it('accepts a redirect that arrives as a deep link', async () => {
+    mockOpenAuthSession.mockImplementation(async () => {
+      DeepLinkingService.handleIncomingUrl(
+        `${REDIRECT_URI}?code=linked-code&state=state-1`
+      );
+      return { type: 'dismiss' };
+    });
+
+    await oauthService.signIn('google');
+
+    expect(mockLoginWithOAuth).toHaveBeenCalledWith(
+      'google',
+      expect.objectContaining({ code: 'linked-code' })
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  estimatePasswordStrength,
+  formatCrackTime,
+  toUserInputWords,
+} from '../utils/password-strength';
+
+describe('estimatePasswordStrength', () => {
+  it('sees through common passwords with the usual decorations', () => {
+    const estimate = estimatePasswordStrength('Password1!');
+
+    expect(estimate.score).toBeLessThanOrEqual(1);
+    expect(estimate.warning).toBe(
+      'Common words and passwords are easy to guess'
+    );
+  });
+
+  it('undoes l33t substitutions', () => {
+    expect(estimatePasswordStrength('p@55w0rd').score).toBe(0);
+  });
+
+  it.each([
+    ['keyboard walks', 'qwertyuiop', 'Rows of keys like "qwerty"'],
+    ['sequences', 'abcdefgh', 'Sequences like "abc"'],
+    ['repeats', 'xkxkxkxkxk', 'Repeats like "aaa"'],
+    ['dates', '19052001', 'Dates and years'],
+  ])('penalizes %s', (_pattern, password, warning) => {
+    const estimate = estimatePasswordStrength(password);
+
+    expect(estimate.score).toBeLessThanOrEqual(1);
+    expect(estimate.warning).toContain(warning);
+  });
+
+  it("penalizes the user's own name, email and company", () => {
+    const password = 'JaneAcme2024';
+
+    expect(
+      estimatePasswordStrength(password, ['Jane Doe', 'jane@acme.com']).score
+    ).toBeLessThan(estimatePasswordStrength(password).score);
+    expect(
+      estimatePasswordStrength(password, ['jane@acme.com']).suggestions
+    ).toContain('Avoid your name, email and company name');
+  });
+
+  it('rates long unpredictable passwords highly, without feedback', () => {
+    const estimate = estimatePasswordStrength('vT9#qLz!m2Rw');
+
+    expect(estimate.score).toBe(4);
+    expect(estimate.warning).toBeNull();
+    expect(estimate.suggestions).toEqual([]);
+    expect(estimate.crackTimes.offlineSlowHash).toBe('centuries');
+  });
+
+  it('suggests how to improve weak passwords', () => {
+    expect(estimatePasswordStrength('sunshine').suggestions[0]).toBe(
+      'Add another word or two. Uncommon words are better.'
+    );
+  });
+});
+
+describe('formatCrackTime', () => {
+  it.each([
+    [0.5, 'less than a second'],
+    [1, '1 second'],
+    [90, '2 minutes'],
+    [3 * 24 * 3600, '3 days'],
+    [2 * 365 * 24 * 3600, '2 years'],
+    [1e12, 'centuries'],
+  ])('formats %d seconds as %s', (seconds, text) => {
+    expect(formatCrackTime(seconds)).toBe(text);
+  });
+});
+
+describe('toUserInputWords', () => {
+  it('splits names and emails into guessable words', () => {
+    expect(toUserInputWords(['Jane Doe', 'jane.doe@acme.com', null])).toEqual([
+      'jane',
+      'doe',
+      'jane',
+      'doe',
+      'acme',
+    ]);
+  });
+});
@@ -1,4 +1,8 @@
-import { PasswordValidator } from '../utils/passwordValidation';
+import {
+  createPasswordSchema,
+  DEFAULT_PASSWORD_POLICY,
+  PasswordValidator,
+} from '../utils/passwordValidation';
 
 describe('PasswordValidator', () => {
   describe('validate', () => {
@@ -54,6 +58,13 @@ describe('PasswordValidator', () => {
       expect(result.label).toBe('Strong');
       expect(result.progress).toBe(1);
     });
+
+    it('does not rate a decorated common password as strong', () => {
+      const result = PasswordValidator.getStrengthIndicator('Password1!');
+
+      expect(result.label).toBe('Weak');
+      expect(result.warning).not.toBeNull();
+    });
   });
 
   describe('validateConfirmation', () => {
@@ -86,3 +97,52 @@ describe('PasswordValidator', () => {
     });
   });
 });
+
+describe('PasswordValidator with a tenant policy', () => {
+  const policy = {
+    ...DEFAULT_PASSWORD_POLICY,
+    min_length: 12,
+    require_symbols: false,
+    uncompromised: true,
+    history: 5,
+  };
+
+  it('only enforces the checks the policy asks for', () => {
+    expect(PasswordValidator.validate('StrongPass1', policy).isValid).toBe(
+      false
+    );
+    expect(PasswordValidator.validate('StrongPass1234', policy)).toMatchObject({
+      isValid: true,
+      errors: [],
+    });
+  });
+
+  it('rates passwords the policy rejects no higher than Weak', () => {
+    expect(
+      PasswordValidator.getStrengthIndicator('StrongPass1234', policy)
+    ).toMatchObject({ label: 'Strong', progress: 1 });
+    expect(
+      PasswordValidator.getStrengthIndicator('strongpass', policy)
+    ).toMatchObject({ label: 'Weak', progress: 0.4 });
+  });
+
+  it('lists the server-side checks alongside the rest', () => {
+    expect(PasswordValidator.getRequirements(policy)).toEqual([
+      'At least 12 characters long',
+      'One uppercase letter (A-Z)',
+      'One lowercase letter (a-z)',
+      'One number (0-9)',
+      'Not found in a known data breach',
+      'Different from your last 5 passwords',
+    ]);
+  });
+
+  it('builds a schema reporting the first rule broken', () => {
+    const result = createPasswordSchema(policy).safeParse('Short1');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      'Password must be at least 12 characters long'
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { createPkcePair } from '../utils/pkce';
+
+// RFC 7636, appendix B
+const VERIFIER_BYTES = [
+  116, 24, 223, 180, 151, 153, 224, 37, 79, 250, 96, 125, 216, 173, 187, 186,
+  22, 212, 37, 77, 105, 214, 191, 240, 91, 88, 5, 88, 83, 132, 141, 121,
+];
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  getRandomBytesAsync: jest.fn(),
+  digest: jest.fn(async (_algorithm: string, data: Uint8Array) => {
+    const hash = jest
+      .requireActual('crypto')
+      .createHash('sha256')
+      .update(data)
+      .digest();
+    return hash.buffer.slice(
+      hash.byteOffset,
+      hash.byteOffset + hash.byteLength
+    );
+  }),
+}));
+
+describe('createPkcePair', () => {
+  it('derives the S256 challenge from a base64url verifier', async () => {
+    const { getRandomBytesAsync } = jest.requireMock('expo-crypto');
+    getRandomBytesAsync.mockResolvedValue(new Uint8Array(VERIFIER_BYTES));
+
+    await expect(createPkcePair()).resolves.toEqual({
+      codeVerifier: 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+      codeChallenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+    });
+  });
+});
@@ -0,0 +1,629 @@
+import { mobileSecurityAPI, TokenRefreshError } from '@/api/mobile-security';
+import {
+  biometricAuth,
+  BiometricEnrollmentChangedError,
+} from '@/lib/biometric-auth';
+
+import { AuthApi, TenantSelectionRequiredError } from '../services/api';
+import {
+  clearBiometricCredentials,
+  getBiometricAccount,
+  loadBiometricCredentials,
+  saveBiometricCredentials,
+} from '../services/biometric-credentials';
+import { sessionService } from '../services/session';
+import {
+  clearSession,
+  loadSession,
+  saveSession,
+} from '../services/session-storage';
+import { useAuthStore } from '../stores/authStore';
+
+jest.mock('@/api/mobile-security', () => ({
+  TokenRefreshError: jest.requireActual('@/api/mobile-security')
+    .TokenRefreshError,
+  mobileSecurityAPI: {
+    registerDevice: jest.fn(),
+    generateTokens: jest.fn(),
+    refreshTokens: jest.fn(),
+    revokeDeviceTokens: jest.fn(),
+    revokeAllTokens: jest.fn(),
+    issueBiometricToken: jest.fn(),
+    revokeBiometricToken: jest.fn(),
+    loginWithBiometricToken: jest.fn(),
+    setupRequestSigning: jest.fn(),
+    syncDeviceRegistration: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/biometric-auth', () => ({
+  BiometricEnrollmentChangedError: jest.requireActual('@/lib/biometric-auth')
+    .BiometricEnrollmentChangedError,
+  biometricAuth: { setupBiometricAuth: jest.fn() },
+}));
+
+jest.mock('../services/api', () => ({
+  TenantSelectionRequiredError:
+    jest.requireActual('../services/api').TenantSelectionRequiredError,
+  AuthApi: {
+    login: jest.fn(),
+    acceptInvitation: jest.fn(),
+    completeOAuth: jest.fn(),
+    logout: jest.fn(),
+    getCurrentUser: jest.fn(),
+    setupAuthInterceptor: jest.fn(),
+    verifyPassword: jest.fn(),
+    changePassword: jest.fn(),
+  },
+}));
+
+jest.mock('../services/biometric-credentials', () => ({
+  saveBiometricCredentials: jest.fn(),
+  getBiometricAccount: jest.fn(),
+  loadBiometricCredentials: jest.fn(),
+  clearBiometricCredentials: jest.fn(),
+}));
+
+jest.mock('../services/session-storage', () => ({
+  saveSession: jest.fn(),
+  loadSession: jest.fn(),
+  clearSession: jest.fn(),
+}));
+
+const mockAuthApi = AuthApi as jest.Mocked<typeof AuthApi>;
+const mockMobileSecurityAPI = mobileSecurityAPI as jest.Mocked<
+  typeof mobileSecurityAPI
+>;
+const mockLoadSession = loadSession as jest.MockedFunction<typeof loadSession>;
+
+const user = {
+  id: '1',
+  name: 'Test User',
+  email: 'test@example.com',
+  role: 'operator' as const,
+  tenant_id: 'tenant1',
+};
+
+const deviceTokens = {
+  accessToken: 'device-access',
+  refreshToken: 'device-refresh',
+  expiresAt: '2099-01-01T00:00:00Z',
+  refreshExpiresAt: '2099-02-01T00:00:00Z',
+  deviceId: 'device_abc',
+  tokenType: 'Bearer',
+};
+
+const storedSession = {
+  accessToken: 'device-access',
+  expiresAt: '2099-01-01T00:00:00Z',
+  deviceBound: true,
+  rememberMe: false,
+  userId: '1',
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  useAuthStore.getState().clearAuth();
+  useAuthStore.setState({ isLoading: false, isHydrated: false });
+
+  mockAuthApi.login.mockResolvedValue({
+    user,
+    token: 'login-token',
+    expires_at: '2099-01-01T00:00:00Z',
+    remember_me: true,
+  });
+  mockAuthApi.getCurrentUser.mockResolvedValue(user);
+  mockMobileSecurityAPI.registerDevice.mockResolvedValue({} as any);
+  mockMobileSecurityAPI.generateTokens.mockResolvedValue(deviceTokens);
+  mockAuthApi.logout.mockResolvedValue();
+  mockMobileSecurityAPI.syncDeviceRegistration.mockResolvedValue(false);
+  mockMobileSecurityAPI.revokeBiometricToken.mockResolvedValue();
+  jest.mocked(getBiometricAccount).mockResolvedValue(null);
+});
+
+describe('sessionService.login', () => {
+  it('exchanges the login token for device-bound tokens', async () => {
+    await sessionService.login('test@example.com', 'secret', true);
+
+    expect(mockAuthApi.login).toHaveBeenCalledWith({
+      email: 'test@example.com',
+      password: 'secret',
+      remember_me: true,
+    });
+    expect(saveSession).toHaveBeenCalledWith({
+      accessToken: 'device-access',
+      expiresAt: deviceTokens.expiresAt,
+      deviceBound: true,
+      rememberMe: true,
+      userId: '1',
+    });
+
+    const state = useAuthStore.getState();
+    expect(state.isAuthenticated).toBe(true);
+    expect(state.user).toEqual(user);
+    expect(state.token).toBe('device-access');
+    expect(state.deviceBound).toBe(true);
+    expect(state.isLoading).toBe(false);
+  });
+
+  it('surfaces the API error message', async () => {
+    mockAuthApi.login.mockRejectedValue({
+      response: { status: 422, data: { message: 'Invalid credentials' } },
+    });
+
+    await expect(
+      sessionService.login('test@example.com', 'wrong')
+    ).rejects.toThrow('Invalid credentials');
+
+    const state = useAuthStore.getState();
+    expect(state.error).toBe('Invalid credentials');
+    expect(state.isAuthenticated).toBe(false);
+    expect(saveSession).not.toHaveBeenCalled();
+  });
+
+  it('lets social logins ask which company to sign in to', async () => {
+    const tenants = [
+      { id: 't1', name: 'Acme' },
+      { id: 't2', name: 'Globex' },
+    ];
+    mockAuthApi.completeOAuth.mockRejectedValue(
+      new TenantSelectionRequiredError(tenants)
+    );
+
+    await expect(
+      sessionService.loginWithOAuth('google', { code: 'c', state: 's' })
+    ).rejects.toMatchObject({ tenants });
+    expect(useAuthStore.getState().error).toBeNull();
+  });
+});
+
+describe('sessionService signed-in user', () => {
+  it('starts the session with the full user, not the login payload', async () => {
+    mockAuthApi.getCurrentUser.mockImplementation(async () => {
+      // Loaded with the device-bound token, the login token is revoked
+      expect(useAuthStore.getState().token).toBe('device-access');
+      return { ...user, must_change_password: true };
+    });
+
+    await sessionService.login('test@example.com', 'temporary');
+
+    expect(useAuthStore.getState().user?.must_change_password).toBe(true);
+  });
+
+  it('keeps the company from the login response', async () => {
+    mockAuthApi.login.mockResolvedValue({
+      user,
+      token: 'login-token',
+      expires_at: null,
+      company: 'Acme',
+    });
+
+    await sessionService.login('test@example.com', 'secret');
+    expect(useAuthStore.getState().company).toBe('Acme');
+
+    await sessionService.logout();
+    expect(useAuthStore.getState().company).toBeNull();
+  });
+
+  it('keeps the login payload if the user cannot be loaded', async () => {
+    mockAuthApi.getCurrentUser.mockRejectedValue(new Error('offline'));
+
+    await sessionService.login('test@example.com', 'secret');
+
+    expect(useAuthStore.getState().user).toEqual(user);
+  });
+});
+
+describe('sessionService device-bound tokens', () => {
+  it('revokes the login token once device-bound tokens are issued', async () => {
+    mockAuthApi.logout.mockRejectedValue(new Error('offline'));
+
+    await sessionService.login('test@example.com', 'secret');
+
+    expect(mockAuthApi.logout).toHaveBeenCalledWith('login-token');
+    expect(useAuthStore.getState().deviceBound).toBe(true);
+  });
+
+  it('keeps the login token when device issuance fails', async () => {
+    mockMobileSecurityAPI.registerDevice.mockRejectedValue(
+      new Error('Device registration failed')
+    );
+
+    await sessionService.login('test@example.com', 'secret');
+
+    const state = useAuthStore.getState();
+    expect(state.isAuthenticated).toBe(true);
+    expect(state.token).toBe('login-token');
+    expect(state.deviceBound).toBe(false);
+  });
+});
+
+describe('sessionService.hydrate', () => {
+  it('restores a stored session and reloads the user', async () => {
+    mockLoadSession.mockResolvedValue(storedSession);
+
+    await sessionService.hydrate();
+
+    const state = useAuthStore.getState();
+    expect(state.isAuthenticated).toBe(true);
+    expect(state.token).toBe('device-access');
+    expect(state.isLoading).toBe(false);
+    expect(mockAuthApi.getCurrentUser).toHaveBeenCalled();
+    expect(mockMobileSecurityAPI.syncDeviceRegistration).toHaveBeenCalled();
+  });
+
+  it('stays signed out without a stored session', async () => {
+    mockLoadSession.mockResolvedValue(null);
+
+    await sessionService.hydrate();
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(useAuthStore.getState().isLoading).toBe(false);
+    expect(useAuthStore.getState().isHydrated).toBe(true);
+    expect(mockAuthApi.getCurrentUser).not.toHaveBeenCalled();
+  });
+
+  it('refreshes an expired access token first', async () => {
+    mockLoadSession.mockResolvedValue({
+      ...storedSession,
+      expiresAt: '2000-01-01T00:00:00Z',
+    });
+    mockMobileSecurityAPI.refreshTokens.mockResolvedValue({
+      ...deviceTokens,
+      accessToken: 'refreshed-access',
+    });
+
+    await sessionService.hydrate();
+
+    expect(mockMobileSecurityAPI.refreshTokens).toHaveBeenCalledTimes(1);
+    expect(useAuthStore.getState().token).toBe('refreshed-access');
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+  });
+
+  it('carries on as the last known user when offline', async () => {
+    useAuthStore.getState().setUser(user);
+    mockLoadSession.mockResolvedValue(storedSession);
+    mockAuthApi.getCurrentUser.mockRejectedValue(new Error('Network Error'));
+
+    await sessionService.hydrate();
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    expect(clearSession).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when the token is rejected', async () => {
+    useAuthStore.getState().setUser(user);
+    mockLoadSession.mockResolvedValue(storedSession);
+    mockAuthApi.getCurrentUser.mockRejectedValue({
+      response: { status: 401 },
+    });
+
+    await sessionService.hydrate();
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(clearSession).toHaveBeenCalled();
+  });
+});
+
+describe('sessionService.refresh', () => {
+  beforeEach(async () => {
+    await sessionService.login('test@example.com', 'secret');
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    mockMobileSecurityAPI.refreshTokens.mockResolvedValue({
+      ...deviceTokens,
+      accessToken: 'refreshed-access',
+    });
+
+    const results = await Promise.all([
+      sessionService.refresh(),
+      sessionService.refresh(),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(mockMobileSecurityAPI.refreshTokens).toHaveBeenCalledTimes(1);
+    expect(useAuthStore.getState().token).toBe('refreshed-access');
+  });
+
+  it('ends the session when the refresh token is rejected', async () => {
+    mockMobileSecurityAPI.refreshTokens.mockRejectedValue(
+      new TokenRefreshError('Invalid refresh token', 400)
+    );
+
+    await expect(sessionService.refresh()).resolves.toBe(false);
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(clearSession).toHaveBeenCalled();
+  });
+
+  it('keeps the session when the refresh cannot get through', async () => {
+    mockMobileSecurityAPI.refreshTokens.mockRejectedValue(
+      new TokenRefreshError('Network Error')
+    );
+
+    await expect(sessionService.refresh()).resolves.toBe(false);
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    expect(clearSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('sessionService.logout', () => {
+  it('revokes device-bound tokens', async () => {
+    await sessionService.login('test@example.com', 'secret');
+    mockAuthApi.logout.mockClear();
+    await sessionService.logout();
+
+    expect(mockMobileSecurityAPI.revokeDeviceTokens).toHaveBeenCalled();
+    expect(mockAuthApi.logout).not.toHaveBeenCalled();
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(clearSession).toHaveBeenCalled();
+  });
+
+  it('revokes the login token when not device-bound', async () => {
+    mockMobileSecurityAPI.generateTokens.mockRejectedValue(new Error('nope'));
+    await sessionService.login('test@example.com', 'secret');
+    await sessionService.logout();
+
+    expect(mockAuthApi.logout).toHaveBeenCalled();
+  });
+
+  it('clears the session even if the server call fails', async () => {
+    await sessionService.login('test@example.com', 'secret');
+    mockMobileSecurityAPI.revokeDeviceTokens.mockRejectedValue(
+      new Error('offline')
+    );
+
+    await sessionService.logout();
+
+    expect(useAuthStore.getState().token).toBeNull();
+    expect(clearSession).toHaveBeenCalled();
+  });
+});
+
+describe('sessionService.logoutEverywhere', () => {
+  it('revokes every device and ends the session', async () => {
+    await sessionService.login('test@example.com', 'secret');
+    mockMobileSecurityAPI.revokeAllTokens.mockResolvedValue(3);
+
+    await sessionService.logoutEverywhere();
+
+    expect(mockMobileSecurityAPI.revokeAllTokens).toHaveBeenCalled();
+    expect(mockMobileSecurityAPI.revokeDeviceTokens).not.toHaveBeenCalled();
+    expect(clearBiometricCredentials).toHaveBeenCalled();
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(clearSession).toHaveBeenCalled();
+  });
+
+  it('leaves the login token to the server when not device-bound', async () => {
+    mockMobileSecurityAPI.generateTokens.mockRejectedValue(new Error('nope'));
+    await sessionService.login('test@example.com', 'secret');
+    mockMobileSecurityAPI.revokeAllTokens.mockResolvedValue(0);
+
+    await sessionService.logoutEverywhere();
+
+    expect(mockMobileSecurityAPI.revokeAllTokens).toHaveBeenCalled();
+    expect(mockAuthApi.logout).not.toHaveBeenCalled();
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+  });
+
+  it('keeps the session if the other devices could not be signed out', async () => {
+    await sessionService.login('test@example.com', 'secret');
+    mockMobileSecurityAPI.revokeAllTokens.mockRejectedValue(
+      new Error('offline')
+    );
+
+    await expect(sessionService.logoutEverywhere()).rejects.toThrow('offline');
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    expect(clearSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('sessionService.confirmPassword', () => {
+  it("checks the signed-in user's password", async () => {
+    await sessionService.login('test@example.com', 'secret');
+    mockAuthApi.verifyPassword.mockResolvedValue(true);
+
+    await expect(sessionService.confirmPassword('secret')).resolves.toBe(true);
+    expect(mockAuthApi.verifyPassword).toHaveBeenCalledWith('secret');
+  });
+
+  it('fails without a signed-in user', async () => {
+    await expect(sessionService.confirmPassword('secret')).resolves.toBe(false);
+    expect(mockAuthApi.verifyPassword).not.toHaveBeenCalled();
+  });
+});
+
+describe('sessionService.changePassword', () => {
+  const change = {
+    current_password: 'temporary',
+    password: 'N3w-password!',
+    password_confirmation: 'N3w-password!',
+  };
+
+  beforeEach(async () => {
+    mockAuthApi.changePassword.mockResolvedValue();
+    mockAuthApi.getCurrentUser.mockResolvedValueOnce({
+      ...user,
+      must_change_password: true,
+    });
+    await sessionService.login('test@example.com', 'temporary');
+  });
+
+  it('reloads the user so a forced change is cleared', async () => {
+    await sessionService.changePassword(change);
+
+    expect(mockAuthApi.changePassword).toHaveBeenCalledWith(change);
+    expect(useAuthStore.getState().user?.must_change_password).toBeFalsy();
+  });
+
+  it('clears the flag locally if the user cannot be reloaded', async () => {
+    mockAuthApi.getCurrentUser.mockRejectedValue(new Error('offline'));
+
+    await sessionService.changePassword(change);
+
+    expect(useAuthStore.getState().user?.must_change_password).toBe(false);
+  });
+
+  it('keeps the flag when the change is rejected', async () => {
+    mockAuthApi.changePassword.mockRejectedValue({
+      response: { data: { message: 'The password is incorrect.' } },
+    });
+
+    await expect(sessionService.changePassword(change)).rejects.toThrow(
+      'The password is incorrect.'
+    );
+    expect(useAuthStore.getState().user?.must_change_password).toBe(true);
+  });
+});
+
+describe('sessionService biometric setup', () => {
+  beforeEach(async () => {
+    await sessionService.login('test@example.com', 'secret');
+    jest
+      .mocked(biometricAuth.setupBiometricAuth)
+      .mockResolvedValue({ success: true, message: '' });
+  });
+
+  it('stores a device-bound token behind biometrics when turned on', async () => {
+    mockMobileSecurityAPI.issueBiometricToken.mockResolvedValue('bio-token');
+
+    await sessionService.enableBiometricLogin();
+
+    expect(saveBiometricCredentials).toHaveBeenCalledWith({
+      email: 'test@example.com',
+      token: 'bio-token',
+    });
+    expect(useAuthStore.getState().biometricEnabled).toBe(true);
+  });
+
+  it('stays off if the token could not be issued', async () => {
+    mockMobileSecurityAPI.issueBiometricToken.mockRejectedValue(
+      new Error('offline')
+    );
+
+    await expect(sessionService.enableBiometricLogin()).rejects.toThrow(
+      'offline'
+    );
+    expect(saveBiometricCredentials).not.toHaveBeenCalled();
+    expect(useAuthStore.getState().biometricEnabled).toBe(false);
+  });
+
+  it('revokes the token when turned off', async () => {
+    useAuthStore.setState({ biometricEnabled: true });
+
+    await sessionService.disableBiometricLogin();
+
+    expect(mockMobileSecurityAPI.revokeBiometricToken).toHaveBeenCalled();
+    expect(clearBiometricCredentials).toHaveBeenCalled();
+    expect(useAuthStore.getState().biometricEnabled).toBe(false);
+  });
+
+  it('drops biometric sign-in when another account signs in', async () => {
+    jest.mocked(getBiometricAccount).mockResolvedValue('other@example.com');
+
+    await sessionService.login('test@example.com', 'secret');
+
+    expect(clearBiometricCredentials).toHaveBeenCalled();
+    expect(useAuthStore.getState().biometricEnabled).toBe(false);
+  });
+});
+
+describe('sessionService biometric sign-in', () => {
+  beforeEach(() => {
+    jest.mocked(loadBiometricCredentials).mockResolvedValue({
+      email: 'test@example.com',
+      token: 'bio-token',
+    });
+    mockMobileSecurityAPI.loginWithBiometricToken.mockResolvedValue({
+      tokens: deviceTokens,
+      company: 'Acme',
+    });
+  });
+
+  it('exchanges the stored token for a device-bound session', async () => {
+    jest.mocked(getBiometricAccount).mockResolvedValue('test@example.com');
+
+    await expect(sessionService.loginWithBiometrics()).resolves.toBe(true);
+
+    expect(mockMobileSecurityAPI.loginWithBiometricToken).toHaveBeenCalledWith(
+      'bio-token'
+    );
+    expect(mockAuthApi.login).not.toHaveBeenCalled();
+    expect(saveSession).toHaveBeenCalledWith({
+      accessToken: 'device-access',
+      expiresAt: '2099-01-01T00:00:00Z',
+      deviceBound: true,
+      rememberMe: false,
+      userId: '1',
+    });
+    expect(useAuthStore.getState()).toMatchObject({
+      isAuthenticated: true,
+      biometricEnabled: true,
+      user,
+      company: 'Acme',
+    });
+  });
+
+  it('does nothing when the biometric prompt is cancelled', async () => {
+    jest.mocked(loadBiometricCredentials).mockResolvedValue(null);
+
+    await expect(sessionService.loginWithBiometrics()).resolves.toBe(false);
+    expect(
+      mockMobileSecurityAPI.loginWithBiometricToken
+    ).not.toHaveBeenCalled();
+  });
+
+  it('forgets a token the server rejects', async () => {
+    mockMobileSecurityAPI.loginWithBiometricToken.mockRejectedValue(
+      new TokenRefreshError('Biometric token expired', 401)
+    );
+
+    await expect(sessionService.loginWithBiometrics()).rejects.toThrow(
+      'Biometric sign-in has expired'
+    );
+    expect(clearBiometricCredentials).toHaveBeenCalled();
+    expect(mockMobileSecurityAPI.revokeBiometricToken).not.toHaveBeenCalled();
+  });
+
+  it('keeps the token when the server could not be reached', async () => {
+    mockMobileSecurityAPI.loginWithBiometricToken.mockRejectedValue(
+      new TokenRefreshError('Network Error')
+    );
+
+    await expect(sessionService.loginWithBiometrics()).rejects.toThrow(
+      'Network Error'
+    );
+    expect(clearBiometricCredentials).not.toHaveBeenCalled();
+  });
+});
+
+describe('sessionService biometric enrollment changes', () => {
+  beforeEach(() => {
+    jest
+      .mocked(loadBiometricCredentials)
+      .mockRejectedValue(new BiometricEnrollmentChangedError());
+  });
+
+  it('turns biometric sign-in off and asks for the password', async () => {
+    useAuthStore.setState({ biometricEnabled: true });
+
+    await expect(sessionService.loginWithBiometrics()).rejects.toThrow(
+      'Use your password to continue'
+    );
+    expect(
+      mockMobileSecurityAPI.loginWithBiometricToken
+    ).not.toHaveBeenCalled();
+    expect(useAuthStore.getState().biometricEnabled).toBe(false);
+  });
+
+  it('fails biometric checks made since', async () => {
+    const check = sessionService.confirmBiometrics('Unlock CheckRight');
+
+    await expect(check).rejects.toThrow(
+      'biometric sign-in has been turned off'
+    );
+    await expect(check).rejects.toBeInstanceOf(BiometricEnrollmentChangedError);
+  });
+});
@@ -0,0 +1,24 @@
+import React from 'react';
+
+import { BiometricSetup } from '@/components/BiometricSetup';
+import { View } from '@/components/ui';
+
+import { useBiometricReenrollment } from '../hooks/use-biometric-reenrollment';
+
+/**
+ * Offers to turn biometric sign-in back on after an enrollment change.
+ * Mount once at the root, so it survives the move from login to the app.
+ */
+export function BiometricReenrollment() {
+  const { pending, finish } = useBiometricReenrollment();
+
+  if (!pending) {
+    return null;
+  }
+
+  return (
+    <View className="absolute inset-0 bg-white dark:bg-neutral-900">
+      <BiometricSetup reason="enrollment-changed" onComplete={finish} />
+    </View>
+  );
+}
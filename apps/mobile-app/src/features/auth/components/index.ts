@@ -1 +1,4 @@
+export * from './biometric-reenrollment';
 export * from './DeepLinkingProvider';
+export * from './password-confirmation-modal';
+export * from './password-strength';
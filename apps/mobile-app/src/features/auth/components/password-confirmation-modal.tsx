@@ -0,0 +1,75 @@
+import type { BottomSheetModal } from '@gorhom/bottom-sheet';
+import React, { useState } from 'react';
+
+import { Button, Input, Modal, Text, View } from '@/components/ui';
+
+type Props = {
+  operation: string;
+  // Resolves to whether the password was right
+  onSubmit: (password: string) => Promise<boolean>;
+  onDismiss: () => void;
+};
+
+/**
+ * Asks for the account password before a sensitive action, for devices
+ * without biometrics
+ */
+export const PasswordConfirmationModal = React.forwardRef<
+  BottomSheetModal,
+  Props
+>(({ operation, onSubmit, onDismiss }, ref) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string>();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const submit = async () => {
+    setIsChecking(true);
+    setError(undefined);
+    try {
+      if (!(await onSubmit(password))) {
+        setError('Incorrect password');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not check your password');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const dismiss = () => {
+    setPassword('');
+    setError(undefined);
+    onDismiss();
+  };
+
+  return (
+    <Modal
+      ref={ref}
+      snapPoints={['45%']}
+      title="Confirm it's you"
+      onDismiss={dismiss}
+    >
+      <View className="px-4">
+        <Text className="mb-4 text-sm text-neutral-500">
+          Enter your password to {operation}.
+        </Text>
+        <Input
+          label="Password"
+          value={password}
+          onChangeText={setPassword}
+          error={error}
+          secureTextEntry
+          autoComplete="current-password"
+          testID="confirm-password-input"
+        />
+        <Button
+          label="Confirm"
+          loading={isChecking}
+          disabled={!password}
+          onPress={submit}
+          testID="confirm-password-button"
+        />
+      </View>
+    </Modal>
+  );
+});
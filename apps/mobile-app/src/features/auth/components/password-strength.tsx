@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+import { View } from 'react-native';
+
+import { ProgressBar, type ProgressBarRef } from '@/components/ui/progress-bar';
+import { Text } from '@/components/ui/text';
+import type { PasswordPolicy } from '@/features/auth/types';
+import {
+  type PasswordStrengthIndicator,
+  PasswordValidator,
+} from '@/features/auth/utils/passwordValidation';
+
+type Props = {
+  password: string;
+  policy?: PasswordPolicy;
+  // The user's name, email and the like, which make a password guessable
+  userInputs?: (string | null | undefined)[];
+};
+
+function StrengthFeedback({
+  strength,
+}: {
+  strength: PasswordStrengthIndicator;
+}) {
+  return (
+    <>
+      {strength.crackTime && (
+        <Text className="mt-1 text-xs text-neutral-500 dark:text-neutral-500">
+          Time to crack if leaked: {strength.crackTime}
+        </Text>
+      )}
+      {strength.warning && (
+        <Text className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+          {strength.warning}
+        </Text>
+      )}
+      {strength.suggestions.map((suggestion) => (
+        <Text
+          key={suggestion}
+          className="ml-2 text-xs text-neutral-500 dark:text-neutral-500"
+        >
+          • {suggestion}
+        </Text>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Strength meter and requirements list shown under a new password field
+ */
+export function PasswordStrength({ password, policy, userInputs }: Props) {
+  const progressBarRef = useRef<ProgressBarRef>(null);
+  const strength = PasswordValidator.getStrengthIndicator(
+    password,
+    policy,
+    userInputs
+  );
+
+  useEffect(() => {
+    progressBarRef.current?.setProgress(strength.progress);
+  }, [strength.progress]);
+
+  return (
+    <>
+      {password ? (
+        <View className="mt-2">
+          <View className="mb-1 flex-row items-center justify-between">
+            <Text className="text-sm text-neutral-600 dark:text-neutral-400">
+              Password Strength
+            </Text>
+            <Text
+              className="text-sm font-medium"
+              style={{ color: strength.color }}
+            >
+              {strength.label}
+            </Text>
+          </View>
+          <ProgressBar ref={progressBarRef} className="h-2" />
+          <StrengthFeedback strength={strength} />
+        </View>
+      ) : null}
+
+      <View className="mt-3">
+        <Text className="mb-2 text-sm text-neutral-600 dark:text-neutral-400">
+          Password must include:
+        </Text>
+        {PasswordValidator.getRequirements(policy).map((requirement, index) => (
+          <Text
+            key={index}
+            className="ml-2 text-xs text-neutral-500 dark:text-neutral-500"
+          >
+            • {requirement}
+          </Text>
+        ))}
+      </View>
+    </>
+  );
+}
@@ -1 +1,8 @@
+export * from './use-biometric-login';
+export * from './use-biometric-reenrollment';
+export * from './use-biometric-setting';
+export * from './use-identity-confirmation';
+export * from './use-password-change-guard';
+export * from './use-sign-out';
+export * from './use-social-login';
 export * from './useAuth';
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+
+import { biometricAuth } from '@/lib/biometric-auth';
+
+import { getBiometricAccount } from '../services/biometric-credentials';
+import { sessionService } from '../services/session';
+import { useAuthStore } from '../stores/authStore';
+
+const confirm = (title: string, message: string, action: string) =>
+  new Promise<boolean>((resolve) =>
+    Alert.alert(title, message, [
+      { text: 'Not Now', style: 'cancel', onPress: () => resolve(false) },
+      { text: action, onPress: () => resolve(true) },
+    ])
+  );
+
+/**
+ * Biometric sign-in on the login screen. `method` names the biometric,
+ * e.g. "Face ID", once this device has it set up for an account.
+ */
+export function useBiometricLogin() {
+  const [method, setMethod] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [account, available] = await Promise.all([
+      getBiometricAccount(),
+      biometricAuth.isAvailable(),
+    ]);
+
+    setMethod(
+      account && available
+        ? await biometricAuth.getBiometricDescription()
+        : null
+    );
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // A rejected token clears the stored one, which hides the option
+  const signIn = async (): Promise<boolean> => {
+    try {
+      return await sessionService.loginWithBiometrics();
+    } finally {
+      refresh();
+    }
+  };
+
+  /**
+   * After a password sign-in, offer to use biometrics next time
+   */
+  const offerBiometricLogin = async () => {
+    const { biometricEnabled } = useAuthStore.getState();
+
+    if (biometricEnabled || !(await biometricAuth.isAvailable())) {
+      return;
+    }
+
+    const description = await biometricAuth.getBiometricDescription();
+    const accepted = await confirm(
+      `Sign in with ${description}?`,
+      `Use ${description} instead of your password the next time you sign in.`,
+      'Turn On'
+    );
+
+    if (accepted) {
+      await sessionService
+        .enableBiometricLogin()
+        .catch((error) => Alert.alert('Error', error.message));
+    }
+  };
+
+  return { method, signIn, offerBiometricLogin };
+}
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+
+import {
+  clearReenrollmentAccount,
+  getReenrollmentAccount,
+} from '../services/biometric-credentials';
+import { useAuthStore } from '../stores/authStore';
+
+const usePendingReenrollment = create<{ pending: boolean }>(() => ({
+  pending: false,
+}));
+
+/**
+ * Once the user has proven it's them with their password, walk them
+ * through turning biometric sign-in back on if an enrollment change
+ * turned it off. `BiometricReenrollment` shows the setup while
+ * `pending` is set.
+ */
+export function useBiometricReenrollment() {
+  const pending = usePendingReenrollment((state) => state.pending);
+
+  // Resolves to whether the setup is now showing
+  const offer = async (): Promise<boolean> => {
+    const { user } = useAuthStore.getState();
+    const account = await getReenrollmentAccount();
+
+    if (!user || account?.toLowerCase() !== user.email.toLowerCase()) {
+      return false;
+    }
+    usePendingReenrollment.setState({ pending: true });
+    return true;
+  };
+
+  const finish = async () => {
+    await clearReenrollmentAccount();
+    usePendingReenrollment.setState({ pending: false });
+  };
+
+  return { pending, offer, finish };
+}
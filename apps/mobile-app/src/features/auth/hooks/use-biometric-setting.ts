@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Alert } from 'react-native';
+
+import { useModal } from '@/components/ui';
+
+import { sessionService } from '../services/session';
+
+/**
+ * The biometric sign-in switch. Turning it on asks for the password first,
+ * so only the account holder can; render `PasswordConfirmationModal` with
+ * `passwordModal` for it.
+ */
+export function useBiometricSetting() {
+  const modal = useModal();
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const run = async (update: () => Promise<void>, message: string) => {
+    setIsUpdating(true);
+    try {
+      await update();
+      Alert.alert('Success', message);
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.message || 'Failed to update biometric settings.'
+      );
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const setEnabled = async (enabled: boolean) => {
+    if (enabled) {
+      modal.present();
+      return;
+    }
+    await run(
+      () => sessionService.disableBiometricLogin(),
+      'Biometric sign-in has been turned off.'
+    );
+  };
+
+  const onSubmit = async (password: string) => {
+    if (!(await sessionService.confirmPassword(password))) {
+      return false;
+    }
+
+    modal.dismiss();
+    await run(
+      () => sessionService.enableBiometricLogin(),
+      'Biometric sign-in has been turned on.'
+    );
+    return true;
+  };
+
+  return {
+    setEnabled,
+    isUpdating,
+    passwordModal: {
+      ref: modal.ref,
+      operation: 'turn on biometric sign-in',
+      onSubmit,
+      onDismiss: () => {},
+    },
+  };
+}
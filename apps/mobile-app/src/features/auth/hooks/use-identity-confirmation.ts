@@ -0,0 +1,54 @@
+import { useRef, useState } from 'react';
+
+import { useModal } from '@/components/ui';
+import { biometricAuth } from '@/lib/biometric-auth';
+
+import { sessionService } from '../services/session';
+
+/**
+ * Confirm it is the signed-in user before a sensitive action: biometrics
+ * where the device has them, otherwise the account password. Render
+ * `PasswordConfirmationModal` with `passwordModal` for the fallback.
+ */
+export function useIdentityConfirmation() {
+  const modal = useModal();
+  const [operation, setOperation] = useState('');
+  const pending = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const settle = (confirmed: boolean) => {
+    pending.current?.(confirmed);
+    pending.current = null;
+  };
+
+  const confirmIdentity = async (action: string): Promise<boolean> => {
+    if (await biometricAuth.isAvailable()) {
+      return biometricAuth.promptForSensitiveOperation(action);
+    }
+
+    settle(false);
+    setOperation(action);
+    modal.present();
+    return new Promise((resolve) => {
+      pending.current = resolve;
+    });
+  };
+
+  const onSubmit = async (password: string) => {
+    const confirmed = await sessionService.confirmPassword(password);
+    if (confirmed) {
+      settle(true);
+      modal.dismiss();
+    }
+    return confirmed;
+  };
+
+  return {
+    confirmIdentity,
+    passwordModal: {
+      ref: modal.ref,
+      operation,
+      onSubmit,
+      onDismiss: () => settle(false),
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { router, useRootNavigationState, useSegments } from 'expo-router';
+import { useEffect } from 'react';
+
+import { useAuthStore } from '../stores/authStore';
+
+/**
+ * Keep a user whose password an admin has forced a reset on (the user's
+ * `must_change_password`) on the change-password screen until it is
+ * changed, whichever route they sign in to or deep link into. Use once, in
+ * the root layout.
+ */
+export function usePasswordChangeGuard() {
+  const mustChangePassword = useAuthStore(
+    (state) => state.isAuthenticated && !!state.user?.must_change_password
+  );
+  const isNavigationReady = !!useRootNavigationState()?.key;
+  const isOnChangeScreen = useSegments()[0] === 'change-password';
+
+  useEffect(() => {
+    if (!isNavigationReady) {
+      return;
+    }
+
+    if (mustChangePassword && !isOnChangeScreen) {
+      router.replace('/change-password');
+    } else if (!mustChangePassword && isOnChangeScreen) {
+      router.replace('/(app)');
+    }
+  }, [isNavigationReady, mustChangePassword, isOnChangeScreen]);
+}
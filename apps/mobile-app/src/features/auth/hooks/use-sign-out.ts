@@ -0,0 +1,52 @@
+import { Alert } from 'react-native';
+import { showMessage } from 'react-native-flash-message';
+
+import { sessionService } from '../services/session';
+
+const confirm = (title: string, message: string, action: string) =>
+  new Promise<boolean>((resolve) =>
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: action, style: 'destructive', onPress: () => resolve(true) },
+    ])
+  );
+
+/**
+ * Sign out of just this device, or of every device on the account.
+ * Signing out everywhere is confirmed with `confirmIdentity`, e.g. from
+ * `useIdentityConfirmation`.
+ */
+export function useSignOut(
+  confirmIdentity: (action: string) => Promise<boolean>
+) {
+  const signOutThisDevice = async () => {
+    const confirmed = await confirm(
+      'Sign out of this device',
+      'Your other devices stay signed in.',
+      'Sign out'
+    );
+    if (confirmed) {
+      await sessionService.logout();
+    }
+  };
+
+  const signOutEverywhere = async () => {
+    const confirmed = await confirm(
+      'Sign out of all devices',
+      'Every device signed in to your account, including this one, will have to sign in again.',
+      'Sign out everywhere'
+    );
+    if (!confirmed || !(await confirmIdentity('sign out of all devices'))) {
+      return;
+    }
+
+    try {
+      await sessionService.logoutEverywhere();
+      showMessage({ message: 'Signed out of all devices', type: 'success' });
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  return { signOutThisDevice, signOutEverywhere };
+}
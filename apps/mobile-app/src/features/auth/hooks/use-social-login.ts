@@ -0,0 +1,53 @@
+import { useState } from 'react';
+
+import type { OptionType } from '@/components/ui';
+import { useModal } from '@/components/ui';
+
+import { TenantSelectionRequiredError } from '../services/api';
+import { OAuthCancelledError, oauthService } from '../services/oauth';
+import type { OAuthTenant, SocialProvider } from '../types';
+
+type Options = {
+  onSuccess: () => void;
+  onError: (error: string) => void;
+};
+
+/**
+ * Social sign-in state for the login screen, including asking which
+ * company to sign in to when the account belongs to several
+ */
+export function useSocialLogin({ onSuccess, onError }: Options) {
+  const [activeProvider, setActiveProvider] = useState<SocialProvider>();
+  const [tenantChoice, setTenantChoice] = useState<{
+    provider: SocialProvider;
+    tenants: OAuthTenant[];
+  }>();
+  const tenantModal = useModal();
+
+  const signIn = async (provider: SocialProvider, tenantId?: string) => {
+    setActiveProvider(provider);
+    try {
+      await oauthService.signIn(provider.id, tenantId);
+      onSuccess();
+    } catch (error) {
+      if (error instanceof TenantSelectionRequiredError) {
+        // Sign in again once the user picks which company
+        setTenantChoice({ provider, tenants: error.tenants });
+        tenantModal.present();
+      } else if (!(error instanceof OAuthCancelledError)) {
+        onError(error instanceof Error ? error.message : 'Social login failed');
+      }
+    } finally {
+      setActiveProvider(undefined);
+    }
+  };
+
+  const selectTenant = (option: OptionType) => {
+    tenantModal.dismiss();
+    if (tenantChoice) {
+      signIn(tenantChoice.provider, String(option.value));
+    }
+  };
+
+  return { activeProvider, tenantChoice, tenantModal, signIn, selectTenant };
+}
@@ -1,5 +1,12 @@
 import { useCurrentUser } from '../services/queries';
+import { sessionService } from '../services/session';
 import { useAuthStore } from '../stores/authStore';
+import type {
+  InvitationAcceptance,
+  OAuthCallbackData,
+  PasswordChange,
+  SocialProvider,
+} from '../types';
 
 /**
  * Main auth hook that provides authentication state and actions
@@ -18,19 +25,26 @@ export function useAuth() {
     isLoading: authStore.isLoading || userQuery.isLoading,
     rememberMe: authStore.rememberMe,
     tokenExpiresAt: authStore.tokenExpiresAt,
+    biometricEnabled: authStore.biometricEnabled,
     error: authStore.error,
 
     // Computed state
     isTokenExpiring: authStore.checkTokenExpiration(),
 
     // Actions
-    acceptInvitation: authStore.acceptInvitation,
-    login: authStore.login,
-    logout: authStore.logout,
+    acceptInvitation: (token: string, data: InvitationAcceptance) =>
+      sessionService.acceptInvitation(token, data),
+    login: (email: string, password: string, rememberMe?: boolean) =>
+      sessionService.login(email, password, rememberMe),
+    loginWithBiometrics: () => sessionService.loginWithBiometrics(),
+    loginWithOAuth: (provider: SocialProvider['id'], data: OAuthCallbackData) =>
+      sessionService.loginWithOAuth(provider, data),
+    logout: () => sessionService.logout(),
+    refreshSession: () => sessionService.refresh(),
+    changePassword: (data: PasswordChange) =>
+      sessionService.changePassword(data),
+    enableBiometricLogin: () => sessionService.enableBiometricLogin(),
+    disableBiometricLogin: () => sessionService.disableBiometricLogin(),
     clearError: authStore.clearError,
-    refreshToken: authStore.refreshToken,
-
-    // Store management
-    hydrate: authStore.hydrate,
   };
 }
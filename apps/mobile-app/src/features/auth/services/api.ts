@@ -1,14 +1,45 @@
+import type { InternalAxiosRequestConfig } from 'axios';
+import axios from 'axios';
+
 import { client } from '@/api/common/client';
 
 import type {
+  AuthInterceptorOptions,
   AuthResponse,
   InvitationAcceptance,
+  InvitationDetails,
   LoginCredentials,
   OAuthCallbackData,
+  OAuthCallbackResponse,
+  OAuthInitOptions,
   OAuthInitResponse,
+  OAuthTenant,
+  PasswordChange,
+  PasswordPolicy,
+  PasswordPolicyContext,
+  PasswordReset,
   User,
 } from '../types';
 
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retried?: boolean;
+};
+
+// The refresh call must never wait on, or trigger, a refresh itself
+const isRefreshRequest = (config: { url?: string }) =>
+  !!config.url?.includes('mobile/tokens/refresh');
+
+/**
+ * The social account maps to several companies; start the flow again
+ * with one of `tenants`
+ */
+export class TenantSelectionRequiredError extends Error {
+  constructor(readonly tenants: OAuthTenant[]) {
+    super('Choose a company to sign in to');
+    this.name = 'TenantSelectionRequiredError';
+  }
+}
+
 /**
  * Authentication API service
  * Handles all auth-related API calls using the existing axios client
@@ -25,6 +56,15 @@ export class AuthApi {
     return response.data;
   }
 
+  /**
+   * Get who a pending invitation is for. Fails with 404 once it has
+   * expired or been accepted.
+   */
+  static async getInvitation(token: string): Promise<InvitationDetails> {
+    const response = await client.get(`/invitations/${token}`);
+    return response.data;
+  }
+
   /**
    * Login user with credentials
    */
@@ -33,44 +73,114 @@ export class AuthApi {
     return response.data;
   }
 
+  /**
+   * Email a password reset link to the account's address
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    await client.post('/auth/password/email', { email });
+  }
+
+  /**
+   * Set a new password with the token from a reset link
+   */
+  static async resetPassword(data: PasswordReset): Promise<void> {
+    await client.post('/auth/password/reset', data);
+  }
+
+  /**
+   * Get the tenant's rules for new passwords. Public, since invitation and
+   * reset screens need it before sign-in; they pass their token so the
+   * server can tell which tenant it is.
+   */
+  static async getPasswordPolicy(
+    context: PasswordPolicyContext = {}
+  ): Promise<PasswordPolicy> {
+    const response = await client.get('/auth/password-policy', {
+      params: context,
+    });
+    return response.data;
+  }
+
+  /**
+   * Change the signed-in user's password
+   */
+  static async changePassword(data: PasswordChange): Promise<void> {
+    await client.put('/user/password', data);
+  }
+
+  /**
+   * Check the signed-in user's password without signing in again
+   * @returns False if it is wrong
+   */
+  static async verifyPassword(password: string): Promise<boolean> {
+    const response = await client.post<{ confirmed: boolean }>(
+      '/auth/password/confirm',
+      { password }
+    );
+    return response.data.confirmed;
+  }
+
   /**
    * Initialize OAuth flow for mobile app
    */
   static async initializeOAuth(
     provider: 'google' | 'facebook' | 'instagram',
-    options?: {
-      tenantId?: string;
-      deviceId?: string;
-      appVersion?: string;
-    }
+    options?: OAuthInitOptions
   ): Promise<OAuthInitResponse> {
     const response = await client.post(`/mobile/oauth/${provider}/initialize`, {
       tenant_id: options?.tenantId,
       device_id: options?.deviceId,
       app_version: options?.appVersion,
+      redirect_uri: options?.redirectUri,
+      code_challenge: options?.codeChallenge,
+      code_challenge_method: options?.codeChallenge ? 'S256' : undefined,
     });
     return response.data;
   }
 
   /**
-   * Complete OAuth flow with authorization code
+   * Complete OAuth flow with authorization code. Throws
+   * `TenantSelectionRequiredError` if the account belongs to more than one
+   * company and the flow was started without picking one.
    */
   static async completeOAuth(
     provider: 'google' | 'facebook' | 'instagram',
     data: OAuthCallbackData
   ): Promise<AuthResponse> {
-    const response = await client.post(
-      `/mobile/oauth/${provider}/callback`,
-      data
-    );
-    return response.data;
+    try {
+      const response = await client.post<OAuthCallbackResponse>(
+        `/mobile/oauth/${provider}/callback`,
+        data
+      );
+      const { user, access_token, token_type } = response.data.data;
+
+      // OAuth tokens don't expire on their own
+      return { user, token: access_token, token_type, expires_at: null };
+    } catch (error: any) {
+      const tenants = error.response?.data?.tenants;
+
+      if (error.response?.status === 409 && Array.isArray(tenants)) {
+        throw new TenantSelectionRequiredError(tenants);
+      }
+      throw error;
+    }
   }
 
   /**
    * Logout user (revoke token)
+   * @param token A token to revoke instead of the session's. Sent around
+   * `client`, whose interceptors would replace it.
    */
-  static async logout(): Promise<void> {
-    await client.post('/auth/logout');
+  static async logout(token?: string): Promise<void> {
+    if (!token) {
+      await client.post('/auth/logout');
+      return;
+    }
+
+    await axios.post('/auth/logout', null, {
+      baseURL: client.defaults.baseURL,
+      headers: { Authorization: `Bearer ${token}` },
+    });
   }
 
   /**
@@ -90,16 +200,30 @@ export class AuthApi {
   }
 
   /**
-   * Setup auth interceptor for automatic token handling
+   * Setup auth interceptor for automatic token handling.
+   *
+   * A 401 on an active session triggers one refresh, however many requests
+   * hit it at once; requests started meanwhile wait for it, and the failed
+   * ones are replayed with the new token.
    */
-  static setupAuthInterceptor(
-    getToken: () => string | null,
-    onUnauthorized: () => void
-  ): () => void {
+  static setupAuthInterceptor(options: AuthInterceptorOptions): () => void {
+    let refreshing: Promise<boolean> | null = null;
+
+    const refreshOnce = () => {
+      refreshing ??= options.refreshSession().finally(() => {
+        refreshing = null;
+      });
+      return refreshing;
+    };
+
     // Request interceptor to add authorization header
     const requestInterceptor = client.interceptors.request.use(
-      (config) => {
-        const token = getToken();
+      async (config) => {
+        if (refreshing && !isRefreshRequest(config)) {
+          await refreshing;
+        }
+
+        const token = options.getToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -108,15 +232,34 @@ export class AuthApi {
       (error) => Promise.reject(error)
     );
 
-    // Response interceptor to handle unauthorized responses
+    // Response interceptor to refresh and replay unauthorized requests
     const responseInterceptor = client.interceptors.response.use(
       (response) => response,
       async (error) => {
-        if (error.response?.status === 401) {
-          // Unauthorized, likely token expired
-          onUnauthorized();
+        const config = error.config as RetriableRequestConfig | undefined;
+
+        if (
+          error.response?.status !== 401 ||
+          !config ||
+          config._retried ||
+          isRefreshRequest(config) ||
+          !options.hasSession()
+        ) {
+          return Promise.reject(error);
+        }
+
+        config._retried = true;
+
+        // Skip the refresh if another request already renewed the token
+        // while this one was in flight
+        const sentWith = config.headers?.Authorization;
+        const refreshed =
+          sentWith !== `Bearer ${options.getToken()}` || (await refreshOnce());
+
+        if (!refreshed) {
+          return Promise.reject(error);
         }
-        return Promise.reject(error);
+        return client(config);
       }
     );
 
@@ -0,0 +1,95 @@
+import {
+  biometricAuth,
+  BiometricEnrollmentChangedError,
+} from '@/lib/biometric-auth';
+import { secureStorage } from '@/lib/secure-storage';
+
+const CREDENTIALS_KEY = 'biometric_credentials';
+// Which account the credentials are for, readable without a prompt
+const ACCOUNT_KEY = 'biometric_account';
+// An account whose biometric sign-in was dropped by an enrollment change
+const REENROLL_KEY = 'biometric_reenroll_account';
+
+export interface BiometricCredentials {
+  email: string;
+  // Device-bound sign-in token from `mobileSecurityAPI.issueBiometricToken`
+  token: string;
+}
+
+/**
+ * Keep the credentials behind the device's biometrics, so the next sign-in
+ * only needs a face or fingerprint. They outlive sign-out on purpose.
+ */
+export async function saveBiometricCredentials(
+  credentials: BiometricCredentials
+): Promise<void> {
+  await secureStorage.replaceItem(CREDENTIALS_KEY, credentials, {
+    requireAuthentication: true,
+  });
+  await secureStorage.setItem(ACCOUNT_KEY, credentials.email);
+  await clearReenrollmentAccount();
+}
+
+/**
+ * The email biometric sign-in is set up for, without prompting
+ */
+export function getBiometricAccount(): Promise<string | null> {
+  return secureStorage.getItem<string>(ACCOUNT_KEY);
+}
+
+/**
+ * Read the credentials through the system biometric prompt. Null if the
+ * prompt was cancelled or there is nothing stored. If the enrolled
+ * biometrics changed, the credentials are cleared and
+ * `BiometricEnrollmentChangedError` thrown.
+ */
+export async function loadBiometricCredentials(
+  prompt: string
+): Promise<BiometricCredentials | null> {
+  const account = await getBiometricAccount();
+
+  if (!account) {
+    return null;
+  }
+
+  try {
+    return await biometricAuth.readProtectedItem<BiometricCredentials>(
+      CREDENTIALS_KEY,
+      prompt
+    );
+  } catch (error) {
+    if (error instanceof BiometricEnrollmentChangedError) {
+      await clearBiometricCredentials();
+      await secureStorage.setItem(REENROLL_KEY, account);
+    }
+    throw error;
+  }
+}
+
+export async function clearBiometricCredentials(): Promise<void> {
+  await Promise.all(
+    [CREDENTIALS_KEY, ACCOUNT_KEY].map((key) =>
+      secureStorage
+        .removeItem(key)
+        .catch((error) =>
+          console.warn('Failed to clear biometric credentials:', error)
+        )
+    )
+  );
+}
+
+/**
+ * The email whose biometric sign-in an enrollment change turned off, so
+ * the user can be offered to turn it back on
+ */
+export function getReenrollmentAccount(): Promise<string | null> {
+  return secureStorage.getItem<string>(REENROLL_KEY);
+}
+
+export async function clearReenrollmentAccount(): Promise<void> {
+  await secureStorage
+    .removeItem(REENROLL_KEY)
+    .catch((error) =>
+      console.warn('Failed to clear biometric re-enrollment:', error)
+    );
+}
@@ -1,2 +1,7 @@
 export * from './api';
+export * from './biometric-credentials';
+export * from './oauth';
+export * from './password-policy';
 export * from './queries';
+export * from './session';
+export * from './session-storage';
@@ -0,0 +1,119 @@
+import { Env } from '@env';
+import * as WebBrowser from 'expo-web-browser';
+
+import { secureStorage } from '@/lib/secure-storage';
+
+import type { OAuthRedirect, SocialProvider } from '../types';
+import { DeepLinkingService } from '../utils/deepLinking';
+import { createPkcePair } from '../utils/pkce';
+import { AuthApi } from './api';
+import { sessionService } from './session';
+
+export class OAuthCancelledError extends Error {
+  constructor() {
+    super('Social login was cancelled');
+    this.name = 'OAuthCancelledError';
+  }
+}
+
+// Null once the browser closes without coming back to the app
+type RedirectListener = (redirect: OAuthRedirect | null) => void;
+
+/**
+ * Social login: the provider's page opens in an in-app browser session
+ * that redirects back into the app, and the code it brings is exchanged
+ * for a session. The `state` check and PKCE tie that code to this device
+ * and this sign-in.
+ */
+class OAuthService {
+  private pending: RedirectListener | null = null;
+
+  async signIn(provider: SocialProvider['id'], tenantId?: string) {
+    const [deviceId, pkce] = await Promise.all([
+      secureStorage.generateDeviceId(),
+      createPkcePair(),
+    ]);
+    const redirectUri = DeepLinkingService.getOAuthRedirectUri();
+
+    const init = await AuthApi.initializeOAuth(provider, {
+      tenantId,
+      deviceId,
+      appVersion: Env.VERSION,
+      redirectUri,
+      codeChallenge: pkce.codeChallenge,
+    });
+    if (!init.success) {
+      throw new Error('Failed to start social login. Please try again.');
+    }
+
+    const { authorization_url, state } = init.data;
+    const redirect = await this.authorize(authorization_url, redirectUri);
+
+    await sessionService.loginWithOAuth(provider, {
+      code: verifyRedirect(redirect, state),
+      state,
+      code_verifier: pkce.codeVerifier,
+      redirect_uri: redirectUri,
+    });
+  }
+
+  /**
+   * Pass a redirect to the sign-in waiting for it, if any
+   */
+  handleRedirect(redirect: OAuthRedirect | null) {
+    const listener = this.pending;
+    this.pending = null;
+    listener?.(redirect);
+  }
+
+  private async authorize(url: string, redirectUri: string) {
+    // Only one sign-in at a time; a newer one supersedes the last
+    this.handleRedirect(null);
+
+    const redirected = new Promise<OAuthRedirect | null>((resolve) => {
+      this.pending = resolve;
+    });
+
+    try {
+      const result = await WebBrowser.openAuthSessionAsync(url, redirectUri);
+
+      // Otherwise the redirect may have come in as a deep link instead
+      this.handleRedirect(
+        result.type === 'success'
+          ? DeepLinkingService.parseOAuthCallback(result.url)
+          : null
+      );
+    } catch (error) {
+      this.handleRedirect(null);
+      throw error;
+    }
+
+    return redirected;
+  }
+}
+
+/**
+ * The authorization code, once the redirect is known to answer this
+ * sign-in's request
+ */
+function verifyRedirect(redirect: OAuthRedirect | null, state: string): string {
+  if (!redirect || redirect.error === 'access_denied') {
+    throw new OAuthCancelledError();
+  }
+  if (redirect.error) {
+    throw new Error(
+      redirect.errorDescription || 'Social login failed. Please try again.'
+    );
+  }
+  if (redirect.state !== state || !redirect.code) {
+    throw new Error('Social login could not be verified. Please try again.');
+  }
+  return redirect.code;
+}
+
+export const oauthService = new OAuthService();
+
+// Android can deliver the redirect through the app's link handling
+DeepLinkingService.setOAuthCallbackHandler((redirect) =>
+  oauthService.handleRedirect(redirect)
+);
@@ -0,0 +1,34 @@
+import { getItem, setItem } from '@/lib/storage';
+
+import type { PasswordPolicy, PasswordPolicyContext } from '../types';
+import { DEFAULT_PASSWORD_POLICY } from '../utils/passwordValidation';
+import { AuthApi } from './api';
+
+const POLICY_KEY = 'password_policy';
+
+/**
+ * The last policy fetched, for screens opened offline, or the default
+ * rules if there is none
+ */
+export function getCachedPasswordPolicy(): PasswordPolicy {
+  return {
+    ...DEFAULT_PASSWORD_POLICY,
+    ...getItem<Partial<PasswordPolicy>>(POLICY_KEY),
+  };
+}
+
+/**
+ * Fetch the tenant's policy and keep it for next time. Anything the
+ * server leaves out keeps its default.
+ */
+export async function fetchPasswordPolicy(
+  context?: PasswordPolicyContext
+): Promise<PasswordPolicy> {
+  const policy = {
+    ...DEFAULT_PASSWORD_POLICY,
+    ...(await AuthApi.getPasswordPolicy(context)),
+  };
+
+  await setItem(POLICY_KEY, policy);
+  return policy;
+}
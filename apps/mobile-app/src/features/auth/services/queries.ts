@@ -4,13 +4,22 @@ import type {
   AuthResponse,
   InvitationAcceptance,
   LoginCredentials,
+  PasswordPolicy,
+  PasswordPolicyContext,
+  PasswordReset,
 } from '../types';
 import { AuthApi } from './api';
+import {
+  fetchPasswordPolicy,
+  getCachedPasswordPolicy,
+} from './password-policy';
 
 // Query keys for React Query
 export const authQueryKeys = {
   user: ['auth', 'user'] as const,
   auth: ['auth'] as const,
+  passwordPolicy: ['auth', 'password-policy'] as const,
+  invitation: (token: string) => ['auth', 'invitation', token] as const,
 };
 
 /**
@@ -76,6 +85,62 @@ export function useLogout() {
   });
 }
 
+/**
+ * Hook for requesting a password reset email
+ */
+export function useRequestPasswordReset() {
+  return useMutation({
+    mutationFn: (email: string) => AuthApi.requestPasswordReset(email),
+    onError: (error) => {
+      console.warn('Password reset request failed:', error);
+    },
+  });
+}
+
+/**
+ * Hook for setting a new password from a reset link
+ */
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: (data: PasswordReset) => AuthApi.resetPassword(data),
+    onError: (error) => {
+      console.warn('Password reset failed:', error);
+    },
+  });
+}
+
+/**
+ * The tenant's password policy. Until it loads, or if it can't, this is
+ * the last one fetched or the default rules.
+ * @param context The invitation or reset token, before sign-in
+ */
+export function usePasswordPolicy(
+  context: PasswordPolicyContext = {}
+): PasswordPolicy {
+  const query = useQuery({
+    queryKey: [...authQueryKeys.passwordPolicy, context],
+    queryFn: () => fetchPasswordPolicy(context),
+    placeholderData: getCachedPasswordPolicy,
+    staleTime: 60 * 60 * 1000, // 1 hour
+    retry: 1,
+  });
+
+  return query.data ?? getCachedPasswordPolicy();
+}
+
+/**
+ * Who a pending invitation is for
+ */
+export function useInvitation(token?: string) {
+  return useQuery({
+    queryKey: authQueryKeys.invitation(token ?? ''),
+    queryFn: () => AuthApi.getInvitation(token!),
+    enabled: !!token,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
+
 /**
  * Hook for getting current user
  * Only fetches if we have a token
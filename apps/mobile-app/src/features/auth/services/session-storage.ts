@@ -0,0 +1,124 @@
+import { MMKV } from 'react-native-mmkv';
+
+import { secureStorage, secureTokenStorage } from '@/lib/secure-storage';
+
+import type { AuthMetadata } from '../types';
+
+const SESSION_KEY = 'auth_session';
+
+// Where sessions were kept before they moved to the keychain
+const LEGACY_STORAGE_ID = 'auth-secure-storage';
+const LEGACY_KEY_STORAGE_ID = 'auth-storage';
+const LEGACY_ENCRYPTION_KEY = 'checkright-encryption-key';
+
+export interface StoredSession {
+  accessToken: string;
+  expiresAt: string | null;
+  deviceBound: boolean;
+  rememberMe: boolean;
+  userId: string;
+}
+
+type SessionRecord = {
+  deviceBound: boolean;
+  rememberMe: boolean;
+  userId: string;
+  // Only kept here for sessions without a device-bound token pair; those
+  // live in `secureTokenStorage`, written by `mobileSecurityAPI`
+  token?: string;
+  expiresAt?: string | null;
+};
+
+/**
+ * Persist a session. Device-bound tokens are already stored by
+ * `mobileSecurityAPI` when they are issued or refreshed.
+ */
+export async function saveSession(session: StoredSession): Promise<void> {
+  const { accessToken, expiresAt, ...record } = session;
+
+  await secureStorage.setItem<SessionRecord>(
+    SESSION_KEY,
+    session.deviceBound ? record : { ...record, token: accessToken, expiresAt }
+  );
+}
+
+export async function loadSession(): Promise<StoredSession | null> {
+  const record =
+    (await secureStorage.getItem<SessionRecord>(SESSION_KEY)) ??
+    (await migrateLegacySession());
+
+  if (!record) {
+    return null;
+  }
+
+  const { token, expiresAt, ...session } = record;
+
+  if (!record.deviceBound) {
+    return token
+      ? { ...session, accessToken: token, expiresAt: expiresAt ?? null }
+      : null;
+  }
+
+  const tokens = await secureTokenStorage.getTokens();
+  return tokens
+    ? {
+        ...session,
+        accessToken: tokens.accessToken,
+        expiresAt: tokens.expiresAt,
+      }
+    : null;
+}
+
+export async function clearSession(): Promise<void> {
+  await Promise.all(
+    [
+      () => secureStorage.removeItem(SESSION_KEY),
+      () => secureTokenStorage.removeTokens(),
+    ].map((remove) =>
+      remove().catch((error) =>
+        console.warn('Failed to clear stored session:', error)
+      )
+    )
+  );
+}
+
+/**
+ * One-off move of a session from the old encrypted MMKV store into the
+ * keychain, so existing installs stay signed in
+ */
+async function migrateLegacySession(): Promise<SessionRecord | null> {
+  const keyStorage = new MMKV({ id: LEGACY_KEY_STORAGE_ID });
+  const encryptionKey = keyStorage.getString(LEGACY_ENCRYPTION_KEY);
+
+  if (!encryptionKey) {
+    return null;
+  }
+
+  const legacyStorage = new MMKV({ id: LEGACY_STORAGE_ID, encryptionKey });
+  const token = legacyStorage.getString('auth_token');
+  let metadata: AuthMetadata | null = null;
+
+  try {
+    metadata = JSON.parse(legacyStorage.getString('auth_metadata') ?? 'null');
+  } catch (error) {
+    console.warn('Failed to parse legacy auth metadata:', error);
+  }
+
+  legacyStorage.clearAll();
+  keyStorage.delete(LEGACY_ENCRYPTION_KEY);
+
+  if (!token || !metadata) {
+    return null;
+  }
+
+  const record: SessionRecord = {
+    deviceBound: false,
+    rememberMe: metadata.rememberMe,
+    userId: metadata.userId,
+    token,
+    expiresAt: metadata.expiresAt,
+  };
+  await secureStorage.setItem(SESSION_KEY, record);
+
+  return record;
+}
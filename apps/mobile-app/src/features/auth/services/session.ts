@@ -0,0 +1,516 @@
+import { mobileSecurityAPI, TokenRefreshError } from '@/api/mobile-security';
+import {
+  biometricAuth,
+  BiometricEnrollmentChangedError,
+} from '@/lib/biometric-auth';
+import type { SecureTokens } from '@/lib/secure-storage';
+
+import type { SessionSnapshot } from '../stores/authStore';
+import { useAuthStore } from '../stores/authStore';
+import type {
+  AuthResponse,
+  InvitationAcceptance,
+  OAuthCallbackData,
+  PasswordChange,
+  SocialProvider,
+  User,
+} from '../types';
+import { AuthApi, TenantSelectionRequiredError } from './api';
+import {
+  clearBiometricCredentials,
+  getBiometricAccount,
+  loadBiometricCredentials,
+  saveBiometricCredentials,
+} from './biometric-credentials';
+import type { StoredSession } from './session-storage';
+import { clearSession, loadSession, saveSession } from './session-storage';
+
+type IssuedTokens = Pick<
+  StoredSession,
+  'accessToken' | 'expiresAt' | 'deviceBound'
+>;
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error.response?.data?.message || error.message || fallback;
+
+const ENROLLMENT_CHANGED_MESSAGE =
+  'A face or fingerprint was added or removed on this device, so biometric sign-in has been turned off. Use your password to continue.';
+
+const BIOMETRIC_TOKEN_REJECTED_MESSAGE =
+  'Biometric sign-in has expired. Sign in with your password to set it up again.';
+
+const isExpired = (expiresAt: string | null): boolean =>
+  !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+
+/**
+ * The single place sessions start and end: password login, invitation
+ * acceptance and OAuth all go through here, as do refresh, logout and
+ * restoring a session at startup. State lives in `useAuthStore`.
+ */
+class SessionService {
+  private refreshing: Promise<boolean> | null = null;
+
+  async login(email: string, password: string, rememberMe = false) {
+    await this.authenticate(
+      () => AuthApi.login({ email, password, remember_me: rememberMe }),
+      'Login failed. Please check your credentials.'
+    );
+  }
+
+  /**
+   * Sign in with the device-bound token kept behind biometrics. Resolves
+   * to false if the biometric prompt was cancelled.
+   */
+  async loginWithBiometrics(): Promise<boolean> {
+    const credentials = await this.readBiometricCredentials(
+      'Sign in to CheckRight'
+    );
+
+    if (!credentials) {
+      return false;
+    }
+
+    await this.signIn(
+      () => this.startBiometricSession(credentials.token),
+      'Biometric sign-in failed. Please sign in with your password.'
+    );
+    return true;
+  }
+
+  async acceptInvitation(token: string, data: InvitationAcceptance) {
+    await this.authenticate(
+      () => AuthApi.acceptInvitation(token, data),
+      'Registration failed. Please try again.'
+    );
+  }
+
+  async loginWithOAuth(
+    provider: SocialProvider['id'],
+    data: OAuthCallbackData
+  ) {
+    await this.authenticate(
+      () => AuthApi.completeOAuth(provider, data),
+      'Social login failed. Please try again.'
+    );
+  }
+
+  /**
+   * Restore the stored session, if any. Called once at startup.
+   */
+  async hydrate() {
+    const store = useAuthStore.getState();
+    store.setLoading(true);
+
+    try {
+      const session = await loadSession();
+      if (!session) {
+        store.clearAuth();
+        return;
+      }
+
+      store.setToken(session.accessToken);
+      store.setTokenExpiresAt(session.expiresAt);
+      store.setRememberMe(session.rememberMe);
+      useAuthStore.setState({ deviceBound: session.deviceBound });
+
+      // A refresh that could not get through leaves the session in place,
+      // so an offline start still gets in
+      if (isExpired(session.expiresAt)) {
+        await this.refresh();
+        if (!useAuthStore.getState().token) {
+          return;
+        }
+      }
+
+      await this.loadUser(session.userId);
+      this.syncDevice();
+    } catch (error) {
+      console.warn('Failed to restore session:', error);
+      await this.endSession();
+    } finally {
+      useAuthStore.setState({ isLoading: false, isHydrated: true });
+    }
+  }
+
+  /**
+   * Renew the access token. Concurrent callers share one request; the
+   * session only ends if the refresh token is rejected.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  async logout() {
+    const { token, deviceBound } = useAuthStore.getState();
+
+    try {
+      if (token) {
+        await (deviceBound
+          ? mobileSecurityAPI.revokeDeviceTokens()
+          : AuthApi.logout());
+      }
+    } catch (error) {
+      // Continue with logout even if API call fails
+      console.warn('Logout API call failed:', error);
+    } finally {
+      await this.endSession();
+    }
+  }
+
+  /**
+   * Sign out every device on the account, this one included. Unlike
+   * `logout`, a failure is thrown and the session kept, since the other
+   * devices would still be signed in.
+   */
+  async logoutEverywhere() {
+    try {
+      await mobileSecurityAPI.revokeAllTokens();
+    } catch (error: any) {
+      throw new Error(
+        getErrorMessage(error, 'Failed to sign out of all devices.')
+      );
+    }
+
+    // The server revoked the login and biometric sign-in tokens with the rest
+    await this.disableBiometricLogin({ revoke: false });
+    await this.endSession();
+  }
+
+  /**
+   * Check the signed-in user's password, e.g. before a sensitive action
+   */
+  async confirmPassword(password: string): Promise<boolean> {
+    const { user } = useAuthStore.getState();
+
+    if (!user) {
+      return false;
+    }
+    return AuthApi.verifyPassword(password);
+  }
+
+  /**
+   * Change the signed-in user's password, then reload the user so a
+   * forced change (`must_change_password`) is cleared
+   */
+  async changePassword(data: PasswordChange) {
+    try {
+      await AuthApi.changePassword(data);
+    } catch (error: any) {
+      throw new Error(
+        getErrorMessage(error, 'Failed to change your password.')
+      );
+    }
+
+    const store = useAuthStore.getState();
+    const { user } = store;
+
+    try {
+      store.setUser(await AuthApi.getCurrentUser());
+    } catch (error) {
+      // The change went through, so don't keep the user stuck behind it
+      console.warn('Failed to reload user after password change:', error);
+      if (user) {
+        store.setUser({ ...user, must_change_password: false });
+      }
+    }
+  }
+
+  /**
+   * Drop the local session without telling the server, e.g. once it has
+   * already rejected the token
+   */
+  async endSession() {
+    await clearSession();
+    useAuthStore.getState().clearAuth();
+  }
+
+  /**
+   * Turn on biometric sign-in for the signed-in user: a sign-in token bound
+   * to this device is stored behind biometrics, never the password
+   */
+  async enableBiometricLogin() {
+    const { user } = useAuthStore.getState();
+
+    if (!user) {
+      throw new Error('Sign in before turning on biometric sign-in.');
+    }
+
+    const result = await biometricAuth.setupBiometricAuth();
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    const token = await mobileSecurityAPI.issueBiometricToken();
+    await saveBiometricCredentials({ email: user.email, token });
+    useAuthStore.getState().setBiometricEnabled(true);
+  }
+
+  /**
+   * Turn off biometric sign-in, revoking its token unless the server
+   * already has
+   */
+  async disableBiometricLogin({ revoke = true } = {}) {
+    if (revoke && useAuthStore.getState().token) {
+      await mobileSecurityAPI
+        .revokeBiometricToken()
+        .catch((error) =>
+          console.warn('Failed to revoke the biometric token:', error)
+        );
+    }
+    await clearBiometricCredentials();
+    useAuthStore.getState().setBiometricEnabled(false);
+  }
+
+  /**
+   * Check biometrics against the key behind biometric sign-in rather than
+   * a plain prompt, so a face or fingerprint added since is not enough
+   */
+  async confirmBiometrics(reason: string): Promise<boolean> {
+    return !!(await this.readBiometricCredentials(reason));
+  }
+
+  private async readBiometricCredentials(reason: string) {
+    try {
+      return await loadBiometricCredentials(reason);
+    } catch (error) {
+      if (error instanceof BiometricEnrollmentChangedError) {
+        useAuthStore.getState().setBiometricEnabled(false);
+        throw new BiometricEnrollmentChangedError(ENROLLMENT_CHANGED_MESSAGE);
+      }
+      throw error;
+    }
+  }
+
+  private authenticate(
+    request: () => Promise<AuthResponse>,
+    fallbackMessage: string
+  ) {
+    return this.signIn(
+      async () => this.startSession(await request()),
+      fallbackMessage
+    );
+  }
+
+  private async signIn(start: () => Promise<void>, fallbackMessage: string) {
+    const store = useAuthStore.getState();
+    store.setLoading(true);
+    store.clearError();
+
+    try {
+      await start();
+    } catch (error: any) {
+      // Not a failure: the caller asks which company to sign in to
+      if (error instanceof TenantSelectionRequiredError) {
+        throw error;
+      }
+
+      const message = getErrorMessage(error, fallbackMessage);
+      useAuthStore.getState().setError(message);
+
+      // Log error for debugging (non-sensitive info only)
+      console.warn('Authentication failed:', {
+        status: error.response?.status,
+        message,
+      });
+
+      throw new Error(message);
+    } finally {
+      useAuthStore.getState().setLoading(false);
+    }
+  }
+
+  private async startSession(response: AuthResponse) {
+    const { user, token, expires_at } = response;
+    const rememberMe = response.remember_me ?? false;
+
+    // Device registration authenticates with the login token
+    useAuthStore.getState().setToken(token);
+
+    const issued = (await this.issueDeviceTokens(token)) ?? {
+      accessToken: token,
+      expiresAt: expires_at,
+      deviceBound: false,
+    };
+
+    // The sign-in payloads carry only part of the user, so start the
+    // session with all of it, e.g. `must_change_password`
+    useAuthStore.getState().setToken(issued.accessToken);
+    const fullUser = await AuthApi.getCurrentUser().catch((error) => {
+      console.warn('Failed to load the signed-in user:', error);
+      return user;
+    });
+
+    await this.beginSession(fullUser, issued, {
+      rememberMe,
+      company: response.company ?? null,
+    });
+  }
+
+  private async startBiometricSession(biometricToken: string) {
+    let login: { tokens: SecureTokens; company: string | null };
+
+    try {
+      login = await mobileSecurityAPI.loginWithBiometricToken(biometricToken);
+    } catch (error) {
+      // Expired or revoked, so it is no use any more
+      if (error instanceof TokenRefreshError && error.rejected) {
+        await this.disableBiometricLogin({ revoke: false });
+        throw new Error(BIOMETRIC_TOKEN_REJECTED_MESSAGE);
+      }
+      throw error;
+    }
+
+    const issued: IssuedTokens = {
+      accessToken: login.tokens.accessToken,
+      expiresAt: login.tokens.expiresAt,
+      deviceBound: true,
+    };
+    useAuthStore.getState().setToken(issued.accessToken);
+
+    try {
+      await this.beginSession(await AuthApi.getCurrentUser(), issued, {
+        rememberMe: false,
+        company: login.company,
+      });
+    } catch (error) {
+      await this.endSession();
+      throw error;
+    }
+  }
+
+  private async beginSession(
+    user: User,
+    issued: IssuedTokens,
+    { rememberMe, company }: Pick<SessionSnapshot, 'rememberMe' | 'company'>
+  ) {
+    await saveSession({ ...issued, rememberMe, userId: user.id });
+    useAuthStore.getState().setSession({
+      user,
+      company,
+      token: issued.accessToken,
+      tokenExpiresAt: issued.expiresAt,
+      rememberMe,
+      deviceBound: issued.deviceBound,
+    });
+    await this.syncBiometricLogin(user.email);
+  }
+
+  /**
+   * Biometric sign-in is kept across sign-outs for one account only, so
+   * it is back on for that account and dropped when another signs in
+   */
+  private async syncBiometricLogin(email: string) {
+    const account = await getBiometricAccount();
+    const isSameAccount = account?.toLowerCase() === email.toLowerCase();
+
+    if (account && !isSameAccount) {
+      await clearBiometricCredentials();
+    }
+    useAuthStore.getState().setBiometricEnabled(isSameAccount);
+  }
+
+  /**
+   * Exchange the login token for a refreshable pair bound to this device,
+   * then revoke the login token so it can't outlive the pair
+   */
+  private async issueDeviceTokens(
+    loginToken: string
+  ): Promise<IssuedTokens | null> {
+    try {
+      await mobileSecurityAPI.registerDevice();
+      const tokens = await mobileSecurityAPI.generateTokens();
+
+      await AuthApi.logout(loginToken).catch((error) =>
+        console.warn('Failed to revoke the login token:', error)
+      );
+      return {
+        accessToken: tokens.accessToken,
+        expiresAt: tokens.expiresAt,
+        deviceBound: true,
+      };
+    } catch (error) {
+      // Signing in still works on the login token, it just can't refresh
+      console.warn('Device-bound token issuance failed:', error);
+      return null;
+    }
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const store = useAuthStore.getState();
+
+    if (!store.token) {
+      return false;
+    }
+
+    // The plain login token has nothing to refresh with
+    if (!store.deviceBound) {
+      await this.endSession();
+      return false;
+    }
+
+    try {
+      const tokens = await mobileSecurityAPI.refreshTokens();
+      store.setToken(tokens.accessToken);
+      store.setTokenExpiresAt(tokens.expiresAt);
+      return true;
+    } catch (error) {
+      console.warn('Session refresh failed:', error);
+
+      if (error instanceof TokenRefreshError && error.rejected) {
+        await this.endSession();
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Keep the server's record of this device current after app or OS
+   * updates. Runs in the background; startup does not wait on it.
+   */
+  private syncDevice() {
+    const { isAuthenticated, deviceBound } = useAuthStore.getState();
+
+    if (isAuthenticated && deviceBound) {
+      mobileSecurityAPI
+        .syncDeviceRegistration()
+        .catch((error) =>
+          console.warn('Device registration update failed:', error)
+        );
+    }
+  }
+
+  private async loadUser(userId: string) {
+    const store = useAuthStore.getState();
+
+    try {
+      store.setUser(await AuthApi.getCurrentUser());
+    } catch (error: any) {
+      const lastUser = store.user?.id === userId ? store.user : null;
+
+      // Offline: carry on as the last known user until the API is reachable
+      if (error.response?.status !== 401 && lastUser) {
+        store.setUser(lastUser);
+        return;
+      }
+      await this.endSession();
+    }
+  }
+}
+
+export const sessionService = new SessionService();
+
+// Request interceptors run last-registered first, so signing goes in
+// first to sign each request as late as possible, after any refresh wait
+mobileSecurityAPI.setupRequestSigning();
+
+// Attach the session token to API calls and renew it when it expires
+AuthApi.setupAuthInterceptor({
+  getToken: () => useAuthStore.getState().token,
+  hasSession: () => useAuthStore.getState().isAuthenticated,
+  refreshSession: () => sessionService.refresh(),
+});
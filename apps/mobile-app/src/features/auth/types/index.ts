@@ -14,8 +14,10 @@ export interface User {
 export interface AuthResponse {
   user: User;
   token: string;
-  expires_at: string;
+  expires_at: string | null;
   remember_me?: boolean;
+  // The name of the user's company
+  company?: string | null;
   access_token?: string;
   token_type?: string;
 }
@@ -32,6 +34,55 @@ export interface InvitationAcceptance {
   password_confirmation: string;
 }
 
+/**
+ * Who a pending invitation is for
+ */
+export interface InvitationDetails {
+  email: string;
+  role: User['role'];
+  company: string | null;
+  expires_at: string;
+}
+
+export interface PasswordReset {
+  token: string;
+  email: string;
+  password: string;
+  password_confirmation: string;
+}
+
+/**
+ * The tenant's rules for new passwords
+ */
+export interface PasswordPolicy {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_numbers: boolean;
+  require_symbols: boolean;
+  // Reject passwords found in known data breaches; checked by the server
+  uncompromised: boolean;
+  // How many previous passwords can't be reused; checked by the server
+  history: number;
+}
+
+/**
+ * What a new password is for, so the server can tell whose policy applies
+ * before sign-in. Signed in, none is needed.
+ */
+export interface PasswordPolicyContext {
+  invitation_token?: string;
+  reset_token?: string;
+  // The address the reset link was sent to
+  email?: string;
+}
+
+export interface PasswordChange {
+  current_password: string;
+  password: string;
+  password_confirmation: string;
+}
+
 // OAuth types
 export interface OAuthInitResponse {
   success: boolean;
@@ -42,9 +93,45 @@ export interface OAuthInitResponse {
   };
 }
 
+export interface OAuthInitOptions {
+  tenantId?: string;
+  deviceId?: string;
+  appVersion?: string;
+  // Where the provider sends the user back to, in the app's URL scheme
+  redirectUri?: string;
+  // S256 PKCE challenge for the verifier sent with the callback
+  codeChallenge?: string;
+}
+
 export interface OAuthCallbackData {
   code: string;
   state: string;
+  code_verifier?: string;
+  redirect_uri?: string;
+}
+
+export interface OAuthCallbackResponse {
+  success: boolean;
+  data: {
+    access_token: string;
+    token_type: string;
+    user: User;
+    provider: string;
+  };
+}
+
+// A company the social account can sign in to
+export interface OAuthTenant {
+  id: string;
+  name: string;
+}
+
+// What the app's redirect URI is opened with once the provider is done
+export interface OAuthRedirect {
+  code?: string;
+  state?: string;
+  error?: string;
+  errorDescription?: string;
 }
 
 export interface SocialProvider {
@@ -65,9 +152,18 @@ export interface AuthMetadata {
   userId: string;
 }
 
+export interface AuthInterceptorOptions {
+  getToken: () => string | null;
+  // A 401 outside an active session (e.g. a failed login) is passed through
+  hasSession: () => boolean;
+  // Resolves true once a new token is in place
+  refreshSession: () => Promise<boolean>;
+}
+
 // Navigation types for auth flow
 export interface AuthStackParamList {
   Login: undefined;
   AcceptInvitation: { token: string };
-  ForgotPassword: undefined;
+  ForgotPassword: { email?: string };
+  ResetPassword: { token: string; email?: string };
 }
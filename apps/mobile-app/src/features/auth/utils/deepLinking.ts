@@ -1,13 +1,98 @@
 import * as Linking from 'expo-linking';
 import { router } from 'expo-router';
+import { Alert } from 'react-native';
+import { z } from 'zod';
+
+import {
+  type DeepLinkHandler,
+  DeepLinkRegistry,
+  defineDeepLink,
+  matchDeepLink,
+} from '@/lib/deep-links';
+
+import { useAuthStore } from '../stores/authStore';
+import type { OAuthRedirect } from '../types';
+
+export interface PasswordResetLink {
+  token: string;
+  email?: string;
+}
+
+const linkToken = z.string().regex(/^[a-f0-9]{64}$/i);
+
+const invitationLink = defineDeepLink({
+  path: '/invitations/:token/accept',
+  params: z.object({ token: linkToken }),
+  auth: 'signed-out',
+  route: ({ token }) => `/(auth)/accept-invitation?token=${token}`,
+});
+
+// The link in invitation emails, as the API builds it
+const emailedInvitationLink = defineDeepLink({
+  ...invitationLink,
+  path: '/accept-invitation/:token',
+});
+
+const passwordResetLink = defineDeepLink({
+  path: '/password/reset/:token',
+  params: z.object({ token: linkToken, email: z.string().optional() }),
+  auth: 'signed-out',
+  route: ({ token, email }) => ({
+    pathname: '/(auth)/reset-password',
+    params: { token, email: email ?? '' },
+  }),
+});
+
+const oauthCallbackLink = defineDeepLink({
+  path: '/oauth/callback',
+  params: z
+    .object({
+      code: z.string().optional(),
+      state: z.string().optional(),
+      error: z.string().optional(),
+      error_description: z.string().optional(),
+    })
+    .transform(
+      (params): OAuthRedirect => ({
+        code: params.code,
+        state: params.state,
+        error: params.error,
+        errorDescription: params.error_description,
+      })
+    ),
+  // Handled by the sign-in in progress
+  handle: (redirect) => DeepLinkingService.onOAuthCallback(redirect),
+});
 
 /**
- * Deep linking utility for handling invitation URLs
+ * Deep linking utility for handling invitation, password reset and OAuth
+ * callback URLs, and any links features `register`
  * Updated for expo-router instead of React Navigation
  */
 export class DeepLinkingService {
-  private static readonly INVITATION_URL_PATTERN =
-    /\/invitations\/([a-f0-9]{64})\/accept/i;
+  private static readonly OAUTH_CALLBACK_PATH = 'oauth/callback';
+
+  private static readonly registry = new DeepLinkRegistry([
+    oauthCallbackLink,
+    invitationLink,
+    emailedInvitationLink,
+    passwordResetLink,
+  ]);
+
+  private static oauthCallbackHandler:
+    | ((redirect: OAuthRedirect) => void)
+    | null = null;
+
+  // Links that arrived before the app could open them
+  private static pendingUrls: string[] = [];
+
+  /**
+   * Add links for the app to open, e.g. a feature's own screens
+   * @returns A function that removes them again
+   */
+  static register(...handlers: DeepLinkHandler[]): () => void {
+    return this.registry.register(...handlers);
+  }
 
   /**
    * Parse invitation token from URL
@@ -16,8 +101,10 @@ export class DeepLinkingService {
    */
   static parseInvitationToken(url: string): string | null {
     try {
-      const match = url.match(this.INVITATION_URL_PATTERN);
-      return match ? match[1] : null;
+      const link =
+        matchDeepLink(invitationLink, url) ??
+        matchDeepLink(emailedInvitationLink, url);
+      return link?.token ?? null;
     } catch (error) {
       console.warn('Failed to parse invitation URL:', error);
       return null;
@@ -30,25 +117,98 @@ export class DeepLinkingService {
    * @returns True if the URL is a valid invitation URL
    */
   static isValidInvitationUrl(url: string): boolean {
-    return this.INVITATION_URL_PATTERN.test(url);
+    return this.parseInvitationToken(url) !== null;
+  }
+
+  /**
+   * Parse the token and address from a password reset email's link
+   * @param url The reset URL
+   * @returns The reset token and email, or null if not a reset link
+   */
+  static parsePasswordResetLink(url: string): PasswordResetLink | null {
+    return matchDeepLink(passwordResetLink, url);
+  }
+
+  /**
+   * The app URL social login providers redirect back to
+   */
+  static getOAuthRedirectUri(): string {
+    return Linking.createURL(this.OAUTH_CALLBACK_PATH);
+  }
+
+  /**
+   * Parse the OAuth redirect parameters, from the query or the fragment
+   * @param url The incoming URL
+   * @returns The redirect parameters or null if not an OAuth callback
+   */
+  static parseOAuthCallback(url: string): OAuthRedirect | null {
+    return matchDeepLink(oauthCallbackLink, url);
+  }
+
+  /**
+   * Receive OAuth redirects that arrive as deep links, e.g. on Android
+   * @param handler Called with each redirect, or null to stop listening
+   */
+  static setOAuthCallbackHandler(
+    handler: ((redirect: OAuthRedirect) => void) | null
+  ): void {
+    this.oauthCallbackHandler = handler;
+  }
+
+  /**
+   * Pass a redirect to the sign-in in progress, if any
+   * @param redirect The redirect parameters
+   */
+  static onOAuthCallback(redirect: OAuthRedirect): void {
+    this.oauthCallbackHandler?.(redirect);
   }
 
   /**
-   * Handle incoming URLs and route appropriately using expo-router
+   * Whether the app opens a screen for this URL itself, rather than
+   * leaving it to expo-router
    * @param url The incoming URL
-   * @returns True if URL was handled, false otherwise
+   */
+  static opensScreenFor(url: string): boolean {
+    return Boolean(this.registry.match(url)?.handler.route);
+  }
+
+  /**
+   * Handle incoming URLs and route appropriately using expo-router. Links
+   * that open a screen are held until the stored session has been
+   * restored, and signed-in screens until the user has signed in, so the
+   * auth layouts don't redirect away from them. Signed-out screens, like
+   * invitations, can't open over a session, so the user is told to sign
+   * out first.
+   * @param url The incoming URL
+   * @returns True if URL was handled or queued, false otherwise
    */
   static handleIncomingUrl(url: string): boolean {
     try {
-      const token = this.parseInvitationToken(url);
+      const match = this.registry.match(url);
 
-      if (token) {
-        // Navigate to invitation acceptance screen using expo-router
-        router.push(`/(auth)/accept-invitation?token=${token}`);
-        return true;
+      if (!match) {
+        return false;
       }
 
-      return false;
+      const { handler, params } = match;
+      const { isHydrated, isAuthenticated } = useAuthStore.getState();
+
+      if (handler.handle) {
+        handler.handle(params);
+      } else if (!isHydrated) {
+        this.queue(url);
+      } else if (handler.auth === 'signed-out' && isAuthenticated) {
+        // The auth screens redirect signed-in users straight back
+        Alert.alert(
+          'Already signed in',
+          'Sign out of this account, then open the link again.'
+        );
+      } else if (handler.auth === 'signed-in' && !isAuthenticated) {
+        this.queue(url);
+      } else {
+        router.push(handler.route!(params));
+      }
+      return true;
     } catch (error) {
       console.warn('Failed to handle incoming URL:', error);
       return false;
@@ -75,9 +235,17 @@ export class DeepLinkingService {
       }
     });
 
+    // Open queued links once the session is restored or signed in
+    const unsubscribeAuth = useAuthStore.subscribe(() => {
+      if (this.pendingUrls.length) {
+        this.openPendingUrls();
+      }
+    });
+
     // Return cleanup function
     return () => {
       urlSubscription?.remove();
+      unsubscribeAuth();
     };
   }
 
@@ -118,6 +286,18 @@ export class DeepLinkingService {
     }
   }
 
+  private static queue(url: string): void {
+    if (!this.pendingUrls.includes(url)) {
+      this.pendingUrls.push(url);
+    }
+  }
+
+  private static openPendingUrls(): void {
+    const urls = this.pendingUrls;
+    this.pendingUrls = [];
+    urls.forEach((url) => this.handleIncomingUrl(url));
+  }
+
   /**
    * Parse URL parameters from invitation URL using expo-linking
    * @param url The URL to parse
@@ -138,6 +318,8 @@ export const useDeepLinking = () => {
       DeepLinkingService.parseInvitationToken(url),
     isValidInvitationUrl: (url: string) =>
       DeepLinkingService.isValidInvitationUrl(url),
+    parsePasswordResetLink: (url: string) =>
+      DeepLinkingService.parsePasswordResetLink(url),
     handleIncomingUrl: (url: string) =>
       DeepLinkingService.handleIncomingUrl(url),
     setupListeners: () => DeepLinkingService.setupDeepLinkListeners(),
@@ -1,2 +1,4 @@
 export * from './deepLinking';
+export * from './password-strength';
 export * from './passwordValidation';
+export * from './pkce';
@@ -0,0 +1,448 @@
+/**
+ * Password strength estimation in the style of zxcvbn: a password is only
+ * as strong as the cheapest way to guess it, so it is split into the
+ * patterns an attacker would try first (common words, keyboard walks,
+ * sequences, repeats, dates and the user's own details), each costed in
+ * guesses, with anything left over costed as brute force.
+ */
+
+export type PasswordPatternType =
+  | 'dictionary'
+  | 'user-input'
+  | 'keyboard'
+  | 'sequence'
+  | 'repeat'
+  | 'date';
+
+export interface PasswordStrengthEstimate {
+  // 0 (too guessable) to 4 (very unguessable)
+  score: 0 | 1 | 2 | 3 | 4;
+  guessesLog10: number;
+  crackTimes: {
+    // A throttled login form, 100 guesses an hour
+    onlineThrottled: string;
+    // A leaked database of slow hashes, 10k guesses a second
+    offlineSlowHash: string;
+  };
+  warning: string | null;
+  suggestions: string[];
+}
+
+interface PatternMatch {
+  type: PasswordPatternType;
+  start: number;
+  end: number; // exclusive
+  guesses: number;
+}
+
+// Most common first; a word's guesses grow with its position
+const COMMON_WORDS = [
+  'password',
+  'qwerty',
+  'letmein',
+  'welcome',
+  'admin',
+  'login',
+  'iloveyou',
+  'monkey',
+  'dragon',
+  'football',
+  'baseball',
+  'sunshine',
+  'princess',
+  'master',
+  'shadow',
+  'superman',
+  'batman',
+  'trustno',
+  'hello',
+  'freedom',
+  'whatever',
+  'secret',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'love',
+  'pass',
+  'test',
+  'user',
+  'guest',
+  'change',
+  'temp',
+  'default',
+  'company',
+  'office',
+  'checkright',
+  'inspection',
+  'safety',
+  'access',
+  'computer',
+  'internet',
+  'flower',
+  'cheese',
+  'soccer',
+  'hockey',
+  'charlie',
+  'michael',
+  'jordan',
+  'thomas',
+  'jessica',
+  'ashley',
+  'daniel',
+  'matthew',
+  'andrew',
+  'london',
+  'january',
+  'february',
+  'march',
+  'april',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const KEYBOARD_ROWS = [
+  '`1234567890-=',
+  'qwertyuiop[]\\',
+  "asdfghjkl;'",
+  'zxcvbnm,./',
+  '1qaz2wsx3edc4rfv5tgb6yhn7ujm8ik9ol0p',
+  'qazwsxedcrfvtgbyhnujmik,ol.p;/',
+];
+
+const LEET: Record<string, string> = {
+  '@': 'a',
+  '4': 'a',
+  '8': 'b',
+  '(': 'c',
+  '3': 'e',
+  '6': 'g',
+  '1': 'i',
+  '!': 'i',
+  '|': 'l',
+  '0': 'o',
+  $: 's',
+  '5': 's',
+  '7': 't',
+  '+': 't',
+  '2': 'z',
+};
+
+const MIN_MATCH_LENGTH = 3;
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2049;
+
+const SECONDS_PER_GUESS = {
+  onlineThrottled: 3600 / 100,
+  offlineSlowHash: 1 / 1e4,
+};
+
+const unleet = (text: string) =>
+  Array.from(text, (char) => LEET[char] ?? char).join('');
+
+// Capitalization other than all lower case doubles the guesses, at most
+const caseVariations = (token: string) =>
+  token === token.toLowerCase() ? 1 : 2;
+
+const leetVariations = (token: string) =>
+  Array.from(token).some((char) => char in LEET) ? 2 : 1;
+
+const charsetSize = (password: string) =>
+  (/[a-z]/.test(password) ? 26 : 0) +
+  (/[A-Z]/.test(password) ? 26 : 0) +
+  (/\d/.test(password) ? 10 : 0) +
+  (/[^a-zA-Z\d]/.test(password) ? 33 : 0);
+
+/**
+ * Words from the user's name, email and company, e.g. `jane@acme.com`
+ * gives `jane` and `acme`
+ */
+export function toUserInputWords(inputs: (string | null | undefined)[]) {
+  return inputs
+    .flatMap((input) => (input ?? '').toLowerCase().split(/[^a-z0-9]+/))
+    .filter(
+      (word) =>
+        word.length >= MIN_MATCH_LENGTH &&
+        !['com', 'net', 'org', 'www', 'mail'].includes(word)
+    );
+}
+
+function findWords(
+  password: string,
+  words: string[],
+  type: PasswordPatternType
+) {
+  const normalized = unleet(password.toLowerCase());
+  const matches: PatternMatch[] = [];
+
+  words.forEach((word, rank) => {
+    let start = normalized.indexOf(word);
+    while (start !== -1) {
+      const token = password.slice(start, start + word.length);
+      matches.push({
+        type,
+        start,
+        end: start + word.length,
+        guesses: (rank + 1) * caseVariations(token) * leetVariations(token),
+      });
+      start = normalized.indexOf(word, start + 1);
+    }
+  });
+  return matches;
+}
+
+// Runs of at least three characters where each step is `isStep`
+function findRuns(
+  password: string,
+  isStep: (previous: string, next: string) => boolean,
+  toMatch: (start: number, end: number) => PatternMatch
+) {
+  const matches: PatternMatch[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= password.length; i++) {
+    if (i < password.length && isStep(password[i - 1], password[i])) {
+      continue;
+    }
+    if (i - start >= MIN_MATCH_LENGTH) {
+      matches.push(toMatch(start, i));
+    }
+    start = i;
+  }
+  return matches;
+}
+
+function findKeyboardWalks(password: string) {
+  const lower = password.toLowerCase();
+  const isAdjacent = (previous: string, next: string) =>
+    KEYBOARD_ROWS.some((row) => {
+      const index = row.indexOf(previous);
+      return (
+        index !== -1 && (row[index + 1] === next || row[index - 1] === next)
+      );
+    });
+
+  return findRuns(lower, isAdjacent, (start, end) => ({
+    type: 'keyboard',
+    start,
+    end,
+    guesses: 100 * (end - start),
+  }));
+}
+
+function findSequences(password: string) {
+  const step = (previous: string, next: string) =>
+    next.charCodeAt(0) - previous.charCodeAt(0);
+
+  return [1, -1].flatMap((direction) =>
+    findRuns(
+      password.toLowerCase(),
+      (previous, next) => step(previous, next) === direction,
+      (start, end) => ({
+        type: 'sequence' as const,
+        start,
+        end,
+        guesses: 26 * (end - start),
+      })
+    )
+  );
+}
+
+function findRepeats(password: string) {
+  const matches: PatternMatch[] = [];
+  const repeat = /(.+?)\1+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = repeat.exec(password)) !== null) {
+    if (match[0].length >= MIN_MATCH_LENGTH) {
+      const unit = match[1];
+      const count = match[0].length / unit.length;
+      matches.push({
+        type: 'repeat',
+        start: match.index,
+        end: match.index + match[0].length,
+        guesses: Math.pow(charsetSize(unit), unit.length) * count,
+      });
+    }
+  }
+  return matches;
+}
+
+function findDates(password: string) {
+  const matches: PatternMatch[] = [];
+  const digits = /\d{4,8}/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = digits.exec(password)) !== null) {
+    for (let i = 0; i + 4 <= match[0].length; i++) {
+      const year = Number(match[0].slice(i, i + 4));
+      if (year >= MIN_YEAR && year <= MAX_YEAR) {
+        // Covers a whole run like 19052001 as day, month and year
+        const isFullDate = match[0].length >= 6;
+        matches.push({
+          type: 'date',
+          start: isFullDate ? match.index : match.index + i,
+          end: isFullDate ? match.index + match[0].length : match.index + i + 4,
+          guesses: isFullDate
+            ? 365 * (MAX_YEAR - MIN_YEAR)
+            : MAX_YEAR - MIN_YEAR,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * The cheapest way to guess the whole password: each position is either
+ * the end of a pattern or one brute-forced character
+ */
+function cheapestCover(password: string, matches: PatternMatch[]) {
+  const perChar = Math.log10(charsetSize(password) || 1);
+  const best: { cost: number; match: PatternMatch | null }[] = [
+    { cost: 0, match: null },
+  ];
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { cost: best[end - 1].cost + perChar, match: null };
+    for (const match of matches.filter((item) => item.end === end)) {
+      const cost = best[match.start].cost + Math.log10(match.guesses);
+      if (cost < best[end].cost) {
+        best[end] = { cost, match };
+      }
+    }
+  }
+
+  const used: PatternMatch[] = [];
+  for (let end = password.length; end > 0; ) {
+    const { match } = best[end];
+    if (match) {
+      used.unshift(match);
+      end = match.start;
+    } else {
+      end -= 1;
+    }
+  }
+  return { guessesLog10: best[password.length].cost, used };
+}
+
+function toScore(guessesLog10: number): PasswordStrengthEstimate['score'] {
+  if (guessesLog10 < 3) return 0;
+  if (guessesLog10 < 6) return 1;
+  if (guessesLog10 < 8) return 2;
+  if (guessesLog10 < 10) return 3;
+  return 4;
+}
+
+/**
+ * A crack time in words, e.g. "3 hours" or "centuries"
+ */
+export function formatCrackTime(seconds: number): string {
+  const units: [string, number][] = [
+    ['year', 365 * 24 * 3600],
+    ['month', 31 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60],
+    ['second', 1],
+  ];
+
+  if (seconds < 1) return 'less than a second';
+  if (seconds >= 100 * units[0][1]) return 'centuries';
+
+  const [unit, size] = units.find(([, length]) => seconds >= length)!;
+  const count = Math.round(seconds / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+const FEEDBACK: Record<
+  PasswordPatternType,
+  { warning: string; suggestion: string }
+> = {
+  dictionary: {
+    warning: 'Common words and passwords are easy to guess',
+    suggestion:
+      "Predictable changes like 'P@ssword' or a capital first letter don't help much",
+  },
+  'user-input': {
+    warning: 'Passwords based on your name, email or company are easy to guess',
+    suggestion: 'Avoid your name, email and company name',
+  },
+  keyboard: {
+    warning: 'Rows of keys like "qwerty" are easy to guess',
+    suggestion: 'Avoid keyboard patterns',
+  },
+  sequence: {
+    warning: 'Sequences like "abc" or "6543" are easy to guess',
+    suggestion: 'Avoid sequences of letters or numbers',
+  },
+  repeat: {
+    warning: 'Repeats like "aaa" or "abcabc" are easy to guess',
+    suggestion: 'Avoid repeated words and characters',
+  },
+  date: {
+    warning: 'Dates and years are easy to guess',
+    suggestion: 'Avoid dates and years that are associated with you',
+  },
+};
+
+function getFeedback(score: number, used: PatternMatch[]) {
+  const patterns = [...used].sort(
+    (a, b) => b.end - b.start - (a.end - a.start)
+  );
+  const suggestions = [
+    ...new Set(patterns.map((match) => FEEDBACK[match.type].suggestion)),
+  ];
+
+  if (score >= 3) {
+    return { warning: null, suggestions: [] };
+  }
+  return {
+    warning: patterns.length ? FEEDBACK[patterns[0].type].warning : null,
+    suggestions: [
+      'Add another word or two. Uncommon words are better.',
+      ...suggestions,
+    ],
+  };
+}
+
+/**
+ * Estimate how hard a password is to guess
+ * @param password The password to rate
+ * @param userInputs The user's name, email, company and the like, which
+ * make a password easy to guess for anyone who knows them
+ */
+export function estimatePasswordStrength(
+  password: string,
+  userInputs: (string | null | undefined)[] = []
+): PasswordStrengthEstimate {
+  const matches = [
+    ...findWords(password, COMMON_WORDS, 'dictionary'),
+    ...findWords(password, toUserInputWords(userInputs), 'user-input'),
+    ...findKeyboardWalks(password),
+    ...findSequences(password),
+    ...findRepeats(password),
+    ...findDates(password),
+  ];
+  const { guessesLog10, used } = cheapestCover(password, matches);
+  const score = toScore(guessesLog10);
+
+  return {
+    score,
+    guessesLog10,
+    crackTimes: {
+      onlineThrottled: formatCrackTime(
+        Math.pow(10, guessesLog10) * SECONDS_PER_GUESS.onlineThrottled
+      ),
+      offlineSlowHash: formatCrackTime(
+        Math.pow(10, guessesLog10) * SECONDS_PER_GUESS.offlineSlowHash
+      ),
+    },
+    ...getFeedback(score, used),
+  };
+}
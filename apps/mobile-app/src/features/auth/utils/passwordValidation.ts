@@ -1,3 +1,22 @@
+import { z } from 'zod';
+
+import type { PasswordPolicy } from '../types';
+import { estimatePasswordStrength } from './password-strength';
+
+/**
+ * The rules used until the tenant's policy has been fetched, and whenever
+ * it can't be
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_numbers: true,
+  require_symbols: true,
+  uncompromised: false,
+  history: 0,
+};
+
 export interface PasswordValidationResult {
   isValid: boolean;
   errors: string[];
@@ -14,8 +33,20 @@ export interface PasswordStrengthIndicator {
   progress: number;
   label: string;
   color: string;
+  // How long a leaked hash of it would take to crack, e.g. "3 days"
+  crackTime: string | null;
+  warning: string | null;
+  suggestions: string[];
 }
 
+const STRENGTH_LEVELS = [
+  { label: 'Very Weak', color: 'rgb(239, 68, 68)' }, // red-500
+  { label: 'Weak', color: 'rgb(251, 146, 60)' }, // orange-400
+  { label: 'Fair', color: 'rgb(251, 191, 36)' }, // amber-400
+  { label: 'Good', color: 'rgb(34, 197, 94)' }, // green-500
+  { label: 'Strong', color: 'rgb(34, 197, 94)' }, // green-500
+];
+
 export interface PasswordStrengthScore {
   score: number;
   label: string;
@@ -24,11 +55,12 @@ export interface PasswordStrengthScore {
 
 /**
  * Password validation utility class
- * Validates passwords according to Laravel Password::defaults() rules
+ * Validates passwords against the tenant's password policy, falling back
+ * to `DEFAULT_PASSWORD_POLICY`. The breached-password and reuse checks
+ * need the server, so they are only listed as requirements here.
  * Enhanced for mobile-app with modern color palette
  */
 export class PasswordValidator {
-  private static readonly MIN_LENGTH = 8;
   private static readonly UPPERCASE_REGEX = /[A-Z]/;
   private static readonly LOWERCASE_REGEX = /[a-z]/;
   private static readonly NUMBER_REGEX = /\d/;
@@ -38,10 +70,13 @@ export class PasswordValidator {
   /**
    * Validates password and returns detailed validation result
    */
-  static validate(password: string): PasswordValidationResult {
+  static validate(
+    password: string,
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+  ): PasswordValidationResult {
     const errors: string[] = [];
 
-    const minLength = password.length >= this.MIN_LENGTH;
+    const minLength = password.length >= policy.min_length;
     const hasUppercase = this.UPPERCASE_REGEX.test(password);
     const hasLowercase = this.LOWERCASE_REGEX.test(password);
     const hasNumbers = this.NUMBER_REGEX.test(password);
@@ -49,19 +84,19 @@ export class PasswordValidator {
 
     if (!minLength) {
       errors.push(
-        `Password must be at least ${this.MIN_LENGTH} characters long`
+        `Password must be at least ${policy.min_length} characters long`
       );
     }
-    if (!hasUppercase) {
+    if (policy.require_uppercase && !hasUppercase) {
       errors.push('Password must contain at least one uppercase letter');
     }
-    if (!hasLowercase) {
+    if (policy.require_lowercase && !hasLowercase) {
       errors.push('Password must contain at least one lowercase letter');
     }
-    if (!hasNumbers) {
+    if (policy.require_numbers && !hasNumbers) {
       errors.push('Password must contain at least one number');
     }
-    if (!hasSpecialChars) {
+    if (policy.require_symbols && !hasSpecialChars) {
       errors.push('Password must contain at least one special character');
     }
 
@@ -81,56 +116,57 @@ export class PasswordValidator {
   /**
    * Checks if password meets minimum requirements
    */
-  static meetsMinimumRequirements(password: string): boolean {
-    return this.validate(password).isValid;
+  static meetsMinimumRequirements(
+    password: string,
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+  ): boolean {
+    return this.validate(password, policy).isValid;
   }
 
   /**
-   * Gets password strength indicator for UI display with modern colors
+   * Gets password strength indicator for UI display with modern colors,
+   * rated by how guessable the password is rather than which character
+   * classes it has
+   * @param userInputs The user's name, email and the like
    */
-  static getStrengthIndicator(password: string): PasswordStrengthIndicator {
+  static getStrengthIndicator(
+    password: string,
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+    userInputs: (string | null | undefined)[] = []
+  ): PasswordStrengthIndicator {
     if (!password) {
-      return { progress: 0, label: 'Very Weak', color: 'rgb(239, 68, 68)' }; // red-500
+      return {
+        ...STRENGTH_LEVELS[0],
+        progress: 0,
+        crackTime: null,
+        warning: null,
+        suggestions: [],
+      };
     }
 
-    const validation = this.validate(password);
-    const requirements = validation.requirements;
-    const score = Object.values(requirements).filter(Boolean).length;
-
-    const progress = score / 5;
-
-    let label: string;
-    let color: string;
-
-    if (score <= 1) {
-      label = 'Very Weak';
-      color = 'rgb(239, 68, 68)'; // red-500
-    } else if (score <= 2) {
-      label = 'Weak';
-      color = 'rgb(251, 146, 60)'; // orange-400
-    } else if (score <= 3) {
-      label = 'Fair';
-      color = 'rgb(251, 191, 36)'; // amber-400
-    } else if (score <= 4) {
-      label = 'Good';
-      color = 'rgb(34, 197, 94)'; // green-500
-    } else {
-      label = 'Strong';
-      color = 'rgb(34, 197, 94)'; // green-500
-    }
+    const estimate = estimatePasswordStrength(password, userInputs);
+    // A password the policy rejects is never rated above Weak
+    const score = this.validate(password, policy).isValid
+      ? estimate.score
+      : Math.min(estimate.score, 1);
 
-    return { progress, label, color };
+    return {
+      ...STRENGTH_LEVELS[score],
+      progress: (score + 1) / STRENGTH_LEVELS.length,
+      crackTime: estimate.crackTimes.offlineSlowHash,
+      warning: estimate.warning,
+      suggestions: estimate.suggestions,
+    };
   }
 
   /**
    * Gets password strength as simple string
    */
   static getPasswordStrength(password: string): 'weak' | 'medium' | 'strong' {
-    const validation = this.validate(password);
-    const score = Object.values(validation.requirements).filter(Boolean).length;
+    const { score } = estimatePasswordStrength(password);
 
-    if (score < 3) return 'weak';
-    if (score < 5) return 'medium';
+    if (score < 2) return 'weak';
+    if (score < 4) return 'medium';
     return 'strong';
   }
 
@@ -142,41 +178,16 @@ export class PasswordValidator {
       return { score: 0, label: 'Very Weak', color: 'rgb(220, 38, 38)' }; // red-600
     }
 
-    const validation = this.validate(password);
-    const requirements = validation.requirements;
-
-    // Custom scoring logic to match test expectations
-    let score = 0;
-    if (requirements.hasLowercase || requirements.hasUppercase) score += 1;
-    if (requirements.hasUppercase && requirements.hasLowercase) score += 1;
-    if (requirements.hasNumbers) score += 1;
-    if (requirements.hasSpecialChars) score += 1;
-    if (requirements.minLength) score = Math.max(score, 1); // Ensure minimum length contributes
-
-    let label: string;
-    let color: string;
-
-    if (score === 0) {
-      label = 'Very Weak';
-      color = 'rgb(220, 38, 38)'; // red-600
-    } else if (score === 1) {
-      label = 'Weak';
-      color = 'rgb(234, 88, 12)'; // orange-600
-    } else if (score === 2) {
-      label = 'Fair';
-      color = 'rgb(217, 119, 6)'; // amber-600
-    } else if (score === 3) {
-      label = 'Fair';
-      color = 'rgb(217, 119, 6)'; // amber-600
-    } else if (score === 4) {
-      label = 'Strong';
-      color = 'rgb(22, 163, 74)'; // green-600
-    } else {
-      label = 'Strong';
-      color = 'rgb(22, 163, 74)'; // green-600
-    }
+    const { score } = estimatePasswordStrength(password);
+    const levels = [
+      { label: 'Very Weak', color: 'rgb(220, 38, 38)' }, // red-600
+      { label: 'Weak', color: 'rgb(234, 88, 12)' }, // orange-600
+      { label: 'Fair', color: 'rgb(217, 119, 6)' }, // amber-600
+      { label: 'Good', color: 'rgb(22, 163, 74)' }, // green-600
+      { label: 'Strong', color: 'rgb(22, 163, 74)' }, // green-600
+    ];
 
-    return { score, label, color };
+    return { score, ...levels[score] };
   }
 
   /**
@@ -190,13 +201,34 @@ export class PasswordValidator {
   /**
    * Gets list of password requirements
    */
-  static getRequirements(): string[] {
+  static getRequirements(
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+  ): string[] {
     return [
-      `At least ${this.MIN_LENGTH} characters long`,
-      'One uppercase letter (A-Z)',
-      'One lowercase letter (a-z)',
-      'One number (0-9)',
-      'One special character (!@#$%^&*)',
-    ];
+      `At least ${policy.min_length} characters long`,
+      policy.require_uppercase && 'One uppercase letter (A-Z)',
+      policy.require_lowercase && 'One lowercase letter (a-z)',
+      policy.require_numbers && 'One number (0-9)',
+      policy.require_symbols && 'One special character (!@#$%^&*)',
+      policy.uncompromised && 'Not found in a known data breach',
+      policy.history > 0 &&
+        (policy.history === 1
+          ? 'Different from your last password'
+          : `Different from your last ${policy.history} passwords`),
+    ].filter((requirement): requirement is string => !!requirement);
   }
 }
+
+/**
+ * Zod schema for a new password under `policy`, reporting the first rule
+ * it breaks
+ */
+export const createPasswordSchema = (
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+) =>
+  z.string().superRefine((password, ctx) => {
+    const [error] = PasswordValidator.validate(password, policy).errors;
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
@@ -0,0 +1,27 @@
+import * as Crypto from 'expo-crypto';
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * A PKCE verifier and its S256 challenge (RFC 7636). The challenge goes
+ * out with the authorization request and the verifier with the code
+ * exchange, so an intercepted code is useless on its own.
+ */
+export async function createPkcePair(): Promise<PkcePair> {
+  const codeVerifier = toBase64Url(await Crypto.getRandomBytesAsync(32));
+  const digest = await Crypto.digest(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    new TextEncoder().encode(codeVerifier)
+  );
+
+  return { codeVerifier, codeChallenge: toBase64Url(new Uint8Array(digest)) };
+}
@@ -0,0 +1,65 @@
+import { getDeviceTrust, getLastUsedLabel } from '../utils/device-status';
+
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+const inMs = (ms: number) => new Date(NOW + ms).toISOString();
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('getDeviceTrust', () => {
+  it('shows when trust ends', () => {
+    const trust = getDeviceTrust(
+      { is_trusted: true, trusted_until: inMs(10 * DAY) },
+      NOW
+    );
+
+    expect(trust.state).toBe('trusted');
+    expect(trust.label).toMatch(/^Trusted until .*2024/);
+  });
+
+  it('reports lapsed trust as expired', () => {
+    const trust = getDeviceTrust(
+      { is_trusted: true, trusted_until: inMs(-MINUTE) },
+      NOW
+    );
+
+    expect(trust.state).toBe('expired');
+    expect(trust.label).toMatch(/^Trust expired /);
+  });
+
+  it('treats trust without an end date as open-ended', () => {
+    expect(
+      getDeviceTrust({ is_trusted: true, trusted_until: null }, NOW)
+    ).toEqual({ state: 'trusted', label: 'Trusted' });
+  });
+
+  it('ignores the end date of untrusted devices', () => {
+    expect(
+      getDeviceTrust({ is_trusted: false, trusted_until: inMs(DAY) }, NOW)
+    ).toEqual({ state: 'untrusted', label: 'Not trusted' });
+  });
+});
+
+describe('getLastUsedLabel', () => {
+  it('shows recently used devices as active', () => {
+    expect(getLastUsedLabel(inMs(-2 * MINUTE), NOW)).toBe('Active now');
+  });
+
+  it('counts minutes, hours and days', () => {
+    expect(getLastUsedLabel(inMs(-20 * MINUTE), NOW)).toBe(
+      'Last used 20 min ago'
+    );
+    expect(getLastUsedLabel(inMs(-HOUR), NOW)).toBe('Last used 1 hour ago');
+    expect(getLastUsedLabel(inMs(-3 * DAY), NOW)).toBe('Last used 3 days ago');
+  });
+
+  it('falls back to the date after a month', () => {
+    expect(getLastUsedLabel(inMs(-45 * DAY), NOW)).toMatch(/^Last used .*2024/);
+  });
+
+  it('handles devices that were never used', () => {
+    expect(getLastUsedLabel(null, NOW)).toBe('Never used');
+    expect(getLastUsedLabel('not a date', NOW)).toBe('Never used');
+  });
+});
@@ -0,0 +1,87 @@
+import React from 'react';
+
+import type { RegisteredDevice } from '@/api/devices/types';
+import { Button, Text, View } from '@/components/ui';
+
+import { getDeviceTrust, getLastUsedLabel } from '../utils/device-status';
+
+type Props = {
+  device: RegisteredDevice;
+  now: number;
+  isCurrent: boolean;
+  disabled: boolean;
+  onTrust: (device: RegisteredDevice) => void;
+  onUntrust: (device: RegisteredDevice) => void;
+  onRemove: (device: RegisteredDevice) => void;
+};
+
+const TRUST_COLORS = {
+  trusted: 'text-success-600',
+  expired: 'text-danger-600',
+  untrusted: 'text-neutral-500',
+};
+
+export const DeviceItem = ({
+  device,
+  now,
+  isCurrent,
+  disabled,
+  onTrust,
+  onUntrust,
+  onRemove,
+}: Props) => {
+  const trust = getDeviceTrust(device, now);
+
+  return (
+    <View
+      className="mx-3 my-1.5 rounded-xl border border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-neutral-900"
+      testID={`device-${device.device_id}`}
+    >
+      <View className="flex-row items-start">
+        <View className="flex-1">
+          <Text className="font-semibold">{device.device_info_string}</Text>
+          <Text className={`text-sm ${TRUST_COLORS[trust.state]}`}>
+            {trust.label}
+          </Text>
+          <Text className="text-xs text-neutral-500">
+            {getLastUsedLabel(device.last_used_at, now)}
+          </Text>
+        </View>
+        {isCurrent ? (
+          <Text className="text-xs uppercase text-primary-600">
+            This device
+          </Text>
+        ) : null}
+      </View>
+      <View className="mt-2 flex-row gap-2">
+        {trust.state === 'trusted' ? (
+          <Button
+            label="Untrust"
+            size="sm"
+            variant="outline"
+            disabled={disabled}
+            onPress={() => onUntrust(device)}
+          />
+        ) : (
+          <Button
+            label={trust.state === 'expired' ? 'Renew trust' : 'Trust'}
+            size="sm"
+            variant="outline"
+            disabled={disabled}
+            onPress={() => onTrust(device)}
+          />
+        )}
+        {/* Removing the device in hand would leave this session unusable */}
+        {!isCurrent ? (
+          <Button
+            label="Remove"
+            size="sm"
+            variant="ghost"
+            disabled={disabled}
+            onPress={() => onRemove(device)}
+          />
+        ) : null}
+      </View>
+    </View>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+
+import type {
+  DeviceSecurityStatus,
+  SecurityRecommendation,
+} from '@/api/devices/types';
+import { Text, View } from '@/components/ui';
+
+type Props = {
+  status: DeviceSecurityStatus;
+};
+
+const PRIORITY_COLORS: Record<SecurityRecommendation['priority'], string> = {
+  high: 'text-danger-600',
+  medium: 'text-warning-600',
+  low: 'text-neutral-500',
+};
+
+// Score as a percentage
+const scoreColor = (score: number) => {
+  if (score >= 80) {
+    return 'text-success-600';
+  }
+  return score >= 50 ? 'text-warning-600' : 'text-danger-600';
+};
+
+/**
+ * Security score and recommendations for the device in hand
+ */
+export const SecurityStatusCard = ({ status }: Props) => {
+  const score = Math.round(status.security_score * 100);
+
+  return (
+    <View
+      className="mx-3 my-1.5 rounded-xl border border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-neutral-900"
+      testID="device-security-status"
+    >
+      <View className="flex-row items-center">
+        <Text className="flex-1 font-semibold">This device</Text>
+        <Text className={`text-lg font-bold ${scoreColor(score)}`}>
+          {score}%
+        </Text>
+      </View>
+      <Text className="text-xs text-neutral-500">Security score</Text>
+      {status.recommendations.map((recommendation) => (
+        <Text
+          key={recommendation.type}
+          className={`mt-1 text-sm ${PRIORITY_COLORS[recommendation.priority]}`}
+        >
+          • {recommendation.message}
+        </Text>
+      ))}
+    </View>
+  );
+};
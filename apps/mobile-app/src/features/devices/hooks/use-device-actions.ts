@@ -0,0 +1,150 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { showMessage } from 'react-native-flash-message';
+
+import type { RegisteredDevice } from '@/api/devices/types';
+import {
+  useRemoveDevice,
+  useRevokeDeviceTrust,
+  useTrustDevice,
+} from '@/api/devices/use-device-actions';
+import { useDeviceSecurityStatus } from '@/api/devices/use-device-security-status';
+import { useDevices } from '@/api/devices/use-devices';
+import { useIdentityConfirmation } from '@/features/auth/hooks/use-identity-confirmation';
+import { biometricAuth } from '@/lib/biometric-auth';
+
+// The device endpoints report failures as `error`
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.error || error?.response?.data?.message || fallback;
+
+type ConfirmAction = { text: string; style: 'default' | 'destructive' };
+
+const confirm = (title: string, message: string, action: ConfirmAction) =>
+  new Promise<boolean>((resolve) =>
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { ...action, onPress: () => resolve(true) },
+    ])
+  );
+
+/**
+ * Ask for Face ID, fingerprint or the device passcode where the device has
+ * them set up, otherwise the account password. `verifyIdentity` resolves
+ * to how the user was verified, or null if they were not.
+ */
+function useIdentityVerification() {
+  const { confirmIdentity, passwordModal } = useIdentityConfirmation();
+
+  const verifyIdentity = async (operation: string) => {
+    const method = (await biometricAuth.isAvailable())
+      ? ('biometric' as const)
+      : ('password' as const);
+    return (await confirmIdentity(operation)) ? method : null;
+  };
+
+  return { verifyIdentity, passwordModal };
+}
+
+/**
+ * Runs a device mutation, showing the outcome and refreshing the device
+ * list and security status either way
+ */
+function useDeviceMutationRunner() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async (
+      request: () => Promise<unknown>,
+      success: string,
+      fallback: string
+    ) => {
+      try {
+        await request();
+        showMessage({ message: success, type: 'success' });
+      } catch (error) {
+        Alert.alert('Error', getErrorMessage(error, fallback));
+      } finally {
+        queryClient.invalidateQueries({ queryKey: useDevices.getKey() });
+        queryClient.invalidateQueries({
+          queryKey: useDeviceSecurityStatus.getKey(),
+        });
+      }
+    },
+    [queryClient]
+  );
+}
+
+/**
+ * Trust, untrust and remove actions for registered devices, each confirmed
+ * with biometrics or the password before it reaches the server. Render
+ * `PasswordConfirmationModal` with `passwordModal` for the password.
+ */
+export function useDeviceActions() {
+  const run = useDeviceMutationRunner();
+  const { verifyIdentity, passwordModal } = useIdentityVerification();
+  const trust = useTrustDevice();
+  const revokeTrust = useRevokeDeviceTrust();
+  const remove = useRemoveDevice();
+
+  const trustDevice = async (device: RegisteredDevice) => {
+    const confirmed = await confirm(
+      'Trust device',
+      `${device.device_info_string} will be allowed to perform sensitive actions on your account.`,
+      { text: 'Trust', style: 'default' }
+    );
+    const verified = confirmed && (await verifyIdentity('trust this device'));
+    if (!verified) {
+      return;
+    }
+    await run(
+      () =>
+        trust.mutateAsync({
+          deviceId: device.device_id,
+          verificationMethod: verified,
+        }),
+      `${device.device_info_string} is now trusted`,
+      'Failed to trust device'
+    );
+  };
+
+  const untrustDevice = async (device: RegisteredDevice) => {
+    const confirmed = await confirm(
+      'Stop trusting device',
+      `${device.device_info_string} will need to be trusted again before it can be used for sensitive actions.`,
+      { text: 'Untrust', style: 'destructive' }
+    );
+    if (!confirmed || !(await verifyIdentity('untrust this device'))) {
+      return;
+    }
+    await run(
+      () => revokeTrust.mutateAsync({ deviceId: device.device_id }),
+      `${device.device_info_string} is no longer trusted`,
+      'Failed to untrust device'
+    );
+  };
+
+  const removeDevice = async (device: RegisteredDevice) => {
+    const confirmed = await confirm(
+      'Remove device',
+      `${device.device_info_string} will be removed from your account and has to register again before it can be trusted.`,
+      { text: 'Remove', style: 'destructive' }
+    );
+    if (!confirmed || !(await verifyIdentity('remove this device'))) {
+      return;
+    }
+    await run(
+      () => remove.mutateAsync({ deviceId: device.device_id }),
+      `${device.device_info_string} was removed`,
+      'Failed to remove device'
+    );
+  };
+
+  return {
+    isPending: trust.isPending || revokeTrust.isPending || remove.isPending,
+    trustDevice,
+    untrustDevice,
+    removeDevice,
+    passwordModal,
+  };
+}
@@ -0,0 +1,4 @@
+// Devices feature exports
+export * from './components';
+export * from './hooks';
+export * from './utils';
@@ -0,0 +1,72 @@
+import type { RegisteredDevice } from '@/api/devices/types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export type DeviceTrust = {
+  state: 'trusted' | 'expired' | 'untrusted';
+  label: string;
+};
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+/**
+ * Trust state for a device, e.g. "Trusted until 12 Mar 2025"
+ */
+export function getDeviceTrust(
+  device: Pick<RegisteredDevice, 'is_trusted' | 'trusted_until'>,
+  now: number = Date.now()
+): DeviceTrust {
+  if (!device.is_trusted) {
+    return { state: 'untrusted', label: 'Not trusted' };
+  }
+
+  const until = device.trusted_until
+    ? new Date(device.trusted_until).getTime()
+    : NaN;
+
+  // Trust without an end date does not expire
+  if (Number.isNaN(until)) {
+    return { state: 'trusted', label: 'Trusted' };
+  }
+  if (until <= now) {
+    return { state: 'expired', label: `Trust expired ${formatDate(until)}` };
+  }
+  return { state: 'trusted', label: `Trusted until ${formatDate(until)}` };
+}
+
+/**
+ * When a device was last used, e.g. "Last used 3 days ago"
+ */
+export function getLastUsedLabel(
+  lastUsedAt: string | null,
+  now: number = Date.now()
+): string {
+  const elapsed = lastUsedAt ? now - new Date(lastUsedAt).getTime() : NaN;
+
+  if (Number.isNaN(elapsed)) {
+    return 'Never used';
+  }
+  if (elapsed < 5 * MINUTE) {
+    return 'Active now';
+  }
+  if (elapsed < HOUR) {
+    return `Last used ${Math.floor(elapsed / MINUTE)} min ago`;
+  }
+  if (elapsed < DAY) {
+    const hours = Math.floor(elapsed / HOUR);
+    return `Last used ${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+  }
+
+  const days = Math.floor(elapsed / DAY);
+  if (days < 30) {
+    return `Last used ${days} ${days === 1 ? 'day' : 'days'} ago`;
+  }
+  return `Last used ${formatDate(now - elapsed)}`;
+}
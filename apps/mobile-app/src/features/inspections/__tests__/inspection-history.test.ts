@@ -0,0 +1,85 @@
+import type { QueuedSubmission } from '../types';
+import {
+  filterQueuedSubmissions,
+  getSubmissionOutcome,
+  inferQuestionType,
+  toHistoryParams,
+} from '../utils/inspection-history';
+
+const now = new Date('2025-03-31T12:00:00.000Z');
+
+const makeQueued = (
+  id: string,
+  overrides: { assetId?: string; createdAt?: string; passed?: boolean } = {}
+): QueuedSubmission =>
+  ({
+    id,
+    status: 'pending',
+    createdAt: overrides.createdAt ?? '2025-03-30T12:00:00.000Z',
+    submission: {
+      client_submission_id: id,
+      asset_id: overrides.assetId ?? 'asset-1',
+      checklist_template_id: 'template-1',
+      answers: [{ question_id: 'q1', value: overrides.passed ?? true }],
+    },
+  }) as QueuedSubmission;
+
+describe('toHistoryParams', () => {
+  it('should omit unset filters', () => {
+    expect(toHistoryParams({ range: 'all' }, now)).toEqual({});
+  });
+
+  it('should map asset, outcome and date range', () => {
+    expect(
+      toHistoryParams(
+        { assetId: 'asset-1', outcome: 'failed', range: '7d' },
+        now
+      )
+    ).toEqual({
+      asset_id: 'asset-1',
+      status: 'failed',
+      submitted_from: '2025-03-24T12:00:00.000Z',
+    });
+  });
+});
+
+describe('queued history', () => {
+  it('should fail a submission with any failed item', () => {
+    expect(
+      getSubmissionOutcome([
+        { question_id: 'q1', value: true },
+        { question_id: 'q2', value: false },
+      ])
+    ).toBe('failed');
+    expect(getSubmissionOutcome([{ question_id: 'q1', value: 'ok' }])).toBe(
+      'passed'
+    );
+  });
+
+  it('should apply the same filters to queued submissions', () => {
+    const items = [
+      makeQueued('match'),
+      makeQueued('other-asset', { assetId: 'asset-2' }),
+      makeQueued('failed', { passed: false }),
+      makeQueued('old', { createdAt: '2025-01-01T00:00:00.000Z' }),
+    ];
+
+    const result = filterQueuedSubmissions(
+      items,
+      { assetId: 'asset-1', outcome: 'passed', range: '30d' },
+      now
+    );
+
+    expect(result.map((item) => item.id)).toEqual(['match']);
+  });
+
+  it('should infer question types when the template is unavailable', () => {
+    expect(inferQuestionType({ question_id: 'q', value: true })).toBe(
+      'pass_fail'
+    );
+    expect(
+      inferQuestionType({ question_id: 'q', value: null, photo_ids: ['p'] })
+    ).toBe('photo');
+    expect(inferQuestionType({ question_id: 'q', value: 'text' })).toBe('text');
+  });
+});
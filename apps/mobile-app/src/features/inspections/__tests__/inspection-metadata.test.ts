@@ -0,0 +1,118 @@
+import * as Location from 'expo-location';
+
+import { deviceFingerprintService } from '@/lib/device-fingerprint';
+
+import {
+  captureLocation,
+  inspectionMetadataCollector,
+} from '../services/inspection-metadata';
+import { useInspectionDrafts } from '../stores/inspection-drafts';
+
+jest.mock('expo-location', () => ({
+  Accuracy: { High: 4 },
+  hasServicesEnabledAsync: jest.fn(),
+  requestForegroundPermissionsAsync: jest.fn(),
+  getCurrentPositionAsync: jest.fn(),
+}));
+
+jest.mock('@/lib/device-fingerprint', () => ({
+  deviceFingerprintService: { getDeviceHash: jest.fn() },
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'draft-1'),
+}));
+
+const mockServicesEnabled = Location.hasServicesEnabledAsync as jest.Mock;
+const mockPermission = Location.requestForegroundPermissionsAsync as jest.Mock;
+const mockPosition = Location.getCurrentPositionAsync as jest.Mock;
+
+const position = {
+  timestamp: Date.parse('2025-01-01T10:00:00Z'),
+  coords: { latitude: -36.85, longitude: 174.76, accuracy: 12 },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockServicesEnabled.mockResolvedValue(true);
+  mockPermission.mockResolvedValue({ granted: true });
+  mockPosition.mockResolvedValue(position);
+  (deviceFingerprintService.getDeviceHash as jest.Mock).mockResolvedValue(
+    'abc123def456'
+  );
+  useInspectionDrafts.setState({ drafts: {} });
+});
+
+describe('captureLocation', () => {
+  it('should return coordinates with accuracy', async () => {
+    await expect(captureLocation()).resolves.toEqual({
+      status: 'captured',
+      latitude: -36.85,
+      longitude: 174.76,
+      accuracy: 12,
+      captured_at: '2025-01-01T10:00:00.000Z',
+    });
+  });
+
+  it('should report disabled location services', async () => {
+    mockServicesEnabled.mockResolvedValue(false);
+
+    await expect(captureLocation()).resolves.toMatchObject({
+      status: 'unavailable',
+      reason: 'services_disabled',
+    });
+  });
+
+  it('should report a denied permission', async () => {
+    mockPermission.mockResolvedValue({ granted: false });
+
+    await expect(captureLocation()).resolves.toMatchObject({
+      status: 'unavailable',
+      reason: 'permission_denied',
+    });
+    expect(mockPosition).not.toHaveBeenCalled();
+  });
+
+  it('should report errors without throwing', async () => {
+    mockPosition.mockRejectedValue(new Error('no fix'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(captureLocation()).resolves.toMatchObject({
+      status: 'unavailable',
+      reason: 'error',
+    });
+  });
+});
+
+describe('inspectionMetadataCollector', () => {
+  const template = { id: 'template-1', version: 1 };
+
+  it('should store the start location on the draft', async () => {
+    const draft = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', template);
+
+    inspectionMetadataCollector.start(draft);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(
+      useInspectionDrafts.getState().drafts['asset-1'].startLocation
+    ).toMatchObject({ status: 'captured', accuracy: 12 });
+  });
+
+  it('should assemble submission metadata on finish', async () => {
+    const draft = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', template);
+    mockPermission.mockResolvedValue({ granted: false });
+
+    const metadata = await inspectionMetadataCollector.finish(draft);
+
+    expect(metadata).toMatchObject({
+      started_at: draft.startedAt,
+      start_location: { status: 'unavailable', reason: 'error' },
+      end_location: { status: 'unavailable', reason: 'permission_denied' },
+      device_hash: 'abc123def456',
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { act, renderHook } from '@testing-library/react-native';
+
+import type { ChecklistTemplate } from '@/api/checklists/types';
+import type { InspectionSubmissionMetadata } from '@/api/inspections/types';
+
+import { useInspectionRunner } from '../hooks/use-inspection-runner';
+import { deleteDraftPhotos } from '../services/photo-processing';
+import { useInspectionDrafts } from '../stores/inspection-drafts';
+import {
+  buildSubmission,
+  getPageProgress,
+  validateAnswer,
+  validatePage,
+} from '../utils/checklist-validation';
+import {
+  buildReviewRows,
+  findFirstInvalidPage,
+} from '../utils/inspection-review';
+
+jest.mock('../services/inspection-metadata', () => ({
+  inspectionMetadataCollector: { start: jest.fn() },
+}));
+
+jest.mock('../services/photo-processing', () => ({
+  deleteDraftPhotos: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => {
+  let counter = 0;
+  return {
+    randomUUID: jest.fn(() => `draft-${++counter}`),
+  };
+});
+
+const template: ChecklistTemplate = {
+  id: 'template-1',
+  name: 'Daily vehicle check',
+  version: 1,
+  pages: [
+    {
+      id: 'page-1',
+      title: 'Exterior',
+      description: null,
+      questions: [
+        {
+          id: 'tyres',
+          type: 'pass_fail',
+          label: 'Tyres',
+          help_text: null,
+          required: true,
+          require_notes_on_fail: true,
+        },
+        {
+          id: 'comments',
+          type: 'text',
+          label: 'Comments',
+          help_text: null,
+          required: false,
+        },
+      ],
+    },
+    {
+      id: 'page-2',
+      title: 'Evidence',
+      description: null,
+      questions: [
+        {
+          id: 'dashboard',
+          type: 'photo',
+          label: 'Dashboard photo',
+          help_text: null,
+          required: true,
+        },
+      ],
+    },
+  ],
+};
+
+const [tyres, comments] = template.pages[0].questions;
+
+const metadata: InspectionSubmissionMetadata = {
+  started_at: '2025-01-01T10:00:00Z',
+  completed_at: '2025-01-01T10:05:00Z',
+  start_location: {
+    status: 'unavailable',
+    reason: 'timeout',
+    captured_at: '2025-01-01T10:00:00Z',
+  },
+  end_location: {
+    status: 'unavailable',
+    reason: 'timeout',
+    captured_at: '2025-01-01T10:05:00Z',
+  },
+  device_hash: 'abc123def456',
+};
+
+beforeEach(() => {
+  useInspectionDrafts.setState({ drafts: {} });
+});
+
+describe('validateAnswer', () => {
+  it('should require answers for required questions only', () => {
+    expect(validateAnswer(tyres)).toBe('This item is required');
+    expect(validateAnswer(comments)).toBeNull();
+  });
+
+  it('should require notes when a flagged item fails', () => {
+    expect(validateAnswer(tyres, { question_id: 'tyres', value: false })).toBe(
+      'Describe why this item failed'
+    );
+    expect(
+      validateAnswer(tyres, {
+        question_id: 'tyres',
+        value: false,
+        notes: 'Low tread',
+      })
+    ).toBeNull();
+  });
+
+  it('should collect errors for a whole page', () => {
+    expect(validatePage(template.pages[0], {})).toEqual({
+      tyres: 'This item is required',
+    });
+  });
+});
+
+describe('checklist helpers', () => {
+  it('should report page progress as a percentage', () => {
+    expect(getPageProgress(template, 0)).toBe(50);
+    expect(getPageProgress(template, 1)).toBe(100);
+  });
+
+  it('should build a submission in template order without skipped items', () => {
+    const draft = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', template);
+    const submission = buildSubmission(
+      template,
+      {
+        ...draft,
+        answers: {
+          dashboard: {
+            question_id: 'dashboard',
+            value: null,
+            photo_ids: ['photo-1'],
+          },
+          tyres: { question_id: 'tyres', value: true },
+        },
+      },
+      metadata
+    );
+
+    expect(submission.asset_id).toBe('asset-1');
+    expect(submission.metadata).toBe(metadata);
+    expect(submission.answers.map((answer) => answer.question_id)).toEqual([
+      'tyres',
+      'dashboard',
+    ]);
+  });
+});
+
+describe('inspection drafts', () => {
+  it('should resume an existing draft for the same template version', () => {
+    const first = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', template);
+    const second = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', template);
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it('should replace a draft recorded against an older template version', () => {
+    const first = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', template);
+    const second = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', { ...template, version: 2 });
+
+    expect(second.id).not.toBe(first.id);
+  });
+});
+
+describe('useInspectionRunner', () => {
+  it('should block navigation until the page is valid', () => {
+    const { result } = renderHook(() =>
+      useInspectionRunner('asset-1', template)
+    );
+
+    let step = '';
+    act(() => {
+      step = result.current.next();
+    });
+    expect(step).toBe('invalid');
+    expect(result.current.errors.tyres).toBe('This item is required');
+
+    act(() => result.current.setAnswer({ question_id: 'tyres', value: true }));
+    expect(result.current.errors.tyres).toBeUndefined();
+
+    act(() => {
+      step = result.current.next();
+    });
+    expect(step).toBe('advanced');
+    expect(result.current.pageIndex).toBe(1);
+    expect(useInspectionDrafts.getState().drafts['asset-1'].pageIndex).toBe(1);
+  });
+
+  it('should report completion from the last valid page', () => {
+    const { result } = renderHook(() =>
+      useInspectionRunner('asset-1', template)
+    );
+
+    act(() => result.current.setAnswer({ question_id: 'tyres', value: true }));
+    act(() => {
+      result.current.next();
+    });
+    act(() =>
+      result.current.setAnswer({
+        question_id: 'dashboard',
+        value: null,
+        photo_ids: ['photo-1'],
+      })
+    );
+
+    let step = '';
+    act(() => {
+      step = result.current.next();
+    });
+    expect(step).toBe('complete');
+  });
+
+  it('should delete the photos of a draft it replaces', () => {
+    const stale = useInspectionDrafts
+      .getState()
+      .startDraft('asset-1', { ...template, version: 0 });
+
+    renderHook(() => useInspectionRunner('asset-1', template));
+
+    expect(deleteDraftPhotos).toHaveBeenCalledWith(stale.id);
+  });
+});
+
+describe('inspection review', () => {
+  const answers = {
+    tyres: { question_id: 'tyres', value: false, notes: 'Worn' },
+  };
+
+  it('should group items under their page and flag failures', () => {
+    const rows = buildReviewRows(template, answers);
+
+    expect(rows.map((row) => row.key)).toEqual([
+      'page-page-1',
+      'item-tyres',
+      'item-comments',
+      'page-page-2',
+      'item-dashboard',
+    ]);
+    expect(rows[1]).toMatchObject({ state: 'failed', error: null });
+    expect(rows[4]).toMatchObject({
+      state: 'unanswered',
+      pageIndex: 1,
+      error: 'This item is required',
+    });
+  });
+
+  it('should point at the first page that still needs attention', () => {
+    expect(findFirstInvalidPage(template, {})).toBe(0);
+    expect(findFirstInvalidPage(template, answers)).toBe(1);
+    expect(
+      findFirstInvalidPage(template, {
+        ...answers,
+        dashboard: {
+          question_id: 'dashboard',
+          value: null,
+          photo_ids: ['photo-1'],
+        },
+      })
+    ).toBe(-1);
+  });
+});
@@ -0,0 +1,204 @@
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+
+import {
+  completePhotoUpload,
+  createPhotoUpload,
+  getPhotoUpload,
+  uploadPhotoChunk,
+} from '@/api/inspections/photo-uploads';
+
+import {
+  deleteSubmissionPhotos,
+  getResizeTarget,
+  parseExifTimestamp,
+} from '../services/photo-processing';
+import { photoUploadService } from '../services/photo-upload';
+import { useInspectionPhotos } from '../stores/inspection-photos';
+import type { InspectionPhoto } from '../types';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(),
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { Base64: 'base64' },
+  readAsStringAsync: jest.fn(),
+  deleteAsync: jest.fn(),
+}));
+
+jest.mock('expo-image-manipulator', () => ({
+  ImageManipulator: { manipulate: jest.fn() },
+  SaveFormat: { JPEG: 'jpeg' },
+}));
+
+jest.mock('@/api/inspections/use-submit-inspection', () => ({
+  submitInspection: jest.fn(),
+}));
+
+jest.mock('@/api/inspections/photo-uploads', () => ({
+  createPhotoUpload: jest.fn(),
+  getPhotoUpload: jest.fn(),
+  uploadPhotoChunk: jest.fn(),
+  completePhotoUpload: jest.fn(),
+}));
+
+const mockCreate = createPhotoUpload as jest.Mock;
+const mockGet = getPhotoUpload as jest.Mock;
+const mockChunk = uploadPhotoChunk as jest.Mock;
+const mockComplete = completePhotoUpload as jest.Mock;
+const mockRead = FileSystem.readAsStringAsync as jest.Mock;
+
+const makePhoto = (overrides: Partial<InspectionPhoto> = {}) => {
+  const photo: InspectionPhoto = {
+    id: 'photo-1',
+    draftId: 'draft-1',
+    submissionId: 'submission-1',
+    uri: 'file:///documents/inspection-photos/draft-1/photo-1.jpg',
+    width: 1600,
+    height: 1200,
+    size: 10,
+    capturedAt: '2025-01-01T10:00:00.000Z',
+    status: 'queued',
+    uploadId: null,
+    uploadedBytes: 0,
+    attempts: 0,
+    lastError: null,
+    ...overrides,
+  };
+  useInspectionPhotos.getState().addPhoto(photo);
+  return photo;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  useInspectionPhotos.setState({ photos: {} });
+  (NetInfo.fetch as jest.Mock).mockResolvedValue({
+    isConnected: true,
+    isInternetReachable: true,
+  });
+  mockRead.mockResolvedValue('AAAA');
+  mockChunk.mockImplementation((_id, chunk) =>
+    Promise.resolve({
+      upload_id: 'upload-1',
+      chunk_size: 4,
+      received_bytes: Math.min(chunk.offset + 4, 10),
+    })
+  );
+  mockComplete.mockResolvedValue(undefined);
+});
+
+describe('photoUploadService', () => {
+  it('should upload a queued photo in chunks and clean up', async () => {
+    makePhoto();
+    mockCreate.mockResolvedValue({
+      upload_id: 'upload-1',
+      chunk_size: 4,
+      received_bytes: 0,
+    });
+
+    await expect(photoUploadService.sync()).resolves.toBe(1);
+
+    expect(mockChunk.mock.calls.map(([, chunk]) => chunk.offset)).toEqual([
+      0, 4, 8,
+    ]);
+    expect(mockRead).toHaveBeenLastCalledWith(expect.any(String), {
+      encoding: 'base64',
+      position: 8,
+      length: 2,
+    });
+    expect(mockComplete).toHaveBeenCalledWith('upload-1');
+    expect(FileSystem.deleteAsync).toHaveBeenCalled();
+    expect(useInspectionPhotos.getState().photos).toEqual({});
+  });
+
+  it('should resume an existing session from the server offset', async () => {
+    makePhoto({ uploadId: 'upload-1', uploadedBytes: 4 });
+    mockGet.mockResolvedValue({
+      upload_id: 'upload-1',
+      chunk_size: 4,
+      received_bytes: 8,
+    });
+
+    await photoUploadService.sync();
+
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockChunk).toHaveBeenCalledTimes(1);
+    expect(mockChunk.mock.calls[0][1].offset).toBe(8);
+  });
+
+  it('should leave draft photos alone', async () => {
+    makePhoto({ status: 'draft', submissionId: null });
+
+    await expect(photoUploadService.sync()).resolves.toBe(0);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('should keep the photo queued after a network failure', async () => {
+    makePhoto();
+    mockCreate.mockRejectedValue(new Error('Network Error'));
+
+    await photoUploadService.sync();
+
+    expect(useInspectionPhotos.getState().photos['photo-1']).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      lastError: 'Network Error',
+    });
+  });
+});
+
+describe('photoUploadService cleanup and retry', () => {
+  beforeEach(() => {
+    mockCreate.mockResolvedValue({
+      upload_id: 'upload-1',
+      chunk_size: 4,
+      received_bytes: 0,
+    });
+  });
+
+  it('should stop uploading photos of a discarded inspection', async () => {
+    makePhoto();
+    makePhoto({ id: 'photo-2', draftId: 'draft-2', submissionId: 'other' });
+    mockChunk.mockImplementationOnce(async () => {
+      await deleteSubmissionPhotos('submission-1');
+      return { upload_id: 'upload-1', chunk_size: 4, received_bytes: 4 };
+    });
+
+    await expect(photoUploadService.sync()).resolves.toBe(1);
+
+    expect(mockComplete).toHaveBeenCalledTimes(1);
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith(
+      'file:///documents/inspection-photos/draft-1/',
+      { idempotent: true }
+    );
+    expect(useInspectionPhotos.getState().photos).toEqual({});
+  });
+
+  it('should upload failed photos again when asked', async () => {
+    makePhoto({ status: 'failed', attempts: 5, lastError: 'Rejected' });
+
+    await expect(photoUploadService.sync()).resolves.toBe(0);
+    await expect(photoUploadService.retryFailed()).resolves.toBe(1);
+
+    expect(mockComplete).toHaveBeenCalledWith('upload-1');
+  });
+});
+
+describe('photo processing helpers', () => {
+  it('should parse EXIF capture timestamps as local time', () => {
+    expect(
+      parseExifTimestamp({ DateTimeOriginal: '2025:03:04 05:06:07' })
+    ).toBe(new Date(2025, 2, 4, 5, 6, 7).toISOString());
+    expect(parseExifTimestamp({})).toBeNull();
+    expect(parseExifTimestamp(null)).toBeNull();
+  });
+
+  it('should only downscale images beyond the maximum dimension', () => {
+    expect(getResizeTarget(1200, 900)).toBeNull();
+    expect(getResizeTarget(4032, 3024)).toEqual({ width: 1600 });
+    expect(getResizeTarget(3024, 4032)).toEqual({ height: 1600 });
+  });
+});
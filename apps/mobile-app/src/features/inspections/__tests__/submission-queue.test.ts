@@ -0,0 +1,195 @@
+import NetInfo from '@react-native-community/netinfo';
+import { act } from '@testing-library/react-native';
+
+import { submitInspection } from '@/api/inspections/use-submit-inspection';
+
+import {
+  classifySubmissionError,
+  getRetryDelay,
+  submissionSyncService,
+} from '../services/submission-sync';
+import { useSubmissionQueue } from '../stores/submission-queue';
+import type { InspectionSubmissionInput } from '../types';
+
+jest.mock('expo-crypto', () => {
+  let counter = 0;
+  return {
+    randomUUID: jest.fn(() => `uuid-${++counter}`),
+  };
+});
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(),
+}));
+
+jest.mock('@/api/inspections/use-submit-inspection', () => ({
+  submitInspection: jest.fn(),
+}));
+
+const mockFetch = NetInfo.fetch as jest.Mock;
+const mockSubmit = submitInspection as jest.Mock;
+
+const buildSubmission = (assetId: string): InspectionSubmissionInput => ({
+  asset_id: assetId,
+  checklist_template_id: 'template-1',
+  answers: [{ question_id: 'q1', value: true }],
+  metadata: {
+    started_at: '2025-01-01T10:00:00Z',
+    completed_at: '2025-01-01T10:05:00Z',
+    start_location: {
+      status: 'unavailable',
+      reason: 'permission_denied',
+      captured_at: '2025-01-01T10:00:00Z',
+    },
+    end_location: {
+      status: 'unavailable',
+      reason: 'permission_denied',
+      captured_at: '2025-01-01T10:05:00Z',
+    },
+    device_hash: 'abc123def456',
+  },
+});
+
+const httpError = (status: number, message = 'Server said no') => ({
+  response: { status, data: { message } },
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers();
+  act(() => {
+    useSubmissionQueue.setState({ items: [] });
+  });
+  mockFetch.mockResolvedValue({
+    isConnected: true,
+    isInternetReachable: true,
+  });
+  mockSubmit.mockResolvedValue({ id: 'server-1' });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('SubmissionQueue store', () => {
+  it('should enqueue submissions as pending with a client id', () => {
+    const item = useSubmissionQueue
+      .getState()
+      .enqueue(buildSubmission('asset-1'));
+
+    expect(item.status).toBe('pending');
+    expect(item.submission.client_submission_id).toBe(item.id);
+    expect(useSubmissionQueue.getState().items).toHaveLength(1);
+  });
+
+  it('should reset items interrupted mid-sync back to pending', () => {
+    const item = useSubmissionQueue
+      .getState()
+      .enqueue(buildSubmission('asset-1'));
+    useSubmissionQueue.getState().setStatus(item.id, 'syncing');
+
+    useSubmissionQueue.getState().resetInFlight();
+
+    expect(useSubmissionQueue.getState().items[0].status).toBe('pending');
+  });
+});
+
+describe('SubmissionSyncService draining', () => {
+  it('should replay submissions in the order they were queued', async () => {
+    const queue = useSubmissionQueue.getState();
+    queue.enqueue(buildSubmission('asset-1'));
+    queue.enqueue(buildSubmission('asset-2'));
+
+    const result = await submissionSyncService.sync();
+
+    expect(result).toEqual({ synced: 2, remaining: 0 });
+    expect(mockSubmit.mock.calls.map(([s]) => s.asset_id)).toEqual([
+      'asset-1',
+      'asset-2',
+    ]);
+  });
+
+  it('should not send anything while offline', async () => {
+    mockFetch.mockResolvedValue({ isConnected: false });
+    useSubmissionQueue.getState().enqueue(buildSubmission('asset-1'));
+
+    const result = await submissionSyncService.sync();
+
+    expect(mockSubmit).not.toHaveBeenCalled();
+    expect(result.remaining).toBe(1);
+  });
+});
+
+describe('SubmissionSyncService failures', () => {
+  it('should keep later items queued behind a retrying one', async () => {
+    const queue = useSubmissionQueue.getState();
+    queue.enqueue(buildSubmission('asset-1'));
+    queue.enqueue(buildSubmission('asset-2'));
+    mockSubmit.mockRejectedValueOnce(httpError(503));
+
+    await submissionSyncService.sync();
+
+    const [first, second] = useSubmissionQueue.getState().items;
+    expect(mockSubmit).toHaveBeenCalledTimes(1);
+    expect(first.status).toBe('pending');
+    expect(first.attempts).toBe(1);
+    expect(first.nextAttemptAt).not.toBeNull();
+    expect(second.status).toBe('pending');
+  });
+
+  it('should flag conflicts and continue with the rest', async () => {
+    const queue = useSubmissionQueue.getState();
+    queue.enqueue(buildSubmission('asset-1'));
+    queue.enqueue(buildSubmission('asset-2'));
+    mockSubmit.mockRejectedValueOnce(httpError(409, 'Already submitted'));
+
+    const result = await submissionSyncService.sync();
+
+    const [conflicted] = useSubmissionQueue.getState().items;
+    expect(result).toEqual({ synced: 1, remaining: 1 });
+    expect(conflicted.status).toBe('conflict');
+    expect(conflicted.lastError).toBe('Already submitted');
+  });
+
+  it('should mark rejected submissions as failed', async () => {
+    useSubmissionQueue.getState().enqueue(buildSubmission('asset-1'));
+    mockSubmit.mockRejectedValueOnce(httpError(422));
+
+    await submissionSyncService.sync();
+
+    expect(useSubmissionQueue.getState().items[0].status).toBe('failed');
+  });
+
+  it('should share a single run between concurrent callers', async () => {
+    useSubmissionQueue.getState().enqueue(buildSubmission('asset-1'));
+
+    await Promise.all([
+      submissionSyncService.sync(),
+      submissionSyncService.sync(),
+    ]);
+
+    expect(mockSubmit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('classifySubmissionError', () => {
+  it('should retry network and server errors', () => {
+    expect(classifySubmissionError(new Error('Network Error'))).toBe('retry');
+    expect(classifySubmissionError(httpError(500))).toBe('retry');
+    expect(classifySubmissionError(httpError(401))).toBe('retry');
+  });
+
+  it('should treat validation errors as failures', () => {
+    expect(classifySubmissionError(httpError(422))).toBe('failed');
+    expect(classifySubmissionError(httpError(409))).toBe('conflict');
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially up to a ceiling', () => {
+    expect(getRetryDelay(1)).toBe(5000);
+    expect(getRetryDelay(2)).toBe(10000);
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
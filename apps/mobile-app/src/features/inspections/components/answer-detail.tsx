@@ -0,0 +1,61 @@
+import React from 'react';
+
+import type { InspectionAnswerValue } from '@/api/inspections/types';
+import { Image, Text, View } from '@/components/ui';
+
+type Props = {
+  label: string;
+  type: 'pass_fail' | 'text' | 'photo';
+  value: InspectionAnswerValue;
+  notes?: string | null;
+  photoUris: string[];
+};
+
+const formatValue = (type: Props['type'], value: InspectionAnswerValue) => {
+  if (type === 'pass_fail') return value ? 'Pass' : 'Fail';
+  if (type === 'photo') return null;
+  return value === null || value === '' ? '—' : String(value);
+};
+
+/**
+ * Read-only rendering of a single recorded answer
+ */
+export const AnswerDetail = ({
+  label,
+  type,
+  value,
+  notes,
+  photoUris,
+}: Props) => {
+  const text = formatValue(type, value);
+  const failed = type === 'pass_fail' && value === false;
+
+  return (
+    <View className="border-b border-neutral-200 py-3 dark:border-neutral-800">
+      <View className="flex-row justify-between">
+        <Text className="flex-1 font-medium">{label}</Text>
+        {text !== null ? (
+          <Text
+            className={`ml-2 ${failed ? 'font-semibold text-danger-600' : ''}`}
+          >
+            {text}
+          </Text>
+        ) : null}
+      </View>
+      {notes ? (
+        <Text className="mt-1 text-sm text-neutral-600">{notes}</Text>
+      ) : null}
+      {photoUris.length > 0 ? (
+        <View className="mt-2 flex-row flex-wrap gap-2">
+          {photoUris.map((uri) => (
+            <Image
+              key={uri}
+              className="size-24 rounded-lg bg-neutral-200"
+              source={{ uri }}
+            />
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+};
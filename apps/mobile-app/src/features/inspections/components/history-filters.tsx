@@ -0,0 +1,65 @@
+import React from 'react';
+
+import type { OptionType } from '@/components/ui';
+import { Select, View } from '@/components/ui';
+
+import type { HistoryDateRange, HistoryFilterState } from '../types';
+import {
+  HISTORY_OUTCOME_OPTIONS,
+  HISTORY_RANGE_OPTIONS,
+} from '../utils/inspection-history';
+
+type Props = {
+  filters: HistoryFilterState;
+  assetOptions: OptionType[];
+  onChange: (filters: HistoryFilterState) => void;
+};
+
+export const HistoryFilters = ({ filters, assetOptions, onChange }: Props) => {
+  return (
+    <View className="px-3 pt-3">
+      <Select
+        label="Asset"
+        value={filters.assetId ?? 'all'}
+        options={[{ label: 'All assets', value: 'all' }, ...assetOptions]}
+        onSelect={(value) =>
+          onChange({
+            ...filters,
+            assetId: value === 'all' ? undefined : String(value),
+          })
+        }
+        testID="history-asset-filter"
+      />
+      <View className="flex-row gap-3">
+        <View className="flex-1">
+          <Select
+            label="Submitted"
+            value={filters.range}
+            options={HISTORY_RANGE_OPTIONS}
+            onSelect={(value) =>
+              onChange({ ...filters, range: value as HistoryDateRange })
+            }
+            testID="history-range-filter"
+          />
+        </View>
+        <View className="flex-1">
+          <Select
+            label="Result"
+            value={filters.outcome ?? 'all'}
+            options={HISTORY_OUTCOME_OPTIONS}
+            onSelect={(value) =>
+              onChange({
+                ...filters,
+                outcome:
+                  value === 'all'
+                    ? undefined
+                    : (value as HistoryFilterState['outcome']),
+              })
+            }
+            testID="history-outcome-filter"
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
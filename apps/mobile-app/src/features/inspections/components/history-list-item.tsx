@@ -0,0 +1,66 @@
+import { type Href, Link } from 'expo-router';
+import React from 'react';
+
+import type { InspectionOutcome } from '@/api/inspections/types';
+import { Pressable, Text, View } from '@/components/ui';
+
+import type { QueueItemStatus } from '../types';
+
+type Props = {
+  href: Href;
+  title: string;
+  date: string;
+  outcome: InspectionOutcome;
+  // Only set for submissions that haven't reached the server yet
+  queueStatus?: QueueItemStatus;
+};
+
+const queueLabels: Record<QueueItemStatus, string> = {
+  pending: 'Waiting to sync',
+  syncing: 'Syncing…',
+  failed: 'Sync failed',
+  conflict: 'Needs attention',
+};
+
+export const HistoryListItem = ({
+  href,
+  title,
+  date,
+  outcome,
+  queueStatus,
+}: Props) => {
+  return (
+    <Link href={href} asChild>
+      <Pressable>
+        <View className="mx-3 my-1.5 rounded-xl border border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-neutral-900">
+          <View className="flex-row items-center justify-between">
+            <Text className="flex-1 text-base font-semibold" numberOfLines={1}>
+              {title}
+            </Text>
+            <Text
+              className={`ml-2 text-sm font-semibold ${
+                outcome === 'failed' ? 'text-danger-600' : 'text-success-600'
+              }`}
+            >
+              {outcome === 'failed' ? 'Failed' : 'Passed'}
+            </Text>
+          </View>
+          <Text className="text-sm text-neutral-500">
+            {new Date(date).toLocaleString()}
+          </Text>
+          {queueStatus ? (
+            <Text
+              className={`mt-1 text-xs ${
+                queueStatus === 'failed' || queueStatus === 'conflict'
+                  ? 'text-danger-600'
+                  : 'text-warning-600'
+              }`}
+            >
+              {queueLabels[queueStatus]}
+            </Text>
+          ) : null}
+        </View>
+      </Pressable>
+    </Link>
+  );
+};
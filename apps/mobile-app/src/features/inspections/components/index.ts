@@ -0,0 +1,9 @@
+export * from './answer-detail';
+export * from './history-filters';
+export * from './history-list-item';
+export * from './metadata-summary';
+export * from './pass-fail-input';
+export * from './photo-input';
+export * from './question-field';
+export * from './review-item';
+export * from './submission-sync-provider';
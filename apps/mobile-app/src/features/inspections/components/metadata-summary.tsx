@@ -0,0 +1,45 @@
+import React from 'react';
+
+import type {
+  InspectionLocation,
+  InspectionSubmissionMetadata,
+} from '@/api/inspections/types';
+import { Text, View } from '@/components/ui';
+
+const formatLocation = (location: InspectionLocation) => {
+  if (location.status === 'unavailable') return 'Location unavailable';
+
+  const coords = `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`;
+  return location.accuracy !== null
+    ? `${coords} (±${Math.round(location.accuracy)} m)`
+    : coords;
+};
+
+const Row = ({ label, value }: { label: string; value: string }) => (
+  <View className="flex-row justify-between py-1">
+    <Text className="text-sm text-neutral-500">{label}</Text>
+    <Text className="ml-2 flex-1 text-right text-sm">{value}</Text>
+  </View>
+);
+
+export const MetadataSummary = ({
+  metadata,
+}: {
+  metadata: InspectionSubmissionMetadata;
+}) => (
+  <View className="my-3 rounded-xl bg-neutral-100 p-3 dark:bg-neutral-800">
+    <Row
+      label="Started"
+      value={new Date(metadata.started_at).toLocaleString()}
+    />
+    <Row
+      label="Completed"
+      value={new Date(metadata.completed_at).toLocaleString()}
+    />
+    <Row
+      label="Start location"
+      value={formatLocation(metadata.start_location)}
+    />
+    <Row label="End location" value={formatLocation(metadata.end_location)} />
+  </View>
+);
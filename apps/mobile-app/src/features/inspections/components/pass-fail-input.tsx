@@ -0,0 +1,63 @@
+import React from 'react';
+
+import { Pressable, Text, View } from '@/components/ui';
+
+type Props = {
+  value?: boolean;
+  onChange: (value: boolean) => void;
+  testID?: string;
+};
+
+const Option = ({
+  label,
+  selected,
+  tone,
+  onPress,
+  testID,
+}: {
+  label: string;
+  selected: boolean;
+  tone: 'success' | 'danger';
+  onPress: () => void;
+  testID?: string;
+}) => {
+  const selectedClass =
+    tone === 'success'
+      ? 'border-success-600 bg-success-600'
+      : 'border-danger-600 bg-danger-600';
+
+  return (
+    <Pressable
+      onPress={onPress}
+      testID={testID}
+      className={`flex-1 items-center rounded-xl border py-3 ${
+        selected ? selectedClass : 'border-neutral-300 dark:border-neutral-700'
+      }`}
+    >
+      <Text className={`font-semibold ${selected ? 'text-white' : ''}`}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+};
+
+export const PassFailInput = ({ value, onChange, testID }: Props) => {
+  return (
+    <View className="flex-row gap-3">
+      <Option
+        label="Pass"
+        tone="success"
+        selected={value === true}
+        onPress={() => onChange(true)}
+        testID={testID ? `${testID}-pass` : undefined}
+      />
+      <Option
+        label="Fail"
+        tone="danger"
+        selected={value === false}
+        onPress={() => onChange(false)}
+        testID={testID ? `${testID}-fail` : undefined}
+      />
+    </View>
+  );
+};
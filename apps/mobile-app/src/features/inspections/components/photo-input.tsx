@@ -0,0 +1,114 @@
+import * as ImagePicker from 'expo-image-picker';
+import React from 'react';
+import { Alert } from 'react-native';
+
+import { Button, Image, Pressable, Text, View } from '@/components/ui';
+
+import { deletePhoto, processPhoto } from '../services/photo-processing';
+import { useInspectionPhotos } from '../stores/inspection-photos';
+
+type Props = {
+  draftId: string;
+  photoIds: string[];
+  onChange: (photoIds: string[]) => void;
+  maxPhotos?: number;
+};
+
+type Source = 'camera' | 'library';
+
+const pickerOptions: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ['images'],
+  // Needed to recover the capture time before EXIF is stripped
+  exif: true,
+  quality: 1,
+};
+
+async function pickImage(source: Source) {
+  const permission =
+    source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    Alert.alert(
+      source === 'camera' ? 'Camera unavailable' : 'Photos unavailable',
+      'Allow access in Settings to attach photos.'
+    );
+    return null;
+  }
+
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(pickerOptions)
+      : await ImagePicker.launchImageLibraryAsync(pickerOptions);
+  return result.canceled ? null : result.assets[0];
+}
+
+export const PhotoInput = ({
+  draftId,
+  photoIds,
+  onChange,
+  maxPhotos,
+}: Props) => {
+  const photos = useInspectionPhotos.use.photos();
+  const [isProcessing, setIsProcessing] = React.useState(false);
+  const canAddMore = !maxPhotos || photoIds.length < maxPhotos;
+
+  const addPhoto = async (source: Source) => {
+    const asset = await pickImage(source);
+    if (!asset) return;
+
+    setIsProcessing(true);
+    try {
+      const photo = await processPhoto(asset, draftId);
+      onChange([...photoIds, photo.id]);
+    } catch (error) {
+      console.error('PhotoInput: Failed to process photo', error);
+      Alert.alert('Photo not saved', 'Please try taking the photo again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const removePhoto = (id: string) => {
+    onChange(photoIds.filter((item) => item !== id));
+    deletePhoto(id);
+  };
+
+  return (
+    <View>
+      <View className="flex-row flex-wrap gap-2">
+        {photoIds.map((id) => (
+          <Pressable key={id} onLongPress={() => removePhoto(id)}>
+            <Image
+              className="size-20 rounded-lg bg-neutral-200"
+              source={photos[id] ? { uri: photos[id].uri } : undefined}
+            />
+          </Pressable>
+        ))}
+      </View>
+      {photoIds.length > 0 ? (
+        <Text className="mt-1 text-xs text-neutral-500">
+          Long-press a photo to remove it
+        </Text>
+      ) : null}
+      {canAddMore ? (
+        <View className="flex-row gap-2">
+          <Button
+            className="flex-1"
+            label="Take photo"
+            variant="outline"
+            loading={isProcessing}
+            onPress={() => addPhoto('camera')}
+          />
+          <Button
+            className="flex-1"
+            label="From gallery"
+            variant="outline"
+            disabled={isProcessing}
+            onPress={() => addPhoto('library')}
+          />
+        </View>
+      ) : null}
+    </View>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+
+import type { ChecklistQuestion } from '@/api/checklists/types';
+import type { InspectionAnswerInput } from '@/api/inspections/types';
+import { Input, Text, View } from '@/components/ui';
+
+import { PassFailInput } from './pass-fail-input';
+import { PhotoInput } from './photo-input';
+
+type Props = {
+  draftId: string;
+  question: ChecklistQuestion;
+  answer?: InspectionAnswerInput;
+  error?: string;
+  onChange: (answer: InspectionAnswerInput) => void;
+};
+
+export const QuestionField = ({
+  draftId,
+  question,
+  answer,
+  error,
+  onChange,
+}: Props) => {
+  const update = (patch: Partial<InspectionAnswerInput>) =>
+    onChange({
+      question_id: question.id,
+      value: answer?.value ?? null,
+      ...answer,
+      ...patch,
+    });
+
+  return (
+    <View className="mb-5" testID={`question-${question.id}`}>
+      <Text className="mb-1 text-base font-semibold">
+        {question.label}
+        {question.required ? ' *' : ''}
+      </Text>
+      {question.help_text ? (
+        <Text className="mb-2 text-sm text-neutral-500">
+          {question.help_text}
+        </Text>
+      ) : null}
+
+      {question.type === 'pass_fail' ? (
+        <PassFailInput
+          value={typeof answer?.value === 'boolean' ? answer.value : undefined}
+          onChange={(value) => update({ value })}
+          testID={`question-${question.id}`}
+        />
+      ) : null}
+      {question.type === 'pass_fail' && answer?.value === false ? (
+        <Input
+          placeholder="What's wrong?"
+          value={answer.notes ?? ''}
+          onChangeText={(notes) => update({ notes })}
+          multiline
+        />
+      ) : null}
+      {question.type === 'text' ? (
+        <Input
+          value={typeof answer?.value === 'string' ? answer.value : ''}
+          onChangeText={(value) => update({ value })}
+          multiline
+        />
+      ) : null}
+      {question.type === 'photo' ? (
+        <PhotoInput
+          draftId={draftId}
+          photoIds={answer?.photo_ids ?? []}
+          onChange={(photo_ids) => update({ photo_ids })}
+          maxPhotos={question.max_photos}
+        />
+      ) : null}
+
+      {error ? (
+        <Text className="mt-1 text-sm text-danger-600">{error}</Text>
+      ) : null}
+    </View>
+  );
+};
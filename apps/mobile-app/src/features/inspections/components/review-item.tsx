@@ -0,0 +1,53 @@
+import React from 'react';
+
+import { Pressable, Text, View } from '@/components/ui';
+
+import type { ReviewRow } from '../types';
+import { formatAnswer } from '../utils/inspection-review';
+
+type Props = {
+  row: Extract<ReviewRow, { kind: 'item' }>;
+  onPress: (pageIndex: number) => void;
+};
+
+const stateClasses: Record<Props['row']['state'], string> = {
+  passed: 'text-success-600',
+  failed: 'text-danger-600',
+  answered: 'text-neutral-700 dark:text-neutral-200',
+  unanswered: 'text-warning-600',
+};
+
+export const ReviewItem = ({ row, onPress }: Props) => {
+  const highlighted = row.state === 'failed' || Boolean(row.error);
+
+  return (
+    <Pressable
+      onPress={() => onPress(row.pageIndex)}
+      testID={`review-item-${row.question.id}`}
+    >
+      <View
+        className={`mx-3 my-1 rounded-xl border p-3 ${
+          highlighted
+            ? 'border-danger-300 bg-danger-50 dark:bg-neutral-900'
+            : 'border-neutral-200 dark:border-neutral-700'
+        }`}
+      >
+        <View className="flex-row items-center justify-between">
+          <Text className="flex-1 font-medium">{row.question.label}</Text>
+          <Text className={`ml-2 font-semibold ${stateClasses[row.state]}`}>
+            {formatAnswer(row.question, row.answer)}
+          </Text>
+        </View>
+        {row.answer?.notes ? (
+          <Text className="mt-1 text-sm text-neutral-600">
+            {row.answer.notes}
+          </Text>
+        ) : null}
+        {row.error ? (
+          <Text className="mt-1 text-sm text-danger-600">{row.error}</Text>
+        ) : null}
+        <Text className="mt-1 text-xs text-neutral-400">Tap to edit</Text>
+      </View>
+    </Pressable>
+  );
+};
@@ -0,0 +1,29 @@
+import React, { useEffect } from 'react';
+
+import { photoUploadService } from '../services/photo-upload';
+import { submissionSyncService } from '../services/submission-sync';
+
+interface SubmissionSyncProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Provider component that keeps the offline inspection outbox and its
+ * photo uploads draining whenever connectivity returns or the app is
+ * foregrounded
+ */
+export function SubmissionSyncProvider({
+  children,
+}: SubmissionSyncProviderProps) {
+  useEffect(() => {
+    const stopSubmissions = submissionSyncService.start();
+    const stopPhotos = photoUploadService.start();
+
+    return () => {
+      stopSubmissions();
+      stopPhotos();
+    };
+  }, []);
+
+  return <>{children}</>;
+}
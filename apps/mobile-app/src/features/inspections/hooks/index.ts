@@ -0,0 +1,5 @@
+export * from './use-asset-checklist';
+export * from './use-complete-inspection';
+export * from './use-inspection-history';
+export * from './use-inspection-runner';
+export * from './use-submission-queue';
@@ -0,0 +1,21 @@
+import { useAsset } from '@/api/assets';
+import { useChecklistTemplate } from '@/api/checklists';
+
+/**
+ * Loads the checklist template assigned to an asset
+ */
+export function useAssetChecklist(assetId: string) {
+  const asset = useAsset({ variables: { id: assetId } });
+  const templateId = asset.data?.checklist_template_id;
+  const template = useChecklistTemplate({
+    variables: { id: templateId ?? '' },
+    enabled: Boolean(templateId),
+  });
+
+  return {
+    asset: asset.data,
+    template: template.data,
+    isUnavailable:
+      asset.isError || template.isError || Boolean(asset.data && !templateId),
+  };
+}
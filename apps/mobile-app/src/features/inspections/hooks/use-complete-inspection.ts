@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+
+import type { ChecklistTemplate } from '@/api/checklists/types';
+
+import { inspectionMetadataCollector } from '../services/inspection-metadata';
+import { photoUploadService } from '../services/photo-upload';
+import { submissionSyncService } from '../services/submission-sync';
+import { useInspectionDrafts } from '../stores/inspection-drafts';
+import { useInspectionPhotos } from '../stores/inspection-photos';
+import { enqueueSubmission } from '../stores/submission-queue';
+import type { InspectionDraft, QueuedSubmission } from '../types';
+import { buildSubmission } from '../utils/checklist-validation';
+
+/**
+ * Hands a finished draft to the submission outbox and clears it. Delivery
+ * and photo uploads happen in the background so it works the same offline.
+ */
+export function useCompleteInspection(template?: ChecklistTemplate) {
+  const discardDraft = useInspectionDrafts.use.discardDraft();
+  const attachPhotos = useInspectionPhotos.use.attachToSubmission();
+
+  return useCallback(
+    async (draft: InspectionDraft): Promise<QueuedSubmission | null> => {
+      if (!template) return null;
+
+      const metadata = await inspectionMetadataCollector.finish(draft);
+      const item = enqueueSubmission(
+        buildSubmission(template, draft, metadata)
+      );
+      attachPhotos(draft.id, item.submission.client_submission_id);
+      discardDraft(draft.assetId);
+      submissionSyncService.sync();
+      photoUploadService.sync();
+      return item;
+    },
+    [attachPhotos, discardDraft, template]
+  );
+}
@@ -0,0 +1,49 @@
+import { useMemo } from 'react';
+
+import { normalizePages } from '@/api/common/utils';
+import type { Inspection } from '@/api/inspections/types';
+import { useInspections } from '@/api/inspections/use-inspections';
+
+import { useSubmissionQueue } from '../stores/submission-queue';
+import type { HistoryFilterState, QueuedSubmission } from '../types';
+import {
+  filterQueuedSubmissions,
+  toHistoryParams,
+} from '../utils/inspection-history';
+
+export type HistoryRow =
+  | { kind: 'queued'; item: QueuedSubmission }
+  | { kind: 'submitted'; item: Inspection };
+
+/**
+ * Submission history with anything still in the offline outbox listed
+ * ahead of the server's pages
+ */
+export function useInspectionHistory(filters: HistoryFilterState) {
+  const params = useMemo(() => toHistoryParams(filters), [filters]);
+  const queue = useSubmissionQueue.use.items();
+  const query = useInspections({ variables: params });
+
+  const rows = useMemo<HistoryRow[]>(
+    () => [
+      ...filterQueuedSubmissions(queue, filters).map((item) => ({
+        kind: 'queued' as const,
+        item,
+      })),
+      ...normalizePages(query.data?.pages).map((item) => ({
+        kind: 'submitted' as const,
+        item,
+      })),
+    ],
+    [filters, query.data, queue]
+  );
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+  const loadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  return { ...query, rows, loadMore };
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import type { ChecklistTemplate } from '@/api/checklists/types';
+import type { InspectionAnswerInput } from '@/api/inspections/types';
+
+import { inspectionMetadataCollector } from '../services/inspection-metadata';
+import { deleteDraftPhotos } from '../services/photo-processing';
+import {
+  getInspectionDraft,
+  useInspectionDrafts,
+} from '../stores/inspection-drafts';
+import type { PageErrors, RunnerStepResult } from '../types';
+import {
+  getPageProgress,
+  validateAnswer,
+  validatePage,
+} from '../utils/checklist-validation';
+
+/**
+ * Resolves the persisted draft for the asset, creating it on first open
+ */
+function useRunnerDraft(assetId: string, template?: ChecklistTemplate) {
+  const draft = useInspectionDrafts.use.drafts()[assetId];
+  const startDraft = useInspectionDrafts.use.startDraft();
+
+  useEffect(() => {
+    if (!template) return;
+
+    const previous = getInspectionDraft(assetId);
+    const draft = startDraft(assetId, template);
+    // A draft for an older template revision was replaced; its photos go too
+    if (previous && previous.id !== draft.id) {
+      void deleteDraftPhotos(previous.id);
+    }
+  }, [assetId, template, startDraft]);
+
+  useEffect(() => {
+    if (draft) {
+      inspectionMetadataCollector.start(draft);
+    }
+  }, [draft]);
+
+  return useMemo(() => {
+    const isReady = Boolean(
+      template &&
+        draft &&
+        draft.templateId === template.id &&
+        draft.templateVersion === template.version
+    );
+    const pageCount = template?.pages.length ?? 0;
+    const pageIndex = isReady
+      ? Math.min(draft.pageIndex, Math.max(pageCount - 1, 0))
+      : 0;
+
+    return {
+      draft,
+      page: isReady ? template?.pages[pageIndex] : undefined,
+      pageIndex,
+      pageCount,
+      answers: isReady ? draft.answers : {},
+    };
+  }, [draft, template]);
+}
+
+/**
+ * Drives an inspection page by page. State lives in the persisted draft so
+ * the runner picks up on the same page after a restart.
+ */
+export function useInspectionRunner(
+  assetId: string,
+  template?: ChecklistTemplate
+) {
+  const { draft, page, pageIndex, pageCount, answers } = useRunnerDraft(
+    assetId,
+    template
+  );
+  const storeAnswer = useInspectionDrafts.use.setAnswer();
+  const setPageIndex = useInspectionDrafts.use.setPageIndex();
+  const [errors, setErrors] = useState<PageErrors>({});
+
+  const setAnswer = useCallback(
+    (answer: InspectionAnswerInput) => {
+      storeAnswer(assetId, answer);
+      // Clear the error as soon as the item becomes valid
+      const question = page?.questions.find((q) => q.id === answer.question_id);
+      if (question && !validateAnswer(question, answer)) {
+        setErrors(({ [answer.question_id]: _cleared, ...rest }) => rest);
+      }
+    },
+    [assetId, page, storeAnswer]
+  );
+
+  const goToPage = useCallback(
+    (index: number) => {
+      if (index < 0 || index >= pageCount) return;
+      setErrors({});
+      setPageIndex(assetId, index);
+    },
+    [assetId, pageCount, setPageIndex]
+  );
+
+  const next = useCallback((): RunnerStepResult => {
+    if (!page) return 'invalid';
+
+    const pageErrors = validatePage(page, answers);
+    setErrors(pageErrors);
+    if (Object.keys(pageErrors).length > 0) {
+      return 'invalid';
+    }
+    if (pageIndex >= pageCount - 1) {
+      return 'complete';
+    }
+    setPageIndex(assetId, pageIndex + 1);
+    return 'advanced';
+  }, [answers, assetId, page, pageCount, pageIndex, setPageIndex]);
+
+  const back = useCallback(
+    () => goToPage(pageIndex - 1),
+    [goToPage, pageIndex]
+  );
+
+  return {
+    draft,
+    page,
+    pageIndex,
+    pageCount,
+    progress: template ? getPageProgress(template, pageIndex) : 0,
+    isFirstPage: pageIndex === 0,
+    isLastPage: pageIndex === pageCount - 1,
+    answers,
+    errors,
+    setAnswer,
+    next,
+    back,
+    goToPage,
+  };
+}
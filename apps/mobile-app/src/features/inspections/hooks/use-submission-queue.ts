@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from 'react';
+
+import { deleteSubmissionPhotos } from '../services/photo-processing';
+import { photoUploadService } from '../services/photo-upload';
+import { submissionSyncService } from '../services/submission-sync';
+import { useInspectionPhotos } from '../stores/inspection-photos';
+import { useSubmissionQueue } from '../stores/submission-queue';
+
+/**
+ * Exposes the offline outbox and its per-item sync status to the UI
+ */
+export function useSubmissionQueueStatus() {
+  const items = useSubmissionQueue.use.items();
+  const retryItem = useSubmissionQueue.use.retry();
+  const remove = useSubmissionQueue.use.remove();
+  const photos = useInspectionPhotos.use.photos();
+
+  const counts = useMemo(
+    () => ({
+      pending: items.filter(
+        (item) => item.status === 'pending' || item.status === 'syncing'
+      ).length,
+      failed: items.filter((item) => item.status === 'failed').length,
+      conflict: items.filter((item) => item.status === 'conflict').length,
+    }),
+    [items]
+  );
+
+  const failedPhotos = useMemo(
+    () =>
+      Object.values(photos).filter((photo) => photo.status === 'failed').length,
+    [photos]
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      retryItem(id);
+      return submissionSyncService.sync();
+    },
+    [retryItem]
+  );
+
+  // Its photos go too, including those still uploading
+  const discard = useCallback(
+    (id: string) => {
+      remove(id);
+      return deleteSubmissionPhotos(id);
+    },
+    [remove]
+  );
+
+  const retryPhotos = useCallback(() => photoUploadService.retryFailed(), []);
+
+  const syncNow = useCallback(
+    () => submissionSyncService.sync({ ignoreBackoff: true }),
+    []
+  );
+
+  return {
+    items,
+    ...counts,
+    hasUnsynced: items.length > 0,
+    failedPhotos,
+    retry,
+    retryPhotos,
+    discard,
+    syncNow,
+  };
+}
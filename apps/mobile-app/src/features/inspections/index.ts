@@ -0,0 +1,7 @@
+// Inspections feature exports
+export * from './components';
+export * from './hooks';
+export * from './services';
+export * from './stores';
+export * from './types';
+export * from './utils';
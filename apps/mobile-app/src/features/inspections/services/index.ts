@@ -0,0 +1,4 @@
+export * from './inspection-metadata';
+export * from './photo-processing';
+export * from './photo-upload';
+export * from './submission-sync';
@@ -0,0 +1,121 @@
+import * as Location from 'expo-location';
+
+import type {
+  InspectionLocation,
+  InspectionSubmissionMetadata,
+  LocationUnavailableReason,
+} from '@/api/inspections/types';
+import { deviceFingerprintService } from '@/lib/device-fingerprint';
+
+import { useInspectionDrafts } from '../stores/inspection-drafts';
+import type { InspectionDraft } from '../types';
+
+/**
+ * Inspection metadata
+ * Records when and where an inspection happened and on which device
+ */
+
+const LOCATION_TIMEOUT = 10 * 1000; // 10 seconds
+
+const unavailable = (
+  reason: LocationUnavailableReason
+): InspectionLocation => ({
+  status: 'unavailable',
+  reason,
+  captured_at: new Date().toISOString(),
+});
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T | null> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Take a single GPS reading. Never throws: anything that prevents a fix is
+ * reported as an `unavailable` reading so the inspection can still proceed.
+ */
+export async function captureLocation(): Promise<InspectionLocation> {
+  try {
+    if (!(await Location.hasServicesEnabledAsync())) {
+      return unavailable('services_disabled');
+    }
+
+    const permission = await Location.requestForegroundPermissionsAsync();
+    if (!permission.granted) {
+      return unavailable('permission_denied');
+    }
+
+    const position = await withTimeout(
+      Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.High,
+      }),
+      LOCATION_TIMEOUT
+    );
+    if (!position) {
+      return unavailable('timeout');
+    }
+
+    return {
+      status: 'captured',
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+      captured_at: new Date(position.timestamp).toISOString(),
+    };
+  } catch (error) {
+    console.warn('InspectionMetadata: Failed to read location', error);
+    return unavailable('error');
+  }
+}
+
+class InspectionMetadataCollector {
+  private startCaptures = new Map<string, Promise<InspectionLocation>>();
+
+  /**
+   * Record the start location for a freshly opened draft. Safe to call on
+   * every render; drafts that already have a reading are left alone.
+   */
+  start(draft: InspectionDraft): void {
+    if (draft.startLocation || this.startCaptures.has(draft.id)) return;
+
+    const capture = captureLocation();
+    this.startCaptures.set(draft.id, capture);
+
+    capture
+      .then((location) =>
+        useInspectionDrafts
+          .getState()
+          .setStartLocation(draft.assetId, draft.id, location)
+      )
+      .finally(() => this.startCaptures.delete(draft.id));
+  }
+
+  /**
+   * Close the inspection: stamp the end time, take the submit-time location
+   * and attach the device hash
+   */
+  async finish(draft: InspectionDraft): Promise<InspectionSubmissionMetadata> {
+    const completedAt = new Date().toISOString();
+    const [startLocation, endLocation, deviceHash] = await Promise.all([
+      draft.startLocation ??
+        this.startCaptures.get(draft.id) ??
+        Promise.resolve(unavailable('error')),
+      captureLocation(),
+      deviceFingerprintService.getDeviceHash(),
+    ]);
+
+    return {
+      started_at: draft.startedAt,
+      completed_at: completedAt,
+      start_location: startLocation,
+      end_location: endLocation,
+      device_hash: deviceHash,
+    };
+  }
+}
+
+export const inspectionMetadataCollector = new InspectionMetadataCollector();
@@ -0,0 +1,131 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import type { ImagePickerAsset } from 'expo-image-picker';
+
+import { useInspectionPhotos } from '../stores/inspection-photos';
+import type { InspectionPhoto } from '../types';
+
+/**
+ * Photo processing
+ * Normalises captured photos before they are attached to a draft
+ */
+
+// Document directory rather than cache so the OS can't purge pending uploads
+const PHOTO_DIRECTORY = `${FileSystem.documentDirectory}inspection-photos/`;
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.7;
+
+/**
+ * Parse an EXIF `DateTimeOriginal` ("YYYY:MM:DD HH:MM:SS", device local time)
+ */
+export function parseExifTimestamp(
+  exif?: Record<string, any> | null
+): string | null {
+  const value = exif?.DateTimeOriginal ?? exif?.DateTime;
+  const match =
+    typeof value === 'string' &&
+    value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function getResizeTarget(
+  width: number,
+  height: number
+): { width: number } | { height: number } | null {
+  if (Math.max(width, height) <= MAX_DIMENSION) return null;
+  return width >= height ? { width: MAX_DIMENSION } : { height: MAX_DIMENSION };
+}
+
+export const getDraftPhotoDirectory = (draftId: string) =>
+  `${PHOTO_DIRECTORY}${draftId}/`;
+
+/**
+ * Resize, recompress and store a picked image against a draft. Re-encoding
+ * drops all EXIF data, so the capture time is read beforehand and kept on
+ * the photo record instead.
+ */
+export async function processPhoto(
+  asset: ImagePickerAsset,
+  draftId: string
+): Promise<InspectionPhoto> {
+  const capturedAt = parseExifTimestamp(asset.exif) ?? new Date().toISOString();
+
+  const context = ImageManipulator.manipulate(asset.uri);
+  const target = getResizeTarget(asset.width, asset.height);
+  if (target) {
+    context.resize(target);
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: JPEG_QUALITY,
+    format: SaveFormat.JPEG,
+  });
+
+  const id = Crypto.randomUUID();
+  const directory = getDraftPhotoDirectory(draftId);
+  const uri = `${directory}${id}.jpg`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  await FileSystem.moveAsync({ from: result.uri, to: uri });
+  const info = await FileSystem.getInfoAsync(uri);
+
+  const photo: InspectionPhoto = {
+    id,
+    draftId,
+    submissionId: null,
+    uri,
+    width: result.width,
+    height: result.height,
+    size: info.exists ? info.size : 0,
+    capturedAt,
+    status: 'draft',
+    uploadId: null,
+    uploadedBytes: 0,
+    attempts: 0,
+    lastError: null,
+  };
+  useInspectionPhotos.getState().addPhoto(photo);
+  return photo;
+}
+
+export async function deletePhoto(id: string): Promise<void> {
+  const photo = useInspectionPhotos.getState().photos[id];
+  if (!photo) return;
+
+  await FileSystem.deleteAsync(photo.uri, { idempotent: true });
+  useInspectionPhotos.getState().removePhoto(id);
+}
+
+/**
+ * Remove every photo taken for a draft that was abandoned
+ */
+export async function deleteDraftPhotos(draftId: string): Promise<void> {
+  const { photos, removePhoto } = useInspectionPhotos.getState();
+  Object.values(photos)
+    .filter((photo) => photo.draftId === draftId)
+    .forEach((photo) => removePhoto(photo.id));
+
+  await FileSystem.deleteAsync(getDraftPhotoDirectory(draftId), {
+    idempotent: true,
+  });
+}
+
+/**
+ * Remove the photos of a queued inspection that is being discarded,
+ * including any still waiting to upload
+ */
+export async function deleteSubmissionPhotos(
+  submissionId: string
+): Promise<void> {
+  const draftIds = new Set(
+    Object.values(useInspectionPhotos.getState().photos)
+      .filter((photo) => photo.submissionId === submissionId)
+      .map((photo) => photo.draftId)
+  );
+
+  await Promise.all([...draftIds].map((draftId) => deleteDraftPhotos(draftId)));
+}
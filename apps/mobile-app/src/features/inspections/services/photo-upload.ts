@@ -0,0 +1,212 @@
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { AppState, type AppStateStatus } from 'react-native';
+
+import {
+  completePhotoUpload,
+  createPhotoUpload,
+  getPhotoUpload,
+  uploadPhotoChunk,
+} from '@/api/inspections/photo-uploads';
+import type { PhotoUploadSession } from '@/api/inspections/types';
+
+import { useInspectionPhotos } from '../stores/inspection-photos';
+import type { InspectionPhoto } from '../types';
+import { classifySubmissionError } from './submission-sync';
+
+/**
+ * Deferred photo upload
+ * Streams queued inspection photos to the server in resumable chunks,
+ * independently of the inspection submission itself
+ */
+
+const MAX_ATTEMPTS = 5;
+const DEFAULT_CHUNK_SIZE = 256 * 1024; // 256 KB
+
+type UploadOutcome = 'uploaded' | 'parked' | 'blocked';
+
+const isOnline = (state: NetInfoState) =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+const getErrorMessage = (error: any): string =>
+  error?.response?.data?.message || error?.message || 'Upload failed';
+
+class PhotoUploadService {
+  private syncPromise: Promise<number> | null = null;
+
+  /**
+   * Start listening for connectivity and foreground changes
+   * @returns Cleanup function to remove listeners
+   */
+  start(): () => void {
+    useInspectionPhotos.getState().resetInFlight();
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (isOnline(state)) {
+        this.sync();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener(
+      'change',
+      (status: AppStateStatus) => {
+        if (status === 'active') {
+          this.sync();
+        }
+      }
+    );
+
+    this.sync();
+
+    return () => {
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+    };
+  }
+
+  /**
+   * Upload every queued photo, oldest first. Resolves with the number of
+   * photos finished in this run; concurrent callers share the same run.
+   */
+  sync(): Promise<number> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.processPhotos()
+        .catch((error) => {
+          console.error('PhotoUpload: Sync failed', error);
+          return 0;
+        })
+        .finally(() => {
+          this.syncPromise = null;
+        });
+    }
+
+    return this.syncPromise;
+  }
+
+  /**
+   * Put photos that gave up back in the queue and upload them again
+   */
+  retryFailed(): Promise<number> {
+    useInspectionPhotos.getState().retryFailed();
+    return this.sync();
+  }
+
+  private async processPhotos(): Promise<number> {
+    const network = await NetInfo.fetch();
+    if (!isOnline(network)) return 0;
+
+    let uploaded = 0;
+    for (const photo of this.queuedPhotos()) {
+      if (this.isDiscarded(photo)) continue;
+      const outcome = await this.upload(photo);
+      if (outcome === 'blocked') break;
+      if (outcome === 'uploaded') uploaded += 1;
+    }
+    return uploaded;
+  }
+
+  private async upload(photo: InspectionPhoto): Promise<UploadOutcome> {
+    const store = useInspectionPhotos.getState();
+    store.updatePhoto(photo.id, { status: 'uploading' });
+
+    try {
+      const session = await this.resumeSession(photo);
+      store.updatePhoto(photo.id, { uploadId: session.upload_id });
+
+      let offset = session.received_bytes;
+      const chunkSize = session.chunk_size || DEFAULT_CHUNK_SIZE;
+      while (offset < photo.size) {
+        // Its inspection was discarded mid-transfer
+        if (this.isDiscarded(photo)) return 'parked';
+
+        const data = await FileSystem.readAsStringAsync(photo.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position: offset,
+          length: Math.min(chunkSize, photo.size - offset),
+        });
+        const progress = await uploadPhotoChunk(session.upload_id, {
+          offset,
+          data,
+        });
+        offset = progress.received_bytes;
+        store.updatePhoto(photo.id, { uploadedBytes: offset });
+      }
+
+      if (this.isDiscarded(photo)) return 'parked';
+      await completePhotoUpload(session.upload_id);
+      await this.finish(photo);
+      return 'uploaded';
+    } catch (error: any) {
+      return this.handleFailure(photo, error);
+    }
+  }
+
+  /**
+   * Continue an existing upload session where the server left off, or open
+   * a new one when there is none or it has expired
+   */
+  private async resumeSession(
+    photo: InspectionPhoto
+  ): Promise<PhotoUploadSession> {
+    if (photo.uploadId) {
+      try {
+        return await getPhotoUpload(photo.uploadId);
+      } catch (error: any) {
+        if (error?.response?.status !== 404) throw error;
+      }
+    }
+
+    return createPhotoUpload({
+      client_photo_id: photo.id,
+      client_submission_id: photo.submissionId as string,
+      file_size: photo.size,
+      mime_type: 'image/jpeg',
+      captured_at: photo.capturedAt,
+    });
+  }
+
+  private async finish(photo: InspectionPhoto) {
+    await FileSystem.deleteAsync(photo.uri, { idempotent: true });
+    useInspectionPhotos.getState().removePhoto(photo.id);
+  }
+
+  private async handleFailure(
+    photo: InspectionPhoto,
+    error: any
+  ): Promise<UploadOutcome> {
+    if (this.isDiscarded(photo)) return 'parked';
+
+    const outcome = classifySubmissionError(error);
+
+    // The server already holds this photo
+    if (outcome === 'conflict') {
+      await this.finish(photo);
+      return 'uploaded';
+    }
+
+    const attempts = photo.attempts + 1;
+    const retry = outcome === 'retry' && attempts < MAX_ATTEMPTS;
+    useInspectionPhotos.getState().updatePhoto(photo.id, {
+      status: retry ? 'queued' : 'failed',
+      attempts,
+      lastError: getErrorMessage(error),
+    });
+
+    // A transient failure usually affects every upload, so wait for the
+    // next connectivity or foreground event
+    return retry ? 'blocked' : 'parked';
+  }
+
+  // The photo was removed from the store along with its inspection
+  private isDiscarded(photo: InspectionPhoto): boolean {
+    return !useInspectionPhotos.getState().photos[photo.id];
+  }
+
+  private queuedPhotos(): InspectionPhoto[] {
+    return Object.values(useInspectionPhotos.getState().photos)
+      .filter((photo) => photo.status === 'queued' && photo.submissionId)
+      .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  }
+}
+
+export const photoUploadService = new PhotoUploadService();
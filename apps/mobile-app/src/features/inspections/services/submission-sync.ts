@@ -0,0 +1,217 @@
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import { AppState, type AppStateStatus } from 'react-native';
+
+import { submitInspection } from '@/api/inspections/use-submit-inspection';
+
+import { useSubmissionQueue } from '../stores/submission-queue';
+import type { QueuedSubmission, SyncResult } from '../types';
+
+/**
+ * Offline submission sync
+ * Replays queued inspection submissions in order once the device is online
+ */
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 5 * 1000; // 5 seconds
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+
+type FailureOutcome = 'retry' | 'failed' | 'conflict';
+type DeliveryOutcome = 'delivered' | 'parked' | 'blocked';
+
+const isOnline = (state: NetInfoState) =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+/**
+ * Decide what a failed submission attempt means for the queued item
+ */
+export function classifySubmissionError(error: any): FailureOutcome {
+  const status: number | undefined = error?.response?.status;
+
+  // No response at all: timeout, DNS failure or connectivity drop
+  if (!status) return 'retry';
+  if (status === 409) return 'conflict';
+  // Session expired or throttled; the item itself is still valid
+  if (status === 401 || status === 408 || status === 429) return 'retry';
+  if (status >= 500) return 'retry';
+  return 'failed';
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY
+  );
+}
+
+const getErrorMessage = (error: any): string =>
+  error?.response?.data?.message || error?.message || 'Submission failed';
+
+class SubmissionSyncService {
+  private syncPromise: Promise<SyncResult> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start listening for connectivity and foreground changes
+   * @returns Cleanup function to remove listeners
+   */
+  start(): () => void {
+    useSubmissionQueue.getState().resetInFlight();
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (isOnline(state)) {
+        // Connectivity came back, don't make queued items wait out their backoff
+        this.sync({ ignoreBackoff: true });
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener(
+      'change',
+      (status: AppStateStatus) => {
+        if (status === 'active') {
+          this.sync();
+        }
+      }
+    );
+
+    this.sync();
+
+    return () => {
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+      this.clearRetryTimer();
+    };
+  }
+
+  /**
+   * Push pending submissions to the server, oldest first.
+   * Concurrent callers share the same in-flight run.
+   */
+  sync(options: { ignoreBackoff?: boolean } = {}): Promise<SyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.processQueue(options.ignoreBackoff ?? false)
+        .catch((error) => {
+          console.error('SubmissionSync: Sync failed', error);
+          return { synced: 0, remaining: this.countRemaining() };
+        })
+        .finally(() => {
+          this.syncPromise = null;
+        });
+    }
+
+    return this.syncPromise;
+  }
+
+  private async processQueue(ignoreBackoff: boolean): Promise<SyncResult> {
+    let synced = 0;
+
+    const network = await NetInfo.fetch();
+    if (!isOnline(network)) {
+      return { synced, remaining: this.countRemaining() };
+    }
+
+    this.clearRetryTimer();
+
+    let next = this.nextPendingItem();
+    while (next) {
+      if (!ignoreBackoff && this.isBackingOff(next)) {
+        this.scheduleRetry(next);
+        break;
+      }
+
+      const outcome = await this.deliver(next);
+      if (outcome === 'blocked') {
+        // Keep later submissions behind the one that is still retrying
+        break;
+      }
+
+      if (outcome === 'delivered') {
+        synced += 1;
+      }
+      next = this.nextPendingItem();
+    }
+
+    return { synced, remaining: this.countRemaining() };
+  }
+
+  /**
+   * Send a single item and record the outcome on the queue
+   */
+  private async deliver(item: QueuedSubmission): Promise<DeliveryOutcome> {
+    const queue = useSubmissionQueue.getState();
+    queue.setStatus(item.id, 'syncing');
+
+    try {
+      await submitInspection(item.submission);
+      queue.remove(item.id);
+      return 'delivered';
+    } catch (error: any) {
+      const outcome = classifySubmissionError(error);
+      const attempts = item.attempts + 1;
+      const lastError = getErrorMessage(error);
+
+      if (outcome === 'retry' && attempts < MAX_ATTEMPTS) {
+        const nextAttemptAt = new Date(
+          Date.now() + getRetryDelay(attempts)
+        ).toISOString();
+        queue.updateItem(item.id, {
+          status: 'pending',
+          attempts,
+          lastError,
+          nextAttemptAt,
+        });
+        this.scheduleRetry({ ...item, nextAttemptAt });
+        return 'blocked';
+      }
+
+      queue.updateItem(item.id, {
+        status: outcome === 'conflict' ? 'conflict' : 'failed',
+        attempts,
+        lastError,
+        nextAttemptAt: null,
+      });
+
+      // Failed and conflicting items wait for the user, the rest can proceed
+      return 'parked';
+    }
+  }
+
+  private nextPendingItem(): QueuedSubmission | undefined {
+    return useSubmissionQueue
+      .getState()
+      .items.find((item) => item.status === 'pending');
+  }
+
+  private countRemaining(): number {
+    return useSubmissionQueue.getState().items.length;
+  }
+
+  private isBackingOff(item: QueuedSubmission): boolean {
+    return (
+      !!item.nextAttemptAt &&
+      new Date(item.nextAttemptAt).getTime() > Date.now()
+    );
+  }
+
+  private scheduleRetry(item: QueuedSubmission) {
+    if (!item.nextAttemptAt) return;
+
+    this.clearRetryTimer();
+    const delay = Math.max(
+      new Date(item.nextAttemptAt).getTime() - Date.now(),
+      0
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.sync();
+    }, delay);
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
+
+export const submissionSyncService = new SubmissionSyncService();
@@ -0,0 +1,3 @@
+export * from './inspection-drafts';
+export * from './inspection-photos';
+export * from './submission-queue';
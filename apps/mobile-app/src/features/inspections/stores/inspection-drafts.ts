@@ -0,0 +1,134 @@
+import * as Crypto from 'expo-crypto';
+import { MMKV } from 'react-native-mmkv';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import type {
+  InspectionAnswerInput,
+  InspectionLocation,
+} from '@/api/inspections/types';
+import { createSelectors } from '@/lib/utils';
+
+import type { InspectionDraft } from '../types';
+
+// Every change is written through so a killed app resumes where it left off
+const draftStorage = new MMKV({
+  id: 'inspection-drafts',
+});
+
+export interface InspectionDraftsState {
+  // One in-progress inspection per asset
+  drafts: Record<string, InspectionDraft>;
+
+  startDraft: (
+    assetId: string,
+    template: { id: string; version: number }
+  ) => InspectionDraft;
+  updateDraft: (
+    assetId: string,
+    patch: Partial<Omit<InspectionDraft, 'id' | 'assetId'>>
+  ) => void;
+  setAnswer: (assetId: string, answer: InspectionAnswerInput) => void;
+  setPageIndex: (assetId: string, pageIndex: number) => void;
+  setStartLocation: (
+    assetId: string,
+    draftId: string,
+    location: InspectionLocation
+  ) => void;
+  discardDraft: (assetId: string) => void;
+}
+
+const _useInspectionDrafts = create<InspectionDraftsState>()(
+  persist(
+    (set, get) => ({
+      drafts: {},
+
+      startDraft: (assetId, template) => {
+        const existing = get().drafts[assetId];
+        // A draft recorded against another template revision can't be mapped
+        // onto the new questions, so it is replaced
+        if (
+          existing &&
+          existing.templateId === template.id &&
+          existing.templateVersion === template.version
+        ) {
+          return existing;
+        }
+
+        const now = new Date().toISOString();
+        const draft: InspectionDraft = {
+          id: Crypto.randomUUID(),
+          assetId,
+          templateId: template.id,
+          templateVersion: template.version,
+          pageIndex: 0,
+          answers: {},
+          startedAt: now,
+          startLocation: null,
+          updatedAt: now,
+        };
+
+        set({ drafts: { ...get().drafts, [assetId]: draft } });
+        return draft;
+      },
+
+      updateDraft: (assetId, patch) => {
+        const draft = get().drafts[assetId];
+        if (!draft) return;
+
+        set({
+          drafts: {
+            ...get().drafts,
+            [assetId]: {
+              ...draft,
+              ...patch,
+              updatedAt: new Date().toISOString(),
+            },
+          },
+        });
+      },
+
+      setAnswer: (assetId, answer) => {
+        const answers = get().drafts[assetId]?.answers;
+        get().updateDraft(assetId, {
+          answers: { ...answers, [answer.question_id]: answer },
+        });
+      },
+
+      setPageIndex: (assetId, pageIndex) =>
+        get().updateDraft(assetId, { pageIndex }),
+
+      // The reading may land after the draft was discarded or replaced
+      setStartLocation: (assetId, draftId, location) => {
+        if (get().drafts[assetId]?.id !== draftId) return;
+        get().updateDraft(assetId, { startLocation: location });
+      },
+
+      discardDraft: (assetId) => {
+        const { [assetId]: _removed, ...drafts } = get().drafts;
+        set({ drafts });
+      },
+    }),
+    {
+      name: 'inspection-drafts',
+      storage: createJSONStorage(() => ({
+        getItem: (key: string) => {
+          const value = draftStorage.getString(key);
+          return value || null;
+        },
+        setItem: (key: string, value: string) => {
+          draftStorage.set(key, value);
+        },
+        removeItem: (key: string) => {
+          draftStorage.delete(key);
+        },
+      })),
+      partialize: (state) => ({ drafts: state.drafts }),
+    }
+  )
+);
+
+export const useInspectionDrafts = createSelectors(_useInspectionDrafts);
+
+export const getInspectionDraft = (assetId: string) =>
+  _useInspectionDrafts.getState().drafts[assetId];
@@ -0,0 +1,109 @@
+import { MMKV } from 'react-native-mmkv';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { createSelectors } from '@/lib/utils';
+
+import type { InspectionPhoto } from '../types';
+
+// Tracks photo files on disk and how far each upload has got
+const photoStorage = new MMKV({
+  id: 'inspection-photos',
+});
+
+export interface InspectionPhotosState {
+  photos: Record<string, InspectionPhoto>;
+
+  addPhoto: (photo: InspectionPhoto) => void;
+  updatePhoto: (
+    id: string,
+    patch: Partial<Omit<InspectionPhoto, 'id' | 'draftId'>>
+  ) => void;
+  removePhoto: (id: string) => void;
+  attachToSubmission: (draftId: string, submissionId: string) => void;
+  retryFailed: () => void;
+  resetInFlight: () => void;
+}
+
+const _useInspectionPhotos = create<InspectionPhotosState>()(
+  persist(
+    (set, get) => ({
+      photos: {},
+
+      addPhoto: (photo) => {
+        set({ photos: { ...get().photos, [photo.id]: photo } });
+      },
+
+      updatePhoto: (id, patch) => {
+        const photo = get().photos[id];
+        if (!photo) return;
+
+        set({ photos: { ...get().photos, [id]: { ...photo, ...patch } } });
+      },
+
+      removePhoto: (id) => {
+        const { [id]: _removed, ...photos } = get().photos;
+        set({ photos });
+      },
+
+      // Photos become eligible for upload once their inspection is queued
+      attachToSubmission: (draftId, submissionId) => {
+        const photos = { ...get().photos };
+        Object.values(photos)
+          .filter((photo) => photo.draftId === draftId)
+          .forEach((photo) => {
+            photos[photo.id] = { ...photo, submissionId, status: 'queued' };
+          });
+        set({ photos });
+      },
+
+      // Failed photos only go back on the wire when the user asks
+      retryFailed: () => {
+        const photos = { ...get().photos };
+        Object.values(photos)
+          .filter((photo) => photo.status === 'failed')
+          .forEach((photo) => {
+            photos[photo.id] = {
+              ...photo,
+              status: 'queued',
+              attempts: 0,
+              lastError: null,
+            };
+          });
+        set({ photos });
+      },
+
+      // An upload left in `uploading` means the app was killed mid-transfer
+      resetInFlight: () => {
+        const photos = { ...get().photos };
+        Object.values(photos)
+          .filter((photo) => photo.status === 'uploading')
+          .forEach((photo) => {
+            photos[photo.id] = { ...photo, status: 'queued' };
+          });
+        set({ photos });
+      },
+    }),
+    {
+      name: 'inspection-photos',
+      storage: createJSONStorage(() => ({
+        getItem: (key: string) => {
+          const value = photoStorage.getString(key);
+          return value || null;
+        },
+        setItem: (key: string, value: string) => {
+          photoStorage.set(key, value);
+        },
+        removeItem: (key: string) => {
+          photoStorage.delete(key);
+        },
+      })),
+      partialize: (state) => ({ photos: state.photos }),
+      onRehydrateStorage: () => (state) => state?.resetInFlight(),
+    }
+  )
+);
+
+export const useInspectionPhotos = createSelectors(_useInspectionPhotos);
+
+export const getInspectionPhotos = () => _useInspectionPhotos.getState().photos;
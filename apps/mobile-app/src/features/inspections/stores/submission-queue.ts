@@ -0,0 +1,114 @@
+import * as Crypto from 'expo-crypto';
+import { MMKV } from 'react-native-mmkv';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { createSelectors } from '@/lib/utils';
+
+import type {
+  InspectionSubmissionInput,
+  QueuedSubmission,
+  QueueItemStatus,
+} from '../types';
+
+// Dedicated storage so the outbox survives auth resets and app restarts
+const queueStorage = new MMKV({
+  id: 'inspection-queue',
+});
+
+export interface SubmissionQueueState {
+  items: QueuedSubmission[];
+
+  enqueue: (submission: InspectionSubmissionInput) => QueuedSubmission;
+  updateItem: (
+    id: string,
+    patch: Partial<Omit<QueuedSubmission, 'id' | 'submission'>>
+  ) => void;
+  setStatus: (id: string, status: QueueItemStatus) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  resetInFlight: () => void;
+}
+
+const _useSubmissionQueue = create<SubmissionQueueState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+
+      enqueue: (submission) => {
+        const id = Crypto.randomUUID();
+        const now = new Date().toISOString();
+        const item: QueuedSubmission = {
+          id,
+          submission: { ...submission, client_submission_id: id },
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: null,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set({ items: [...get().items, item] });
+        return item;
+      },
+
+      updateItem: (id, patch) => {
+        set({
+          items: get().items.map((item) =>
+            item.id === id
+              ? { ...item, ...patch, updatedAt: new Date().toISOString() }
+              : item
+          ),
+        });
+      },
+
+      setStatus: (id, status) => get().updateItem(id, { status }),
+
+      // Failed and conflicting items only go back on the wire when the user asks
+      retry: (id) =>
+        get().updateItem(id, {
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: null,
+        }),
+
+      remove: (id) => {
+        set({ items: get().items.filter((item) => item.id !== id) });
+      },
+
+      // An item left in `syncing` means the app was killed mid-request
+      resetInFlight: () => {
+        set({
+          items: get().items.map((item) =>
+            item.status === 'syncing' ? { ...item, status: 'pending' } : item
+          ),
+        });
+      },
+    }),
+    {
+      name: 'submission-queue',
+      storage: createJSONStorage(() => ({
+        getItem: (key: string) => {
+          const value = queueStorage.getString(key);
+          return value || null;
+        },
+        setItem: (key: string, value: string) => {
+          queueStorage.set(key, value);
+        },
+        removeItem: (key: string) => {
+          queueStorage.delete(key);
+        },
+      })),
+      partialize: (state) => ({ items: state.items }),
+      onRehydrateStorage: () => (state) => state?.resetInFlight(),
+    }
+  )
+);
+
+export const useSubmissionQueue = createSelectors(_useSubmissionQueue);
+
+export const getQueuedSubmissions = () => _useSubmissionQueue.getState().items;
+export const enqueueSubmission = (submission: InspectionSubmissionInput) =>
+  _useSubmissionQueue.getState().enqueue(submission);
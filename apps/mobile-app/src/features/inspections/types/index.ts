@@ -0,0 +1,93 @@
+import type { ChecklistQuestion } from '@/api/checklists/types';
+import type {
+  InspectionAnswerInput,
+  InspectionLocation,
+  InspectionOutcome,
+  InspectionSubmission,
+} from '@/api/inspections/types';
+
+export type QueueItemStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export interface QueuedSubmission {
+  id: string;
+  submission: InspectionSubmission;
+  status: QueueItemStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type InspectionSubmissionInput = Omit<
+  InspectionSubmission,
+  'client_submission_id'
+>;
+
+export interface SyncResult {
+  synced: number;
+  remaining: number;
+}
+
+export interface InspectionDraft {
+  id: string;
+  assetId: string;
+  templateId: string;
+  templateVersion: number;
+  pageIndex: number;
+  answers: Record<string, InspectionAnswerInput>;
+  startedAt: string;
+  // Null until the first GPS reading settles
+  startLocation: InspectionLocation | null;
+  updatedAt: string;
+}
+
+export type PageErrors = Record<string, string>;
+
+export type RunnerStepResult = 'advanced' | 'invalid' | 'complete';
+
+export type ReviewItemState = 'passed' | 'failed' | 'answered' | 'unanswered';
+
+export type ReviewRow =
+  | { kind: 'page'; key: string; pageIndex: number; title: string }
+  | {
+      kind: 'item';
+      key: string;
+      pageIndex: number;
+      question: ChecklistQuestion;
+      answer?: InspectionAnswerInput;
+      state: ReviewItemState;
+      error: string | null;
+    };
+
+export type PhotoUploadStatus =
+  | 'draft'
+  | 'queued'
+  | 'uploading'
+  | 'uploaded'
+  | 'failed';
+
+export interface InspectionPhoto {
+  id: string;
+  draftId: string;
+  // Set once the owning inspection has been queued for submission
+  submissionId: string | null;
+  uri: string;
+  width: number;
+  height: number;
+  size: number;
+  capturedAt: string;
+  status: PhotoUploadStatus;
+  uploadId: string | null;
+  uploadedBytes: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+export type HistoryDateRange = 'all' | '7d' | '30d' | '90d';
+
+export interface HistoryFilterState {
+  assetId?: string;
+  outcome?: InspectionOutcome;
+  range: HistoryDateRange;
+}
@@ -0,0 +1,110 @@
+import type {
+  ChecklistPage,
+  ChecklistQuestion,
+  ChecklistTemplate,
+} from '@/api/checklists/types';
+import type {
+  InspectionAnswerInput,
+  InspectionSubmissionMetadata,
+} from '@/api/inspections/types';
+
+import type {
+  InspectionDraft,
+  InspectionSubmissionInput,
+  PageErrors,
+} from '../types';
+
+export function isAnswered(
+  question: ChecklistQuestion,
+  answer?: InspectionAnswerInput
+): boolean {
+  if (!answer) return false;
+
+  switch (question.type) {
+    case 'pass_fail':
+      return typeof answer.value === 'boolean';
+    case 'text':
+      return typeof answer.value === 'string' && answer.value.trim() !== '';
+    case 'photo':
+      return (answer.photo_ids?.length ?? 0) > 0;
+  }
+}
+
+/**
+ * Returns a user-facing error for the answer, or null when it is acceptable
+ */
+export function validateAnswer(
+  question: ChecklistQuestion,
+  answer?: InspectionAnswerInput
+): string | null {
+  if (!isAnswered(question, answer)) {
+    return question.required ? 'This item is required' : null;
+  }
+
+  if (
+    question.type === 'pass_fail' &&
+    answer?.value === false &&
+    question.require_notes_on_fail &&
+    !answer.notes?.trim()
+  ) {
+    return 'Describe why this item failed';
+  }
+
+  if (question.type === 'photo') {
+    const count = answer?.photo_ids?.length ?? 0;
+    if (question.min_photos && count < question.min_photos) {
+      return `Add at least ${question.min_photos} photos`;
+    }
+    if (question.max_photos && count > question.max_photos) {
+      return `Add no more than ${question.max_photos} photos`;
+    }
+  }
+
+  return null;
+}
+
+export function validatePage(
+  page: ChecklistPage,
+  answers: Record<string, InspectionAnswerInput>
+): PageErrors {
+  return page.questions.reduce<PageErrors>((errors, question) => {
+    const error = validateAnswer(question, answers[question.id]);
+    if (error) {
+      errors[question.id] = error;
+    }
+    return errors;
+  }, {});
+}
+
+/**
+ * Progress through the template as a 0-100 percentage, for the ProgressBar
+ */
+export function getPageProgress(
+  template: ChecklistTemplate,
+  pageIndex: number
+): number {
+  if (template.pages.length === 0) return 0;
+  return Math.round(((pageIndex + 1) / template.pages.length) * 100);
+}
+
+/**
+ * Flattens a draft into the submission payload, in template order and
+ * leaving out optional questions that were skipped
+ */
+export function buildSubmission(
+  template: ChecklistTemplate,
+  draft: InspectionDraft,
+  metadata: InspectionSubmissionMetadata
+): InspectionSubmissionInput {
+  const answers = template.pages
+    .flatMap((page) => page.questions)
+    .filter((question) => isAnswered(question, draft.answers[question.id]))
+    .map((question) => draft.answers[question.id]);
+
+  return {
+    asset_id: draft.assetId,
+    checklist_template_id: template.id,
+    answers,
+    metadata,
+  };
+}
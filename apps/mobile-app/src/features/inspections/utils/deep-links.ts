@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+import { defineDeepLink } from '@/lib/deep-links';
+
+const assetParams = z.object({ id: z.string().regex(/^[\w-]+$/) });
+
+const toInspection = ({ id }: z.infer<typeof assetParams>) => ({
+  pathname: '/inspections/[assetId]' as const,
+  params: { assetId: id },
+});
+
+/**
+ * Links that start an inspection of an asset, e.g. from a reminder email
+ * or a label's QR code scanned with the camera app
+ */
+export const inspectionDeepLinks = [
+  defineDeepLink({
+    path: '/inspections/:id',
+    params: assetParams,
+    auth: 'signed-in',
+    route: toInspection,
+  }),
+  defineDeepLink({
+    path: '/assets/:id/inspect',
+    params: assetParams,
+    auth: 'signed-in',
+    route: toInspection,
+  }),
+];
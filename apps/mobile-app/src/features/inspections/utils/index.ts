@@ -0,0 +1,4 @@
+export * from './checklist-validation';
+export * from './deep-links';
+export * from './inspection-history';
+export * from './inspection-review';
@@ -0,0 +1,102 @@
+import type { ChecklistQuestionType } from '@/api/checklists/types';
+import type {
+  InspectionAnswerInput,
+  InspectionHistoryFilters,
+  InspectionOutcome,
+} from '@/api/inspections/types';
+
+import type {
+  HistoryDateRange,
+  HistoryFilterState,
+  QueuedSubmission,
+} from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const RANGE_DAYS: Record<Exclude<HistoryDateRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+export const HISTORY_RANGE_OPTIONS = [
+  { label: 'Any time', value: 'all' },
+  { label: 'Last 7 days', value: '7d' },
+  { label: 'Last 30 days', value: '30d' },
+  { label: 'Last 90 days', value: '90d' },
+];
+
+export const HISTORY_OUTCOME_OPTIONS = [
+  { label: 'All results', value: 'all' },
+  { label: 'Passed', value: 'passed' },
+  { label: 'Failed', value: 'failed' },
+];
+
+export function getRangeStart(
+  range: HistoryDateRange,
+  now: Date = new Date()
+): Date | null {
+  if (range === 'all') return null;
+  return new Date(now.getTime() - RANGE_DAYS[range] * DAY);
+}
+
+/**
+ * Map screen filters onto the history endpoint's query parameters
+ */
+export function toHistoryParams(
+  filters: HistoryFilterState,
+  now: Date = new Date()
+): InspectionHistoryFilters {
+  const from = getRangeStart(filters.range, now);
+
+  return {
+    ...(filters.assetId ? { asset_id: filters.assetId } : {}),
+    ...(filters.outcome ? { status: filters.outcome } : {}),
+    ...(from ? { submitted_from: from.toISOString() } : {}),
+  };
+}
+
+/**
+ * Outcome the server will assign: any failed pass/fail item fails the
+ * inspection. Used for submissions that haven't reached the server yet.
+ */
+export function getSubmissionOutcome(
+  answers: InspectionAnswerInput[]
+): InspectionOutcome {
+  return answers.some((answer) => answer.value === false) ? 'failed' : 'passed';
+}
+
+/**
+ * Apply the history filters to submissions still in the offline outbox
+ */
+export function filterQueuedSubmissions(
+  items: QueuedSubmission[],
+  filters: HistoryFilterState,
+  now: Date = new Date()
+): QueuedSubmission[] {
+  const from = getRangeStart(filters.range, now);
+
+  return items.filter(({ submission, createdAt }) => {
+    if (filters.assetId && submission.asset_id !== filters.assetId) {
+      return false;
+    }
+    if (
+      filters.outcome &&
+      getSubmissionOutcome(submission.answers) !== filters.outcome
+    ) {
+      return false;
+    }
+    return !from || new Date(createdAt) >= from;
+  });
+}
+
+/**
+ * Best guess at a question's type from its recorded answer, for when the
+ * checklist template isn't available offline
+ */
+export function inferQuestionType(
+  answer: InspectionAnswerInput
+): ChecklistQuestionType {
+  if (answer.photo_ids?.length) return 'photo';
+  return typeof answer.value === 'boolean' ? 'pass_fail' : 'text';
+}
@@ -0,0 +1,80 @@
+import type {
+  ChecklistQuestion,
+  ChecklistTemplate,
+} from '@/api/checklists/types';
+import type { InspectionAnswerInput } from '@/api/inspections/types';
+
+import type { ReviewItemState, ReviewRow } from '../types';
+import {
+  isAnswered,
+  validateAnswer,
+  validatePage,
+} from './checklist-validation';
+
+export function getReviewItemState(
+  question: ChecklistQuestion,
+  answer?: InspectionAnswerInput
+): ReviewItemState {
+  if (!isAnswered(question, answer)) return 'unanswered';
+  if (question.type === 'pass_fail') {
+    return answer?.value ? 'passed' : 'failed';
+  }
+  return 'answered';
+}
+
+export function formatAnswer(
+  question: ChecklistQuestion,
+  answer?: InspectionAnswerInput
+): string {
+  if (!isAnswered(question, answer)) return 'Not answered';
+
+  switch (question.type) {
+    case 'pass_fail':
+      return answer?.value ? 'Pass' : 'Fail';
+    case 'text':
+      return String(answer?.value);
+    case 'photo': {
+      const count = answer?.photo_ids?.length ?? 0;
+      return `${count} photo${count === 1 ? '' : 's'}`;
+    }
+  }
+}
+
+/**
+ * Flattens the template into page headers followed by their items
+ */
+export function buildReviewRows(
+  template: ChecklistTemplate,
+  answers: Record<string, InspectionAnswerInput>
+): ReviewRow[] {
+  return template.pages.flatMap((page, pageIndex) => [
+    {
+      kind: 'page' as const,
+      key: `page-${page.id}`,
+      pageIndex,
+      title: page.title,
+    },
+    ...page.questions.map((question) => ({
+      kind: 'item' as const,
+      key: `item-${question.id}`,
+      pageIndex,
+      question,
+      answer: answers[question.id],
+      state: getReviewItemState(question, answers[question.id]),
+      error: validateAnswer(question, answers[question.id]),
+    })),
+  ]);
+}
+
+/**
+ * Index of the first page that still fails validation, or -1 when the whole
+ * inspection can be submitted
+ */
+export function findFirstInvalidPage(
+  template: ChecklistTemplate,
+  answers: Record<string, InspectionAnswerInput>
+): number {
+  return template.pages.findIndex(
+    (page) => Object.keys(validatePage(page, answers)).length > 0
+  );
+}
@@ -0,0 +1,47 @@
+import { getInvitationExpiry } from '../utils/invitation-expiry';
+
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+const inMs = (ms: number) => new Date(NOW + ms).toISOString();
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('getInvitationExpiry', () => {
+  it('shows days and hours for long countdowns', () => {
+    expect(getInvitationExpiry(inMs(6 * DAY + 5 * HOUR), NOW)).toEqual({
+      expired: false,
+      expiringSoon: false,
+      label: 'Expires in 6d 5h',
+    });
+  });
+
+  it('drops zero hours from whole days', () => {
+    expect(getInvitationExpiry(inMs(2 * DAY), NOW).label).toBe('Expires in 2d');
+  });
+
+  it('flags invitations expiring within a day', () => {
+    const expiry = getInvitationExpiry(inMs(3 * HOUR + 20 * MINUTE), NOW);
+
+    expect(expiry.expiringSoon).toBe(true);
+    expect(expiry.label).toBe('Expires in 3h 20m');
+  });
+
+  it('never counts down below a minute before expiry', () => {
+    expect(getInvitationExpiry(inMs(10 * 1000), NOW).label).toBe(
+      'Expires in 1m'
+    );
+  });
+});
+
+describe('expired invitations', () => {
+  it('reports past and invalid dates as expired', () => {
+    expect(getInvitationExpiry(inMs(-MINUTE), NOW)).toEqual({
+      expired: true,
+      expiringSoon: false,
+      label: 'Expired',
+    });
+    expect(getInvitationExpiry('not a date', NOW).expired).toBe(true);
+    expect(getInvitationExpiry(inMs(0), NOW).expired).toBe(true);
+  });
+});
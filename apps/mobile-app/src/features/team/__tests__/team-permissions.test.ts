@@ -0,0 +1,85 @@
+import {
+  canDeactivateMember,
+  canEditMember,
+  canForcePasswordReset,
+  canManageTeam,
+  canViewMember,
+  getAssignableRoles,
+} from '../utils/team-permissions';
+
+const admin = { id: 'a1', role: 'admin' as const };
+const otherAdmin = { id: 'a2', role: 'admin' as const };
+const manager = { id: 'm1', role: 'manager' as const };
+const otherManager = { id: 'm2', role: 'manager' as const };
+const operator = { id: 'o1', role: 'operator' as const };
+
+describe('canManageTeam', () => {
+  it('allows admins and managers only', () => {
+    expect(canManageTeam(admin)).toBe(true);
+    expect(canManageTeam(manager)).toBe(true);
+    expect(canManageTeam(operator)).toBe(false);
+    expect(canManageTeam(null)).toBe(false);
+  });
+});
+
+describe('canViewMember', () => {
+  it('lets admins view everyone', () => {
+    expect(canViewMember(admin, otherAdmin)).toBe(true);
+    expect(canViewMember(admin, operator)).toBe(true);
+  });
+
+  it('hides admins from managers', () => {
+    expect(canViewMember(manager, admin)).toBe(false);
+    expect(canViewMember(manager, otherManager)).toBe(true);
+    expect(canViewMember(manager, operator)).toBe(true);
+  });
+
+  it('lets operators view only themselves', () => {
+    expect(canViewMember(operator, operator)).toBe(true);
+    expect(canViewMember(operator, manager)).toBe(false);
+  });
+});
+
+describe('canEditMember', () => {
+  it('limits managers to operators', () => {
+    expect(canEditMember(manager, operator)).toBe(true);
+    expect(canEditMember(manager, otherManager)).toBe(false);
+    expect(canEditMember(manager, admin)).toBe(false);
+  });
+
+  it('always allows editing yourself', () => {
+    expect(canEditMember(manager, manager)).toBe(true);
+    expect(canEditMember(operator, operator)).toBe(true);
+  });
+});
+
+describe('canDeactivateMember', () => {
+  it('never allows self-deactivation', () => {
+    expect(canDeactivateMember(admin, admin)).toBe(false);
+    expect(canDeactivateMember(manager, manager)).toBe(false);
+  });
+
+  it('follows the role hierarchy', () => {
+    expect(canDeactivateMember(admin, otherAdmin)).toBe(true);
+    expect(canDeactivateMember(manager, operator)).toBe(true);
+    expect(canDeactivateMember(manager, otherManager)).toBe(false);
+    expect(canDeactivateMember(operator, operator)).toBe(false);
+  });
+});
+
+describe('canForcePasswordReset', () => {
+  it('excludes yourself', () => {
+    expect(canForcePasswordReset(admin, admin)).toBe(false);
+    expect(canForcePasswordReset(admin, manager)).toBe(true);
+    expect(canForcePasswordReset(manager, operator)).toBe(true);
+    expect(canForcePasswordReset(manager, otherManager)).toBe(false);
+  });
+});
+
+describe('getAssignableRoles', () => {
+  it('returns roles at or below the actor', () => {
+    expect(getAssignableRoles(admin)).toEqual(['admin', 'manager', 'operator']);
+    expect(getAssignableRoles(manager)).toEqual(['operator']);
+    expect(getAssignableRoles(operator)).toEqual([]);
+  });
+});
@@ -0,0 +1,5 @@
+export * from './invitation-item';
+export * from './member-actions';
+export * from './member-edit-form';
+export * from './team-access-guard';
+export * from './team-member-item';
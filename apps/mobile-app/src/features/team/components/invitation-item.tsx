@@ -0,0 +1,80 @@
+import React from 'react';
+
+import type { Invitation } from '@/api/invitations/types';
+import { Button, Text, View } from '@/components/ui';
+
+import { getInvitationExpiry } from '../utils/invitation-expiry';
+import { ROLE_LABELS } from '../utils/team-permissions';
+
+type Props = {
+  invitation: Invitation;
+  now: number;
+  disabled: boolean;
+  onShare: (invitation: Invitation) => void;
+  onResend: (invitation: Invitation) => void;
+  onCancel: (invitation: Invitation) => void;
+};
+
+export const InvitationItem = ({
+  invitation,
+  now,
+  disabled,
+  onShare,
+  onResend,
+  onCancel,
+}: Props) => {
+  const expiry = getInvitationExpiry(invitation.expires_at, now);
+  const expiryColor =
+    expiry.expired || expiry.expiringSoon
+      ? 'text-danger-600'
+      : 'text-neutral-500';
+
+  return (
+    <View
+      className="mx-3 my-1.5 rounded-xl border border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-neutral-900"
+      testID={`invitation-${invitation.id}`}
+    >
+      <View className="flex-row items-start">
+        <View className="flex-1">
+          <Text className="font-semibold">{invitation.email}</Text>
+          <Text className={`text-sm ${expiryColor}`}>{expiry.label}</Text>
+          {invitation.inviter ? (
+            <Text className="text-xs text-neutral-500">
+              Invited by {invitation.inviter.name}
+            </Text>
+          ) : null}
+        </View>
+        <Text className="text-xs uppercase text-neutral-500">
+          {ROLE_LABELS[invitation.role]}
+        </Text>
+      </View>
+      <View className="mt-2 flex-row gap-2">
+        {/* The API refuses to resend an expired invitation */}
+        {!expiry.expired ? (
+          <>
+            <Button
+              label="Share"
+              size="sm"
+              variant="outline"
+              onPress={() => onShare(invitation)}
+            />
+            <Button
+              label="Resend"
+              size="sm"
+              variant="outline"
+              disabled={disabled}
+              onPress={() => onResend(invitation)}
+            />
+          </>
+        ) : null}
+        <Button
+          label="Cancel"
+          size="sm"
+          variant="ghost"
+          disabled={disabled}
+          onPress={() => onCancel(invitation)}
+        />
+      </View>
+    </View>
+  );
+};
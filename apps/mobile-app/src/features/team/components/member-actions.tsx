@@ -0,0 +1,62 @@
+import React from 'react';
+
+import type { TeamMember } from '@/api/users/types';
+import { Button, Text, View } from '@/components/ui';
+import type { User } from '@/features/auth/types';
+
+import { useTeamMemberActions } from '../hooks/use-team-member-actions';
+import {
+  canDeactivateMember,
+  canForcePasswordReset,
+} from '../utils/team-permissions';
+
+type Props = {
+  actor: User;
+  member: TeamMember;
+};
+
+export const MemberActions = ({ actor, member }: Props) => {
+  const actions = useTeamMemberActions();
+  const deactivated = Boolean(member.deleted_at);
+  const canDeactivate = canDeactivateMember(actor, member);
+  const canReset = !deactivated && canForcePasswordReset(actor, member);
+
+  if (!canDeactivate && !canReset) {
+    return null;
+  }
+
+  return (
+    <View className="mt-6 border-t border-neutral-200 pt-4 dark:border-neutral-800">
+      <Text className="mb-2 text-lg font-semibold">Account</Text>
+      {member.must_change_password ? (
+        <Text className="mb-2 text-sm text-warning-600">
+          Password change required at next sign-in
+        </Text>
+      ) : null}
+      {canReset && !member.must_change_password ? (
+        <Button
+          label="Force password reset"
+          variant="outline"
+          disabled={actions.isPending}
+          onPress={() => actions.forcePasswordReset(member)}
+        />
+      ) : null}
+      {canDeactivate && deactivated ? (
+        <Button
+          label="Restore account"
+          variant="secondary"
+          disabled={actions.isPending}
+          onPress={() => actions.restoreMember(member)}
+        />
+      ) : null}
+      {canDeactivate && !deactivated ? (
+        <Button
+          label="Deactivate account"
+          variant="destructive"
+          disabled={actions.isPending}
+          onPress={() => actions.deactivateMember(member)}
+        />
+      ) : null}
+    </View>
+  );
+};
@@ -0,0 +1,97 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { Alert } from 'react-native';
+import { z } from 'zod';
+
+import type { TeamMember, UserRole } from '@/api/users/types';
+import { useTeamMember } from '@/api/users/use-team-member';
+import { useTeamMembers } from '@/api/users/use-team-members';
+import { useUpdateTeamMember } from '@/api/users/use-update-team-member';
+import {
+  Button,
+  ControlledInput,
+  ControlledSelect,
+  View,
+} from '@/components/ui';
+
+import { ROLE_LABELS } from '../utils/team-permissions';
+
+const memberSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  email: z.string().email('Please enter a valid email address'),
+  role: z.enum(['admin', 'manager', 'operator']),
+});
+
+type MemberFormData = z.infer<typeof memberSchema>;
+
+type Props = {
+  member: TeamMember;
+  // Empty when the actor may not change this member's role
+  assignableRoles: UserRole[];
+  onSaved?: (member: TeamMember) => void;
+};
+
+export const MemberEditForm = ({ member, assignableRoles, onSaved }: Props) => {
+  const queryClient = useQueryClient();
+  const { mutateAsync: updateMember, isPending } = useUpdateTeamMember();
+  const form = useForm<MemberFormData>({
+    resolver: zodResolver(memberSchema),
+    defaultValues: {
+      name: member.name,
+      email: member.email,
+      role: member.role,
+    },
+  });
+
+  const onSubmit = async (data: MemberFormData) => {
+    try {
+      const updated = await updateMember({
+        id: member.id,
+        name: data.name,
+        email: data.email,
+        // Only send the role when it is ours to change
+        ...(assignableRoles.length > 0 ? { role: data.role } : {}),
+      });
+      queryClient.invalidateQueries({ queryKey: useTeamMembers.getKey() });
+      queryClient.invalidateQueries({ queryKey: useTeamMember.getKey() });
+      onSaved?.(updated);
+    } catch (error: any) {
+      Alert.alert(
+        'Update failed',
+        error.response?.data?.message || 'Please try again.'
+      );
+    }
+  };
+
+  return (
+    <View>
+      <ControlledInput control={form.control} name="name" label="Name" />
+      <ControlledInput
+        control={form.control}
+        name="email"
+        label="Email"
+        autoCapitalize="none"
+        keyboardType="email-address"
+      />
+      {assignableRoles.length > 0 ? (
+        <ControlledSelect
+          control={form.control}
+          name="role"
+          label="Role"
+          options={assignableRoles.map((role) => ({
+            label: ROLE_LABELS[role],
+            value: role,
+          }))}
+        />
+      ) : null}
+      <Button
+        label="Save changes"
+        loading={isPending}
+        onPress={form.handleSubmit(onSubmit)}
+        testID="save-member-button"
+      />
+    </View>
+  );
+};
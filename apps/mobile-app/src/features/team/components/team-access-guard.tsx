@@ -0,0 +1,23 @@
+import { Redirect } from 'expo-router';
+import React from 'react';
+
+import { useAuth } from '@/features/auth/hooks/useAuth';
+
+import { canManageTeam } from '../utils/team-permissions';
+
+type Props = {
+  children: React.ReactNode;
+};
+
+/**
+ * Sends operators back to the home screen. The Team tab is hidden from
+ * them, but its screens can still be opened by URL or deep link.
+ */
+export const TeamAccessGuard = ({ children }: Props) => {
+  const { user } = useAuth();
+
+  if (!canManageTeam(user)) {
+    return <Redirect href="/" />;
+  }
+  return <>{children}</>;
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+
+import type { TeamMember } from '@/api/users/types';
+import { Checkbox, Pressable, Text, View } from '@/components/ui';
+
+import { ROLE_LABELS } from '../utils/team-permissions';
+
+type Props = {
+  member: TeamMember;
+  selectable: boolean;
+  selected: boolean;
+  onPress: (member: TeamMember) => void;
+  onToggleSelect: (member: TeamMember) => void;
+};
+
+export const TeamMemberItem = ({
+  member,
+  selectable,
+  selected,
+  onPress,
+  onToggleSelect,
+}: Props) => {
+  const deactivated = Boolean(member.deleted_at);
+
+  return (
+    <Pressable
+      onPress={() => onPress(member)}
+      onLongPress={() => selectable && onToggleSelect(member)}
+      testID={`team-member-${member.id}`}
+    >
+      <View className="mx-3 my-1.5 flex-row items-center rounded-xl border border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-neutral-900">
+        {selectable ? (
+          <Checkbox
+            checked={selected}
+            onChange={() => onToggleSelect(member)}
+            accessibilityLabel={`Select ${member.name}`}
+            className="mr-3"
+          />
+        ) : null}
+        <View className="flex-1">
+          <Text
+            className={`font-semibold ${deactivated ? 'text-neutral-400' : ''}`}
+          >
+            {member.name}
+          </Text>
+          <Text className="text-sm text-neutral-500">{member.email}</Text>
+        </View>
+        <View className="items-end">
+          <Text className="text-xs uppercase text-neutral-500">
+            {ROLE_LABELS[member.role]}
+          </Text>
+          {deactivated ? (
+            <Text className="text-xs text-danger-600">Deactivated</Text>
+          ) : null}
+        </View>
+      </View>
+    </Pressable>
+  );
+};
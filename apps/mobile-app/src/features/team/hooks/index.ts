@@ -0,0 +1,3 @@
+export * from './use-invitation-actions';
+export * from './use-member-selection';
+export * from './use-team-member-actions';
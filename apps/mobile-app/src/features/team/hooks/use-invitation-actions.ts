@@ -0,0 +1,87 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { Alert, Share } from 'react-native';
+import { showMessage } from 'react-native-flash-message';
+
+import type { Invitation } from '@/api/invitations/types';
+import {
+  useCancelInvitation,
+  useResendInvitation,
+} from '@/api/invitations/use-invitation-actions';
+import { usePendingInvitations } from '@/api/invitations/use-pending-invitations';
+import { DeepLinkingService } from '@/features/auth/utils/deepLinking';
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || fallback;
+
+export async function shareInvitation(invitation: Invitation) {
+  const url = DeepLinkingService.generateInvitationUrl(invitation.token);
+  try {
+    await Share.share({
+      message: `You've been invited to join CheckRight. Accept your invitation: ${url}`,
+      url,
+    });
+  } catch (error) {
+    console.error('Failed to share invitation:', error);
+  }
+}
+
+/**
+ * Resend, cancel and share actions for pending invitations
+ */
+export function useInvitationActions() {
+  const queryClient = useQueryClient();
+  const resend = useResendInvitation();
+  const cancel = useCancelInvitation();
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: usePendingInvitations.getKey() });
+
+  const resendInvitation = async (invitation: Invitation) => {
+    try {
+      await resend.mutateAsync({ id: invitation.id });
+      showMessage({
+        message: `Invitation resent to ${invitation.email}`,
+        type: 'success',
+      });
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        getErrorMessage(error, 'Failed to resend invitation')
+      );
+    } finally {
+      refresh();
+    }
+  };
+
+  const cancelInvitation = (invitation: Invitation) =>
+    Alert.alert(
+      'Cancel invitation',
+      `The invitation link sent to ${invitation.email} will stop working.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel invitation',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await cancel.mutateAsync({ id: invitation.id });
+            } catch (error) {
+              Alert.alert(
+                'Error',
+                getErrorMessage(error, 'Failed to cancel invitation')
+              );
+            } finally {
+              refresh();
+            }
+          },
+        },
+      ]
+    );
+
+  return {
+    isPending: resend.isPending || cancel.isPending,
+    resendInvitation,
+    cancelInvitation,
+    shareInvitation,
+  };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * Multi-select state for bulk actions on the team list
+ */
+export function useMemberSelection() {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const toggle = useCallback((id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const clear = useCallback(() => setSelected(new Set()), []);
+
+  return {
+    selectedIds: [...selected],
+    isSelected: (id: string) => selected.has(id),
+    isSelecting: selected.size > 0,
+    count: selected.size,
+    toggle,
+    clear,
+  };
+}
@@ -0,0 +1,115 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+
+import type { TeamMember } from '@/api/users/types';
+import { useTeamMember } from '@/api/users/use-team-member';
+import {
+  useBulkDeactivateTeamMembers,
+  useDeactivateTeamMember,
+  useForcePasswordReset,
+  useRestoreTeamMember,
+} from '@/api/users/use-team-member-actions';
+import { useTeamMembers } from '@/api/users/use-team-members';
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || fallback;
+
+const confirm = (title: string, message: string, action: string) =>
+  new Promise<boolean>((resolve) =>
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: action, style: 'destructive', onPress: () => resolve(true) },
+    ])
+  );
+
+const plural = (count: number) => (count === 1 ? 'user' : 'users');
+
+/**
+ * Runs a mutation, refreshing the team queries on success and surfacing
+ * the API's message on failure
+ */
+function useTeamMutationRunner() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async <T>(request: () => Promise<T>, fallback: string) => {
+      try {
+        const result = await request();
+        queryClient.invalidateQueries({ queryKey: useTeamMembers.getKey() });
+        queryClient.invalidateQueries({ queryKey: useTeamMember.getKey() });
+        return result;
+      } catch (error) {
+        Alert.alert('Error', getErrorMessage(error, fallback));
+        return null;
+      }
+    },
+    [queryClient]
+  );
+}
+
+/**
+ * Confirmed account actions that refresh the team list afterwards
+ */
+export function useTeamMemberActions() {
+  const run = useTeamMutationRunner();
+  const deactivate = useDeactivateTeamMember();
+  const restore = useRestoreTeamMember();
+  const forceReset = useForcePasswordReset();
+  const bulkDeactivate = useBulkDeactivateTeamMembers();
+
+  const deactivateMember = async (member: TeamMember) =>
+    (await confirm(
+      'Deactivate user',
+      `${member.name} will no longer be able to sign in. You can restore the account later.`,
+      'Deactivate'
+    )) &&
+    run(
+      () => deactivate.mutateAsync({ id: member.id }),
+      'Failed to deactivate user'
+    );
+
+  const restoreMember = (member: TeamMember) =>
+    run(() => restore.mutateAsync({ id: member.id }), 'Failed to restore user');
+
+  const forcePasswordReset = async (member: TeamMember) =>
+    (await confirm(
+      'Force password reset',
+      `${member.name} will have to choose a new password next time they sign in.`,
+      'Require reset'
+    )) &&
+    run(
+      () => forceReset.mutateAsync({ id: member.id }),
+      'Failed to force password reset'
+    );
+
+  const deactivateMembers = async (ids: string[]) => {
+    const ok = await confirm(
+      'Deactivate users',
+      `Deactivate ${ids.length} selected ${plural(ids.length)}?`,
+      'Deactivate'
+    );
+    const result =
+      ok &&
+      (await run(
+        () => bulkDeactivate.mutateAsync({ user_ids: ids }),
+        'Failed to deactivate users'
+      ));
+    if (result && result.errors.length > 0) {
+      Alert.alert('Some users were not deactivated', result.errors.join('\n'));
+    }
+    return result;
+  };
+
+  return {
+    isPending:
+      deactivate.isPending ||
+      restore.isPending ||
+      forceReset.isPending ||
+      bulkDeactivate.isPending,
+    deactivateMember,
+    restoreMember,
+    forcePasswordReset,
+    deactivateMembers,
+  };
+}
@@ -0,0 +1,4 @@
+// Team feature exports
+export * from './components';
+export * from './hooks';
+export * from './utils';
@@ -0,0 +1,2 @@
+export * from './invitation-expiry';
+export * from './team-permissions';
@@ -0,0 +1,45 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Below this the countdown is highlighted so it can be resent in time
+export const EXPIRY_WARNING_MS = DAY;
+
+export type InvitationExpiry = {
+  expired: boolean;
+  expiringSoon: boolean;
+  label: string;
+};
+
+/**
+ * Human countdown until an invitation expires, e.g. "Expires in 2d 4h"
+ */
+export function getInvitationExpiry(
+  expiresAt: string,
+  now: number = Date.now()
+): InvitationExpiry {
+  const remaining = new Date(expiresAt).getTime() - now;
+
+  if (Number.isNaN(remaining) || remaining <= 0) {
+    return { expired: true, expiringSoon: false, label: 'Expired' };
+  }
+
+  const days = Math.floor(remaining / DAY);
+  const hours = Math.floor((remaining % DAY) / HOUR);
+  const minutes = Math.max(1, Math.floor((remaining % HOUR) / MINUTE));
+
+  let countdown: string;
+  if (days > 0) {
+    countdown = hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  } else if (hours > 0) {
+    countdown = `${hours}h ${minutes}m`;
+  } else {
+    countdown = `${minutes}m`;
+  }
+
+  return {
+    expired: false,
+    expiringSoon: remaining < EXPIRY_WARNING_MS,
+    label: `Expires in ${countdown}`,
+  };
+}
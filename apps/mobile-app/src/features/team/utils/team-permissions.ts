@@ -0,0 +1,50 @@
+import type { UserRole } from '@/api/users/types';
+import type { User } from '@/features/auth/types';
+
+/**
+ * Client-side mirror of the API's UserPolicy. The server remains the
+ * authority; these only decide what the UI offers.
+ */
+
+type Actor = Pick<User, 'id' | 'role'>;
+type Member = Pick<User, 'id' | 'role'>;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  operator: 'Operator',
+};
+
+export function canManageTeam(actor?: Actor | null): boolean {
+  return actor?.role === 'admin' || actor?.role === 'manager';
+}
+
+export function canViewMember(actor: Actor, member: Member): boolean {
+  if (actor.id === member.id || actor.role === 'admin') return true;
+  return actor.role === 'manager' && member.role !== 'admin';
+}
+
+export function canEditMember(actor: Actor, member: Member): boolean {
+  if (actor.id === member.id || actor.role === 'admin') return true;
+  return actor.role === 'manager' && member.role === 'operator';
+}
+
+export function canDeactivateMember(actor: Actor, member: Member): boolean {
+  // The API refuses self-deactivation
+  if (actor.id === member.id) return false;
+  if (actor.role === 'admin') return true;
+  return actor.role === 'manager' && member.role === 'operator';
+}
+
+export function canForcePasswordReset(actor: Actor, member: Member): boolean {
+  return actor.id !== member.id && canEditMember(actor, member);
+}
+
+/**
+ * Roles the actor may give to someone else (or invite them as)
+ */
+export function getAssignableRoles(actor?: Actor | null): UserRole[] {
+  if (actor?.role === 'admin') return ['admin', 'manager', 'operator'];
+  if (actor?.role === 'manager') return ['operator'];
+  return [];
+}
@@ -1,11 +1,13 @@
 import { act, renderHook } from '@testing-library/react-native';
 import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
 import { Alert } from 'react-native';
 
 import {
   biometricAuth,
   type BiometricAuthResult,
   type BiometricCapabilities,
+  BiometricEnrollmentChangedError,
   useBiometricAuth,
 } from '../biometric-auth';
 
@@ -579,3 +581,33 @@ describe('useBiometricAuth hook', () => {
     });
   });
 });
+
+describe('biometricAuth.readProtectedItem', () => {
+  const mockGetItem = SecureStore.getItemAsync as jest.Mock;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('returns the item once the prompt succeeds', async () => {
+    mockGetItem.mockResolvedValue(JSON.stringify({ secret: 'value' }));
+
+    await expect(
+      biometricAuth.readProtectedItem('credentials', 'Sign in')
+    ).resolves.toEqual({ secret: 'value' });
+  });
+
+  it('returns null when the prompt is cancelled', async () => {
+    mockGetItem.mockRejectedValue(new Error('User canceled the operation.'));
+
+    await expect(
+      biometricAuth.readProtectedItem('credentials', 'Sign in')
+    ).resolves.toBeNull();
+  });
+
+  it('reports an invalidated key as an enrollment change', async () => {
+    mockGetItem.mockResolvedValue(null);
+
+    await expect(
+      biometricAuth.readProtectedItem('credentials', 'Sign in')
+    ).rejects.toBeInstanceOf(BiometricEnrollmentChangedError);
+  });
+});
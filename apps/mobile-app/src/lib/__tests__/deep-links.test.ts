@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+import {
+  DeepLinkRegistry,
+  defineDeepLink,
+  matchDeepLink,
+  parseLinkParams,
+} from '../deep-links';
+
+const assetLink = defineDeepLink({
+  path: '/assets/:id/inspect',
+  params: z.object({ id: z.string().regex(/^[\w-]+$/) }),
+  route: ({ id }) => `/inspections/${id}`,
+});
+
+describe('matchDeepLink', () => {
+  it.each([
+    ['universal links', 'https://acme.checkright.app/assets/a-1/inspect'],
+    ['the app scheme', 'checkrightApp://assets/a-1/inspect'],
+    ['Expo Go', 'exp://192.168.1.2:8081/--/assets/a-1/inspect'],
+    ['trailing slashes and queries', 'checkright:///assets/a-1/inspect/?x=1'],
+  ])('reads path params from %s', (_source, url) => {
+    expect(matchDeepLink(assetLink, url)).toEqual({ id: 'a-1' });
+  });
+
+  it('ignores other paths', () => {
+    expect(
+      matchDeepLink(assetLink, 'https://checkright.app/assets/a-1')
+    ).toBeNull();
+    expect(
+      matchDeepLink(assetLink, 'https://checkright.app/team/a-1/inspect')
+    ).toBeNull();
+  });
+
+  it('rejects params that fail validation', () => {
+    expect(
+      matchDeepLink(assetLink, 'https://checkright.app/assets/a%2F1/inspect')
+    ).toBeNull();
+  });
+
+  it('validates query params with the path params', () => {
+    const link = defineDeepLink({
+      path: '/reports/:id',
+      params: z.object({ id: z.string(), period: z.enum(['week', 'month']) }),
+    });
+
+    expect(
+      matchDeepLink(link, 'https://checkright.app/reports/r1?period=week')
+    ).toEqual({ id: 'r1', period: 'week' });
+    expect(
+      matchDeepLink(link, 'https://checkright.app/reports/r1?period=year')
+    ).toBeNull();
+  });
+});
+
+describe('parseLinkParams', () => {
+  it('decodes query and fragment params', () => {
+    expect(
+      parseLinkParams('checkright://cb?email=jane%2Bops%40x.com#state=a+b')
+    ).toEqual({ email: 'jane+ops@x.com', state: 'a b' });
+  });
+});
+
+describe('DeepLinkRegistry', () => {
+  it('finds the first handler a link matches', () => {
+    const catchAll = defineDeepLink({
+      path: '/assets/:id/:action',
+      params: z.object({ id: z.string(), action: z.string() }),
+    });
+    const registry = new DeepLinkRegistry([assetLink]);
+    registry.register(catchAll);
+
+    expect(registry.match('https://checkright.app/assets/a-1/inspect')).toEqual(
+      { handler: assetLink, params: { id: 'a-1' } }
+    );
+    expect(
+      registry.match('https://checkright.app/assets/a-1/history')?.handler
+    ).toBe(catchAll);
+  });
+
+  it('removes registered handlers again', () => {
+    const registry = new DeepLinkRegistry();
+    const unregister = registry.register(assetLink);
+
+    unregister();
+
+    expect(
+      registry.match('https://checkright.app/assets/a-1/inspect')
+    ).toBeNull();
+  });
+
+  it('treats malformed links as unknown', () => {
+    const registry = new DeepLinkRegistry([assetLink]);
+
+    expect(
+      registry.match('https://checkright.app/assets/%E0%A4%A/inspect')
+    ).toBeNull();
+  });
+});
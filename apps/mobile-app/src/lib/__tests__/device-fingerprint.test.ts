@@ -9,6 +9,11 @@ import {
   deviceFingerprintService,
   useDeviceFingerprint,
 } from '../device-fingerprint';
+import { secureStorage } from '../secure-storage';
+
+jest.mock('../secure-storage', () => ({
+  secureStorage: { generateDeviceId: jest.fn() },
+}));
 
 // Mock dependencies
 const mockCrypto = Crypto as jest.Mocked<typeof Crypto>;
@@ -16,6 +21,7 @@ const mockConstants = Constants as jest.Mocked<typeof Constants>;
 const mockLocalization = Localization as jest.Mocked<typeof Localization>;
 const mockPlatform = Platform as jest.Mocked<typeof Platform>;
 const mockDimensions = Dimensions as jest.Mocked<typeof Dimensions>;
+const mockGenerateDeviceId = secureStorage.generateDeviceId as jest.Mock;
 
 describe('DeviceFingerprintService', () => {
   const mockInstallationId = 'mock-installation-id-123';
@@ -32,6 +38,7 @@ describe('DeviceFingerprintService', () => {
       async () => mockFingerprint
     );
     mockConstants.installationId = mockInstallationId;
+    mockGenerateDeviceId.mockResolvedValue(mockDeviceId);
     mockConstants.expoConfig = {
       version: '1.0.0',
       name: 'TestApp',
@@ -87,6 +94,7 @@ describe('DeviceFingerprintService', () => {
         platform: 'ios',
         platformVersion: '17.0',
         deviceModel: 'iPhone',
+        deviceName: 'iPhone',
         screenDimensions: {
           width: 375,
           height: 812,
@@ -104,7 +112,7 @@ describe('DeviceFingerprintService', () => {
       const secondCall = await deviceFingerprintService.generateFingerprint();
 
       expect(firstCall).toBe(secondCall); // Same object reference due to caching
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledTimes(2); // Once for device ID, once for fingerprint
+      expect(mockCrypto.digestStringAsync).toHaveBeenCalledTimes(1); // Fingerprint only, the device ID is stored
     });
 
     it('should handle Android platform', async () => {
@@ -147,20 +155,12 @@ describe('DeviceFingerprintService', () => {
       // Clear cache first
       deviceFingerprintService.clearCache();
 
-      // First fingerprint - need two calls: one for device ID, one for fingerprint
-      mockCrypto.digestStringAsync.mockResolvedValueOnce(
-        mockDeviceId.replace('mobile_', '')
-      );
       mockCrypto.digestStringAsync.mockResolvedValueOnce('fingerprint1');
       const fingerprint1 = await deviceFingerprintService.generateFingerprint();
 
       // Clear cache and change configuration
       deviceFingerprintService.clearCache();
 
-      // Second fingerprint - need two calls: one for device ID, one for fingerprint
-      mockCrypto.digestStringAsync.mockResolvedValueOnce(
-        mockDeviceId.replace('mobile_', '')
-      );
       mockCrypto.digestStringAsync.mockResolvedValueOnce('fingerprint2');
 
       const fingerprint2 = await deviceFingerprintService.generateFingerprint();
@@ -247,63 +247,36 @@ describe('DeviceFingerprintService', () => {
     });
   });
 
-  describe('generateDeviceId', () => {
-    it('should generate device ID with installation ID and entropy', async () => {
-      // Access private method for testing
-      const service = deviceFingerprintService as any;
-
-      const deviceId = await service.generateDeviceId();
-
-      expect(deviceId).toMatch(/^mobile_[a-f0-9]{32}$/);
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledWith(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        expect.stringContaining(mockInstallationId),
-        { encoding: Crypto.CryptoEncoding.HEX }
-      );
-    });
-
-    it('should include entropy in device ID generation', async () => {
-      const service = deviceFingerprintService as any;
-
-      await service.generateDeviceId();
-
-      const expectedEntropy = [
-        'ios',
-        '17.0',
-        '375', // width
-        '812', // height
-        'en-US',
-        'TestApp',
-      ].join('|');
+  describe('deviceId', () => {
+    it('should use the device ID kept in secure storage', async () => {
+      const fingerprint = await deviceFingerprintService.generateFingerprint();
 
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledWith(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        `${mockInstallationId}|${expectedEntropy}`,
-        { encoding: Crypto.CryptoEncoding.HEX }
-      );
+      expect(fingerprint.deviceId).toBe(mockDeviceId);
+      expect(mockGenerateDeviceId).toHaveBeenCalled();
     });
 
-    it('should handle missing installation ID', async () => {
-      mockConstants.installationId = null as any;
-      const service = deviceFingerprintService as any;
+    it('should keep the device ID when the device configuration changes', async () => {
+      const before = await deviceFingerprintService.generateFingerprint();
 
-      const deviceId = await service.generateDeviceId();
+      deviceFingerprintService.clearCache();
+      mockPlatform.Version = '18.0';
+      mockDimensions.get.mockReturnValue({
+        width: 812,
+        height: 375,
+        scale: 3,
+        fontScale: 1,
+      });
+      const after = await deviceFingerprintService.generateFingerprint();
 
-      expect(deviceId).toMatch(/^mobile_[a-f0-9]{32}$/);
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledWith(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        expect.stringContaining('unknown'), // fallback installation ID
-        { encoding: Crypto.CryptoEncoding.HEX }
-      );
+      expect(after.deviceId).toBe(before.deviceId);
     });
 
-    it('should handle device ID generation errors', async () => {
-      mockCrypto.digestStringAsync.mockRejectedValue(new Error('Hash failed'));
-      const service = deviceFingerprintService as any;
+    it('should fail when the device ID cannot be read', async () => {
+      mockGenerateDeviceId.mockRejectedValue(new Error('Keychain locked'));
 
-      await expect(service.generateDeviceId()).rejects.toThrow(
-        'Failed to generate device ID'
-      );
+      await expect(
+        deviceFingerprintService.generateFingerprint()
+      ).rejects.toThrow('Failed to generate device fingerprint');
     });
   });
 
@@ -351,10 +324,9 @@ describe('DeviceFingerprintService', () => {
       // Clear cache and set up fresh mock calls
       deviceFingerprintService.clearCache();
 
-      // Mock separate hash for security context - need 3 calls total:
-      // 1. Device ID generation, 2. Fingerprint generation, 3. Security hash
+      // Mock separate hash for security context - need 2 calls total:
+      // 1. Fingerprint generation, 2. Security hash
       mockCrypto.digestStringAsync
-        .mockResolvedValueOnce(mockDeviceId.replace('mobile_', '')) // for device ID
         .mockResolvedValueOnce(mockFingerprint) // for fingerprint
         .mockResolvedValueOnce('security_hash_123'); // for security context
 
@@ -421,8 +393,8 @@ describe('DeviceFingerprintService', () => {
       // Generate again - should call crypto functions again
       await deviceFingerprintService.generateFingerprint();
 
-      // Should have been called twice for device ID and twice for fingerprint
-      expect(mockCrypto.digestStringAsync).toHaveBeenCalledTimes(4);
+      // Should have been called once per fingerprint
+      expect(mockCrypto.digestStringAsync).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -453,21 +425,6 @@ describe('DeviceFingerprintService', () => {
         deviceFingerprintService.generateFingerprint()
       ).rejects.toThrow('Failed to generate device fingerprint');
     });
-
-    it('should handle Constants access errors', async () => {
-      // Make Constants throw when accessed
-      Object.defineProperty(mockConstants, 'installationId', {
-        get: () => {
-          throw new Error('Constants error');
-        },
-      });
-
-      const service = deviceFingerprintService as any;
-
-      await expect(service.generateDeviceId()).rejects.toThrow(
-        'Failed to generate device ID'
-      );
-    });
   });
 
   describe('Fingerprint Consistency', () => {
@@ -475,20 +432,12 @@ describe('DeviceFingerprintService', () => {
       // Clear cache and generate first fingerprint
       deviceFingerprintService.clearCache();
 
-      // Mock calls for first fingerprint generation
-      mockCrypto.digestStringAsync.mockResolvedValueOnce(
-        mockDeviceId.replace('mobile_', '')
-      );
       mockCrypto.digestStringAsync.mockResolvedValueOnce(mockFingerprint);
       const fingerprint1 = await deviceFingerprintService.generateFingerprint();
 
       // Clear cache and generate second fingerprint (should be same with same setup)
       deviceFingerprintService.clearCache();
 
-      // Mock calls for second fingerprint generation (same values for consistency)
-      mockCrypto.digestStringAsync.mockResolvedValueOnce(
-        mockDeviceId.replace('mobile_', '')
-      );
       mockCrypto.digestStringAsync.mockResolvedValueOnce(mockFingerprint);
       const fingerprint2 = await deviceFingerprintService.generateFingerprint();
 
@@ -499,9 +448,6 @@ describe('DeviceFingerprintService', () => {
     it('should generate different fingerprints for different devices', async () => {
       // Clear cache and generate first fingerprint
       deviceFingerprintService.clearCache();
-      mockCrypto.digestStringAsync.mockResolvedValueOnce(
-        mockDeviceId.replace('mobile_', '')
-      );
       mockCrypto.digestStringAsync.mockResolvedValueOnce(mockFingerprint);
       const fingerprint1 = await deviceFingerprintService.generateFingerprint();
 
@@ -510,9 +456,7 @@ describe('DeviceFingerprintService', () => {
       mockConstants.installationId = 'different-installation-id';
 
       // Mock different values for different device
-      mockCrypto.digestStringAsync.mockResolvedValueOnce(
-        'different_device_hash_32chars_len'
-      );
+      mockGenerateDeviceId.mockResolvedValueOnce('device_other_device_id');
       mockCrypto.digestStringAsync.mockResolvedValueOnce(
         'different_fingerprint'
       );
@@ -546,6 +490,7 @@ describe('useDeviceFingerprint hook', () => {
 
     // Reset constants for hook tests
     mockConstants.installationId = 'hook-installation-id';
+    mockGenerateDeviceId.mockResolvedValue(hookDeviceId);
     mockConstants.expoConfig = {
       version: '1.0.0',
       name: 'TestApp',
@@ -621,7 +566,7 @@ describe('useDeviceFingerprint hook', () => {
 
     expect(securityContext!).toEqual({
       device_fingerprint: expect.any(String),
-      device_id: expect.stringMatching(/^mobile_[a-f0-9_]{32}$/),
+      device_id: hookDeviceId,
       timestamp: expect.any(Number),
       security_hash: expect.any(String),
     });
@@ -119,6 +119,30 @@ describe('SecureStorage', () => {
     });
   });
 
+  describe('getProtectedItem', () => {
+    it('should read through the biometric prompt', async () => {
+      mockSecureStore.getItemAsync.mockResolvedValue(JSON.stringify(testValue));
+
+      const result = await secureStorage.getProtectedItem(testKey, 'Sign in');
+
+      expect(mockSecureStore.getItemAsync).toHaveBeenCalledWith(
+        'checkright_secure_test_key',
+        { requireAuthentication: true, authenticationPrompt: 'Sign in' }
+      );
+      expect(result).toEqual(testValue);
+    });
+
+    it('should throw when the prompt is cancelled', async () => {
+      mockSecureStore.getItemAsync.mockRejectedValue(
+        new Error('User canceled the operation.')
+      );
+
+      await expect(
+        secureStorage.getProtectedItem(testKey, 'Sign in')
+      ).rejects.toThrow('User canceled');
+    });
+  });
+
   describe('removeItem', () => {
     it('should remove item with correct key', async () => {
       await secureStorage.removeItem(testKey);
@@ -224,9 +248,12 @@ describe('SecureStorage', () => {
         'checkright_secure_device_secret',
         'checkright_secure_refresh_token',
         'checkright_secure_access_token',
+        'checkright_secure_biometric_credentials',
+        'checkright_secure_biometric_account',
+        'checkright_secure_biometric_reenroll_account',
       ];
 
-      expect(mockSecureStore.deleteItemAsync).toHaveBeenCalledTimes(6);
+      expect(mockSecureStore.deleteItemAsync).toHaveBeenCalledTimes(9);
       expectedKeys.forEach((key) => {
         expect(mockSecureStore.deleteItemAsync).toHaveBeenCalledWith(key);
       });
@@ -241,7 +268,7 @@ describe('SecureStorage', () => {
       // Should not throw error and continue with other removals
       await expect(secureStorage.clearAll()).resolves.not.toThrow();
 
-      expect(mockSecureStore.deleteItemAsync).toHaveBeenCalledTimes(6);
+      expect(mockSecureStore.deleteItemAsync).toHaveBeenCalledTimes(9);
     });
   });
 });
@@ -264,15 +291,19 @@ describe('secureTokenStorage', () => {
   });
 
   describe('setTokens', () => {
-    it('should store tokens with biometric authentication required', async () => {
+    it('should replace tokens readable only on this device while unlocked', async () => {
       await secureTokenStorage.setTokens(mockTokens);
 
+      expect(mockSecureStore.deleteItemAsync).toHaveBeenCalledWith(
+        'checkright_secure_auth_tokens'
+      );
       expect(mockSecureStore.setItemAsync).toHaveBeenCalledWith(
         'checkright_secure_auth_tokens',
         JSON.stringify(mockTokens),
         {
-          requireAuthentication: true,
+          requireAuthentication: false,
           accessGroup: undefined,
+          keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
         }
       );
     });
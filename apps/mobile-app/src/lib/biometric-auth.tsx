@@ -1,6 +1,8 @@
 import * as LocalAuthentication from 'expo-local-authentication';
 import { Alert } from 'react-native';
 
+import { secureStorage } from './secure-storage';
+
 /**
  * Biometric authentication integration for React Native
  * Supports Face ID, Touch ID, and fingerprint authentication
@@ -18,6 +20,17 @@ export interface BiometricCapabilities {
   availableTypes: LocalAuthentication.AuthenticationType[];
 }
 
+/**
+ * The system invalidated a biometric-protected item because a face or
+ * fingerprint was added or removed since it was stored
+ */
+export class BiometricEnrollmentChangedError extends Error {
+  constructor(message = 'The enrolled biometrics have changed on this device') {
+    super(message);
+    this.name = 'BiometricEnrollmentChangedError';
+  }
+}
+
 class BiometricAuth {
   /**
    * Check device biometric capabilities
@@ -198,6 +211,29 @@ class BiometricAuth {
     }
   }
 
+  /**
+   * Read an item kept behind biometrics, which only the biometrics enrolled
+   * when it was stored can unlock. Only call this for an item known to be
+   * stored: a missing item means its key was invalidated.
+   * @returns The item, or null if the prompt was cancelled or failed
+   * @throws BiometricEnrollmentChangedError if biometrics changed since
+   */
+  async readProtectedItem<T>(key: string, reason: string): Promise<T | null> {
+    let value: T | null;
+
+    try {
+      value = await secureStorage.getProtectedItem<T>(key, reason);
+    } catch (error) {
+      console.warn('BiometricAuth: Protected item not read', error);
+      return null;
+    }
+
+    if (value === null) {
+      throw new BiometricEnrollmentChangedError();
+    }
+    return value;
+  }
+
   /**
    * Configure biometric authentication for the app
    */
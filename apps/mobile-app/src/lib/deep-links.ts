@@ -0,0 +1,170 @@
+import type { Href } from 'expo-router';
+import type { z } from 'zod';
+
+/**
+ * Who a link is for. `signed-in` links wait until the user has signed in;
+ * `signed-out` links, like invitations, can't be opened over a session.
+ */
+export type DeepLinkAuth = 'any' | 'signed-in' | 'signed-out';
+
+/**
+ * A kind of link the app opens, from its own scheme or as a universal
+ * link / app link on the web domain
+ */
+export interface DeepLinkHandler<TParams extends z.ZodTypeAny = z.ZodTypeAny> {
+  // Path with `:name` placeholders, e.g. `/assets/:id/inspect`
+  path: string;
+  // Validates the placeholders and query parameters together
+  params: TParams;
+  // Defaults to `any`
+  auth?: DeepLinkAuth;
+  // The screen the link opens
+  route?(params: z.output<TParams>): Href;
+  // Or, for links with no screen of their own, what to do with them
+  handle?(params: z.output<TParams>): void;
+}
+
+export interface DeepLinkMatch {
+  handler: DeepLinkHandler;
+  params: unknown;
+}
+
+/**
+ * Declare a handler, keeping its params typed from the schema
+ */
+export function defineDeepLink<TParams extends z.ZodTypeAny>(
+  handler: DeepLinkHandler<TParams>
+): DeepLinkHandler<TParams> {
+  return handler;
+}
+
+/**
+ * Query and fragment parameters, decoded. OAuth providers may send
+ * theirs in the fragment.
+ */
+export function parseLinkParams(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  url
+    .split(/[?#]/)
+    .slice(1)
+    .flatMap((part) => part.split('&'))
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      params[decodeURIComponent(key)] = decodeURIComponent(
+        value.replace(/\+/g, ' ')
+      );
+    });
+  return params;
+}
+
+/**
+ * The path segments of a link, whatever it arrived as:
+ * `https://acme.checkright.app/a/b`, `checkrightApp://a/b` (where the
+ * host is the first segment) or `exp://192.168.1.2:8081/--/a/b` in Expo Go
+ */
+function toSegments(url: string): string[] {
+  let path = url.split(/[?#]/)[0];
+  const expoPath = path.indexOf('/--/');
+
+  if (expoPath !== -1) {
+    path = path.slice(expoPath + 3);
+  } else if (/^https?:\/\//i.test(path)) {
+    path = path.replace(/^https?:\/\/[^/]+/i, '');
+  } else {
+    path = path.replace(/^[a-z][\w+.-]*:/i, '');
+  }
+  return path.split('/').filter(Boolean);
+}
+
+// The placeholder values, or null if the path doesn't fit the pattern
+function matchPath(
+  pattern: string,
+  segments: string[]
+): Record<string, string> | null {
+  const parts = pattern.split('/').filter(Boolean);
+
+  if (parts.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, part] of parts.entries()) {
+    const segment = segments[index];
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(segment);
+    } else if (part.toLowerCase() !== segment.toLowerCase()) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Match a link against one handler
+ * @returns The validated params, or null if the link isn't this kind or
+ * its params are invalid
+ */
+export function matchDeepLink<TParams extends z.ZodTypeAny>(
+  handler: DeepLinkHandler<TParams>,
+  url: string
+): z.output<TParams> | null {
+  const pathParams = matchPath(handler.path, toSegments(url));
+
+  if (!pathParams) {
+    return null;
+  }
+
+  const result = handler.params.safeParse({
+    ...parseLinkParams(url),
+    ...pathParams,
+  });
+  return result.success ? result.data : null;
+}
+
+/**
+ * The kinds of link the app opens. Features add their own with
+ * `register`; the first handler a link matches wins.
+ */
+export class DeepLinkRegistry {
+  private handlers: DeepLinkHandler[] = [];
+
+  constructor(handlers: DeepLinkHandler[] = []) {
+    this.handlers = [...handlers];
+  }
+
+  /**
+   * Add handlers after those already registered
+   * @returns A function that removes them again
+   */
+  register(...handlers: DeepLinkHandler[]): () => void {
+    this.handlers.push(...handlers);
+
+    return () => {
+      this.handlers = this.handlers.filter(
+        (handler) => !handlers.includes(handler)
+      );
+    };
+  }
+
+  /**
+   * Find the handler for a link
+   * @param url The incoming URL
+   * @returns The handler and its validated params, or null if none fits
+   */
+  match(url: string): DeepLinkMatch | null {
+    for (const handler of this.handlers) {
+      try {
+        const params = matchDeepLink(handler, url);
+        if (params) {
+          return { handler, params };
+        }
+      } catch (error) {
+        // A malformed escape in the URL
+        console.warn('Failed to parse deep link:', error);
+        return null;
+      }
+    }
+    return null;
+  }
+}
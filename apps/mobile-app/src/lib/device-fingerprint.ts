@@ -1,8 +1,11 @@
 import Constants from 'expo-constants';
 import * as Crypto from 'expo-crypto';
+import * as Device from 'expo-device';
 import * as Localization from 'expo-localization';
 import { Dimensions, Platform } from 'react-native';
 
+import { secureStorage } from './secure-storage';
+
 /**
  * Device fingerprinting for React Native mobile apps
  * Creates unique device identifiers for security purposes
@@ -13,6 +16,7 @@ export interface DeviceFingerprint {
   platform: string;
   platformVersion: string;
   deviceModel: string;
+  deviceName: string;
   screenDimensions: {
     width: number;
     height: number;
@@ -41,16 +45,18 @@ class DeviceFingerprintService {
       // Collect device information
       const deviceInfo = {
         platform: Platform.OS,
-        platformVersion: Platform.Version.toString(),
+        platformVersion: Device.osVersion ?? Platform.Version.toString(),
         deviceModel: this.getDeviceModel(),
+        deviceName: Device.deviceName ?? this.getDeviceModel(),
         screenDimensions: { width, height, scale },
         locale: Localization.getLocales()[0]?.languageTag || 'en-NZ',
         timezone: Localization.getCalendars()[0]?.timeZone || 'UTC',
         appVersion: Constants.expoConfig?.version || '1.0.0',
       };
 
-      // Generate unique device ID if not exists
-      const deviceId = await this.generateDeviceId();
+      // The same keychain-backed ID used for device registration, so it
+      // survives OS updates and display or locale changes
+      const deviceId = await secureStorage.generateDeviceId();
 
       // Create fingerprint hash
       const fingerprintData = JSON.stringify({
@@ -91,6 +97,9 @@ class DeviceFingerprintService {
    * Get device model information
    */
   private getDeviceModel(): string {
+    if (Device.modelName) {
+      return Device.modelName;
+    }
     if (Platform.OS === 'ios') {
       return Constants.platform?.ios?.model || 'iPhone';
     } else if (Platform.OS === 'android') {
@@ -99,42 +108,6 @@ class DeviceFingerprintService {
     return 'Unknown Device';
   }
 
-  /**
-   * Generate or retrieve persistent device ID
-   */
-  private async generateDeviceId(): Promise<string> {
-    try {
-      // Use Expo Constants installationId as base
-      const installationId = Constants.installationId || 'unknown';
-
-      // Create additional entropy
-      const entropy = [
-        Platform.OS,
-        Platform.Version,
-        Dimensions.get('window').width,
-        Dimensions.get('window').height,
-        Localization.getLocales()[0]?.languageTag || 'en-NZ',
-        Constants.expoConfig?.name || 'app',
-      ].join('|');
-
-      // Generate device ID
-      const deviceIdString = `${installationId}|${entropy}`;
-      const deviceId = await Crypto.digestStringAsync(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        deviceIdString,
-        { encoding: Crypto.CryptoEncoding.HEX }
-      );
-
-      return `mobile_${deviceId.substring(0, 32)}`;
-    } catch (error) {
-      console.error(
-        'DeviceFingerprintService: Failed to generate device ID',
-        error
-      );
-      throw new Error('Failed to generate device ID');
-    }
-  }
-
   /**
    * Get simplified device info for API requests
    */
@@ -1,2 +1,3 @@
 export * from './use-is-first-time';
+export * from './use-now';
 export * from './use-selected-theme';
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time, refreshed on an interval so countdowns stay live
+ */
+export function useNow(intervalMs: number = 60 * 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
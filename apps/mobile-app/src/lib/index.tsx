@@ -1,4 +1,3 @@
-export * from './auth';
 export * from './hooks';
 export * from './i18n';
 export * from './utils';
@@ -9,6 +9,8 @@ import * as SecureStore from 'expo-secure-store';
 export interface SecureStorageOptions {
   requireAuthentication?: boolean;
   accessGroup?: string;
+  // When the keychain lets the item be read (iOS)
+  keychainAccessible?: SecureStore.KeychainAccessibilityConstant;
 }
 
 class SecureStorage {
@@ -32,6 +34,7 @@ class SecureStorage {
       await SecureStore.setItemAsync(secureKey, serializedValue, {
         requireAuthentication: options.requireAuthentication || false,
         accessGroup: options.accessGroup,
+        keychainAccessible: options.keychainAccessible,
       });
     } catch (error) {
       console.error('SecureStorage: Failed to store item', error);
@@ -39,6 +42,23 @@ class SecureStorage {
     }
   }
 
+  /**
+   * Store data under a different access requirement than it had before.
+   * The keychain keeps an item's access control when it is updated, so the
+   * old item is deleted first.
+   * @param key - Storage key
+   * @param value - Value to store
+   * @param options - Additional security options
+   */
+  async replaceItem<T>(
+    key: string,
+    value: T,
+    options: SecureStorageOptions = {}
+  ): Promise<void> {
+    await this.removeItem(key);
+    await this.setItem(key, value, options);
+  }
+
   /**
    * Retrieve data from secure storage
    * @param key - Storage key
@@ -58,6 +78,24 @@ class SecureStorage {
     }
   }
 
+  /**
+   * Read an item stored with `requireAuthentication` through the system's
+   * biometric prompt. Unlike `getItem`, failures such as a cancelled
+   * prompt are thrown, since null here also means the system invalidated
+   * the item because the enrolled biometrics changed.
+   * @param key - Storage key
+   * @param prompt - Shown in the biometric prompt
+   * @returns Stored value, or null if missing or invalidated
+   */
+  async getProtectedItem<T>(key: string, prompt: string): Promise<T | null> {
+    const value = await SecureStore.getItemAsync(this.keyPrefix + key, {
+      requireAuthentication: true,
+      authenticationPrompt: prompt,
+    });
+
+    return value === null ? null : (JSON.parse(value) as T);
+  }
+
   /**
    * Remove item from secure storage
    * @param key - Storage key
@@ -130,6 +168,9 @@ class SecureStorage {
         'device_secret',
         'refresh_token',
         'access_token',
+        'biometric_credentials',
+        'biometric_account',
+        'biometric_reenroll_account',
       ];
 
       for (const key of keys) {
@@ -164,8 +205,12 @@ export const secureTokenStorage = {
    * Store authentication tokens securely
    */
   async setTokens(tokens: SecureTokens): Promise<void> {
-    await secureStorage.setItem('auth_tokens', tokens, {
-      requireAuthentication: true, // Require biometric/passcode for access
+    // Every refresh rotates these, so behind a biometric prompt they would
+    // prompt every few minutes. They stay on this device and can't be read
+    // while it is locked; the long-lived biometric sign-in token is the one
+    // behind the prompt. Replacing also changes the access of older items.
+    await secureStorage.replaceItem('auth_tokens', tokens, {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
     });
   },
 